@@ -11,6 +11,7 @@ import BudgetsPage from './pages/BudgetsPage';
 import InsightsPage from './pages/InsightsPage';
 import GoalsPage from './pages/GoalsPage';
 import SettingsPage from './pages/SettingsPage';
+import TrashPage from './pages/TrashPage';
 
 import LoginPage from './pages/LoginPage';
 import ChangePasswordPage from './pages/ChangePasswordPage';
@@ -30,18 +31,31 @@ import { useTransactionStore } from './store/useTransactionStore';
 import { useLoanStore } from './store/useLoanStore';
 import { useSubscriptionStore } from './store/useSubscriptionStore';
 import { useBudgetStore } from './store/useBudgetStore';
+import { useFxStore } from './store/useFxStore';
 import { useGoalStore } from './store/useGoalStore';
 import { useCreditCardStore } from './store/useCreditCardStore';
+import { purgeExpiredTrash } from './store/useTrashStore';
 import { processRecurringRules } from './core/recurring';
-import { applyTheme } from './store/useUIStore';
+import { startSync } from './core/sync';
+import { startFileUploads } from './core/files';
+import { sweepRetiredFiles } from './core/attachments';
+import { startLiveUpdates, stopLiveUpdates } from './core/live';
+import { getStorage } from './core/storage';
+import { applyTheme, useLocalePrefs } from './store/useUIStore';
+import { useSchemaStore } from './store/useSchemaStore';
+import { useHistoryStore } from './store/useHistoryStore';
+import { useVaultStore } from './store/useVaultStore';
+import VaultGate from './components/layout/VaultGate';
 
 // ── App initialisation ────────────────────────────────────────────────────────
 
 function useAppInit() {
   const initSession = useAuthStore((s) => s.initSession);
   const user = useAuthStore((s) => s.user);
+  // Unknown until checked, and unwritable while locked
+  const vaultReady = useVaultStore((s) => s.status === 'off' || s.status === 'unlocked');
 
-  // Apply theme and restore session on first render
+  // Apply theme, restore session and check the database schema on first render
   useEffect(() => {
     const raw = localStorage.getItem('pl_settings');
     if (raw) {
@@ -55,12 +69,15 @@ function useAppInit() {
       applyTheme('dark');
     }
     void initSession();
+    void useSchemaStore.getState().check();
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
   // Clear all store data when user logs out to prevent data leaking to the next user
   useEffect(() => {
     if (!user) {
+      stopLiveUpdates();
+      useVaultStore.getState().lock();
       useAccountStore.setState({ accounts: [] });
       useTransactionStore.setState({ transactions: [] });
       useLoanStore.setState({ loans: [] });
@@ -68,38 +85,65 @@ function useAppInit() {
       useBudgetStore.setState({ budgets: [] });
       useGoalStore.setState({ goals: [] });
       useCreditCardStore.setState({ cards: [] });
+      useFxStore.setState({ rates: [] });
+      useHistoryStore.getState().clear();
     }
   }, [user]);
 
-  // After a regular user logs in, seed their default account and generate recurring transactions
+  // After a regular user logs in, start background sync, attachment uploads and live updates
   useEffect(() => {
     if (user?.role === 'user') {
-      void seedDefaultAccount();
-      void processRecurringRules();
+      void useVaultStore.getState().check();
+      const { backend } = getStorage();
+      if (backend === 'local-first') startSync();
+      startFileUploads();
+      startLiveUpdates(user.id, backend);
     }
   // user?.id changes when a different user logs in; role stays stable
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [user?.id]);
+
+  // Once their data is readable and writable, seed the default account, generate recurring
+  // transactions, empty out trash older than the retention period, delete
+  // files set aside while signed out and load the exchange rates every
+  // page's totals depend on
+  useEffect(() => {
+    if (user?.role === 'user' && vaultReady) {
+      void useFxStore.getState().load();
+      void seedDefaultAccount();
+      void processRecurringRules();
+      purgeExpiredTrash().catch((err) => console.warn('[Trash] Auto-purge failed:', err));
+      sweepRetiredFiles(user.id).catch((err) => console.warn('[Files] Could not delete retired attachments:', err));
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user?.id, vaultReady]);
 }
 
 // ── Protected user shell ──────────────────────────────────────────────────────
 
 function UserApp() {
+  // Formatters read the locale preferences outside React, so redraw every
+  // page when they change
+  useLocalePrefs();
+
   return (
     <AuthGuard>
       <AppShell>
-        <Routes>
-          <Route path="/" element={<Navigate to="/dashboard" replace />} />
-          <Route path="/dashboard" element={<DashboardPage />} />
-          <Route path="/transactions" element={<TransactionsPage />} />
-          <Route path="/loans" element={<LoansPage />} />
-          <Route path="/credit-cards" element={<CreditCardsPage />} />
-          <Route path="/subscriptions" element={<SubscriptionsPage />} />
-          <Route path="/budgets" element={<BudgetsPage />} />
-          <Route path="/insights" element={<InsightsPage />} />
-          <Route path="/goals" element={<GoalsPage />} />
-          <Route path="/settings" element={<SettingsPage />} />
-        </Routes>
+        <VaultGate>
+          <Routes>
+            <Route path="/" element={<Navigate to="/dashboard" replace />} />
+            <Route path="/dashboard" element={<DashboardPage />} />
+            <Route path="/transactions" element={<TransactionsPage />} />
+            <Route path="/loans" element={<LoansPage />} />
+            <Route path="/credit-cards" element={<CreditCardsPage />} />
+            <Route path="/subscriptions" element={<SubscriptionsPage />} />
+            <Route path="/budgets" element={<BudgetsPage />} />
+            <Route path="/insights" element={<InsightsPage />} />
+            <Route path="/goals" element={<GoalsPage />} />
+            <Route path="/settings" element={<SettingsPage />} />
+            <Route path="/trash" element={<TrashPage />} />
+          </Routes>
+        </VaultGate>
       </AppShell>
     </AuthGuard>
   );
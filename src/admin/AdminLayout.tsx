@@ -2,6 +2,8 @@ import { useState } from 'react';
 import type { ReactElement } from 'react';
 import { NavLink, useLocation, useNavigate } from 'react-router-dom';
 import { useAuthStore } from '../auth/useAuthStore';
+import { useSchemaStore } from '../store/useSchemaStore';
+import { migrationFile } from '../core/schema';
 
 // ── Icon components ────────────────────────────────────────────────────────
 
@@ -264,6 +266,30 @@ function SidebarContent({ onNavigate }: SidebarContentProps) {
   );
 }
 
+// ── Pending migrations banner ──────────────────────────────────────────────
+
+function PendingMigrationsBanner() {
+  const pending = useSchemaStore((s) => s.pending);
+  if (pending.length === 0) return null;
+
+  return (
+    <div className="mb-4 rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800" role="alert">
+      <p className="font-semibold">
+        The database schema is out of date ({pending.length} migration{pending.length === 1 ? '' : 's'} pending)
+      </p>
+      <p className="mt-1 text-amber-700">
+        Run these files from <code className="font-mono text-xs">supabase/migrations</code> in the Supabase SQL
+        Editor, in this order:
+      </p>
+      <ul className="mt-2 space-y-0.5 font-mono text-xs">
+        {pending.map((m) => (
+          <li key={m.version}>{migrationFile(m)}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
 // ── AdminLayout ────────────────────────────────────────────────────────────
 
 export default function AdminLayout({ children }: { children: React.ReactNode }) {
@@ -354,6 +380,7 @@ export default function AdminLayout({ children }: { children: React.ReactNode })
 
         {/* ── Page content ── */}
         <main className="flex-1 p-4 md:p-6 overflow-x-hidden">
+          <PendingMigrationsBanner />
           {children}
         </main>
       </div>
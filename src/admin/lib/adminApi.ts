@@ -39,6 +39,17 @@ export interface ActivityLog {
   createdAt: string;
 }
 
+export interface ChangeRecord {
+  id: string;
+  tableName: string;
+  rowId: string;
+  action: 'add' | 'update' | 'remove' | 'restore' | 'purge';
+  /** Keyed by column name; only columns that changed. */
+  changes: Record<string, { from: unknown; to: unknown }>;
+  actorUsername?: string;
+  createdAt: string;
+}
+
 export interface UserDetail {
   user: AdminUser;
   accounts: Record<string, unknown>[];
@@ -99,6 +110,16 @@ type RawUserDetail = {
   credit_cards: Record<string, unknown>[];
 };
 
+type RawChangeRecord = {
+  id: string;
+  table_name: string;
+  row_id: string;
+  action: ChangeRecord['action'];
+  changes: ChangeRecord['changes'] | null;
+  actor_username?: string | null;
+  created_at: string;
+};
+
 type MutationResult = {
   success: boolean;
   error?: string;
@@ -224,6 +245,38 @@ export async function getUserDetail(userId: string): Promise<UserDetail> {
   };
 }
 
+export async function getUserHistory(userId: string, limit?: number): Promise<ChangeRecord[]> {
+  const p_admin_token = getSessionToken();
+
+  const params: { p_admin_token: string; p_user_id: string; p_limit?: number } = {
+    p_admin_token,
+    p_user_id: userId,
+  };
+  if (limit !== undefined) {
+    params.p_limit = limit;
+  }
+
+  const { data, error } = await supabase.rpc('admin_get_user_history', params);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  if (!Array.isArray(data)) {
+    return [];
+  }
+
+  return (data as RawChangeRecord[]).map((raw) => ({
+    id: raw.id,
+    tableName: raw.table_name,
+    rowId: raw.row_id,
+    action: raw.action,
+    changes: raw.changes ?? {},
+    actorUsername: raw.actor_username ?? undefined,
+    createdAt: raw.created_at,
+  }));
+}
+
 export async function createUser(params: {
   username: string;
   password: string;
@@ -2,6 +2,7 @@ import { useState, useEffect, useMemo } from 'react';
 import AdminLayout from '../AdminLayout';
 import { getActivityLogs } from '../../admin/lib/adminApi';
 import type { ActivityLog } from '../../admin/lib/adminApi';
+import { formatDateTime } from '../../core/locale';
 
 // ── CSV export ────────────────────────────────────────────────────────────
 
@@ -36,14 +37,6 @@ function downloadBlob(content: string, filename: string, mimeType: string) {
 
 // ── Formatting ────────────────────────────────────────────────────────────
 
-function formatDateTime(raw: string): string {
-  const d = new Date(raw);
-  return (
-    d.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' }) +
-    ' ' +
-    d.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false })
-  );
-}
 
 // ── Action badge ──────────────────────────────────────────────────────────
 
@@ -2,14 +2,13 @@ import { useEffect, useState } from 'react';
 import AdminLayout from '../AdminLayout';
 import { getDashboardStats } from '../../admin/lib/adminApi';
 import type { DashboardStats, ActivityLog } from '../../admin/lib/adminApi';
+import { formatCurrency as formatMoney } from '../../core/types';
+import { formatDate, formatNumber } from '../../core/locale';
 
 // ── Helpers ────────────────────────────────────────────────────────────────
 
 function formatCurrency(minorUnits: number): string {
-  return new Intl.NumberFormat('en-GB', {
-    style: 'currency',
-    currency: 'GBP',
-  }).format(minorUnits / 100);
+  return formatMoney(minorUnits, 'GBP');
 }
 
 function formatRelativeTime(isoString: string): string {
@@ -25,20 +24,11 @@ function formatRelativeTime(isoString: string): string {
   if (diffMins < 60) return `${diffMins} minute${diffMins === 1 ? '' : 's'} ago`;
   if (diffHours < 24) return `${diffHours} hour${diffHours === 1 ? '' : 's'} ago`;
   if (diffDays < 7) return `${diffDays} day${diffDays === 1 ? '' : 's'} ago`;
-  return new Date(isoString).toLocaleDateString('en-GB', {
-    day: 'numeric',
-    month: 'short',
-    year: 'numeric',
-  });
+  return formatDate(isoString);
 }
 
 function formatTodayDate(): string {
-  return new Date().toLocaleDateString('en-GB', {
-    weekday: 'long',
-    day: 'numeric',
-    month: 'long',
-    year: 'numeric',
-  });
+  return formatDate(new Date(), 'full');
 }
 
 // ── Icons ──────────────────────────────────────────────────────────────────
@@ -327,25 +317,25 @@ export default function AdminDashboardPage() {
     ? [
         {
           label: 'Total Users',
-          value: stats.totalUsers.toLocaleString('en-GB'),
+          value: formatNumber(stats.totalUsers),
           icon: <IconUsers className="h-5 w-5 text-blue-600" />,
           iconBg: 'bg-blue-50',
         },
         {
           label: 'Active Users',
-          value: stats.activeUsers.toLocaleString('en-GB'),
+          value: formatNumber(stats.activeUsers),
           icon: <IconCheckCircle className="h-5 w-5 text-green-600" />,
           iconBg: 'bg-green-50',
         },
         {
           label: 'Disabled Users',
-          value: stats.disabledUsers.toLocaleString('en-GB'),
+          value: formatNumber(stats.disabledUsers),
           icon: <IconXCircle className="h-5 w-5 text-red-600" />,
           iconBg: 'bg-red-50',
         },
         {
           label: 'Total Transactions',
-          value: stats.totalTransactions.toLocaleString('en-GB'),
+          value: formatNumber(stats.totalTransactions),
           icon: <IconList className="h-5 w-5 text-purple-600" />,
           iconBg: 'bg-purple-50',
         },
@@ -363,7 +353,7 @@ export default function AdminDashboardPage() {
         },
         {
           label: 'Scheduled Payments',
-          value: stats.totalScheduled.toLocaleString('en-GB'),
+          value: formatNumber(stats.totalScheduled),
           icon: <IconClock className="h-5 w-5 text-amber-600" />,
           iconBg: 'bg-amber-50',
         },
@@ -6,6 +6,8 @@ import {
   getDashboardStats,
 } from '../../admin/lib/adminApi';
 import type { AdminUser, DashboardStats } from '../../admin/lib/adminApi';
+import { formatAmount } from '../../core/types';
+import { formatNumber } from '../../core/locale';
 
 // ── Export helpers ────────────────────────────────────────────────────────
 
@@ -268,7 +270,7 @@ export default function AdminReportsPage() {
             category: row.category ?? '',
             merchant: row.merchant ?? '',
             notes: row.notes ?? '',
-            amount: ((row.amount_minor_units ?? 0) / 100).toFixed(2),
+            amount: formatAmount(row.amount_minor_units ?? 0, row.currency || 'GBP'),
             currency: row.currency ?? '',
             status: row.status ?? '',
           } as Record<string, unknown>;
@@ -469,11 +471,11 @@ export default function AdminReportsPage() {
                 <StatCard label="Scheduled" value={stats.totalScheduled} />
                 <StatCard
                   label="Total Income"
-                  value={`$${(stats.totalIncome / 100).toLocaleString('en-US', { minimumFractionDigits: 2 })}`}
+                  value={`$${formatNumber(stats.totalIncome / 100, { minimumFractionDigits: 2 })}`}
                 />
                 <StatCard
                   label="Total Expenses"
-                  value={`$${(stats.totalExpenses / 100).toLocaleString('en-US', { minimumFractionDigits: 2 })}`}
+                  value={`$${formatNumber(stats.totalExpenses / 100, { minimumFractionDigits: 2 })}`}
                 />
               </div>
             ) : (
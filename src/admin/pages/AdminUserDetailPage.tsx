@@ -1,8 +1,10 @@
 import { useState, useEffect, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import AdminLayout from '../AdminLayout';
-import { getUserDetail } from '../../admin/lib/adminApi';
-import type { UserDetail } from '../../admin/lib/adminApi';
+import { getUserDetail, getUserHistory } from '../../admin/lib/adminApi';
+import type { ChangeRecord, UserDetail } from '../../admin/lib/adminApi';
+import { formatAmount, formatCurrency as formatMoney } from '../../core/types';
+import { formatDate as formatDay, formatDateTime } from '../../core/locale';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 
@@ -36,16 +38,11 @@ function downloadBlob(content: string, filename: string, mimeType: string) {
 
 function fmtDate(raw: string | null | undefined): string {
   if (!raw) return '—';
-  return new Date(raw).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+  return formatDay(raw);
 }
 
 function fmtAmount(minorUnits: number | null | undefined, currency = 'GBP'): string {
-  const amount = (minorUnits ?? 0) / 100;
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: currency || 'GBP',
-    minimumFractionDigits: 2,
-  }).format(amount);
+  return formatMoney(minorUnits ?? 0, currency || 'GBP');
 }
 
 function fmtPaymentMethod(raw: string | null | undefined): string {
@@ -99,7 +96,7 @@ function exportTransactionsPdf(transactions: Record<string, unknown>[], username
   doc.setFontSize(7.5);
   doc.setFont('helvetica', 'normal');
   doc.setTextColor(180, 210, 255);
-  doc.text(`Generated ${new Date().toLocaleString()}  ·  ${transactions.length} transaction(s)`, ML, 46);
+  doc.text(`Generated ${formatDateTime(new Date())}  ·  ${transactions.length} transaction(s)`, ML, 46);
   doc.setTextColor(0, 0, 0);
 
   // ── Summary cards (4 across) ──────────────────────────────────────────────
@@ -248,7 +245,7 @@ function exportTransactionsCsv(transactions: Record<string, unknown>[], username
       category: row.category ?? '',
       merchant: row.merchant ?? '',
       notes: row.notes ?? '',
-      amount: ((row.amount_minor_units ?? 0) / 100).toFixed(2),
+      amount: formatAmount(row.amount_minor_units ?? 0, row.currency || 'GBP'),
       currency: row.currency ?? '',
       status: row.status ?? '',
       payment_method: row.payment_method ?? '',
@@ -366,20 +363,11 @@ function AchievedBadge({ achieved }: { achieved: boolean }) {
 
 function formatDate(raw: string | null | undefined): string {
   if (!raw) return '—';
-  return new Date(raw).toLocaleDateString('en-US', {
-    year: 'numeric',
-    month: 'short',
-    day: 'numeric',
-  });
+  return formatDay(raw);
 }
 
 function formatCurrency(minorUnits: number | null | undefined, currency = 'USD'): string {
-  const amount = (minorUnits ?? 0) / 100;
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: currency || 'USD',
-    minimumFractionDigits: 2,
-  }).format(amount);
+  return formatMoney(minorUnits ?? 0, currency || 'USD');
 }
 
 // ── Tabs ──────────────────────────────────────────────────────────────────
@@ -391,7 +379,8 @@ type TabId =
   | 'subscriptions'
   | 'budgets'
   | 'goals'
-  | 'credit_cards';
+  | 'credit_cards'
+  | 'history';
 
 const TABS: { id: TabId; label: string }[] = [
   { id: 'transactions', label: 'Transactions' },
@@ -401,6 +390,7 @@ const TABS: { id: TabId; label: string }[] = [
   { id: 'budgets', label: 'Budgets' },
   { id: 'goals', label: 'Goals' },
   { id: 'credit_cards', label: 'Credit Cards' },
+  { id: 'history', label: 'History' },
 ];
 
 // ── Pill filter button ────────────────────────────────────────────────────
@@ -1039,6 +1029,128 @@ function CreditCardsTab({ creditCards }: { creditCards: Record<string, unknown>[
   );
 }
 
+// ── History tab ───────────────────────────────────────────────────────────
+
+const ACTION_PILLS: Record<ChangeRecord['action'], { label: string; cls: string }> = {
+  add: { label: 'Created', cls: 'bg-green-100 text-green-700' },
+  update: { label: 'Edited', cls: 'bg-blue-100 text-blue-700' },
+  remove: { label: 'Deleted', cls: 'bg-red-100 text-red-700' },
+  restore: { label: 'Restored', cls: 'bg-amber-100 text-amber-700' },
+  purge: { label: 'Deleted permanently', cls: 'bg-slate-200 text-slate-700' },
+};
+
+const RECORD_LABELS: Record<string, string> = {
+  accounts: 'Account',
+  transactions: 'Transaction',
+  loans: 'Loan',
+  subscriptions: 'Subscription',
+  budgets: 'Budget',
+  goals: 'Goal',
+  recurring_rules: 'Recurring rule',
+  credit_cards: 'Credit card',
+};
+
+function formatColumn(column: string): string {
+  return column.replace(/_minor_units$/, '').replace(/_/g, ' ');
+}
+
+function formatChangeValue(column: string, value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (column.endsWith('_minor_units') && typeof value === 'number') return (value / 100).toFixed(2);
+  if (Array.isArray(value)) return `${value.length} item${value.length === 1 ? '' : 's'}`;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/** Current name of the changed record, if it still exists. */
+function recordName(detail: UserDetail, record: ChangeRecord): string | undefined {
+  const rows: Record<string, Record<string, unknown>[]> = {
+    accounts: detail.accounts,
+    transactions: detail.transactions,
+    loans: detail.loans,
+    subscriptions: detail.subscriptions,
+    budgets: detail.budgets,
+    goals: detail.goals,
+    credit_cards: detail.creditCards,
+  };
+  const row = rows[record.tableName]?.find((r) => r.id === record.rowId);
+  if (!row) return undefined;
+  const name = row.name ?? row.counterparty ?? row.merchant ?? row.notes ?? row.category;
+  return name == null ? undefined : String(name);
+}
+
+function HistoryTab({ userId, detail }: { userId: string; detail: UserDetail }) {
+  const [records, setRecords] = useState<ChangeRecord[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getUserHistory(userId)
+      .then(setRecords)
+      .catch((err: unknown) => setError(err instanceof Error ? err.message : 'Could not load history'));
+  }, [userId]);
+
+  if (error) return <EmptyState message={error} />;
+  if (!records) {
+    return (
+      <div className="space-y-3">
+        {[...Array(4)].map((_, i) => (
+          <SkeletonBlock key={i} className="h-8 w-full" />
+        ))}
+      </div>
+    );
+  }
+  if (records.length === 0) return <EmptyState message="No changes recorded" />;
+
+  return (
+    <TableWrapper>
+      <thead>
+        <tr>
+          <Th>When</Th>
+          <Th>Record</Th>
+          <Th>Action</Th>
+          <Th>Changes</Th>
+          <Th>By</Th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100 bg-white">
+        {records.map((r) => {
+          const pill = ACTION_PILLS[r.action];
+          const fields = r.action === 'add' ? [] : Object.entries(r.changes);
+          return (
+            <tr key={r.id} className="hover:bg-gray-50 align-top">
+              <Td>{formatDateTime(r.createdAt)}</Td>
+              <TdWrap>
+                <span className="block text-xs text-gray-400">{RECORD_LABELS[r.tableName] ?? r.tableName}</span>
+                <span className="block truncate">{recordName(detail, r) ?? r.rowId}</span>
+              </TdWrap>
+              <Td>
+                <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold ${pill.cls}`}>
+                  {pill.label}
+                </span>
+              </Td>
+              <td className="px-4 py-3 text-gray-700 text-xs">
+                {fields.length === 0 ? (
+                  <span className="text-gray-400">—</span>
+                ) : (
+                  fields.map(([column, { from, to }]) => (
+                    <p key={column}>
+                      <span className="capitalize text-gray-500">{formatColumn(column)}</span>:{' '}
+                      <span className="line-through text-gray-400">{formatChangeValue(column, from)}</span>
+                      {' → '}
+                      <span className="font-medium">{formatChangeValue(column, to)}</span>
+                    </p>
+                  ))
+                )}
+              </td>
+              <Td>{r.actorUsername ? `@${r.actorUsername}` : '—'}</Td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </TableWrapper>
+  );
+}
+
 // ── Main page ─────────────────────────────────────────────────────────────
 
 export default function AdminUserDetailPage() {
@@ -1204,6 +1316,7 @@ export default function AdminUserDetailPage() {
               {activeTab === 'credit_cards' && (
                 <CreditCardsTab creditCards={detail.creditCards} />
               )}
+              {activeTab === 'history' && <HistoryTab userId={user.id} detail={detail} />}
             </div>
           </div>
         </div>
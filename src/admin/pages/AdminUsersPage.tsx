@@ -9,6 +9,7 @@ import {
   deleteUser,
 } from '../../admin/lib/adminApi';
 import type { AdminUser } from '../../admin/lib/adminApi';
+import { formatDate, formatNumber } from '../../core/locale';
 
 // ── Password generator ─────────────────────────────────────────────────────
 
@@ -25,14 +26,6 @@ function generatePassword(): string {
 
 // ── Helpers ────────────────────────────────────────────────────────────────
 
-function formatDate(isoString: string): string {
-  return new Date(isoString).toLocaleDateString('en-GB', {
-    day: 'numeric',
-    month: 'short',
-    year: 'numeric',
-  });
-}
-
 // ── Icons ──────────────────────────────────────────────────────────────────
 
 function IconX({ className }: { className?: string }) {
@@ -1082,11 +1075,11 @@ export default function AdminUsersPage() {
                     </td>
                     {/* Transactions */}
                     <td className="px-5 py-4 text-sm text-gray-700 whitespace-nowrap tabular-nums">
-                      {user.transactionCount.toLocaleString('en-GB')}
+                      {formatNumber(user.transactionCount)}
                     </td>
                     {/* Accounts */}
                     <td className="px-5 py-4 text-sm text-gray-700 whitespace-nowrap tabular-nums">
-                      {user.accountCount.toLocaleString('en-GB')}
+                      {formatNumber(user.accountCount)}
                     </td>
                     {/* Actions */}
                     <td className="px-5 py-4 whitespace-nowrap">
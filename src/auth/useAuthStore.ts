@@ -1,5 +1,5 @@
 import { create } from 'zustand';
-import { supabase } from '../core/supabase';
+import { supabase, setRequestSession } from '../core/supabase';
 
 // ── Types ──────────────────────────────────────────────────────────────────────
 
@@ -230,6 +230,9 @@ export const useAuthStore = create<AuthState & AuthActions>((set, get) => ({
   },
 }));
 
+// Every request carries the current session so the database can scope rows to it
+useAuthStore.subscribe((s) => setRequestSession(s.sessionToken));
+
 // ── Standalone helpers ─────────────────────────────────────────────────────────
 
 /**
@@ -1,8 +1,11 @@
 import { useEffect, useState } from 'react';
 import { PieChart, Pie, Cell, Tooltip, ResponsiveContainer, Legend } from 'recharts';
-import { startOfMonth, endOfMonth, isWithinInterval } from 'date-fns';
+import { addMonths, format, startOfMonth } from 'date-fns';
 import { db } from '../../core/db';
-import { toMajor } from '../../core/types';
+import { getCurrentUserId } from '../../auth/useAuthStore';
+import { formatCurrency, toMajor, toMinor } from '../../core/types';
+import { useConverter } from '../../store/useFxStore';
+import { totalsByCategory } from '../../core/fx';
 
 const COLORS = ['#0ea5e9', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#06b6d4', '#84cc16'];
 
@@ -13,36 +16,29 @@ interface Slice {
 
 export default function CategoryDonut() {
   const [slices, setSlices] = useState<Slice[]>([]);
+  const fx = useConverter();
 
   useEffect(() => {
     async function load() {
-      const now = new Date();
-      const start = startOfMonth(now);
-      const end = endOfMonth(now);
+      const start = startOfMonth(new Date());
 
       const txns = await db.transactions
-        .filter(
-          (t) =>
-            !t.deletedAt &&
-            t.type === 'expense' &&
-            isWithinInterval(new Date(t.date), { start, end }),
-        )
+        .forUser(getCurrentUserId())
+        .query()
+        .eq('type', 'expense')
+        .gte('date', format(start, 'yyyy-MM-dd'))
+        .lt('date', format(addMonths(start, 1), 'yyyy-MM-dd'))
         .toArray();
 
-      const map: Record<string, number> = {};
-      for (const t of txns) {
-        map[t.category] = (map[t.category] ?? 0) + t.amountMinorUnits;
-      }
-
-      const sliceData = Object.entries(map)
-        .map(([name, value]) => ({ name, value: toMajor(value) }))
+      const sliceData = Object.entries(totalsByCategory(fx, txns))
+        .map(([name, value]) => ({ name, value: toMajor(value, fx.base) }))
         .sort((a, b) => b.value - a.value)
         .slice(0, 6);
 
       setSlices(sliceData);
     }
     load();
-  }, []);
+  }, [fx]);
 
   if (slices.length === 0) {
     return <p className="text-slate-400 text-sm text-center py-8">No expenses this month</p>;
@@ -67,7 +63,7 @@ export default function CategoryDonut() {
           </Pie>
           <Tooltip
             contentStyle={{ backgroundColor: '#ffffff', border: '1px solid #e2e8f0', borderRadius: 8 }}
-            formatter={(value: number | undefined) => [`£${(value ?? 0).toFixed(2)}`] as [string]}
+            formatter={(value: number | undefined) => [formatCurrency(toMinor(value ?? 0, fx.base), fx.base)] as [string]}
           />
           <Legend
             iconType="circle"
@@ -35,8 +35,12 @@ import {
   isFuture as isDateFuture,
 } from 'date-fns';
 import { useTransactionStore } from '../../store/useTransactionStore';
-import { toMajor } from '../../core/types';
-import type { Transaction } from '../../core/types';
+import { formatCurrency, toMajor, toMinor } from '../../core/types';
+import type { Currency, Transaction } from '../../core/types';
+import type { Converter } from '../../core/fx';
+import { useConverter } from '../../store/useFxStore';
+import { useLocalePrefs } from '../../store/useUIStore';
+import { formatDate } from '../../core/locale';
 
 type Period = 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly' | 'custom';
 
@@ -58,18 +62,21 @@ function txnsInRange(transactions: Transaction[], start: Date, end: Date) {
   );
 }
 
-function sumByType(txns: Transaction[], type: 'income' | 'expense') {
+// In the base currency; chart values are major units
+function sumByType(txns: Transaction[], type: 'income' | 'expense', fx: Converter) {
   return toMajor(
-    txns.filter((t) => t.type === type).reduce((s, t) => s + t.amountMinorUnits, 0),
+    txns.filter((t) => t.type === type).reduce((s, t) => s + (fx.toBase(t.amountMinorUnits, t.currency, t.date) ?? 0), 0),
+    fx.base,
   );
 }
 
 // ── custom tooltip ─────────────────────────────────────────────────────────────
 
-function CustomTooltip({ active, payload, label }: {
+function CustomTooltip({ active, payload, label, currency = 'GBP' }: {
   active?: boolean;
   payload?: Array<{ dataKey: string; value: number; color: string }>;
   label?: string;
+  currency?: Currency;
 }) {
   if (!active || !payload?.length) return null;
   const map: Record<string, string> = {
@@ -83,7 +90,7 @@ function CustomTooltip({ active, payload, label }: {
         <div key={entry.dataKey} className="flex items-center gap-2 text-xs">
           <span className="w-2 h-2 rounded-full shrink-0" style={{ background: entry.color }} />
           <span className="text-slate-500">{map[entry.dataKey] ?? entry.dataKey}:</span>
-          <span className="text-slate-900 font-medium ml-auto pl-3">£{(entry.value ?? 0).toFixed(2)}</span>
+          <span className="text-slate-900 font-medium ml-auto pl-3">{formatCurrency(toMinor(entry.value ?? 0, currency), currency)}</span>
         </div>
       ))}
     </div>
@@ -94,6 +101,9 @@ function CustomTooltip({ active, payload, label }: {
 
 export default function NetBalanceChart() {
   const transactions = useTransactionStore((s) => s.transactions);
+  const fx = useConverter();
+  // Labels are formatted in the memo below, so it reruns when these change
+  const prefs = useLocalePrefs();
   const [period, setPeriod] = useState<Period>('daily');
   const [showComparison, setShowComparison] = useState(false);
   const [menuOpen, setMenuOpen] = useState(false);
@@ -128,7 +138,7 @@ export default function NetBalanceChart() {
     const points: ChartPoint[] = [];
 
     if (period === 'daily') {
-      const weekStart = startOfWeek(now, { weekStartsOn: 1 });
+      const weekStart = startOfWeek(now, { weekStartsOn: prefs.weekStartsOn });
       for (let i = 0; i < 7; i++) {
         const day = addDays(weekStart, i);
         const txns = txnsInRange(transactions, startOfDay(day), endOfDay(day));
@@ -139,15 +149,15 @@ export default function NetBalanceChart() {
         if (showComparison) {
           const same = subDays(day, 7);
           const past = txnsInRange(transactions, startOfDay(same), endOfDay(same));
-          pastIncome = sumByType(past, 'income');
-          pastExpenses = sumByType(past, 'expense');
+          pastIncome = sumByType(past, 'income', fx);
+          pastExpenses = sumByType(past, 'expense', fx);
         }
 
         points.push({
-          label: format(day, 'EEE'),
-          displayDate: format(day, 'EEEE, MMM d'),
-          income: sumByType(txns, 'income'),
-          expenses: sumByType(txns, 'expense'),
+          label: formatDate(day, 'weekday'),
+          displayDate: formatDate(day, 'weekdayLong'),
+          income: sumByType(txns, 'income', fx),
+          expenses: sumByType(txns, 'expense', fx),
           isFutureDay: futureDay,
           pastIncome,
           pastExpenses,
@@ -157,25 +167,25 @@ export default function NetBalanceChart() {
     } else if (period === 'weekly') {
       for (let i = 7; i >= 0; i--) {
         const wDate = subWeeks(now, i);
-        const start = startOfWeek(wDate, { weekStartsOn: 1 });
-        const end = endOfWeek(wDate, { weekStartsOn: 1 });
+        const start = startOfWeek(wDate, { weekStartsOn: prefs.weekStartsOn });
+        const end = endOfWeek(wDate, { weekStartsOn: prefs.weekStartsOn });
         const txns = txnsInRange(transactions, start, end);
 
         let pastIncome: number | undefined;
         let pastExpenses: number | undefined;
         if (showComparison) {
-          const pStart = startOfWeek(subWeeks(wDate, 8), { weekStartsOn: 1 });
-          const pEnd = endOfWeek(subWeeks(wDate, 8), { weekStartsOn: 1 });
+          const pStart = startOfWeek(subWeeks(wDate, 8), { weekStartsOn: prefs.weekStartsOn });
+          const pEnd = endOfWeek(subWeeks(wDate, 8), { weekStartsOn: prefs.weekStartsOn });
           const past = txnsInRange(transactions, pStart, pEnd);
-          pastIncome = sumByType(past, 'income');
-          pastExpenses = sumByType(past, 'expense');
+          pastIncome = sumByType(past, 'income', fx);
+          pastExpenses = sumByType(past, 'expense', fx);
         }
 
         points.push({
-          label: format(start, 'MMM d'),
-          displayDate: `Week of ${format(start, 'MMM d')}`,
-          income: sumByType(txns, 'income'),
-          expenses: sumByType(txns, 'expense'),
+          label: formatDate(start, 'dayMonth'),
+          displayDate: `Week of ${formatDate(start, 'dayMonth')}`,
+          income: sumByType(txns, 'income', fx),
+          expenses: sumByType(txns, 'expense', fx),
           pastIncome,
           pastExpenses,
         });
@@ -191,15 +201,15 @@ export default function NetBalanceChart() {
         if (showComparison) {
           const pDate = subMonths(mDate, 6);
           const past = txnsInRange(transactions, startOfMonth(pDate), endOfMonth(pDate));
-          pastIncome = sumByType(past, 'income');
-          pastExpenses = sumByType(past, 'expense');
+          pastIncome = sumByType(past, 'income', fx);
+          pastExpenses = sumByType(past, 'expense', fx);
         }
 
         points.push({
-          label: format(mDate, 'MMM'),
-          displayDate: format(mDate, 'MMMM yyyy'),
-          income: sumByType(txns, 'income'),
-          expenses: sumByType(txns, 'expense'),
+          label: formatDate(mDate, 'month'),
+          displayDate: formatDate(mDate, 'monthYear'),
+          income: sumByType(txns, 'income', fx),
+          expenses: sumByType(txns, 'expense', fx),
           pastIncome,
           pastExpenses,
         });
@@ -216,15 +226,15 @@ export default function NetBalanceChart() {
         if (showComparison) {
           const pDate = subQuarters(qDate, 6);
           const past = txnsInRange(transactions, startOfQuarter(pDate), endOfQuarter(pDate));
-          pastIncome = sumByType(past, 'income');
-          pastExpenses = sumByType(past, 'expense');
+          pastIncome = sumByType(past, 'income', fx);
+          pastExpenses = sumByType(past, 'expense', fx);
         }
 
         points.push({
           label: `Q${q} '${format(qDate, 'yy')}`,
           displayDate: `Q${q} ${format(qDate, 'yyyy')}`,
-          income: sumByType(txns, 'income'),
-          expenses: sumByType(txns, 'expense'),
+          income: sumByType(txns, 'income', fx),
+          expenses: sumByType(txns, 'expense', fx),
           pastIncome,
           pastExpenses,
         });
@@ -240,15 +250,15 @@ export default function NetBalanceChart() {
         if (showComparison) {
           const pDate = subYears(yDate, 4);
           const past = txnsInRange(transactions, startOfYear(pDate), endOfYear(pDate));
-          pastIncome = sumByType(past, 'income');
-          pastExpenses = sumByType(past, 'expense');
+          pastIncome = sumByType(past, 'income', fx);
+          pastExpenses = sumByType(past, 'expense', fx);
         }
 
         points.push({
           label: format(yDate, 'yyyy'),
           displayDate: format(yDate, 'yyyy'),
-          income: sumByType(txns, 'income'),
-          expenses: sumByType(txns, 'expense'),
+          income: sumByType(txns, 'income', fx),
+          expenses: sumByType(txns, 'expense', fx),
           pastIncome,
           pastExpenses,
         });
@@ -266,25 +276,25 @@ export default function NetBalanceChart() {
           const day = addDays(rangeStart, i);
           const txns = txnsInRange(transactions, startOfDay(day), endOfDay(day));
           points.push({
-            label: dayCount <= 7 ? format(day, 'EEE') : format(day, 'MMM d'),
-            displayDate: format(day, 'EEEE, MMM d'),
-            income: sumByType(txns, 'income'),
-            expenses: sumByType(txns, 'expense'),
+            label: dayCount <= 7 ? formatDate(day, 'weekday') : formatDate(day, 'dayMonth'),
+            displayDate: formatDate(day, 'weekdayLong'),
+            income: sumByType(txns, 'income', fx),
+            expenses: sumByType(txns, 'expense', fx),
             isFutureDay: isDateFuture(endOfDay(day)),
           });
         }
       } else if (dayCount <= 365) {
-        let current = startOfWeek(rangeStart, { weekStartsOn: 1 });
+        let current = startOfWeek(rangeStart, { weekStartsOn: prefs.weekStartsOn });
         while (!isAfter(current, rangeEnd)) {
-          const weekEnd = endOfWeek(current, { weekStartsOn: 1 });
+          const weekEnd = endOfWeek(current, { weekStartsOn: prefs.weekStartsOn });
           const sliceStart = isBefore(current, rangeStart) ? rangeStart : current;
           const sliceEnd = isAfter(weekEnd, rangeEnd) ? rangeEnd : weekEnd;
           const txns = txnsInRange(transactions, startOfDay(sliceStart), endOfDay(sliceEnd));
           points.push({
-            label: format(sliceStart, 'MMM d'),
-            displayDate: `Week of ${format(sliceStart, 'MMM d')}`,
-            income: sumByType(txns, 'income'),
-            expenses: sumByType(txns, 'expense'),
+            label: formatDate(sliceStart, 'dayMonth'),
+            displayDate: `Week of ${formatDate(sliceStart, 'dayMonth')}`,
+            income: sumByType(txns, 'income', fx),
+            expenses: sumByType(txns, 'expense', fx),
           });
           current = addDays(weekEnd, 1);
         }
@@ -296,10 +306,10 @@ export default function NetBalanceChart() {
           const sliceEnd = isAfter(monthEnd, rangeEnd) ? rangeEnd : monthEnd;
           const txns = txnsInRange(transactions, startOfDay(sliceStart), endOfDay(sliceEnd));
           points.push({
-            label: format(current, 'MMM yy'),
-            displayDate: format(current, 'MMMM yyyy'),
-            income: sumByType(txns, 'income'),
-            expenses: sumByType(txns, 'expense'),
+            label: formatDate(current, 'monthShortYear'),
+            displayDate: formatDate(current, 'monthYear'),
+            income: sumByType(txns, 'income', fx),
+            expenses: sumByType(txns, 'expense', fx),
           });
           current = addDays(monthEnd, 1);
         }
@@ -309,13 +319,13 @@ export default function NetBalanceChart() {
     // daily is already Mon→Sun, all other periods reverse so most-recent is on the RIGHT
     if (period !== 'daily') points.reverse();
     return points;
-  }, [transactions, period, showComparison, customStart, customEnd]);
+  }, [transactions, period, showComparison, customStart, customEnd, fx, prefs]);
 
   // Auto-select today bar after daily data computes
   useEffect(() => {
     if (period === 'daily' && data.length > 0 && !autoSelectedRef.current) {
       autoSelectedRef.current = true;
-      const todayLabel = format(new Date(), 'EEE');
+      const todayLabel = formatDate(new Date(), 'weekday');
       if (data.some((d) => d.label === todayLabel)) {
         setSelectedLabel(todayLabel);
       }
@@ -331,7 +341,7 @@ export default function NetBalanceChart() {
   const summaryLabel = (() => {
     if (selectedPoint) return selectedPoint.displayDate;
     if (period === 'custom' && customStart && customEnd) {
-      return `${format(parseISO(customStart), 'MMM d')} – ${format(parseISO(customEnd), 'MMM d, yyyy')}`;
+      return `${formatDate(customStart, 'dayMonth')} – ${formatDate(customEnd, 'medium')}`;
     }
     return { daily: 'This week', weekly: '8-week total', monthly: '6-month total', quarterly: '6-quarter total', yearly: '4-year total', custom: 'Custom range' }[period];
   })();
@@ -399,7 +409,7 @@ export default function NetBalanceChart() {
           {period === 'custom' && customStart && customEnd && (
             <div className="flex items-center gap-1.5 px-2.5 py-1 bg-sky-50 border border-sky-300 rounded-lg">
               <span className="text-xs font-medium text-sky-300">
-                {format(parseISO(customStart), 'MMM d')} – {format(parseISO(customEnd), 'MMM d')}
+                {formatDate(customStart, 'dayMonth')} – {formatDate(customEnd, 'dayMonth')}
               </span>
               <button
                 onClick={clearCustomRange}
@@ -525,8 +535,8 @@ export default function NetBalanceChart() {
           >
             <CartesianGrid strokeDasharray="2 4" stroke="#e2e8f0" vertical={false} />
             <XAxis dataKey="label" tick={{ fill: '#64748b', fontSize: 10 }} axisLine={false} tickLine={false} interval={0} />
-            <YAxis tick={{ fill: '#64748b', fontSize: 10 }} axisLine={false} tickLine={false} tickFormatter={(v) => `£${v}`} width={44} />
-            <Tooltip content={<CustomTooltip />} cursor={{ fill: '#f1f5f980', radius: 4 }} />
+            <YAxis tick={{ fill: '#64748b', fontSize: 10 }} axisLine={false} tickLine={false} tickFormatter={(v) => formatCurrency(toMinor(v, fx.base), fx.base, true)} width={44} />
+            <Tooltip content={<CustomTooltip currency={fx.base} />} cursor={{ fill: '#f1f5f980', radius: 4 }} />
 
             {showComparison && (
               <>
@@ -580,7 +590,7 @@ export default function NetBalanceChart() {
           <div>
             <p className="text-xs text-slate-400 uppercase tracking-widest font-medium">Income</p>
             <p className="text-2xl font-bold text-emerald-600 tabular-nums mt-1">
-              £{displayIncome.toFixed(2)}
+              {formatCurrency(toMinor(displayIncome, fx.base), fx.base)}
             </p>
             {selectedPoint?.isFutureDay && (
               <p className="text-xs text-sky-600 mt-0.5">Scheduled</p>
@@ -589,7 +599,7 @@ export default function NetBalanceChart() {
           <div>
             <p className="text-xs text-slate-400 uppercase tracking-widest font-medium">Expenses</p>
             <p className="text-2xl font-bold text-red-600 tabular-nums mt-1">
-              £{displayExpenses.toFixed(2)}
+              {formatCurrency(toMinor(displayExpenses, fx.base), fx.base)}
             </p>
           </div>
         </div>
@@ -1,6 +1,7 @@
-import { addDays, format, isWithinInterval } from 'date-fns';
+import { addDays, isWithinInterval } from 'date-fns';
 import { useSubscriptionStore } from '../../store/useSubscriptionStore';
 import { formatCurrency } from '../../core/types';
+import { formatDate } from '../../core/locale';
 
 export default function UpcomingBills() {
   const { subscriptions } = useSubscriptionStore();
@@ -27,7 +28,7 @@ export default function UpcomingBills() {
           <div>
             <p className="text-sm font-medium text-slate-800">{sub.name}</p>
             <p className="text-xs text-slate-400">
-              Due {format(new Date(sub.nextBillingDate), 'EEE d MMM')}
+              Due {formatDate(sub.nextBillingDate, 'weekdayDayMonth')}
             </p>
           </div>
           <span className="text-sm font-semibold text-amber-600">
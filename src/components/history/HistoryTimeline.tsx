@@ -0,0 +1,91 @@
+import { useEffect, useState } from 'react';
+import { getHistory } from '../../core/audit';
+import type { ChangeAction, ChangeLogEntry } from '../../core/types';
+import { formatCurrency } from '../../core/types';
+import { formatDateTime } from '../../core/locale';
+import { getCurrentUserId } from '../../auth/useAuthStore';
+
+const ACTION_LABELS: Record<ChangeAction, string> = {
+  add: 'Created',
+  update: 'Edited',
+  remove: 'Deleted',
+  restore: 'Restored',
+  purge: 'Deleted permanently',
+};
+
+const ACTION_DOTS: Record<ChangeAction, string> = {
+  add: 'bg-emerald-400',
+  update: 'bg-sky-400',
+  remove: 'bg-red-400',
+  restore: 'bg-amber-400',
+  purge: 'bg-slate-400',
+};
+
+function label(column: string): string {
+  const words = column.replace(/_minor_units$/, '').split('_');
+  return words.map((w, i) => (i === 0 ? w[0].toUpperCase() + w.slice(1) : w)).join(' ');
+}
+
+function formatValue(column: string, value: unknown, currency?: string): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (column.endsWith('_minor_units') && typeof value === 'number') return formatCurrency(value, currency);
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return `${value.length} item${value.length === 1 ? '' : 's'}`;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+interface HistoryTimelineProps {
+  table: string;
+  rowId: string;
+  /** The record's `updatedAt`; the history reloads whenever it moves. */
+  version?: string;
+  /** Currency for amount columns. */
+  currency?: string;
+}
+
+/** Field-level change history of one record, newest first. */
+export default function HistoryTimeline({ table, rowId, version, currency }: HistoryTimelineProps) {
+  const [entries, setEntries] = useState<ChangeLogEntry[] | null>(null);
+  const [failed, setFailed] = useState(false);
+  const userId = getCurrentUserId();
+
+  useEffect(() => {
+    let cancelled = false;
+    getHistory(userId, table, rowId)
+      .then((history) => { if (!cancelled) setEntries(history); })
+      .catch(() => { if (!cancelled) setFailed(true); });
+    return () => { cancelled = true; };
+  }, [userId, table, rowId, version]);
+
+  if (failed) return <p className="text-xs text-slate-400 italic">History is unavailable right now.</p>;
+  if (!entries) return <p className="text-xs text-slate-400">Loading history…</p>;
+  if (entries.length === 0) return <p className="text-xs text-slate-400 italic">No changes recorded yet.</p>;
+
+  return (
+    <ol className="space-y-3">
+      {entries.map((entry) => (
+        <li key={entry.id} className="flex gap-3">
+          <span className={`mt-1.5 w-1.5 h-1.5 rounded-full shrink-0 ${ACTION_DOTS[entry.action]}`} />
+          <div className="min-w-0 flex-1">
+            <p className="text-xs text-slate-700">
+              <span className="font-semibold">{ACTION_LABELS[entry.action]}</span>
+              <span className="text-slate-400"> · {formatDateTime(entry.createdAt)}</span>
+              {entry.actorId && entry.actorId !== userId && (
+                <span className="text-slate-400"> · by another account</span>
+              )}
+            </p>
+            {entry.action !== 'add' && Object.entries(entry.changes).map(([column, { from, to }]) => (
+              <p key={column} className="text-xs text-slate-500 truncate">
+                {label(column)}:{' '}
+                <span className="line-through text-slate-400">{formatValue(column, from, currency)}</span>
+                {' → '}
+                <span className="text-slate-700">{formatValue(column, to, currency)}</span>
+              </p>
+            ))}
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -4,6 +4,8 @@ import Sidebar from './Sidebar';
 import Header from './Header';
 import { useUIStore, applyTheme } from '../../store/useUIStore';
 import TransactionDrawer from '../transactions/TransactionDrawer';
+import ConflictDialog from './ConflictDialog';
+import UndoToast from './UndoToast';
 
 const PAGE_TITLES: Record<string, string> = {
   '/dashboard': 'Dashboard',
@@ -15,6 +17,7 @@ const PAGE_TITLES: Record<string, string> = {
   '/insights': 'Insights',
   '/goals': 'Goals',
   '/settings': 'Settings',
+  '/trash': 'Trash',
 };
 
 // ── AppShell ───────────────────────────────────────────────────────────────
@@ -85,6 +88,12 @@ export default function AppShell({ children }: { children: ReactNode }) {
         onClose={() => setShowTxnModal(false)}
         onSaved={() => setShowTxnModal(false)}
       />
+
+      {/* Edits rejected because another device changed the same record */}
+      <ConflictDialog />
+
+      {/* Undo / redo for the last data change */}
+      <UndoToast />
     </div>
   );
 }
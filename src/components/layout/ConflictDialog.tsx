@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import { useConflictStore, type Conflict } from '../../store/useConflictStore';
+
+const TABLE_LABELS: Record<string, string> = {
+  accounts: 'Account',
+  transactions: 'Transaction',
+  loans: 'Loan',
+  subscriptions: 'Subscription',
+  budgets: 'Budget',
+  goals: 'Goal',
+  recurring_rules: 'Recurring rule',
+  credit_cards: 'Credit card',
+  fx_rates: 'Exchange rate',
+  saved_views: 'Saved view',
+  tags: 'Tag',
+};
+
+// Bookkeeping columns that always differ and mean nothing to the user
+const HIDDEN = new Set(['updated_at', 'user_id', 'id']);
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (Array.isArray(value)) return `${value.length} item${value.length === 1 ? '' : 's'}`;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function label(column: string): string {
+  const words = column.replace(/_minor_units$/, '').split('_');
+  return words.map((w, i) => (i === 0 ? w[0].toUpperCase() + w.slice(1) : w)).join(' ');
+}
+
+function name(conflict: Conflict): string {
+  const row = conflict.server;
+  return String(row['name'] ?? row['counterparty'] ?? row['category'] ?? conflict.rowId);
+}
+
+/** Lists writes rejected because the row changed elsewhere and lets the user pick a side. */
+export default function ConflictDialog() {
+  const { conflicts, keepMine, keepServer } = useConflictStore();
+  const [busy, setBusy] = useState(false);
+  // Closing without choosing just sets the conflict aside until the next one arrives
+  const [setAside, setSetAside] = useState<string[]>([]);
+  const conflict = conflicts.find((c) => !setAside.includes(c.id));
+  if (!conflict) return null;
+
+  const { id } = conflict;
+  const columns = Object.keys(conflict.changes).filter((c) => !HIDDEN.has(c));
+
+  async function resolve(choice: 'mine' | 'server') {
+    setBusy(true);
+    try {
+      await (choice === 'mine' ? keepMine(id) : keepServer(id));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <Modal
+      open
+      onClose={() => setSetAside(conflicts.map((c) => c.id))}
+      title={`${TABLE_LABELS[conflict.table] ?? 'Record'} changed on another device`}
+      size="lg"
+    >
+      <p className="text-sm text-slate-600 mb-4">
+        <span className="font-medium text-slate-800">{name(conflict)}</span> was edited somewhere else before
+        your change was saved. Choose which version to keep.
+        {conflicts.length > 1 && ` (${conflicts.length} conflicts waiting)`}
+      </p>
+
+      <div className="overflow-x-auto rounded-xl border border-slate-200">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 text-slate-500 text-xs uppercase tracking-wide">
+            <tr>
+              <th className="text-left font-medium px-3 py-2">Field</th>
+              <th className="text-left font-medium px-3 py-2">Your version</th>
+              <th className="text-left font-medium px-3 py-2">Other device</th>
+            </tr>
+          </thead>
+          <tbody>
+            {columns.map((column) => {
+              const mine = formatValue(conflict.changes[column]);
+              const theirs = formatValue(conflict.server[column]);
+              return (
+                <tr key={column} className="border-t border-slate-100">
+                  <td className="px-3 py-2 text-slate-500">{label(column)}</td>
+                  <td className={mine !== theirs ? 'px-3 py-2 font-medium text-slate-900' : 'px-3 py-2 text-slate-700'}>{mine}</td>
+                  <td className={mine !== theirs ? 'px-3 py-2 font-medium text-slate-900' : 'px-3 py-2 text-slate-700'}>{theirs}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-end gap-2 mt-5">
+        <Button variant="secondary" disabled={busy} onClick={() => void resolve('server')}>
+          Keep other device's
+        </Button>
+        <Button variant="primary" loading={busy} onClick={() => void resolve('mine')}>
+          Keep mine
+        </Button>
+      </div>
+    </Modal>
+  );
+}
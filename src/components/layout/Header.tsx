@@ -1,4 +1,5 @@
 import { useUIStore } from '../../store/useUIStore';
+import SyncIndicator from './SyncIndicator';
 
 function MenuIcon() {
   return (
@@ -30,6 +31,9 @@ export default function Header({ title }: { title?: string }) {
         </div>
         <span className="text-slate-900 font-semibold text-sm">{title ?? 'PrivyLedger'}</span>
       </div>
+      <div className="ml-auto">
+        <SyncIndicator compact />
+      </div>
       </div>
     </header>
   );
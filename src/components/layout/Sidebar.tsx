@@ -2,6 +2,7 @@ import { NavLink } from 'react-router-dom';
 import { clsx } from 'clsx';
 import { useUIStore } from '../../store/useUIStore';
 import { useAuthStore } from '../../auth/useAuthStore';
+import SyncIndicator from './SyncIndicator';
 
 interface NavItem {
   to: string;
@@ -74,6 +75,14 @@ function CogIcon() {
   );
 }
 
+function TrashIcon() {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor" aria-hidden="true">
+      <path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v6a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" />
+    </svg>
+  );
+}
+
 interface NavGroup {
   label: string;
   items: NavItem[];
@@ -185,8 +194,23 @@ export default function Sidebar({ mobile = false }: SidebarProps) {
           </li>
         ))}
 
-        {/* Settings + Logout at bottom */}
+        {/* Trash, Settings + Logout at bottom */}
         <li className="mt-auto flex flex-col gap-0.5">
+          <NavLink
+            to="/trash"
+            onClick={() => mobile && setSidebarOpen(false)}
+            className={({ isActive }) =>
+              clsx(
+                'flex items-center gap-3 px-3 py-2.5 rounded-lg text-sm font-medium transition-colors',
+                isActive
+                  ? 'bg-sky-100 text-sky-600 border border-sky-300'
+                  : 'text-slate-400 hover:text-slate-700 hover:bg-slate-100',
+              )
+            }
+          >
+            <TrashIcon />
+            Trash
+          </NavLink>
           <NavLink
             to="/settings"
             onClick={() => mobile && setSidebarOpen(false)}
@@ -213,9 +237,14 @@ export default function Sidebar({ mobile = false }: SidebarProps) {
         </li>
       </ul>
 
+      {/* Sync status */}
+      <div className="mt-4">
+        <SyncIndicator />
+      </div>
+
       {/* User info */}
       {user && (
-        <div className="mt-4 px-2 py-3 bg-slate-50 rounded-lg border border-slate-200 flex items-center gap-2">
+        <div className="mt-2 px-2 py-3 bg-slate-50 rounded-lg border border-slate-200 flex items-center gap-2">
           <div className="w-7 h-7 rounded-full bg-sky-500 flex items-center justify-center shrink-0">
             <span className="text-white text-xs font-bold">{user.fullName.charAt(0).toUpperCase()}</span>
           </div>
@@ -0,0 +1,39 @@
+import { clsx } from 'clsx';
+import { useSyncStore, type SyncStatus } from '../../store/useSyncStore';
+import { flushOutbox } from '../../core/sync';
+import { getStorage } from '../../core/storage';
+
+const STATUS_STYLES: Record<SyncStatus, { dot: string; label: string }> = {
+  synced:  { dot: 'bg-emerald-500',              label: 'Synced' },
+  syncing: { dot: 'bg-sky-500 animate-pulse',    label: 'Syncing…' },
+  offline: { dot: 'bg-amber-500',                label: 'Offline' },
+  error:   { dot: 'bg-red-500',                  label: 'Sync error' },
+  local:   { dot: 'bg-slate-400',                label: 'Local only' },
+};
+
+export default function SyncIndicator({ compact = false }: { compact?: boolean }) {
+  const { status, pending, lastError } = useSyncStore();
+  // Only the local-first backend has an outbox to report on
+  if (getStorage().backend !== 'local-first') return null;
+
+  const style = STATUS_STYLES[status];
+  const label = pending > 0 && status !== 'syncing'
+    ? `${style.label} · ${pending} pending`
+    : style.label;
+
+  return (
+    <button
+      type="button"
+      onClick={() => void flushOutbox()}
+      title={lastError ?? 'Sync now'}
+      className={clsx(
+        'flex items-center gap-2 rounded-lg text-xs font-medium text-slate-500 hover:text-slate-800 hover:bg-slate-100 transition-colors',
+        compact ? 'p-2' : 'px-3 py-2 w-full text-left',
+      )}
+      aria-label={`Sync status: ${label}`}
+    >
+      <span className={clsx('w-2 h-2 rounded-full shrink-0', style.dot)} aria-hidden="true" />
+      {!compact && <span className="truncate">{label}</span>}
+    </button>
+  );
+}
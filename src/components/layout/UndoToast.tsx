@@ -0,0 +1,53 @@
+import { useEffect } from 'react';
+import { useHistoryStore } from '../../store/useHistoryStore';
+
+// Text fields keep their own Ctrl+Z
+function isEditable(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+/** Confirms each recorded change with an Undo button, and handles Ctrl+Z / Ctrl+Shift+Z. */
+export default function UndoToast() {
+  const { notice, undo, redo, dismiss } = useHistoryStore();
+
+  useEffect(() => {
+    if (!notice) return;
+    const timer = setTimeout(dismiss, notice.action ? 6000 : 3000);
+    return () => clearTimeout(timer);
+  }, [notice, dismiss]);
+
+  useEffect(() => {
+    function onKey(e: KeyboardEvent) {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || e.key.toLowerCase() !== 'z' || isEditable(e.target)) return;
+      e.preventDefault();
+      void (e.shiftKey ? redo() : undo());
+    }
+    document.addEventListener('keydown', onKey);
+    return () => document.removeEventListener('keydown', onKey);
+  }, [undo, redo]);
+
+  if (!notice) return null;
+
+  return (
+    <div
+      key={notice.id}
+      className="fixed bottom-24 lg:bottom-8 left-1/2 z-[500] toast-pop"
+      style={{ transform: 'translateX(-50%)', marginBottom: 'env(safe-area-inset-bottom)' }}
+      role="status"
+      aria-live="polite"
+    >
+      <div className="bg-slate-900 text-white text-sm font-medium px-4 py-2.5 rounded-xl shadow-xl whitespace-nowrap flex items-center gap-3">
+        {notice.text}
+        {notice.action && (
+          <button
+            onClick={() => void (notice.action === 'undo' ? undo() : redo())}
+            className="text-sky-300 font-bold hover:text-sky-200"
+          >
+            {notice.action === 'undo' ? 'Undo' : 'Redo'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { useState } from 'react';
+import type { FormEvent, ReactNode } from 'react';
+import Card, { CardHeader, CardTitle } from '../ui/Card';
+import Input from '../ui/Input';
+import Button from '../ui/Button';
+import { useVaultStore } from '../../store/useVaultStore';
+import { useAuthStore } from '../../auth/useAuthStore';
+
+/** Asks for the vault passphrase instead of showing pages while sealed data can't be read. */
+export default function VaultGate({ children }: { children: ReactNode }) {
+  const { status, busy, unlock } = useVaultStore();
+  const logout = useAuthStore((s) => s.logout);
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  if (status !== 'locked') return <>{children}</>;
+
+  async function handleSubmit(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    setError(null);
+    try {
+      await unlock(passphrase);
+      setPassphrase('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message.replace(/^\[Vault\] /, '') : 'Could not unlock the vault');
+    }
+  }
+
+  return (
+    <div className="max-w-md mx-auto mt-12">
+      <Card>
+        <CardHeader><CardTitle>🔒 Private Vault</CardTitle></CardHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-sm text-slate-500">
+            Merchants, notes, loan counterparties and card numbers are encrypted on this account.
+            Enter your vault passphrase to read them.
+          </p>
+          <Input
+            label="Passphrase"
+            type="password"
+            autoComplete="current-password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            disabled={busy}
+          />
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          <div className="flex gap-2">
+            <Button type="submit" className="flex-1" disabled={!passphrase || busy}>
+              {busy ? 'Unlocking...' : 'Unlock'}
+            </Button>
+            <Button type="button" variant="ghost" onClick={() => void logout()}>Sign out</Button>
+          </div>
+        </form>
+      </Card>
+    </div>
+  );
+}
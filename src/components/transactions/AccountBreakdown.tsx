@@ -1,6 +1,9 @@
 import { useMemo, useState } from 'react';
-import type { Account, Transaction } from '../../core/types';
-import { formatCurrency, isScheduled } from '../../core/types';
+import type { Account, Currency, Transaction } from '../../core/types';
+import { formatCurrency, isScheduled, transferLegs } from '../../core/types';
+import { sumInBase, type Converter } from '../../core/fx';
+import { useConverter } from '../../store/useFxStore';
+import OriginalAmounts from '../ui/OriginalAmounts';
 
 // ── Types ──────────────────────────────────────────────────────────────────
 
@@ -11,28 +14,38 @@ interface AccountWithBalance {
 
 // ── Balance computation ────────────────────────────────────────────────────
 
-function computeBalances(accounts: Account[], transactions: Transaction[]): AccountWithBalance[] {
+// Each transaction counts in the account's own currency, converted at its date
+function computeBalances(accounts: Account[], transactions: Transaction[], fx: Converter): AccountWithBalance[] {
   const map = new Map<string, number>();
+  const currencyOf = new Map(accounts.map((a) => [a.id, a.currency]));
   accounts.forEach((a) => map.set(a.id, 0));
 
+  function move(accountId: string, t: Transaction, amount: number, from: Currency = t.currency) {
+    const currency = currencyOf.get(accountId) ?? from;
+    const converted = fx.convert(amount, from, currency, t.date) ?? 0;
+    map.set(accountId, (map.get(accountId) ?? 0) + converted);
+  }
+
   for (const t of transactions) {
     if (t.deletedAt) continue;
 
     if (t.type === 'income') {
       if (!isScheduled(t)) {
-        map.set(t.accountId, (map.get(t.accountId) ?? 0) + t.amountMinorUnits);
+        move(t.accountId, t, t.amountMinorUnits);
       } else if (t.status === 'partially_received' && t.receivedAmountMinorUnits) {
-        map.set(t.accountId, (map.get(t.accountId) ?? 0) + t.receivedAmountMinorUnits);
+        move(t.accountId, t, t.receivedAmountMinorUnits);
       }
     } else if (t.type === 'expense') {
       if (!isScheduled(t)) {
-        map.set(t.accountId, (map.get(t.accountId) ?? 0) - t.amountMinorUnits);
+        move(t.accountId, t, -t.amountMinorUnits);
       }
     } else if (t.type === 'transfer') {
+      // The source pays the amount sent plus any fee; the destination gets what arrived
       if (!isScheduled(t)) {
-        map.set(t.accountId, (map.get(t.accountId) ?? 0) - t.amountMinorUnits);
+        const legs = transferLegs(t);
+        move(t.accountId, t, -(legs.sent + legs.fee));
         if (t.toAccountId) {
-          map.set(t.toAccountId, (map.get(t.toAccountId) ?? 0) + t.amountMinorUnits);
+          move(t.toAccountId, t, legs.received, legs.toCurrency);
         }
       }
     }
@@ -130,17 +143,19 @@ export default function AccountBreakdown({
   onAccountClick,
 }: AccountBreakdownProps) {
   const [expanded, setExpanded] = useState(false);
+  const fx = useConverter();
 
   const withBalances = useMemo(
-    () => computeBalances(accounts, transactions),
-    [accounts, transactions],
+    () => computeBalances(accounts, transactions, fx),
+    [accounts, transactions, fx],
   );
 
   const { firstRow, more } = useMemo(() => buildDisplayOrder(withBalances), [withBalances]);
 
-  const totalBalance = useMemo(
-    () => withBalances.reduce((s, i) => s + i.balance, 0),
-    [withBalances],
+  // Balances convert at today's rate
+  const total = useMemo(
+    () => sumInBase(fx, withBalances.map((i) => ({ amount: i.balance, currency: i.account.currency }))),
+    [withBalances, fx],
   );
 
   const hasMore = more.length > 0;
@@ -172,10 +187,13 @@ export default function AccountBreakdown({
         <p className="text-xs font-semibold text-slate-400 uppercase tracking-wide">
           Account Balances
         </p>
-        <p className="text-xs font-bold text-slate-600">
-          {formatCurrency(Math.abs(totalBalance), accounts[0]?.currency ?? 'GBP')}
-          <span className="text-slate-400 font-normal"> total</span>
-        </p>
+        <div className="text-right">
+          <p className="text-xs font-bold text-slate-600">
+            {total.total < 0 ? '−' : ''}{formatCurrency(Math.abs(total.total), fx.base)}
+            <span className="text-slate-400 font-normal"> total</span>
+          </p>
+          <OriginalAmounts total={total} className="text-[10px]" />
+        </div>
       </div>
 
       {/* First row — always visible */}
@@ -0,0 +1,80 @@
+import { useRef, useState } from 'react';
+import type { Attachment } from '../../core/types';
+import { ATTACHMENT_ACCEPT, formatFileSize, isImage, openAttachment } from '../../core/attachments';
+
+interface AttachmentStripProps {
+  attachments: Attachment[];
+  /** Files picked in this session and not yet stored, by attachment id. */
+  unsaved: Map<string, Blob>;
+  onAdd: (files: File[]) => void;
+  onRemove: (id: string) => void;
+  error?: string;
+}
+
+/** Thumbnails of a transaction's attachments, with add and remove. */
+export default function AttachmentStrip({ attachments, unsaved, onAdd, onRemove, error }: AttachmentStripProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [openError, setOpenError] = useState('');
+
+  function open(a: Attachment) {
+    setOpenError('');
+    const blob = unsaved.get(a.id);
+    if (blob) {
+      const url = URL.createObjectURL(blob);
+      window.open(url, '_blank');
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
+      return;
+    }
+    openAttachment(a).catch((err) => setOpenError(err instanceof Error ? err.message : String(err)));
+  }
+
+  return (
+    <div>
+      <div className="flex gap-2 overflow-x-auto scrollbar-none pb-1">
+        {attachments.map((a) => (
+          <div key={a.id} className="relative shrink-0 w-20">
+            <button
+              type="button"
+              onClick={() => open(a)}
+              className="w-20 h-20 rounded-xl border border-slate-200 bg-slate-50 overflow-hidden flex items-center justify-center hover:border-blue-300 transition-colors"
+              title={`${a.name} · ${formatFileSize(a.size)}`}
+            >
+              {a.thumbnail
+                ? <img src={a.thumbnail} alt={a.name} className="w-full h-full object-cover" />
+                : <span className="text-2xl" aria-hidden="true">{isImage(a) ? '🖼️' : '📄'}</span>}
+            </button>
+            <p className="text-[10px] text-slate-500 truncate mt-0.5">{a.name}</p>
+            <button
+              type="button"
+              onClick={() => onRemove(a.id)}
+              className="absolute -top-1.5 -right-1.5 w-5 h-5 rounded-full bg-slate-700 text-white text-xs leading-none flex items-center justify-center hover:bg-red-600"
+              aria-label={`Remove ${a.name}`}
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          className="shrink-0 w-20 h-20 rounded-xl border-2 border-dashed border-slate-200 text-slate-400 flex flex-col items-center justify-center gap-0.5 hover:border-blue-300 hover:text-blue-600 transition-colors"
+        >
+          <span className="text-xl leading-none">+</span>
+          <span className="text-[10px] font-semibold">Receipt</span>
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={ATTACHMENT_ACCEPT}
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            onAdd([...(e.target.files ?? [])]);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {(error || openError) && <p className="text-xs text-red-500 mt-1">{error || openError}</p>}
+    </div>
+  );
+}
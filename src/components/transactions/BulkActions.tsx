@@ -0,0 +1,232 @@
+import { useState, type ReactNode } from 'react';
+import { useTransactionStore } from '../../store/useTransactionStore';
+import type { Account, Transaction } from '../../core/types';
+import { isScheduled } from '../../core/types';
+import BottomSheet from '../ui/BottomSheet';
+import CategorySheet from './CategorySheet';
+import { downloadCSV, transactionCsvRows } from './csv';
+
+type BulkSheet = 'category' | 'tags' | 'account' | 'delete' | null;
+
+interface BulkActionsProps {
+  selected: Transaction[];
+  accounts: Account[];
+  /** Called after each action with a message; `undoable` if the store kept it for undo. */
+  onDone: (message: string, undoable: boolean) => void;
+}
+
+function parseTags(input: string): string[] {
+  return input.split(',').map((t) => t.trim()).filter(Boolean);
+}
+
+function plural(n: number): string {
+  return `${n} transaction${n === 1 ? '' : 's'}`;
+}
+
+function ActionButton({ label, icon, onClick, disabled, danger }: {
+  label: string;
+  icon: ReactNode;
+  onClick: () => void;
+  disabled?: boolean;
+  danger?: boolean;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={disabled}
+      className={`flex-1 flex flex-col items-center gap-1 py-2 rounded-xl text-[11px] font-semibold transition-colors disabled:opacity-40 ${
+        danger ? 'text-red-600 hover:bg-red-50' : 'text-slate-600 hover:bg-slate-100'
+      }`}
+    >
+      <span className="text-lg leading-none">{icon}</span>
+      {label}
+    </button>
+  );
+}
+
+/** Action bar for a multi-selection on the transactions list. */
+export default function BulkActions({ selected, accounts, onDone }: BulkActionsProps) {
+  const { bulkUpdate, bulkRemove, bulkMarkCompleted } = useTransactionStore();
+  const [sheet, setSheet] = useState<BulkSheet>(null);
+  const [addTags, setAddTags] = useState('');
+  const [removeTags, setRemoveTags] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const ids = selected.map((t) => t.id);
+  const none = selected.length === 0;
+  const scheduledCount = selected.filter(isScheduled).length;
+  const activeAccounts = accounts.filter((a) => !a.isArchived && !a.deletedAt);
+  const selectedTags = [...new Set(selected.flatMap((t) => t.tags))].sort();
+
+  async function run(action: () => Promise<number>, message: (n: number) => string) {
+    setBusy(true);
+    setError('');
+    try {
+      const n = await action();
+      setSheet(null);
+      onDone(message(n), n > 0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function recategorize(category: string) {
+    // Recategorizing replaces any split with the one category
+    void run(
+      () => bulkUpdate(ids, (t) => (t.category === category && !t.splits?.length ? null : { category, splits: [] }), 'Recategorize'),
+      (n) => `${plural(n)} moved to ${category}`,
+    );
+  }
+
+  function retag() {
+    const add = parseTags(addTags);
+    const drop = new Set(parseTags(removeTags));
+    void run(
+      () => bulkUpdate(ids, (t) => {
+        const tags = [...new Set([...t.tags.filter((tag) => !drop.has(tag)), ...add])];
+        return tags.length === t.tags.length && tags.every((tag, i) => tag === t.tags[i]) ? null : { tags };
+      }, 'Retag'),
+      (n) => `Retagged ${plural(n)}`,
+    );
+  }
+
+  function moveTo(account: Account) {
+    // Card-linked spend belongs to its card, and a transfer can't land where it started
+    void run(
+      () => bulkUpdate(ids, (t) =>
+        t.accountId === account.id || t.toAccountId === account.id || t.allocationType === 'credit_card'
+          ? null
+          : { accountId: account.id }, 'Move'),
+      (n) => `Moved ${plural(n)} to ${account.name}`,
+    );
+  }
+
+  function exportCsv() {
+    downloadCSV(transactionCsvRows(selected), `transactions-selection-${new Date().toISOString().split('T')[0]}.csv`);
+    onDone(`Exported ${plural(selected.length)}`, false);
+  }
+
+  function openTags() {
+    setAddTags('');
+    setRemoveTags('');
+    setError('');
+    setSheet('tags');
+  }
+
+  const inputClass = 'w-full px-4 py-3 rounded-xl border border-slate-200 text-sm text-slate-900 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <>
+      <div className="fixed bottom-0 left-0 right-0 z-40 bg-white border-t border-slate-100 px-2 py-2 safe-bottom lg:left-auto lg:right-6 lg:bottom-6 lg:rounded-2xl lg:border lg:shadow-xl">
+        <div className="flex gap-1 max-w-lg mx-auto">
+          <ActionButton label="Category" icon="🏷️" disabled={none || busy} onClick={() => setSheet('category')} />
+          <ActionButton label="Tags" icon="#" disabled={none || busy} onClick={openTags} />
+          <ActionButton label="Account" icon="🏦" disabled={none || busy} onClick={() => { setError(''); setSheet('account'); }} />
+          <ActionButton
+            label="Complete"
+            icon="✓"
+            disabled={scheduledCount === 0 || busy}
+            onClick={() => void run(() => bulkMarkCompleted(ids), (n) => `Marked ${plural(n)} completed`)}
+          />
+          <ActionButton label="Export" icon="⬇" disabled={none || busy} onClick={exportCsv} />
+          <ActionButton label="Delete" icon="🗑" danger disabled={none || busy} onClick={() => { setError(''); setSheet('delete'); }} />
+        </div>
+        {error && (!sheet || sheet === 'category') && <p className="text-xs text-red-500 text-center mt-1">{error}</p>}
+      </div>
+
+      <CategorySheet
+        open={sheet === 'category'}
+        onClose={() => setSheet(null)}
+        selected=""
+        onSelect={recategorize}
+      />
+
+      <BottomSheet open={sheet === 'tags'} onClose={() => setSheet(null)} title={`Tags for ${plural(selected.length)}`}>
+        <div className="px-5 pb-6 space-y-4">
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wide mb-1.5">Add tags</label>
+            <input value={addTags} onChange={(e) => setAddTags(e.target.value)} placeholder="e.g. holiday, shared" className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wide mb-1.5">Remove tags</label>
+            <input value={removeTags} onChange={(e) => setRemoveTags(e.target.value)} placeholder="Comma separated" className={inputClass} />
+            {selectedTags.length > 0 && (
+              <div className="flex gap-1.5 flex-wrap mt-2">
+                {selectedTags.map((tag) => (
+                  <button
+                    key={tag}
+                    type="button"
+                    onClick={() => setRemoveTags((v) => [...new Set([...parseTags(v), tag])].join(', '))}
+                    className="text-xs bg-slate-50 border border-slate-200 text-slate-500 px-1.5 py-0.5 rounded hover:border-red-300 hover:text-red-600"
+                  >
+                    #{tag}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          {error && <p className="text-xs text-red-500">{error}</p>}
+          <button
+            type="button"
+            onClick={retag}
+            disabled={busy || (!addTags.trim() && !removeTags.trim())}
+            className="w-full py-3 bg-blue-600 text-white font-bold rounded-xl text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            Apply
+          </button>
+        </div>
+      </BottomSheet>
+
+      <BottomSheet open={sheet === 'account'} onClose={() => setSheet(null)} title="Move to account">
+        <div className="px-5 pb-6 space-y-2">
+          {activeAccounts.map((a) => (
+            <button
+              key={a.id}
+              type="button"
+              disabled={busy}
+              onClick={() => moveTo(a)}
+              className="w-full flex items-center gap-3 px-4 py-3 rounded-xl border border-slate-200 text-left hover:border-blue-300 transition-colors"
+            >
+              <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ background: a.color }} />
+              <span className="flex-1 text-sm font-medium text-slate-800">{a.name}</span>
+              <span className="text-xs text-slate-400">{a.currency}</span>
+            </button>
+          ))}
+          {error && <p className="text-xs text-red-500">{error}</p>}
+        </div>
+      </BottomSheet>
+
+      {sheet === 'delete' && (
+        <div className="fixed inset-0 z-[450] flex items-center justify-center px-4">
+          <div className="absolute inset-0 bg-black/40 backdrop-blur-sm" onClick={() => setSheet(null)} />
+          <div className="relative bg-white rounded-2xl p-5 max-w-sm w-full shadow-2xl">
+            <h3 className="text-base font-bold text-slate-900 mb-2">Delete {plural(selected.length)}?</h3>
+            <p className="text-sm text-slate-500 mb-5">
+              They move to Trash, and you can undo this straight away.
+            </p>
+            {error && <p className="text-xs text-red-500 mb-3">{error}</p>}
+            <div className="flex gap-3">
+              <button
+                onClick={() => void run(() => bulkRemove(ids), (n) => `Deleted ${plural(n)}`)}
+                disabled={busy}
+                className="flex-1 py-3 bg-red-600 text-white font-bold rounded-xl text-sm hover:bg-red-700 transition-colors disabled:opacity-50"
+              >
+                Delete
+              </button>
+              <button
+                onClick={() => setSheet(null)}
+                className="flex-1 py-3 bg-slate-100 text-slate-700 font-semibold rounded-xl text-sm hover:bg-slate-200 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
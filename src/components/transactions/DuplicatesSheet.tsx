@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import BottomSheet from '../ui/BottomSheet';
+import type { Account, Transaction } from '../../core/types';
+import { formatCurrency } from '../../core/types';
+import { formatDate } from '../../core/locale';
+import type { DuplicatePair } from '../../core/duplicates';
+import { useTransactionStore } from '../../store/useTransactionStore';
+
+interface DuplicatesSheetProps {
+  open: boolean;
+  onClose: () => void;
+  pairs: DuplicatePair[];
+  accounts: Account[];
+}
+
+function Side({ txn, account, busy, onKeep }: { txn: Transaction; account?: Account; busy: boolean; onKeep: () => void }) {
+  const details = [
+    account?.name,
+    txn.isRecurring ? 'Recurring' : undefined,
+    txn.tags.length ? txn.tags.map((t) => `#${t}`).join(' ') : undefined,
+    txn.attachments?.length ? `📎 ${txn.attachments.length}` : undefined,
+  ].filter(Boolean);
+
+  return (
+    <div className="flex-1 min-w-0 rounded-xl border border-slate-200 p-3 flex flex-col gap-1">
+      <p className="text-xs text-slate-400">{formatDate(txn.date)}</p>
+      <p className="text-sm font-semibold text-slate-800 truncate">{txn.merchant || txn.notes || txn.category}</p>
+      <p className="text-sm font-bold text-slate-900">{formatCurrency(txn.amountMinorUnits, txn.currency)}</p>
+      <p className="text-xs text-slate-500 truncate">{txn.category}</p>
+      {details.length > 0 && <p className="text-xs text-slate-400 truncate">{details.join(' · ')}</p>}
+      <button
+        onClick={onKeep}
+        disabled={busy}
+        className="mt-2 py-1.5 rounded-lg bg-blue-600 text-white text-xs font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50"
+      >
+        Keep this one
+      </button>
+    </div>
+  );
+}
+
+/** Pairs that look like one purchase recorded twice, to merge or mark as separate. */
+export default function DuplicatesSheet({ open, onClose, pairs, accounts }: DuplicatesSheetProps) {
+  const { mergeDuplicates, dismissDuplicate } = useTransactionStore();
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  async function run(action: () => Promise<void>) {
+    setBusy(true);
+    setError('');
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const accountOf = (t: Transaction) => accounts.find((a) => a.id === t.accountId);
+
+  return (
+    <BottomSheet open={open} onClose={onClose} title="Possible duplicates">
+      <div className="px-4 pt-3 pb-6 space-y-4">
+        <p className="text-xs text-slate-500">
+          Same account and amount, dated close together. Keeping one moves the other's tags, notes and
+          attachments onto it and deletes the other.
+        </p>
+
+        {error && <p className="text-xs text-red-500">{error}</p>}
+
+        {pairs.length === 0 ? (
+          <p className="text-sm text-slate-400 text-center py-4">No possible duplicates</p>
+        ) : (
+          <ul className="space-y-4">
+            {pairs.map(({ key, first, second }) => (
+              <li key={key} className="space-y-2">
+                <div className="flex gap-2">
+                  <Side txn={first} account={accountOf(first)} busy={busy} onKeep={() => void run(() => mergeDuplicates(first.id, second.id))} />
+                  <Side txn={second} account={accountOf(second)} busy={busy} onKeep={() => void run(() => mergeDuplicates(second.id, first.id))} />
+                </div>
+                <button
+                  onClick={() => void run(() => dismissDuplicate(second.id, first.id))}
+                  disabled={busy}
+                  className="w-full py-2 rounded-xl text-xs font-semibold text-slate-500 hover:bg-slate-100 transition-colors disabled:opacity-50"
+                >
+                  Not duplicates — keep both
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </BottomSheet>
+  );
+}
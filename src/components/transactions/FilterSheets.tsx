@@ -1,24 +1,12 @@
 import { useState } from 'react';
 import BottomSheet from '../ui/BottomSheet';
-import type { Account } from '../../core/types';
+import type { Account, DateFilter, DateFilterType, Tag, ViewGrouping, ViewSort } from '../../core/types';
 import { PRESET_CATEGORIES, CATEGORY_EMOJIS, loadCustomCategories } from './CategorySheet';
+import { GROUPING_OPTIONS, SORT_OPTIONS } from './views';
 
 // ── Types ─────────────────────────────────────────────────────────────────
 
-export type DateFilterType =
-  | 'all'
-  | 'today'
-  | 'yesterday'
-  | 'this_week'
-  | 'this_month'
-  | 'last_month'
-  | 'custom';
-
-export interface DateFilter {
-  type: DateFilterType;
-  from?: string;
-  to?: string;
-}
+export type { DateFilter, DateFilterType } from '../../core/types';
 
 // ── Helpers ───────────────────────────────────────────────────────────────
 
@@ -450,9 +438,14 @@ interface TagsFilterSheetProps {
   value: string[];
   onChange: (v: string[]) => void;
   allTags: string[];
+  /** Colours from the tag registry, where a tag has one. */
+  registry?: Tag[];
+  /** Transactions using each tag. */
+  usage?: Map<string, number>;
+  onManage?: () => void;
 }
 
-export function TagsFilterSheet({ open, onClose, value, onChange, allTags }: TagsFilterSheetProps) {
+export function TagsFilterSheet({ open, onClose, value, onChange, allTags, registry = [], usage, onManage }: TagsFilterSheetProps) {
   const [draft, setDraft] = useState<string[]>(value);
   const [search, setSearch] = useState('');
 
@@ -462,6 +455,7 @@ export function TagsFilterSheet({ open, onClose, value, onChange, allTags }: Tag
 
   const toggle = (t: string) =>
     setDraft((d) => (d.includes(t) ? d.filter((x) => x !== t) : [...d, t]));
+  const colorOf = (t: string) => registry.find((r) => r.name === t)?.color;
 
   return (
     <BottomSheet open={open} onClose={onClose} title="Tags">
@@ -483,17 +477,27 @@ export function TagsFilterSheet({ open, onClose, value, onChange, allTags }: Tag
               <button
                 key={tag}
                 onClick={() => toggle(tag)}
-                className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-all ${
+                className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm font-medium border transition-all ${
                   draft.includes(tag)
                     ? 'bg-blue-600 text-white border-blue-600'
                     : 'bg-white text-slate-600 border-slate-200 hover:border-blue-300'
                 }`}
               >
+                {colorOf(tag) && <span className="w-2 h-2 rounded-full" style={{ backgroundColor: colorOf(tag) }} />}
                 #{tag}
+                {usage?.has(tag) && <span className="text-xs opacity-60">{usage.get(tag)}</span>}
               </button>
             ))}
           </div>
         )}
+        {onManage && (
+          <button
+            onClick={() => { onClose(); onManage(); }}
+            className="mt-3 w-full py-2 rounded-xl text-xs font-semibold text-blue-600 hover:bg-blue-50 transition-colors"
+          >
+            Rename, merge or colour tags
+          </button>
+        )}
       </div>
       <SheetFooter
         onClear={() => { setDraft([]); onChange([]); onClose(); setSearch(''); }}
@@ -502,3 +506,49 @@ export function TagsFilterSheet({ open, onClose, value, onChange, allTags }: Tag
     </BottomSheet>
   );
 }
+
+// ── Sort & Group ───────────────────────────────────────────────────────────
+
+interface SortSheetProps {
+  open: boolean;
+  onClose: () => void;
+  sort: ViewSort;
+  grouping: ViewGrouping;
+  onChange: (sort: ViewSort, grouping: ViewGrouping) => void;
+}
+
+export function SortSheet({ open, onClose, sort, grouping, onChange }: SortSheetProps) {
+  const [draftSort, setDraftSort] = useState(sort);
+  const [draftGrouping, setDraftGrouping] = useState(grouping);
+
+  const optionClass = (selected: boolean) =>
+    `w-full flex items-center justify-between px-4 py-3 rounded-xl border transition-all text-sm font-medium ${
+      selected ? 'bg-blue-50 border-blue-200 text-blue-700' : 'border-slate-100 text-slate-700 hover:bg-slate-50'
+    }`;
+
+  return (
+    <BottomSheet open={open} onClose={onClose} title="Sort & Group">
+      <div className="px-4 pt-3 pb-2 space-y-1.5">
+        <p className="text-xs font-semibold text-slate-500 uppercase tracking-wide px-1 pb-1">Sort</p>
+        {SORT_OPTIONS.map((opt) => (
+          <button key={opt.id} onClick={() => setDraftSort(opt.id)} className={optionClass(draftSort === opt.id)}>
+            {opt.label}
+            {draftSort === opt.id && <span className="text-blue-600"><CheckIcon /></span>}
+          </button>
+        ))}
+        <p className="text-xs font-semibold text-slate-500 uppercase tracking-wide px-1 pt-3 pb-1">Group</p>
+        {GROUPING_OPTIONS.map((opt) => (
+          <button key={opt.id} onClick={() => setDraftGrouping(opt.id)} className={optionClass(draftGrouping === opt.id)}>
+            {opt.label}
+            {draftGrouping === opt.id && <span className="text-blue-600"><CheckIcon /></span>}
+          </button>
+        ))}
+      </div>
+      <SheetFooter
+        clearLabel="Reset"
+        onClear={() => { setDraftSort('date_desc'); setDraftGrouping('day'); onChange('date_desc', 'day'); onClose(); }}
+        onApply={() => { onChange(draftSort, draftGrouping); onClose(); }}
+      />
+    </BottomSheet>
+  );
+}
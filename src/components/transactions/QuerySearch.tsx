@@ -0,0 +1,101 @@
+import { useMemo, useRef, useState, type KeyboardEvent } from 'react';
+import { parseQuery, suggest, type SuggestionSource } from '../../core/search';
+
+interface QuerySearchProps {
+  value: string;
+  onChange: (value: string) => void;
+  source: SuggestionSource;
+  placeholder?: string;
+}
+
+/** Search box for the transaction query language, with autocomplete and parse errors. */
+export default function QuerySearch({ value, onChange, source, placeholder }: QuerySearchProps) {
+  const [focused, setFocused] = useState(false);
+  const [active, setActive] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const errors = useMemo(() => parseQuery(value).errors, [value]);
+  const suggestions = useMemo(() => (focused ? suggest(value, source) : []), [focused, value, source]);
+  const highlighted = Math.min(active, suggestions.length - 1);
+
+  function accept(query: string) {
+    onChange(query);
+    setActive(0);
+    inputRef.current?.focus();
+  }
+
+  function handleKeyDown(e: KeyboardEvent<HTMLInputElement>) {
+    if (suggestions.length === 0) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActive((highlighted + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActive((highlighted - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Tab' || (e.key === 'Enter' && value.trim() !== '')) {
+      e.preventDefault();
+      accept(suggestions[highlighted].query);
+    } else if (e.key === 'Escape') {
+      setFocused(false);
+    }
+  }
+
+  return (
+    <div className="relative">
+      <svg
+        className="absolute left-3.5 top-[1.15rem] -translate-y-1/2 h-4 w-4 text-slate-400"
+        fill="none"
+        stroke="currentColor"
+        viewBox="0 0 24 24"
+      >
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+      </svg>
+      <input
+        ref={inputRef}
+        type="search"
+        value={value}
+        onChange={(e) => { onChange(e.target.value); setActive(0); }}
+        onFocus={() => setFocused(true)}
+        onBlur={() => setFocused(false)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder ?? 'Search, or try merchant:tesco amount>20 -tag:work'}
+        spellCheck={false}
+        autoComplete="off"
+        className="w-full pl-10 pr-4 py-2.5 bg-slate-100 rounded-xl text-sm text-slate-900 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white border border-transparent focus:border-transparent transition-all"
+      />
+      {value && (
+        <button
+          onClick={() => onChange('')}
+          className="absolute right-3 top-[1.15rem] -translate-y-1/2 text-slate-400 hover:text-slate-700"
+          aria-label="Clear search"
+        >
+          <svg className="h-4 w-4" fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+          </svg>
+        </button>
+      )}
+      {errors.length > 0 && (
+        <p className="text-xs text-amber-600 mt-1 px-1">{errors.join(' · ')}</p>
+      )}
+      {suggestions.length > 0 && (
+        <ul className="absolute left-0 right-0 top-full mt-1 z-30 bg-white border border-slate-200 rounded-xl shadow-lg overflow-hidden" role="listbox">
+          {suggestions.map((s, i) => (
+            <li key={s.label} role="option" aria-selected={i === highlighted}>
+              <button
+                type="button"
+                // Keep focus in the input so the list stays open through the click
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => accept(s.query)}
+                onMouseEnter={() => setActive(i)}
+                className={`w-full flex items-baseline gap-2 px-3 py-2 text-left ${i === highlighted ? 'bg-blue-50' : ''}`}
+              >
+                <span className="text-sm font-mono text-slate-800">{s.label}</span>
+                {s.hint && <span className="text-xs text-slate-400 truncate">{s.hint}</span>}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
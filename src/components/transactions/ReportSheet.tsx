@@ -2,26 +2,39 @@ import { useMemo, useState, useEffect, type ReactNode } from 'react';
 import { createPortal } from 'react-dom';
 import BottomSheet from '../ui/BottomSheet';
 import type { Transaction, Account } from '../../core/types';
-import { formatCurrency, isScheduled } from '../../core/types';
-import { format, parseISO } from 'date-fns';
+import { formatAmount, formatCurrency, isScheduled, transferLegs } from '../../core/types';
+import { formatDate, formatDateTime } from '../../core/locale';
 import { CATEGORY_EMOJIS } from './CategorySheet';
 import { PAYMENT_MODE_LABELS } from './FilterSheets';
 import type { DateFilter } from './FilterSheets';
 import { useAuthStore } from '../../auth/useAuthStore';
+import { useConverter } from '../../store/useFxStore';
+import { sumInBase, totalsByCategory, type BaseTotal, type Converter } from '../../core/fx';
+import { totalsByTag } from '../../core/tags';
+import { useTagStore } from '../../store/useTagStore';
+import OriginalAmounts from '../ui/OriginalAmounts';
+import { downloadCSV, transactionCsvRows } from './csv';
+import QuerySearch from './QuerySearch';
+import { matchesQuery, parseQuery, type SuggestionSource } from '../../core/search';
 
 // ── Helpers ────────────────────────────────────────────────────────────────
 
-function sumAmount(txns: Transaction[]): number {
-  return txns.reduce((s, t) => s + t.amountMinorUnits, 0);
+function sumAmount(fx: Converter, txns: Transaction[]): BaseTotal {
+  return sumInBase(fx, txns.map((t) => ({ amount: t.amountMinorUnits, currency: t.currency, date: t.date })));
 }
 
-function fmt(minor: number): string {
-  return formatCurrency(minor, 'GBP');
+/** A transaction's amount in the base currency at its date; 0 without a rate. */
+function inBase(fx: Converter, t: Transaction): number {
+  return fx.toBase(t.amountMinorUnits, t.currency, t.date) ?? 0;
+}
+
+function fmt(minor: number, currency: string): string {
+  return formatCurrency(minor, currency);
 }
 
 function fmtDate(iso: string): string {
   try {
-    return format(parseISO(iso.split('T')[0]), 'dd/MM/yyyy');
+    return formatDate(iso.split('T')[0], 'numeric');
   } catch {
     return iso.split('T')[0];
   }
@@ -59,12 +72,13 @@ function StatRow({
 
 // ── Report types ─────────────────────────────────────────────────────────
 
-type ReportType = 'all' | 'daily' | 'category' | 'payment' | 'account' | 'scheduled';
+type ReportType = 'all' | 'daily' | 'category' | 'tag' | 'payment' | 'account' | 'scheduled';
 
 const REPORT_OPTIONS: { id: ReportType; label: string; desc: string }[] = [
   { id: 'all', label: 'All Transactions', desc: 'Full list with all details' },
   { id: 'daily', label: 'Day-wise Summary', desc: 'Income, expense & net per day' },
   { id: 'category', label: 'Category Summary', desc: 'Spend by category' },
+  { id: 'tag', label: 'By Tag', desc: 'Income & expense per tag' },
   { id: 'payment', label: 'Payment Mode', desc: 'Totals by payment method' },
   { id: 'account', label: 'Account Summary', desc: 'Balance movement per account' },
   { id: 'scheduled', label: 'Scheduled / Pending', desc: 'All pending payments' },
@@ -85,30 +99,11 @@ function filterLabel(dateFilter: DateFilter): string {
   return 'Custom';
 }
 
-// ── Download helpers ──────────────────────────────────────────────────────
-
-function downloadCSV(rows: Record<string, string | number>[], filename: string) {
-  if (rows.length === 0) return;
-  const headers = Object.keys(rows[0]);
-  const csvContent = [
-    headers.join(','),
-    ...rows.map((r) =>
-      headers.map((h) => `"${String(r[h] ?? '').replace(/"/g, '""')}"`).join(','),
-    ),
-  ].join('\n');
-  const blob = new Blob([csvContent], { type: 'text/csv' });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement('a');
-  a.href = url;
-  a.download = filename;
-  a.click();
-  URL.revokeObjectURL(url);
-}
-
 // ── Print Report (portal rendered to document.body) ───────────────────────
 
 interface PrintReportProps {
   transactions: Transaction[];
+  fx: Converter;
   totalIncome: number;
   totalExpense: number;
   dateFilter: DateFilter;
@@ -118,6 +113,7 @@ interface PrintReportProps {
 
 function PrintReport({
   transactions,
+  fx,
   totalIncome,
   totalExpense,
   dateFilter,
@@ -126,9 +122,9 @@ function PrintReport({
 }: PrintReportProps) {
   const finalBalance = totalIncome - totalExpense;
   const now = new Date();
-  const generatedOn = format(now, 'dd/MM/yyyy HH:mm');
+  const generatedOn = formatDateTime(now, 'numeric');
 
-  // Sort ascending by date for running balance
+  // Sort ascending by date for running balance, kept in the base currency
   const rows = useMemo(() => {
     let balance = 0;
     return transactions
@@ -137,11 +133,11 @@ function PrintReport({
       .map((t) => {
         const isIncome = t.type === 'income';
         const isExpense = t.type === 'expense';
-        if (isIncome) balance += t.amountMinorUnits;
-        else if (isExpense) balance -= t.amountMinorUnits;
+        if (isIncome) balance += inBase(fx, t);
+        else if (isExpense) balance -= inBase(fx, t);
         return { txn: t, runningBalance: balance };
       });
-  }, [transactions]);
+  }, [transactions, fx]);
 
   // Duration display
   const durationLabel = useMemo(() => {
@@ -231,15 +227,15 @@ function PrintReport({
       <div className="pr-summary">
         <div className="pr-summary-box green">
           <div className="pr-summary-label">Total Cash In</div>
-          <div className="pr-summary-value">{fmt(totalIncome)}</div>
+          <div className="pr-summary-value">{fmt(totalIncome, fx.base)}</div>
         </div>
         <div className="pr-summary-box red">
           <div className="pr-summary-label">Total Cash Out</div>
-          <div className="pr-summary-value">{fmt(totalExpense)}</div>
+          <div className="pr-summary-value">{fmt(totalExpense, fx.base)}</div>
         </div>
         <div className="pr-summary-box blue">
           <div className="pr-summary-label">Final Balance</div>
-          <div className="pr-summary-value">{fmt(finalBalance)}</div>
+          <div className="pr-summary-value">{fmt(finalBalance, fx.base)}</div>
         </div>
       </div>
 
@@ -273,12 +269,12 @@ function PrintReport({
                 </td>
                 <td>{PAYMENT_MODE_LABELS[txn.paymentMethod ?? ''] ?? txn.paymentMethod ?? '—'}</td>
                 <td className={`right${isIncome ? ' income' : ''}`}>
-                  {isIncome ? fmt(txn.amountMinorUnits) : ''}
+                  {isIncome ? fmt(txn.amountMinorUnits, txn.currency) : ''}
                 </td>
                 <td className={`right${isExpense ? ' expense' : ''}`}>
-                  {isExpense ? fmt(txn.amountMinorUnits) : ''}
+                  {isExpense ? fmt(txn.amountMinorUnits, txn.currency) : ''}
                 </td>
-                <td className={`right ${balClass}`}>{fmt(runningBalance)}</td>
+                <td className={`right ${balClass}`}>{fmt(runningBalance, fx.base)}</td>
               </tr>
             );
           })}
@@ -288,7 +284,7 @@ function PrintReport({
               Final Balance
             </td>
             <td className={`right ${finalBalance >= 0 ? 'balance-pos' : 'balance-neg'}`}>
-              {fmt(finalBalance)}
+              {fmt(finalBalance, fx.base)}
             </td>
           </tr>
         </tbody>
@@ -307,7 +303,12 @@ function PrintReport({
 interface ReportSheetProps {
   open: boolean;
   onClose: () => void;
-  filteredTransactions: Transaction[];
+  /** Transactions left by the list's filter chips. */
+  transactions: Transaction[];
+  /** Search query narrowing `transactions`; shared with the list's search bar. */
+  query: string;
+  onQueryChange: (query: string) => void;
+  searchSource: SuggestionSource;
   accounts: Account[];
   dateFilter: DateFilter;
   activeTypeFilters: string[];
@@ -317,12 +318,23 @@ interface ReportSheetProps {
 export default function ReportSheet({
   open,
   onClose,
-  filteredTransactions,
+  transactions,
+  query,
+  onQueryChange,
+  searchSource,
   accounts,
   dateFilter,
 }: ReportSheetProps) {
   const [reportType, setReportType] = useState<ReportType>('all');
   const user = useAuthStore((s) => s.user);
+  const tags = useTagStore((s) => s.tags);
+  const fx = useConverter();
+
+  const filteredTransactions = useMemo(() => {
+    const parsed = parseQuery(query);
+    const names = new Map(accounts.map((a) => [a.id, a.name]));
+    return transactions.filter((t) => matchesQuery(t, parsed, { accountName: (id) => names.get(id) }));
+  }, [transactions, query, accounts]);
 
   // Inject print CSS that hides the app shell
   useEffect(() => {
@@ -342,10 +354,15 @@ export default function ReportSheet({
   const completed = filteredTransactions.filter((t) => !isScheduled(t));
   const scheduled = filteredTransactions.filter((t) => isScheduled(t));
 
-  const totalIncome = sumAmount(completed.filter((t) => t.type === 'income'));
-  const totalExpense = sumAmount(completed.filter((t) => t.type === 'expense'));
-  const totalScheduledIncome = sumAmount(scheduled.filter((t) => t.type === 'income'));
-  const totalScheduledExpense = sumAmount(scheduled.filter((t) => t.type === 'expense'));
+  // Totals are in the base currency, each transaction converted at its date
+  const income = sumAmount(fx, completed.filter((t) => t.type === 'income'));
+  const expense = sumAmount(fx, completed.filter((t) => t.type === 'expense'));
+  const scheduledIncome = sumAmount(fx, scheduled.filter((t) => t.type === 'income'));
+  const scheduledExpense = sumAmount(fx, scheduled.filter((t) => t.type === 'expense'));
+  const totalIncome = income.total;
+  const totalExpense = expense.total;
+  const totalScheduledIncome = scheduledIncome.total;
+  const totalScheduledExpense = scheduledExpense.total;
 
   // ── Day-wise data ─────────────────────────────────────────────────────
   const dailySummary = useMemo(() => {
@@ -353,72 +370,72 @@ export default function ReportSheet({
     for (const t of completed) {
       const day = t.date.split('T')[0];
       const entry = map.get(day) ?? { income: 0, expense: 0, transfer: 0 };
-      if (t.type === 'income') entry.income += t.amountMinorUnits;
-      else if (t.type === 'expense') entry.expense += t.amountMinorUnits;
-      else entry.transfer += t.amountMinorUnits;
+      if (t.type === 'income') entry.income += inBase(fx, t);
+      else if (t.type === 'expense') entry.expense += inBase(fx, t);
+      else entry.transfer += inBase(fx, t);
       map.set(day, entry);
     }
     return [...map.entries()].sort(([a], [b]) => b.localeCompare(a));
-  }, [completed]);
+  }, [completed, fx]);
 
   // ── Category data ─────────────────────────────────────────────────────
   const categorySummary = useMemo(() => {
-    const map = new Map<string, number>();
-    for (const t of completed.filter((tx) => tx.type === 'expense')) {
-      map.set(t.category, (map.get(t.category) ?? 0) + t.amountMinorUnits);
-    }
-    return [...map.entries()].sort(([, a], [, b]) => b - a);
-  }, [completed]);
+    const totals = totalsByCategory(fx, completed.filter((tx) => tx.type === 'expense'));
+    return Object.entries(totals).sort(([, a], [, b]) => b - a);
+  }, [completed, fx]);
+
+  // ── Tag data (untagged last) ──────────────────────────────────────────
+  const tagSummary = [...totalsByTag(fx, completed).entries()]
+    .sort(([a, x], [b, y]) => Number(!a) - Number(!b) || y.expense + y.income - (x.expense + x.income));
 
   // ── Payment mode data ─────────────────────────────────────────────────
   const paymentSummary = useMemo(() => {
     const map = new Map<string, number>();
     for (const t of completed) {
       const pm = t.paymentMethod ?? 'unknown';
-      map.set(pm, (map.get(pm) ?? 0) + t.amountMinorUnits);
+      map.set(pm, (map.get(pm) ?? 0) + inBase(fx, t));
     }
     return [...map.entries()].sort(([, a], [, b]) => b - a);
-  }, [completed]);
+  }, [completed, fx]);
 
-  // ── Account data ──────────────────────────────────────────────────────
+  // ── Account data (in each account's own currency) ──────────────────────
   const accountSummary = useMemo(() => {
-    const map = new Map<string, { income: number; expense: number }>();
+    const map = new Map<string, { income: number; expense: number; currency: string }>();
     for (const acc of accounts) {
-      map.set(acc.id, { income: 0, expense: 0 });
+      map.set(acc.id, { income: 0, expense: 0, currency: acc.currency });
     }
     for (const t of completed) {
       const entry = map.get(t.accountId);
+      if (t.type === 'transfer') {
+        // Each side moves by its own leg: sent plus fee out, received in
+        const legs = transferLegs(t);
+        if (entry) entry.expense += fx.convert(legs.sent + legs.fee, legs.currency, entry.currency, t.date) ?? 0;
+        const to = t.toAccountId ? map.get(t.toAccountId) : undefined;
+        if (to) to.income += fx.convert(legs.received, legs.toCurrency, to.currency, t.date) ?? 0;
+        continue;
+      }
       if (!entry) continue;
-      if (t.type === 'income') entry.income += t.amountMinorUnits;
-      else if (t.type === 'expense') entry.expense += t.amountMinorUnits;
+      const amount = fx.convert(t.amountMinorUnits, t.currency, entry.currency, t.date) ?? 0;
+      if (t.type === 'income') entry.income += amount;
+      else if (t.type === 'expense') entry.expense += amount;
     }
     return [...map.entries()].filter(([, v]) => v.income > 0 || v.expense > 0);
-  }, [completed, accounts]);
+  }, [completed, accounts, fx]);
 
   function handleExportCSV() {
     if (reportType === 'all') {
       downloadCSV(
-        filteredTransactions.map((t) => ({
-          date: t.date.split('T')[0],
-          type: t.type,
-          merchant: t.merchant ?? '',
-          category: t.category,
-          amount: (t.amountMinorUnits / 100).toFixed(2),
-          currency: t.currency,
-          paymentMethod: t.paymentMethod ?? '',
-          status: isScheduled(t) ? 'scheduled' : 'completed',
-          notes: t.notes ?? '',
-          tags: t.tags.join(';'),
-        })),
+        transactionCsvRows(filteredTransactions),
         `transactions-${new Date().toISOString().split('T')[0]}.csv`,
       );
     } else if (reportType === 'daily') {
       downloadCSV(
         dailySummary.map(([day, d]) => ({
           date: day,
-          income: (d.income / 100).toFixed(2),
-          expense: (d.expense / 100).toFixed(2),
-          net: ((d.income - d.expense) / 100).toFixed(2),
+          income: formatAmount(d.income, fx.base),
+          expense: formatAmount(d.expense, fx.base),
+          net: formatAmount(d.income - d.expense, fx.base),
+          currency: fx.base,
         })),
         `daily-summary-${new Date().toISOString().split('T')[0]}.csv`,
       );
@@ -426,10 +443,23 @@ export default function ReportSheet({
       downloadCSV(
         categorySummary.map(([cat, amt]) => ({
           category: cat,
-          total_expense: (amt / 100).toFixed(2),
+          total_expense: formatAmount(amt, fx.base),
+          currency: fx.base,
         })),
         `category-summary-${new Date().toISOString().split('T')[0]}.csv`,
       );
+    } else if (reportType === 'tag') {
+      downloadCSV(
+        tagSummary.map(([tag, d]) => ({
+          tag: tag || 'Untagged',
+          transactions: d.count,
+          income: formatAmount(d.income, fx.base),
+          expense: formatAmount(d.expense, fx.base),
+          net: formatAmount(d.income - d.expense, fx.base),
+          currency: fx.base,
+        })),
+        `tag-summary-${new Date().toISOString().split('T')[0]}.csv`,
+      );
     }
   }
 
@@ -453,6 +483,7 @@ export default function ReportSheet({
       {/* Portal-rendered print layout (hidden on screen, shown during print) */}
       <PrintReport
         transactions={completed}
+        fx={fx}
         totalIncome={totalIncome}
         totalExpense={totalExpense}
         dateFilter={dateFilter}
@@ -462,6 +493,11 @@ export default function ReportSheet({
 
       <BottomSheet open={open} onClose={onClose} title="Generate Report" fullScreen>
         <div className="px-4 pb-6">
+          {/* Query */}
+          <div className="mt-3">
+            <QuerySearch value={query} onChange={onQueryChange} source={searchSource} placeholder="Report on any query, e.g. category:Travel date:2026" />
+          </div>
+
           {/* Filter summary */}
           <div className="mt-3 p-3 bg-slate-50 rounded-xl flex flex-wrap gap-2">
             <span className="text-xs font-medium text-slate-500 bg-white px-2.5 py-1 rounded-full border border-slate-200">
@@ -470,22 +506,29 @@ export default function ReportSheet({
             <span className="text-xs font-medium text-slate-500 bg-white px-2.5 py-1 rounded-full border border-slate-200">
               {filteredTransactions.length} transactions
             </span>
+            {query.trim() && (
+              <span className="text-xs font-mono text-slate-500 bg-white px-2.5 py-1 rounded-full border border-slate-200 truncate max-w-full">
+                🔍 {query.trim()}
+              </span>
+            )}
           </div>
 
           {/* Overall summary */}
           <div className="mt-4 grid grid-cols-2 gap-3">
             <div className="bg-emerald-50 rounded-xl p-3">
               <p className="text-xs text-emerald-600 font-semibold">Total Income</p>
-              <p className="text-lg font-bold text-emerald-700 mt-0.5">{fmt(totalIncome)}</p>
+              <p className="text-lg font-bold text-emerald-700 mt-0.5">{fmt(totalIncome, fx.base)}</p>
+              <OriginalAmounts total={income} className="mt-0.5" />
             </div>
             <div className="bg-red-50 rounded-xl p-3">
               <p className="text-xs text-red-600 font-semibold">Total Expense</p>
-              <p className="text-lg font-bold text-red-700 mt-0.5">{fmt(totalExpense)}</p>
+              <p className="text-lg font-bold text-red-700 mt-0.5">{fmt(totalExpense, fx.base)}</p>
+              <OriginalAmounts total={expense} className="mt-0.5" />
             </div>
             <div className={`rounded-xl p-3 col-span-2 ${totalIncome - totalExpense >= 0 ? 'bg-blue-50' : 'bg-red-50'}`}>
               <p className="text-xs font-semibold text-slate-600">Net Balance</p>
               <p className={`text-xl font-bold mt-0.5 ${totalIncome - totalExpense >= 0 ? 'text-blue-700' : 'text-red-700'}`}>
-                {totalIncome - totalExpense >= 0 ? '+' : ''}{fmt(totalIncome - totalExpense)}
+                {totalIncome - totalExpense >= 0 ? '+' : ''}{fmt(totalIncome - totalExpense, fx.base)}
               </p>
             </div>
           </div>
@@ -542,7 +585,7 @@ export default function ReportSheet({
                     <p className={`text-sm font-bold shrink-0 ${
                       isScheduled(t) ? 'text-purple-600' : t.type === 'income' ? 'text-emerald-600' : t.type === 'expense' ? 'text-red-600' : 'text-blue-600'
                     }`}>
-                      {t.type === 'income' ? '+' : '-'}{fmt(t.amountMinorUnits)}
+                      {t.type === 'income' ? '+' : '-'}{fmt(t.amountMinorUnits, t.currency)}
                     </p>
                   </div>
                 ))}
@@ -562,13 +605,13 @@ export default function ReportSheet({
                 {dailySummary.map(([day, data]) => (
                   <div key={day} className="px-4 py-3 border-b border-slate-50 last:border-0">
                     <p className="text-xs font-bold text-slate-500 mb-1.5">
-                      {format(parseISO(day), 'd MMM yyyy')}
+                      {formatDate(day)}
                     </p>
                     <div className="flex gap-4">
-                      <span className="text-xs text-emerald-600 font-semibold">+{fmt(data.income)}</span>
-                      <span className="text-xs text-red-600 font-semibold">-{fmt(data.expense)}</span>
+                      <span className="text-xs text-emerald-600 font-semibold">+{fmt(data.income, fx.base)}</span>
+                      <span className="text-xs text-red-600 font-semibold">-{fmt(data.expense, fx.base)}</span>
                       <span className={`text-xs font-bold ml-auto ${data.income - data.expense >= 0 ? 'text-blue-600' : 'text-red-600'}`}>
-                        Net: {data.income - data.expense >= 0 ? '+' : ''}{fmt(data.income - data.expense)}
+                        Net: {data.income - data.expense >= 0 ? '+' : ''}{fmt(data.income - data.expense, fx.base)}
                       </span>
                     </div>
                   </div>
@@ -588,7 +631,7 @@ export default function ReportSheet({
                   <div key={cat} className="flex items-center gap-3 px-4 py-3 border-b border-slate-50 last:border-0">
                     <span className="text-lg w-7 text-center shrink-0">{CATEGORY_EMOJIS[cat] ?? '📌'}</span>
                     <span className="flex-1 text-sm font-medium text-slate-700">{cat}</span>
-                    <span className="text-sm font-bold text-red-600">{fmt(amt)}</span>
+                    <span className="text-sm font-bold text-red-600">{fmt(amt, fx.base)}</span>
                   </div>
                 ))}
                 {categorySummary.length === 0 && (
@@ -598,6 +641,37 @@ export default function ReportSheet({
             </>
           )}
 
+          {reportType === 'tag' && (
+            <>
+              <SectionTitle>By Tag</SectionTitle>
+              <p className="text-xs text-slate-400 -mt-1 mb-2">A transaction with several tags counts in full under each.</p>
+              <div className="bg-white rounded-xl border border-slate-100 overflow-hidden">
+                {tagSummary.map(([tag, data]) => (
+                  <div key={tag || 'untagged'} className="px-4 py-3 border-b border-slate-50 last:border-0">
+                    <div className="flex items-center gap-2 mb-1.5">
+                      <span
+                        className="w-2.5 h-2.5 rounded-full shrink-0"
+                        style={{ background: tags.find((t) => t.name === tag)?.color ?? '#e2e8f0' }}
+                      />
+                      <span className="text-sm font-semibold text-slate-800">{tag ? `#${tag}` : 'Untagged'}</span>
+                      <span className="text-xs text-slate-400 ml-auto">{data.count} transaction{data.count === 1 ? '' : 's'}</span>
+                    </div>
+                    <div className="flex gap-4">
+                      <span className="text-xs text-emerald-600 font-semibold">+{fmt(data.income, fx.base)}</span>
+                      <span className="text-xs text-red-600 font-semibold">-{fmt(data.expense, fx.base)}</span>
+                      <span className={`text-xs font-bold ml-auto ${data.income - data.expense >= 0 ? 'text-blue-600' : 'text-red-600'}`}>
+                        Net: {data.income - data.expense >= 0 ? '+' : ''}{fmt(data.income - data.expense, fx.base)}
+                      </span>
+                    </div>
+                  </div>
+                ))}
+                {tagSummary.length === 0 && (
+                  <p className="text-sm text-slate-400 text-center py-6">No data</p>
+                )}
+              </div>
+            </>
+          )}
+
           {reportType === 'payment' && (
             <>
               <SectionTitle>Payment Mode Summary</SectionTitle>
@@ -606,7 +680,7 @@ export default function ReportSheet({
                   <StatRow
                     key={pm}
                     label={PAYMENT_MODE_LABELS[pm] ?? pm}
-                    value={fmt(amt)}
+                    value={fmt(amt, fx.base)}
                   />
                 ))}
                 {paymentSummary.length === 0 && (
@@ -630,10 +704,10 @@ export default function ReportSheet({
                         <span className="text-sm font-semibold text-slate-800">{acc.name}</span>
                       </div>
                       <div className="flex gap-4">
-                        <span className="text-xs text-emerald-600 font-semibold">In: +{fmt(data.income)}</span>
-                        <span className="text-xs text-red-600 font-semibold">Out: -{fmt(data.expense)}</span>
+                        <span className="text-xs text-emerald-600 font-semibold">In: +{fmt(data.income, data.currency)}</span>
+                        <span className="text-xs text-red-600 font-semibold">Out: -{fmt(data.expense, data.currency)}</span>
                         <span className={`text-xs font-bold ml-auto ${data.income - data.expense >= 0 ? 'text-blue-600' : 'text-red-600'}`}>
-                          Net: {data.income - data.expense >= 0 ? '+' : ''}{fmt(data.income - data.expense)}
+                          Net: {data.income - data.expense >= 0 ? '+' : ''}{fmt(data.income - data.expense, data.currency)}
                         </span>
                       </div>
                     </div>
@@ -652,11 +726,13 @@ export default function ReportSheet({
               <div className="grid grid-cols-2 gap-3 mb-4">
                 <div className="bg-emerald-50 rounded-xl p-3">
                   <p className="text-xs text-emerald-600 font-semibold">Expected Income</p>
-                  <p className="text-base font-bold text-emerald-700 mt-0.5">{fmt(totalScheduledIncome)}</p>
+                  <p className="text-base font-bold text-emerald-700 mt-0.5">{fmt(totalScheduledIncome, fx.base)}</p>
+                  <OriginalAmounts total={scheduledIncome} className="mt-0.5" />
                 </div>
                 <div className="bg-red-50 rounded-xl p-3">
                   <p className="text-xs text-red-600 font-semibold">Expected Expense</p>
-                  <p className="text-base font-bold text-red-700 mt-0.5">{fmt(totalScheduledExpense)}</p>
+                  <p className="text-base font-bold text-red-700 mt-0.5">{fmt(totalScheduledExpense, fx.base)}</p>
+                  <OriginalAmounts total={scheduledExpense} className="mt-0.5" />
                 </div>
               </div>
               <div className="space-y-2">
@@ -672,7 +748,7 @@ export default function ReportSheet({
                         </p>
                       </div>
                       <p className={`text-sm font-bold ${t.type === 'income' ? 'text-emerald-600' : 'text-red-600'}`}>
-                        {t.type === 'income' ? '+' : '-'}{fmt(t.amountMinorUnits)}
+                        {t.type === 'income' ? '+' : '-'}{fmt(t.amountMinorUnits, t.currency)}
                       </p>
                     </div>
                   </div>
@@ -0,0 +1,264 @@
+import { useState } from 'react';
+import BottomSheet from '../ui/BottomSheet';
+import type { SavedView, ViewFilters, ViewGrouping, ViewSort } from '../../core/types';
+import { useSavedViewStore } from '../../store/useSavedViewStore';
+import { GROUPING_OPTIONS, SORT_OPTIONS } from './views';
+
+// ── Tabs ──────────────────────────────────────────────────────────────────
+
+interface ViewTabsProps {
+  views: SavedView[];
+  active?: SavedView;
+  /** The active view's filters have been changed since it was opened. */
+  modified: boolean;
+  onSelect: (view: SavedView | null) => void;
+  onManage: () => void;
+}
+
+/** Pinned views as tabs, after an "All" tab that clears every filter. */
+export function ViewTabs({ views, active, modified, onSelect, onManage }: ViewTabsProps) {
+  const pinned = views.filter((v) => v.pinned);
+  const tabClass = (selected: boolean) =>
+    `shrink-0 px-3 py-1.5 rounded-lg text-xs font-semibold transition-colors ${
+      selected ? 'bg-slate-900 text-white' : 'text-slate-500 hover:bg-slate-100'
+    }`;
+
+  return (
+    <div className="flex items-center gap-1 px-4 pb-3 overflow-x-auto scrollbar-none">
+      <button onClick={() => onSelect(null)} className={tabClass(!active)}>
+        All
+      </button>
+      {pinned.map((v) => (
+        <button key={v.id} onClick={() => onSelect(v)} className={tabClass(active?.id === v.id)}>
+          {v.name}
+          {active?.id === v.id && modified && <span className="ml-1 opacity-70">•</span>}
+        </button>
+      ))}
+      {active && !active.pinned && (
+        <span className={tabClass(true)}>
+          {active.name}
+          {modified && <span className="ml-1 opacity-70">•</span>}
+        </span>
+      )}
+      <button
+        onClick={onManage}
+        className="shrink-0 ml-auto px-3 py-1.5 rounded-lg text-xs font-semibold text-blue-600 hover:bg-blue-50 transition-colors"
+      >
+        Views
+      </button>
+    </div>
+  );
+}
+
+// ── Manage sheet ──────────────────────────────────────────────────────────
+
+interface SavedViewsSheetProps {
+  open: boolean;
+  onClose: () => void;
+  /** The page's state, as a new view would save it. */
+  current: { filters: ViewFilters; sort: ViewSort; grouping: ViewGrouping };
+  active?: SavedView;
+  modified: boolean;
+  onOpen: (view: SavedView) => void;
+  /** The active view was saved, renamed or deleted; null when there is none now. */
+  onActiveChange: (slug: string | null) => void;
+  onDone: (message: string) => void;
+}
+
+function viewLink(slug: string): string {
+  return `${window.location.origin}${import.meta.env.BASE_URL}transactions?view=${encodeURIComponent(slug)}`;
+}
+
+function describe(view: SavedView): string {
+  const f = view.filters;
+  const count = (f.date.type !== 'all' ? 1 : 0) + f.types.length + f.accounts.length + f.categories.length
+    + f.paymentMethods.length + f.statuses.length + f.tags.length + (f.search.trim() ? 1 : 0);
+  const sort = SORT_OPTIONS.find((o) => o.id === view.sort)?.label ?? view.sort;
+  const grouping = GROUPING_OPTIONS.find((o) => o.id === view.grouping)?.label ?? view.grouping;
+  return `${count === 0 ? 'No filters' : `${count} filter${count === 1 ? '' : 's'}`} · ${sort} · ${grouping.toLowerCase()}`;
+}
+
+export function SavedViewsSheet({ open, onClose, current, active, modified, onOpen, onActiveChange, onDone }: SavedViewsSheetProps) {
+  const { views, add, update, remove, move } = useSavedViewStore();
+  const [name, setName] = useState('');
+  const [pin, setPin] = useState(true);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameTo, setRenameTo] = useState('');
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  async function run(action: () => Promise<void>) {
+    setBusy(true);
+    setError('');
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function handleSave() {
+    void run(async () => {
+      const view = await add({ ...current, name, pinned: pin });
+      setName('');
+      onActiveChange(view.slug);
+    });
+  }
+
+  function handleUpdateActive() {
+    if (!active) return;
+    void run(() => update(active.id, current));
+  }
+
+  function handleRename(view: SavedView) {
+    void run(async () => {
+      await update(view.id, { name: renameTo });
+      setRenamingId(null);
+      // The slug follows the name, so keep the address bar on the view
+      if (view.id === active?.id) {
+        const renamed = useSavedViewStore.getState().views.find((v) => v.id === view.id);
+        onActiveChange(renamed?.slug ?? null);
+      }
+    });
+  }
+
+  function handleDelete(view: SavedView) {
+    void run(async () => {
+      await remove(view.id);
+      setConfirmDeleteId(null);
+      if (view.id === active?.id) onActiveChange(null);
+    });
+  }
+
+  function copyLink(view: SavedView) {
+    void navigator.clipboard.writeText(viewLink(view.slug)).then(
+      () => onDone('Link copied'),
+      () => setError('Could not copy the link'),
+    );
+  }
+
+  const pinned = views.filter((v) => v.pinned);
+  const inputClass = 'w-full px-4 py-2.5 rounded-xl border border-slate-200 text-sm text-slate-900 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500';
+  const iconButton = 'w-8 h-8 shrink-0 rounded-lg flex items-center justify-center text-sm text-slate-400 hover:text-slate-700 hover:bg-slate-100 disabled:opacity-30';
+
+  return (
+    <BottomSheet open={open} onClose={onClose} title="Saved views">
+      <div className="px-4 pt-3 pb-6 space-y-4">
+        {active && modified && (
+          <button
+            onClick={handleUpdateActive}
+            disabled={busy}
+            className="w-full py-2.5 rounded-xl bg-blue-50 text-blue-700 text-sm font-semibold hover:bg-blue-100 transition-colors disabled:opacity-50"
+          >
+            Update “{active.name}” with the current filters
+          </button>
+        )}
+
+        <div className="space-y-2">
+          <p className="text-xs font-semibold text-slate-500 uppercase tracking-wide">Save current filters</p>
+          <div className="flex gap-2">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter' && name.trim()) handleSave(); }}
+              placeholder="e.g. Work expenses"
+              className={inputClass}
+            />
+            <button
+              onClick={handleSave}
+              disabled={busy || !name.trim()}
+              className="shrink-0 px-4 rounded-xl bg-blue-600 text-white text-sm font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              Save
+            </button>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <input type="checkbox" checked={pin} onChange={(e) => setPin(e.target.checked)} className="rounded" />
+            Pin as a tab
+          </label>
+        </div>
+
+        {error && <p className="text-xs text-red-500">{error}</p>}
+
+        {views.length === 0 ? (
+          <p className="text-sm text-slate-400 text-center py-4">No saved views yet</p>
+        ) : (
+          <ul className="divide-y divide-slate-100 border border-slate-100 rounded-xl">
+            {views.map((view) => {
+              const tab = pinned.indexOf(view);
+              return (
+                <li key={view.id} className="px-3 py-2.5">
+                  {renamingId === view.id ? (
+                    <div className="flex gap-2">
+                      <input
+                        value={renameTo}
+                        onChange={(e) => setRenameTo(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') handleRename(view); if (e.key === 'Escape') setRenamingId(null); }}
+                        className={inputClass}
+                        autoFocus
+                      />
+                      <button onClick={() => handleRename(view)} disabled={busy} className="shrink-0 px-3 text-sm font-semibold text-blue-600">
+                        Save
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => { onOpen(view); onClose(); }}
+                        className="flex-1 min-w-0 text-left"
+                      >
+                        <p className={`text-sm font-semibold truncate ${view.id === active?.id ? 'text-blue-700' : 'text-slate-800'}`}>{view.name}</p>
+                        <p className="text-xs text-slate-400 truncate">{describe(view)}</p>
+                      </button>
+                      {view.pinned && (
+                        <>
+                          <button onClick={() => void run(() => move(view.id, -1))} disabled={busy || tab === 0} className={iconButton} aria-label={`Move ${view.name} left`}>
+                            ←
+                          </button>
+                          <button onClick={() => void run(() => move(view.id, 1))} disabled={busy || tab === pinned.length - 1} className={iconButton} aria-label={`Move ${view.name} right`}>
+                            →
+                          </button>
+                        </>
+                      )}
+                      <button
+                        onClick={() => void run(() => update(view.id, { pinned: !view.pinned }))}
+                        disabled={busy}
+                        className={`${iconButton} ${view.pinned ? 'text-blue-600' : ''}`}
+                        aria-label={view.pinned ? `Unpin ${view.name}` : `Pin ${view.name}`}
+                        aria-pressed={view.pinned}
+                      >
+                        📌
+                      </button>
+                      <button onClick={() => copyLink(view)} className={iconButton} aria-label={`Copy link to ${view.name}`}>
+                        🔗
+                      </button>
+                      <button
+                        onClick={() => { setRenamingId(view.id); setRenameTo(view.name); setError(''); }}
+                        className={iconButton}
+                        aria-label={`Rename ${view.name}`}
+                      >
+                        ✎
+                      </button>
+                      {confirmDeleteId === view.id ? (
+                        <button onClick={() => handleDelete(view)} disabled={busy} className="shrink-0 px-2 h-8 rounded-lg text-xs font-bold text-white bg-red-600 hover:bg-red-700">
+                          Delete
+                        </button>
+                      ) : (
+                        <button onClick={() => setConfirmDeleteId(view.id)} className={`${iconButton} hover:text-red-600`} aria-label={`Delete ${view.name}`}>
+                          🗑
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </BottomSheet>
+  );
+}
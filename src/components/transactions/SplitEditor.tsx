@@ -0,0 +1,104 @@
+import { amountStep, currencyExponent, formatCurrency, toMajor } from '../../core/types';
+import type { Currency } from '../../core/types';
+import { CATEGORY_EMOJIS } from './CategorySheet';
+import { emptyDraft, fromDrafts, type SplitDraft } from './splitDrafts';
+
+interface SplitEditorProps {
+  lines: SplitDraft[];
+  onChange: (lines: SplitDraft[]) => void;
+  currency: Currency;
+  /** The transaction's amount, which the lines must add up to. */
+  totalMinorUnits: number;
+  /** Open the category picker for line `index`. */
+  onPickCategory: (index: number) => void;
+  error?: string;
+}
+
+export default function SplitEditor({ lines, onChange, currency, totalMinorUnits, onPickCategory, error }: SplitEditorProps) {
+  const assigned = fromDrafts(lines, currency).reduce((sum, line) => sum + line.amountMinorUnits, 0);
+  const left = totalMinorUnits - assigned;
+
+  function patch(index: number, changes: Partial<SplitDraft>) {
+    onChange(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  }
+
+  const inputClass = 'w-full px-3 py-2 rounded-lg border border-slate-200 text-sm text-slate-900 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="border border-slate-200 rounded-2xl overflow-hidden">
+      <div className="bg-slate-50 px-4 py-3 border-b border-slate-200 flex items-center justify-between">
+        <div>
+          <p className="text-xs font-bold text-slate-600 uppercase tracking-wide">Split across categories</p>
+          <p className={`text-xs mt-0.5 ${left === 0 ? 'text-emerald-600' : 'text-amber-600'}`}>
+            {left === 0 ? 'Fully assigned' : left > 0 ? `${formatCurrency(left, currency)} left to assign` : `${formatCurrency(-left, currency)} over the amount`}
+          </p>
+        </div>
+        <button type="button" onClick={() => onChange([])} className="text-xs font-semibold text-slate-500 hover:text-slate-800">
+          Don&apos;t split
+        </button>
+      </div>
+      <div className="divide-y divide-slate-100">
+        {lines.map((line, i) => (
+          <div key={line.id} className="p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                inputMode="decimal"
+                step={amountStep(currency)}
+                min={amountStep(currency)}
+                placeholder={(0).toFixed(currencyExponent(currency))}
+                value={line.amount}
+                onChange={(e) => patch(i, { amount: e.target.value })}
+                className={`${inputClass} w-28 shrink-0`}
+                aria-label={`Line ${i + 1} amount`}
+              />
+              <button
+                type="button"
+                onClick={() => onPickCategory(i)}
+                className="flex-1 min-w-0 px-3 py-2 rounded-lg border border-slate-200 bg-white text-sm text-left truncate hover:border-blue-300 transition-colors"
+              >
+                {line.category
+                  ? <span className="text-slate-900 font-medium">{CATEGORY_EMOJIS[line.category] ?? '📌'} {line.category}</span>
+                  : <span className="text-slate-400">Category…</span>}
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange(lines.filter((_, j) => j !== i))}
+                className="w-8 h-8 shrink-0 rounded-lg flex items-center justify-center text-slate-400 hover:text-red-600 hover:bg-red-50"
+                aria-label={`Remove line ${i + 1}`}
+              >
+                ×
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                type="text"
+                placeholder="Tags (comma separated)"
+                value={line.tags}
+                onChange={(e) => patch(i, { tags: e.target.value })}
+                className={inputClass}
+              />
+              <input
+                type="text"
+                placeholder="Notes"
+                value={line.notes}
+                onChange={(e) => patch(i, { notes: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="px-3 py-2.5 border-t border-slate-100">
+        <button
+          type="button"
+          onClick={() => onChange([...lines, emptyDraft(left > 0 ? String(toMajor(left, currency)) : '')])}
+          className="text-xs font-semibold text-blue-600 hover:text-blue-800"
+        >
+          + Add line
+        </button>
+        {error && <p className="text-xs text-red-500 mt-1">{error}</p>}
+      </div>
+    </div>
+  );
+}
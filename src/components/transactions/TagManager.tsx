@@ -0,0 +1,234 @@
+import { useMemo, useState } from 'react';
+import BottomSheet from '../ui/BottomSheet';
+import type { Tag, Transaction } from '../../core/types';
+import { TAG_COLORS, tagUsage } from '../../core/tags';
+import { useTagStore } from '../../store/useTagStore';
+
+interface TagManagerProps {
+  open: boolean;
+  onClose: () => void;
+  /** What usage is counted over; trashed transactions are renamed too but not counted. */
+  transactions: Transaction[];
+}
+
+interface Entry {
+  name: string;
+  count: number;
+  tag?: Tag;
+}
+
+const inputClass = 'w-full px-3 py-2 rounded-xl border border-slate-200 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/** Every tag with how often it is used: rename, merge, colour and describe them. */
+export default function TagManager({ open, onClose, transactions }: TagManagerProps) {
+  const { tags, rename, merge, describe } = useTagStore();
+  const [search, setSearch] = useState('');
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [draftColor, setDraftColor] = useState('');
+  const [draftDescription, setDraftDescription] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [mergeInto, setMergeInto] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const entries = useMemo<Entry[]>(() => {
+    const usage = tagUsage(transactions);
+    const byName = new Map(tags.map((t) => [t.name, t]));
+    const names = new Set([...usage.keys(), ...byName.keys()]);
+    return [...names]
+      .map((name) => ({ name, count: usage.get(name) ?? 0, tag: byName.get(name) }))
+      .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+  }, [transactions, tags]);
+
+  const shown = search
+    ? entries.filter((e) => e.name.toLowerCase().includes(search.toLowerCase()))
+    : entries;
+
+  async function run(action: () => Promise<void>) {
+    setBusy(true);
+    setError('');
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function startEdit(entry: Entry) {
+    setEditing(entry.name);
+    setDraftName(entry.name);
+    setDraftColor(entry.tag?.color ?? '');
+    setDraftDescription(entry.tag?.description ?? '');
+    setError('');
+  }
+
+  function saveEdit(entry: Entry) {
+    void run(async () => {
+      const name = draftName.trim();
+      if (name !== entry.name) await rename(entry.name, name);
+      if (draftColor !== (entry.tag?.color ?? '') || draftDescription.trim() !== (entry.tag?.description ?? '')) {
+        await describe(name, { color: draftColor, description: draftDescription });
+      }
+      setEditing(null);
+    });
+  }
+
+  function toggleSelected(name: string) {
+    const next = selected.includes(name) ? selected.filter((n) => n !== name) : [...selected, name];
+    setSelected(next);
+    // Suggest the most used of the picked tags as the one to keep
+    if (!mergeInto.trim() || (selected.includes(mergeInto) && !next.includes(mergeInto))) {
+      setMergeInto(entries.find((e) => next.includes(e.name))?.name ?? '');
+    }
+  }
+
+  function mergeSelected() {
+    void run(async () => {
+      const into = mergeInto.trim();
+      await merge(selected.filter((name) => name !== into), into);
+      setSelected([]);
+      setMergeInto('');
+    });
+  }
+
+  const renamingOnto = editing !== null && draftName.trim() !== editing
+    && entries.some((e) => e.name === draftName.trim());
+
+  return (
+    <BottomSheet open={open} onClose={onClose} title="Manage tags">
+      <div className="px-4 pt-3 pb-1 border-b border-slate-100">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search tags..."
+          className="w-full px-4 py-2.5 bg-slate-50 rounded-xl text-sm placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500 border border-transparent"
+        />
+      </div>
+
+      <div className="px-4 pt-3 pb-6 space-y-2">
+        {error && <p className="text-xs text-red-500">{error}</p>}
+
+        {selected.length >= 2 && (
+          <div className="p-3 rounded-xl bg-blue-50 border border-blue-100 space-y-2">
+            <p className="text-xs font-semibold text-blue-700">
+              Merge {selected.length} tags into one; every transaction using them gets the one below.
+            </p>
+            <div className="flex gap-2">
+              <input
+                value={mergeInto}
+                onChange={(e) => setMergeInto(e.target.value)}
+                list="tag-merge-targets"
+                placeholder="Tag to keep"
+                className={inputClass}
+              />
+              <datalist id="tag-merge-targets">
+                {selected.map((name) => <option key={name} value={name} />)}
+              </datalist>
+              <button
+                onClick={mergeSelected}
+                disabled={busy || !mergeInto.trim()}
+                className="shrink-0 px-4 rounded-xl bg-blue-600 text-white text-sm font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                Merge
+              </button>
+            </div>
+          </div>
+        )}
+
+        {shown.length === 0 ? (
+          <p className="text-sm text-slate-400 text-center py-6">
+            {entries.length === 0 ? 'No tags yet. Add them to transactions as you record them.' : 'No tags found'}
+          </p>
+        ) : (
+          <ul className="space-y-1.5">
+            {shown.map((entry) => (
+              <li key={entry.name} className="rounded-xl border border-slate-100">
+                <div className="flex items-center gap-3 px-3 py-2.5">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(entry.name)}
+                    onChange={() => toggleSelected(entry.name)}
+                    aria-label={`Select #${entry.name} to merge`}
+                    className="h-4 w-4 accent-blue-600"
+                  />
+                  <span
+                    className="w-3 h-3 rounded-full shrink-0"
+                    style={{ backgroundColor: entry.tag?.color ?? '#e2e8f0' }}
+                  />
+                  <button onClick={() => (editing === entry.name ? setEditing(null) : startEdit(entry))} className="flex-1 min-w-0 text-left">
+                    <p className="text-sm font-semibold text-slate-800 truncate">#{entry.name}</p>
+                    {entry.tag?.description && <p className="text-xs text-slate-400 truncate">{entry.tag.description}</p>}
+                  </button>
+                  <span className="text-xs text-slate-400 shrink-0">
+                    {entry.count} transaction{entry.count === 1 ? '' : 's'}
+                  </span>
+                </div>
+
+                {editing === entry.name && (
+                  <div className="px-3 pb-3 space-y-3 border-t border-slate-50 pt-3">
+                    <div>
+                      <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wide mb-1.5">Name</label>
+                      <input value={draftName} onChange={(e) => setDraftName(e.target.value)} className={inputClass} />
+                      {renamingOnto && (
+                        <p className="text-xs text-amber-600 mt-1">
+                          #{draftName.trim()} already exists; saving merges #{entry.name} into it.
+                        </p>
+                      )}
+                    </div>
+                    <div>
+                      <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wide mb-1.5">Colour</label>
+                      <div className="flex flex-wrap gap-2">
+                        {TAG_COLORS.map((c) => (
+                          <button
+                            key={c}
+                            type="button"
+                            onClick={() => setDraftColor(draftColor === c ? '' : c)}
+                            className="w-7 h-7 rounded-full transition-all"
+                            aria-label={c}
+                            style={{
+                              backgroundColor: c,
+                              outline: draftColor === c ? `3px solid ${c}` : '3px solid transparent',
+                              outlineOffset: '2px',
+                            }}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wide mb-1.5">Description</label>
+                      <input
+                        value={draftDescription}
+                        onChange={(e) => setDraftDescription(e.target.value)}
+                        placeholder="What the tag is for"
+                        className={inputClass}
+                      />
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => setEditing(null)}
+                        className="flex-1 py-2 rounded-xl border border-slate-200 text-slate-600 text-sm font-semibold hover:bg-slate-50 transition-colors"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => saveEdit(entry)}
+                        disabled={busy || !draftName.trim()}
+                        className="flex-1 py-2 rounded-xl bg-blue-600 text-white text-sm font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50"
+                      >
+                        {renamingOnto ? 'Merge' : 'Save'}
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </BottomSheet>
+  );
+}
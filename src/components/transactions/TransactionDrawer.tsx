@@ -1,14 +1,24 @@
 import { useEffect, useState } from 'react';
-import { useForm } from 'react-hook-form';
+import { useForm, useWatch } from 'react-hook-form';
 import { useAccountStore } from '../../store/useAccountStore';
 import { useTransactionStore } from '../../store/useTransactionStore';
 import { useGoalStore } from '../../store/useGoalStore';
 import { useUIStore } from '../../store/useUIStore';
 import { useCreditCardStore } from '../../store/useCreditCardStore';
-import { toMinor, formatCurrency } from '../../core/types';
-import type { Transaction, FinancialGoal } from '../../core/types';
+import { toMajor, toMinor, formatCurrency, amountStep, currencyExponent, currencySymbol, impliedRate } from '../../core/types';
+import { formatDate, formatNumber } from '../../core/locale';
+import { useConverter } from '../../store/useFxStore';
+import type { Transaction, FinancialGoal, Attachment } from '../../core/types';
+import { describeFile, storeAttachment } from '../../core/attachments';
+import { duplicatesOf } from '../../core/duplicates';
+import { getCurrentUserId } from '../../auth/useAuthStore';
+import { VersionConflictError } from '../../core/storage';
 import { createPortal } from 'react-dom';
 import CategorySheet from './CategorySheet';
+import SplitEditor from './SplitEditor';
+import AttachmentStrip from './AttachmentStrip';
+import { emptyDraft, fromDrafts, toDrafts, type SplitDraft } from './splitDrafts';
+import HistoryTimeline from '../history/HistoryTimeline';
 
 // ── Types ──────────────────────────────────────────────────────────────────
 
@@ -19,6 +29,9 @@ interface FormData {
   time: string;
   accountId: string;
   toAccountId: string;
+  /** Transfers between currencies: the amount that arrived, in the destination's currency */
+  toAmount: string;
+  fee: string;
   category: string;
   paymentMethod: string;
   status: 'completed' | 'scheduled';
@@ -104,11 +117,22 @@ export default function TransactionDrawer({
 }: TransactionDrawerProps) {
   const { accounts } = useAccountStore();
   const { add, update } = useTransactionStore();
-  const { goals, load: loadGoals, allocateAmount } = useGoalStore();
-  const { defaultAccountId } = useUIStore();
-  const { cards: creditCards, load: loadCreditCards, addTransaction: addCCTransaction } = useCreditCardStore();
+  const { goals, load: loadGoals } = useGoalStore();
+  const { defaultAccountId, currency: baseCurrency } = useUIStore();
+  const { cards: creditCards, load: loadCreditCards } = useCreditCardStore();
   const [catSheetOpen, setCatSheetOpen] = useState(false);
+  // Split line whose category is being picked; null picks the transaction's
+  const [catTarget, setCatTarget] = useState<number | null>(null);
+  const [splits, setSplits] = useState<SplitDraft[]>([]);
+  const [splitError, setSplitError] = useState('');
   const [selectedCreditCardId, setSelectedCreditCardId] = useState('');
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  // Picked files are only stored when the transaction is saved
+  const [unsaved, setUnsaved] = useState<Map<string, Blob>>(() => new Map());
+  const [attachError, setAttachError] = useState('');
+  // An existing transaction this one looks like; saving again goes ahead anyway
+  const [duplicateOf, setDuplicateOf] = useState<Transaction | null>(null);
+  const [saveError, setSaveError] = useState('');
 
   // Allocation state (outside react-hook-form — has richer interactivity)
   const [allocType, setAllocType] = useState<'none' | 'goal'>('none');
@@ -142,15 +166,18 @@ export default function TransactionDrawer({
     watch,
     setValue,
     reset,
+    control,
     formState: { errors, isSubmitting },
   } = useForm<FormData>({
     defaultValues: {
       type: initial?.type ?? initialType,
-      amount: initial ? String(initial.amountMinorUnits / 100) : '',
+      amount: initial ? String(toMajor(initial.amountMinorUnits, initial.currency)) : '',
       date: !initScheduled ? (initial?.date?.split('T')[0] ?? todayStr) : todayStr,
       time: initial?.date?.includes('T') ? initial.date.split('T')[1].slice(0, 5) : nowTimeStr,
       accountId: initial?.accountId ?? defaultAcc,
       toAccountId: initial?.toAccountId ?? '',
+      toAmount: initial?.toAmountMinorUnits != null && initial.toCurrency ? String(toMajor(initial.toAmountMinorUnits, initial.toCurrency)) : '',
+      fee: initial?.feeMinorUnits ? String(toMajor(initial.feeMinorUnits, initial.currency)) : '',
       category: initial?.category ?? '',
       paymentMethod: initial?.paymentMethod ?? '',
       status: initScheduled ? 'scheduled' : 'completed',
@@ -170,9 +197,26 @@ export default function TransactionDrawer({
   const watchAccountId = watch('accountId');
   const [notesError, setNotesError] = useState('');
 
-  const amountMinorUnits = toMinor(parseFloat(amountStr) || 0);
+  // Amounts are entered in the currency of the account (or card) paid from
+  const isCCLinked = paymentMode === 'credit' && !!selectedCreditCardId && !creditAccounts.some((a) => a.id === watchAccountId);
+  const selectedCC = isCCLinked ? activeCreditCards.find((c) => c.id === selectedCreditCardId) : undefined;
+  const entryCurrency = selectedCC?.currency
+    ?? activeAccounts.find((a) => a.id === watchAccountId)?.currency
+    ?? initial?.currency
+    ?? baseCurrency;
+  const amountMinorUnits = toMinor(parseFloat(amountStr) || 0, entryCurrency);
   const selectedGoal = activeGoals.find((g) => g.id === linkedGoalId);
 
+  // A transfer into an account of another currency records what arrived there too
+  const [toAccountId, toAmountStr] = useWatch({ control, name: ['toAccountId', 'toAmount'] });
+  const toCurrency = activeAccounts.find((a) => a.id === toAccountId)?.currency;
+  const crossCurrency = type === 'transfer' && !!toCurrency && toCurrency !== entryCurrency;
+  const fx = useConverter();
+  const estimate = crossCurrency && amountMinorUnits > 0 ? fx.convert(amountMinorUnits, entryCurrency, toCurrency, todayStr) : null;
+  const rate = crossCurrency
+    ? impliedRate({ amountMinorUnits, currency: entryCurrency, toAmountMinorUnits: toMinor(parseFloat(toAmountStr) || 0, toCurrency), toCurrency })
+    : null;
+
   // Reset form and allocation state when drawer opens
   useEffect(() => {
     if (open) {
@@ -180,11 +224,13 @@ export default function TransactionDrawer({
       loadCreditCards();
       reset({
         type: initial?.type ?? initialType,
-        amount: initial ? String(initial.amountMinorUnits / 100) : '',
+        amount: initial ? String(toMajor(initial.amountMinorUnits, initial.currency)) : '',
         date: !initScheduled ? (initial?.date?.split('T')[0] ?? todayStr) : todayStr,
         time: initial?.date?.includes('T') ? initial.date.split('T')[1].slice(0, 5) : nowTimeStr,
         accountId: initial?.accountId ?? defaultAcc,
         toAccountId: initial?.toAccountId ?? '',
+        toAmount: initial?.toAmountMinorUnits != null && initial.toCurrency ? String(toMajor(initial.toAmountMinorUnits, initial.toCurrency)) : '',
+        fee: initial?.feeMinorUnits ? String(toMajor(initial.feeMinorUnits, initial.currency)) : '',
         category: initial?.category ?? '',
         paymentMethod: initial?.paymentMethod ?? '',
         status: initScheduled ? 'scheduled' : 'completed',
@@ -215,9 +261,42 @@ export default function TransactionDrawer({
         setSelectedCreditCardId('');
       }
       setNotesError('');
+      setSplits(initial?.splits?.length ? toDrafts(initial.splits, initial.currency) : []);
+      setSplitError('');
+      setAttachments(initial?.attachments ?? []);
+      setUnsaved(new Map());
+      setAttachError('');
+      setDuplicateOf(null);
+      setSaveError('');
     }
   }, [open]);
 
+  async function handleAddFiles(files: File[]) {
+    const added: Attachment[] = [];
+    const errors: string[] = [];
+    for (const file of files) {
+      try {
+        const attachment = await describeFile(file, getCurrentUserId());
+        added.push(attachment);
+        setUnsaved((prev) => new Map(prev).set(attachment.id, file));
+      } catch (err) {
+        errors.push(err instanceof Error ? err.message : String(err));
+      }
+    }
+    setAttachments((prev) => [...prev, ...added]);
+    setAttachError(errors.join(' '));
+  }
+
+  function handleRemoveAttachment(id: string) {
+    setAttachments((prev) => prev.filter((a) => a.id !== id));
+    setUnsaved((prev) => {
+      const next = new Map(prev);
+      next.delete(id);
+      return next;
+    });
+    setAttachError('');
+  }
+
   function handlePaymentModeChange(mode: PaymentMode) {
     setPaymentMode(mode);
     setNotesError('');
@@ -258,7 +337,37 @@ export default function TransactionDrawer({
       return;
     }
     setNotesError('');
-    const account = activeAccounts.find((a) => a.id === data.accountId);
+
+    const amount = toMinor(parseFloat(data.amount) || 0, entryCurrency);
+    const fee = data.type === 'transfer' ? toMinor(parseFloat(data.fee) || 0, entryCurrency) : 0;
+    const lines = data.type !== 'transfer' ? fromDrafts(splits, entryCurrency) : [];
+    if (lines.length > 0) {
+      const assigned = lines.reduce((sum, line) => sum + line.amountMinorUnits, 0);
+      if (lines.some((line) => line.amountMinorUnits <= 0)) {
+        setSplitError('Every split line needs an amount.');
+        return;
+      }
+      if (assigned !== amount) {
+        setSplitError(`Split lines add up to ${formatCurrency(assigned, entryCurrency)}, not ${formatCurrency(amount, entryCurrency)}.`);
+        return;
+      }
+    }
+    setSplitError('');
+    // A split transaction files under its largest line where splits aren't looked at
+    const largest = lines.reduce<(typeof lines)[number] | undefined>(
+      (max, line) => (!max || line.amountMinorUnits > max.amountMinorUnits ? line : max), undefined);
+
+    try {
+      for (const a of attachments) {
+        const file = unsaved.get(a.id);
+        if (file) await storeAttachment(a, file);
+      }
+    } catch (err) {
+      setAttachError(err instanceof Error ? err.message : String(err));
+      return;
+    }
+    setAttachError('');
+
     const isScheduled = data.status === 'scheduled';
 
     let resolvedDate: string;
@@ -273,19 +382,20 @@ export default function TransactionDrawer({
     const isGoalLinked = !isEdit && type === 'expense' && allocType === 'goal' && !!linkedGoalId;
     const goal = isGoalLinked ? activeGoals.find((g) => g.id === linkedGoalId) : undefined;
 
-    // Determine credit card link (from useCreditCardStore)
-    const isCCLinked = paymentMode === 'credit' && !!selectedCreditCardId && !creditAccounts.some((a) => a.id === watchAccountId);
-    const selectedCC = isCCLinked ? activeCreditCards.find((c) => c.id === selectedCreditCardId) : undefined;
-
     const payload: Omit<Transaction, 'id' | 'createdAt' | 'updatedAt'> = {
       // For CC-store cards: use the card's own ID as accountId so it doesn't
       // appear in any bank/cash account's balance in AccountBreakdown.
       accountId: isCCLinked && selectedCC ? selectedCC.id : data.accountId,
       toAccountId: data.type === 'transfer' && data.toAccountId ? data.toAccountId : undefined,
       type: data.type,
-      amountMinorUnits: toMinor(parseFloat(data.amount) || 0),
-      currency: account?.currency ?? (selectedCC?.currency ?? 'GBP'),
-      category: data.category || 'Uncategorized',
+      amountMinorUnits: amount,
+      currency: entryCurrency,
+      toAmountMinorUnits: crossCurrency ? toMinor(parseFloat(data.toAmount) || 0, toCurrency) : undefined,
+      toCurrency: crossCurrency ? toCurrency : undefined,
+      feeMinorUnits: fee > 0 ? fee : undefined,
+      category: largest?.category ?? (data.category || 'Uncategorized'),
+      splits: lines,
+      attachments,
       notes: data.notes || undefined,
       date: resolvedDate,
       paymentMethod: (data.paymentMethod as Transaction['paymentMethod']) || undefined,
@@ -300,28 +410,31 @@ export default function TransactionDrawer({
       linkedEntityName: isGoalLinked ? goal?.name : isCCLinked ? selectedCC?.name : (isEdit ? initial?.linkedEntityName : undefined),
     };
 
-    if (isEdit && initial) {
-      await update(initial.id, payload);
-      onSaved?.();
-    } else {
-      await add(payload);
-      // Allocate to goal after transaction is saved
-      let achieved = false;
-      if (isGoalLinked) {
-        achieved = await allocateAmount(linkedGoalId, payload.amountMinorUnits);
+    if (!isEdit) {
+      const [match] = duplicatesOf(payload, useTransactionStore.getState().transactions);
+      if (match && match.id !== duplicateOf?.id) {
+        setDuplicateOf(match);
+        return;
       }
-      // Track spend on the linked credit card
-      if (isCCLinked && selectedCC && payload.type === 'expense') {
-        await addCCTransaction(selectedCC.id, {
-          merchant: payload.notes || payload.category || 'Expense',
-          category: payload.category,
-          amountMinorUnits: payload.amountMinorUnits,
-          currency: selectedCC.currency,
-          date: resolvedDate,
-          notes: payload.notes,
-        });
+    }
+
+    setSaveError('');
+    try {
+      if (isEdit && initial) {
+        await update(initial.id, payload);
+        onSaved?.();
+      } else {
+        // Goal allocation and card spend are written atomically with the transaction
+        await add(payload);
+        const achieved = isGoalLinked
+          && !!useGoalStore.getState().goals.find((g) => g.id === linkedGoalId)?.isAchieved;
+        onSaved?.(achieved);
       }
-      onSaved?.(achieved);
+    } catch (err) {
+      // The conflict dialog takes over from here
+      if (err instanceof VersionConflictError) onClose();
+      else setSaveError(err instanceof Error ? err.message : String(err));
+      return;
     }
 
     onClose();
@@ -399,13 +512,14 @@ export default function TransactionDrawer({
                   Amount <span className="text-red-500">*</span>
                 </label>
                 <div className="flex items-center gap-2">
-                  <span className={`text-2xl font-bold ${type === 'income' ? 'text-emerald-600' : type === 'expense' ? 'text-red-600' : 'text-blue-600'}`}>£</span>
+                  <span className={`text-2xl font-bold ${type === 'income' ? 'text-emerald-600' : type === 'expense' ? 'text-red-600' : 'text-blue-600'}`}>{currencySymbol(entryCurrency)}</span>
                   <input
                     type="number"
-                    step="0.01"
-                    min="0.01"
-                    placeholder="0.00"
-                    {...register('amount', { required: 'Amount is required', min: { value: 0.01, message: 'Must be > 0' } })}
+                    inputMode="decimal"
+                    step={amountStep(entryCurrency)}
+                    min={amountStep(entryCurrency)}
+                    placeholder={(0).toFixed(currencyExponent(entryCurrency))}
+                    {...register('amount', { required: 'Amount is required', min: { value: Number(amountStep(entryCurrency)), message: 'Must be > 0' } })}
                     className={`flex-1 bg-transparent text-3xl font-bold placeholder-slate-300 focus:outline-none ${type === 'income' ? 'text-emerald-700' : type === 'expense' ? 'text-red-700' : 'text-blue-700'}`}
                   />
                 </div>
@@ -489,6 +603,49 @@ export default function TransactionDrawer({
                       {activeAccounts.map((a) => <option key={a.id} value={a.id}>{a.name}</option>)}
                     </select>
                   </div>
+                  {crossCurrency && (
+                    <div>
+                      <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wide mb-1.5">
+                        Amount Received <span className="text-red-500">*</span>
+                      </label>
+                      <div className="flex items-center gap-2 px-4 py-3 rounded-xl border border-slate-200 bg-white focus-within:ring-2 focus-within:ring-blue-500">
+                        <span className="text-sm font-semibold text-slate-500">{currencySymbol(toCurrency)}</span>
+                        <input
+                          type="number"
+                          inputMode="decimal"
+                          step={amountStep(toCurrency)}
+                          min={amountStep(toCurrency)}
+                          placeholder={estimate != null ? formatNumber(toMajor(estimate, toCurrency), { minimumFractionDigits: currencyExponent(toCurrency), maximumFractionDigits: currencyExponent(toCurrency) }) : (0).toFixed(currencyExponent(toCurrency))}
+                          {...register('toAmount', { validate: (v) => !crossCurrency || parseFloat(v) > 0 || 'Enter the amount that arrived' })}
+                          className="flex-1 bg-transparent text-sm text-slate-900 placeholder-slate-400 focus:outline-none"
+                        />
+                      </div>
+                      {errors.toAmount
+                        ? <p className="text-xs text-red-500 mt-1">{errors.toAmount.message}</p>
+                        : rate != null && rate > 0 && (
+                          <p className="text-xs text-slate-500 mt-1">
+                            Rate: 1 {entryCurrency} = {formatNumber(rate, { maximumFractionDigits: 6 })} {toCurrency}
+                          </p>
+                        )}
+                    </div>
+                  )}
+                  <div>
+                    <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wide mb-1.5">
+                      Fee <span className="normal-case font-normal text-slate-400">(optional, taken from the sending account)</span>
+                    </label>
+                    <div className="flex items-center gap-2 px-4 py-3 rounded-xl border border-slate-200 bg-white focus-within:ring-2 focus-within:ring-blue-500">
+                      <span className="text-sm font-semibold text-slate-500">{currencySymbol(entryCurrency)}</span>
+                      <input
+                        type="number"
+                        inputMode="decimal"
+                        step={amountStep(entryCurrency)}
+                        min={0}
+                        placeholder={(0).toFixed(currencyExponent(entryCurrency))}
+                        {...register('fee')}
+                        className="flex-1 bg-transparent text-sm text-slate-900 placeholder-slate-400 focus:outline-none"
+                      />
+                    </div>
+                  </div>
                 </div>
               ) : (
                 /* Income / Expense: smart payment mode picker */
@@ -685,15 +842,53 @@ export default function TransactionDrawer({
               {notesError && <p className="text-xs text-red-500 mt-1">{notesError}</p>}
             </div>
 
+            {/* ── Attachments ───────────────────────────────────────── */}
+            <div className="px-5 pb-4">
+              <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wide mb-1.5">
+                Receipts &amp; Documents
+              </label>
+              <AttachmentStrip
+                attachments={attachments}
+                unsaved={unsaved}
+                onAdd={(files) => void handleAddFiles(files)}
+                onRemove={handleRemoveAttachment}
+                error={attachError}
+              />
+            </div>
+
             {/* ── Category ──────────────────────────────────────────── */}
             <div className="px-5 pb-4">
-              <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wide mb-1.5">Category</label>
-              <button type="button" onClick={() => setCatSheetOpen(true)} className="w-full flex items-center justify-between px-4 py-3 rounded-xl border border-slate-200 bg-white text-sm hover:border-blue-300 transition-colors">
-                <span className={category ? 'text-slate-900 font-medium' : 'text-slate-400'}>{category || 'Select category...'}</span>
-                <svg className="h-4 w-4 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-                </svg>
-              </button>
+              {type !== 'transfer' && splits.length > 0 ? (
+                <SplitEditor
+                  lines={splits}
+                  onChange={(lines) => { setSplits(lines); setSplitError(''); }}
+                  currency={entryCurrency}
+                  totalMinorUnits={amountMinorUnits}
+                  onPickCategory={(i) => { setCatTarget(i); setCatSheetOpen(true); }}
+                  error={splitError}
+                />
+              ) : (
+                <>
+                  <div className="flex items-center justify-between mb-1.5">
+                    <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wide">Category</label>
+                    {type !== 'transfer' && (
+                      <button
+                        type="button"
+                        onClick={() => setSplits([emptyDraft(amountStr, category), emptyDraft()])}
+                        className="text-xs font-semibold text-blue-600 hover:text-blue-800"
+                      >
+                        Split
+                      </button>
+                    )}
+                  </div>
+                  <button type="button" onClick={() => { setCatTarget(null); setCatSheetOpen(true); }} className="w-full flex items-center justify-between px-4 py-3 rounded-xl border border-slate-200 bg-white text-sm hover:border-blue-300 transition-colors">
+                    <span className={category ? 'text-slate-900 font-medium' : 'text-slate-400'}>{category || 'Select category...'}</span>
+                    <svg className="h-4 w-4 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                    </svg>
+                  </button>
+                </>
+              )}
             </div>
 
             {/* ── Allocate this transaction (expense only, new only) ─── */}
@@ -779,10 +974,37 @@ export default function TransactionDrawer({
               <input type="text" placeholder="e.g. work, personal, tax (comma separated)" {...register('tags')} className="w-full px-4 py-3 rounded-xl border border-slate-200 text-sm text-slate-900 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500" />
             </div>
 
+            {/* ── Edit: change history ──────────────────────────────── */}
+            {isEdit && initial && (
+              <div className="px-5 pb-4">
+                <p className="block text-xs font-semibold text-slate-500 uppercase tracking-wide mb-2">History</p>
+                <HistoryTimeline
+                  table="transactions"
+                  rowId={initial.id}
+                  version={initial.updatedAt}
+                  currency={initial.currency}
+                />
+              </div>
+            )}
+
             {/* spacer */}
             <div className="pb-2" />
           </div>
 
+          {duplicateOf && (
+            <div className="shrink-0 mx-5 mt-3 px-3.5 py-2.5 rounded-xl bg-amber-50 border border-amber-200 text-xs text-amber-800">
+              Looks like a duplicate of {duplicateOf.merchant || duplicateOf.notes || duplicateOf.category} on{' '}
+              {formatDate(duplicateOf.date)}, {formatCurrency(duplicateOf.amountMinorUnits, duplicateOf.currency)}.
+              Save again to record it anyway.
+            </div>
+          )}
+
+          {saveError && (
+            <div className="shrink-0 mx-5 mt-3 px-3.5 py-2.5 rounded-xl bg-red-50 border border-red-200 text-xs text-red-700">
+              {saveError}
+            </div>
+          )}
+
           {/* ── Sticky save button ─────────────────────────────────── */}
           <div className="shrink-0 px-5 py-4 border-t border-slate-100 bg-white flex gap-3">
             <button type="button" onClick={onClose} className="px-5 py-3.5 rounded-xl border border-slate-200 text-slate-600 font-semibold text-sm hover:bg-slate-50 transition-colors">
@@ -800,6 +1022,7 @@ export default function TransactionDrawer({
             >
               {isSubmitting ? 'Saving…'
                 : isEdit ? 'Update Transaction'
+                : duplicateOf ? 'Save Anyway'
                 : allocType === 'goal' && linkedGoalId ? 'Save & Update Goal'
                 : 'Save Transaction'}
             </button>
@@ -811,8 +1034,11 @@ export default function TransactionDrawer({
       <CategorySheet
         open={catSheetOpen}
         onClose={() => setCatSheetOpen(false)}
-        selected={category}
-        onSelect={(cat) => setValue('category', cat)}
+        selected={catTarget === null ? category : splits[catTarget]?.category}
+        onSelect={(cat) => {
+          if (catTarget === null) setValue('category', cat);
+          else setSplits((lines) => lines.map((line, i) => (i === catTarget ? { ...line, category: cat } : line)));
+        }}
       />
     </div>,
     document.body,
@@ -4,10 +4,11 @@ import { useAccountStore } from '../../store/useAccountStore';
 import { useTransactionStore } from '../../store/useTransactionStore';
 import { useUIStore } from '../../store/useUIStore';
 import { ALL_CATEGORIES } from '../../core/categorizer';
-import { toMinor } from '../../core/types';
+import { toMajor, toMinor, amountStep, currencyExponent } from '../../core/types';
 import type { Transaction, PaymentTiming } from '../../core/types';
 import Button from '../ui/Button';
 import Input from '../ui/Input';
+import AmountInput from '../ui/AmountInput';
 import Select from '../ui/Select';
 import Textarea from '../ui/Textarea';
 
@@ -56,7 +57,7 @@ function tomorrow(): string {
 export default function TransactionForm({ initial, onDone }: TransactionFormProps) {
   const { accounts } = useAccountStore();
   const { add, update } = useTransactionStore();
-  const { defaultAccountId } = useUIStore();
+  const { defaultAccountId, currency: baseCurrency } = useUIStore();
 
   const isFutureInitial = initial?.paymentTiming === 'future';
 
@@ -69,7 +70,7 @@ export default function TransactionForm({ initial, onDone }: TransactionFormProp
   } = useForm<FormData>({
     defaultValues: {
       type: initial?.type ?? 'expense',
-      amount: initial ? String(initial.amountMinorUnits / 100) : '',
+      amount: initial ? String(toMajor(initial.amountMinorUnits, initial.currency)) : '',
       date: (!isFutureInitial ? initial?.date : undefined) ?? new Date().toISOString().split('T')[0],
       expectedDate: isFutureInitial ? initial?.date : tomorrow(),
       paymentTiming: initial?.paymentTiming ?? 'instant',
@@ -86,6 +87,8 @@ export default function TransactionForm({ initial, onDone }: TransactionFormProp
   const paymentMethod = watch('paymentMethod');
   const isFuture = type === 'income' && paymentTiming === 'future';
   const isCash = paymentMethod === 'cash';
+  const resolvedAccountId = isCash ? (defaultAccountId ?? accounts[0]?.id ?? '') : watch('accountId');
+  const currency = accounts.find((a) => a.id === resolvedAccountId)?.currency ?? initial?.currency ?? baseCurrency;
 
   // Reset timing to 'instant' when switching away from income
   useEffect(() => {
@@ -96,13 +99,12 @@ export default function TransactionForm({ initial, onDone }: TransactionFormProp
 
   async function onSubmit(data: FormData) {
     const resolvedDate = isFuture ? data.expectedDate : data.date;
-    const resolvedAccountId = isCash ? (defaultAccountId ?? accounts[0]?.id ?? '') : data.accountId;
 
     const payload = {
       accountId: resolvedAccountId,
       type: data.type as Transaction['type'],
-      amountMinorUnits: toMinor(parseFloat(data.amount)),
-      currency: accounts.find((a) => a.id === resolvedAccountId)?.currency ?? 'GBP',
+      amountMinorUnits: toMinor(parseFloat(data.amount), currency),
+      currency,
       category: data.category || 'Uncategorized',
       notes: data.notes,
       date: resolvedDate,
@@ -233,17 +235,15 @@ export default function TransactionForm({ initial, onDone }: TransactionFormProp
 
       {/* Amount + Date row */}
       <div className="grid grid-cols-2 gap-3">
-        <Input
+        <AmountInput
           label="Amount"
-          type="number"
-          step="0.01"
-          min="0.01"
-          placeholder="0.00"
+          currency={currency}
+          placeholder={(0).toFixed(currencyExponent(currency))}
           required
           error={errors.amount?.message}
           {...register('amount', {
             required: 'Amount is required',
-            min: { value: 0.01, message: 'Must be > 0' },
+            min: { value: Number(amountStep(currency)), message: 'Must be > 0' },
           })}
         />
         {/* Hide date when future is selected (expectedDate used instead) */}
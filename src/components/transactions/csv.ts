@@ -0,0 +1,39 @@
+import type { Transaction } from '../../core/types';
+import { formatAmount, isScheduled } from '../../core/types';
+
+export function downloadCSV(rows: Record<string, string | number>[], filename: string) {
+  if (rows.length === 0) return;
+  const headers = Object.keys(rows[0]);
+  const csvContent = [
+    headers.join(','),
+    ...rows.map((r) =>
+      headers.map((h) => `"${String(r[h] ?? '').replace(/"/g, '""')}"`).join(','),
+    ),
+  ].join('\n');
+  const blob = new Blob([csvContent], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/** One CSV row per transaction, amounts in their own currency. */
+export function transactionCsvRows(txns: Transaction[]): Record<string, string>[] {
+  return txns.map((t) => ({
+    date: t.date.split('T')[0],
+    type: t.type,
+    merchant: t.merchant ?? '',
+    category: t.category,
+    amount: formatAmount(t.amountMinorUnits, t.currency),
+    currency: t.currency,
+    receivedAmount: t.toAmountMinorUnits != null && t.toCurrency ? formatAmount(t.toAmountMinorUnits, t.toCurrency) : '',
+    receivedCurrency: t.toCurrency ?? '',
+    fee: t.feeMinorUnits ? formatAmount(t.feeMinorUnits, t.currency) : '',
+    paymentMethod: t.paymentMethod ?? '',
+    status: isScheduled(t) ? 'scheduled' : 'completed',
+    notes: t.notes ?? '',
+    tags: t.tags.join(';'),
+  }));
+}
@@ -0,0 +1,35 @@
+import { newId, toMajor, toMinor } from '../../core/types';
+import type { Currency, SplitLine } from '../../core/types';
+
+/** A split line as edited: amounts and tags stay text until saved. */
+export interface SplitDraft {
+  id: string;
+  amount: string;
+  category: string;
+  tags: string;
+  notes: string;
+}
+
+export function toDrafts(lines: SplitLine[], currency: Currency): SplitDraft[] {
+  return lines.map((line) => ({
+    id: line.id,
+    amount: String(toMajor(line.amountMinorUnits, currency)),
+    category: line.category,
+    tags: line.tags.join(', '),
+    notes: line.notes ?? '',
+  }));
+}
+
+export function fromDrafts(drafts: SplitDraft[], currency: Currency): SplitLine[] {
+  return drafts.map((d) => ({
+    id: d.id,
+    amountMinorUnits: toMinor(parseFloat(d.amount) || 0, currency),
+    category: d.category || 'Uncategorized',
+    tags: d.tags.split(',').map((t) => t.trim()).filter(Boolean),
+    notes: d.notes.trim() || undefined,
+  }));
+}
+
+export function emptyDraft(amount = '', category = ''): SplitDraft {
+  return { id: newId(), amount, category, tags: '', notes: '' };
+}
@@ -0,0 +1,88 @@
+import type { Transaction, ViewFilters, ViewGrouping, ViewSort } from '../../core/types';
+import { isScheduled } from '../../core/types';
+import type { Converter } from '../../core/fx';
+
+export const SORT_OPTIONS: { id: ViewSort; label: string }[] = [
+  { id: 'date_desc', label: 'Newest first' },
+  { id: 'date_asc', label: 'Oldest first' },
+  { id: 'amount_desc', label: 'Largest amount' },
+  { id: 'amount_asc', label: 'Smallest amount' },
+];
+
+export const GROUPING_OPTIONS: { id: ViewGrouping; label: string }[] = [
+  { id: 'day', label: 'By day' },
+  { id: 'month', label: 'By month' },
+  { id: 'category', label: 'By category' },
+  { id: 'none', label: 'No grouping' },
+];
+
+/** Key of the group for scheduled transactions without a date. */
+export const NO_DATE = 'no-date';
+
+function sameList(a: string[], b: string[]): boolean {
+  if (a.length !== b.length) return false;
+  const sorted = [...b].sort();
+  return [...a].sort().every((x, i) => x === sorted[i]);
+}
+
+/** True when two filter states select the same transactions. */
+export function sameFilters(a: ViewFilters, b: ViewFilters): boolean {
+  const dateA = a.date.type === 'custom' ? a.date : { type: a.date.type };
+  const dateB = b.date.type === 'custom' ? b.date : { type: b.date.type };
+  return a.search.trim() === b.search.trim()
+    && dateA.type === dateB.type && dateA.from === dateB.from && dateA.to === dateB.to
+    && sameList(a.types, b.types)
+    && sameList(a.accounts, b.accounts)
+    && sameList(a.categories, b.categories)
+    && sameList(a.paymentMethods, b.paymentMethods)
+    && sameList(a.statuses, b.statuses)
+    && sameList(a.tags, b.tags);
+}
+
+function groupKey(t: Transaction, grouping: ViewGrouping): string {
+  if (grouping === 'none') return '';
+  if (grouping === 'category') return t.category;
+  if (isScheduled(t) && !t.hasFixedScheduleDate) return NO_DATE;
+  const day = t.date.split('T')[0];
+  return grouping === 'month' ? day.slice(0, 7) : day;
+}
+
+/**
+ * Sort transactions and split them into groups for the list. Undated
+ * scheduled transactions lead; date groups follow the sort's direction
+ * (newest first unless sorting oldest first) and categories go A–Z.
+ * Amounts compare at their base-currency value, or as they stand when
+ * there is no rate to convert them with.
+ */
+export function arrangeTransactions(
+  txns: Transaction[],
+  sort: ViewSort,
+  grouping: ViewGrouping,
+  fx: Converter,
+): Array<[string, Transaction[]]> {
+  const value = (t: Transaction) => fx.toBase(t.amountMinorUnits, t.currency, t.date) ?? t.amountMinorUnits;
+  const sorted = txns.slice().sort((a, b) => {
+    switch (sort) {
+      case 'date_asc': return a.date.localeCompare(b.date);
+      case 'amount_desc': return value(b) - value(a);
+      case 'amount_asc': return value(a) - value(b);
+      default: return b.date.localeCompare(a.date);
+    }
+  });
+
+  const map = new Map<string, Transaction[]>();
+  for (const t of sorted) {
+    const key = groupKey(t, grouping);
+    const list = map.get(key) ?? [];
+    list.push(t);
+    map.set(key, list);
+  }
+  const entries = [...map.entries()];
+  entries.sort(([a], [b]) => {
+    if (a === NO_DATE) return -1;
+    if (b === NO_DATE) return 1;
+    if (grouping === 'category') return a.localeCompare(b);
+    return sort === 'date_asc' ? a.localeCompare(b) : b.localeCompare(a);
+  });
+  return entries;
+}
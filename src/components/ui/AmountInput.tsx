@@ -0,0 +1,31 @@
+import { forwardRef } from 'react';
+import Input, { type InputProps } from './Input';
+import { amountStep, currencySymbol, type Currency } from '../../core/types';
+
+interface AmountInputProps extends Omit<InputProps, 'type' | 'step'> {
+  currency: Currency;
+}
+
+/**
+ * Number input for an amount in `currency`: labelled with its symbol and
+ * stepping by its minor unit. The smallest unit is the minimum unless `min`
+ * says otherwise.
+ */
+const AmountInput = forwardRef<HTMLInputElement, AmountInputProps>(
+  ({ currency, label, min, ...props }, ref) => {
+    const step = amountStep(currency);
+    return (
+      <Input
+        ref={ref}
+        type="number"
+        inputMode="decimal"
+        step={step}
+        min={min ?? step}
+        label={label && `${label} (${currencySymbol(currency)})`}
+        {...props}
+      />
+    );
+  },
+);
+AmountInput.displayName = 'AmountInput';
+export default AmountInput;
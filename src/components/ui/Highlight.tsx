@@ -0,0 +1,26 @@
+interface HighlightProps {
+  text: string;
+  /** Substrings to mark, matched case-insensitively. */
+  terms: string[];
+}
+
+function escape(term: string): string {
+  return term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** `text` with every occurrence of `terms` marked. */
+export default function Highlight({ text, terms }: HighlightProps) {
+  const wanted = terms.filter(Boolean);
+  if (wanted.length === 0) return <>{text}</>;
+  const lower = new Set(wanted.map((t) => t.toLowerCase()));
+  const parts = text.split(new RegExp(`(${wanted.map(escape).join('|')})`, 'gi'));
+  return (
+    <>
+      {parts.map((part, i) =>
+        lower.has(part.toLowerCase())
+          ? <mark key={i} className="bg-amber-100 text-inherit rounded px-0.5">{part}</mark>
+          : part,
+      )}
+    </>
+  );
+}
@@ -0,0 +1,34 @@
+import { clsx } from 'clsx';
+import { Link } from 'react-router-dom';
+import type { BaseTotal } from '../../core/fx';
+import { formatCurrency } from '../../core/types';
+import { useUIStore } from '../../store/useUIStore';
+
+interface OriginalAmountsProps {
+  total: BaseTotal;
+  className?: string;
+}
+
+/**
+ * The amounts behind a converted total, in the currencies they were entered
+ * in. Renders nothing when everything was already in the base currency.
+ */
+export default function OriginalAmounts({ total, className }: OriginalAmountsProps) {
+  const base = useUIStore((s) => s.currency);
+  const currencies = Object.keys(total.byCurrency).sort();
+  if (total.unconverted === 0 && currencies.every((c) => c === base)) return null;
+
+  return (
+    <p className={clsx('text-xs text-slate-400', className)}>
+      {currencies.map((c) => formatCurrency(total.byCurrency[c], c)).join(' + ')}
+      {total.unconverted > 0 && (
+        <>
+          {' · '}
+          <Link to="/settings" className="text-amber-600 hover:underline">
+            {total.unconverted} without a {base} rate
+          </Link>
+        </>
+      )}
+    </p>
+  );
+}
@@ -0,0 +1,51 @@
+/**
+ * Settings that hold for the whole account rather than one device, kept in
+ * the `account_settings` table (migration 0018) so every device reads the
+ * same ones. They are only shared while data goes through Supabase: the
+ * supabase backend, or local-first with cloud sync on. Setups that keep
+ * everything on the device keep these there too.
+ */
+import { supabase } from './supabase';
+import { getStorage } from './storage';
+import { cloudMode } from './sync';
+import { now } from './types';
+
+export type SyncMode = 'rows' | 'encrypted';
+
+export interface AccountSettings {
+  /** Key id and sealed passphrase check of the private vault; absent while it is off. */
+  vaultKeyId?: string;
+  vaultCheck?: string;
+  /** How every device syncs: rows, or sealed change-sets only (migration 0019). */
+  syncMode?: SyncMode;
+}
+
+const TABLE = 'account_settings';
+
+/** Whether account settings live on the server right now. */
+export function accountSettingsShared(): boolean {
+  const { backend } = getStorage();
+  return backend === 'supabase' || (backend === 'local-first' && cloudMode() !== 'off');
+}
+
+/** The account's settings, or null if none have been saved yet. Needs the network. */
+export async function fetchAccountSettings(userId: string): Promise<AccountSettings | null> {
+  const { data, error } = await supabase.from(TABLE).select('*').eq('user_id', userId).maybeSingle();
+  if (error) throw new Error(`[DB] ${TABLE}.select: ${error.message}`);
+  if (!data) return null;
+  return {
+    vaultKeyId: (data['vault_key_id'] as string | null) ?? undefined,
+    vaultCheck: (data['vault_check'] as string | null) ?? undefined,
+    syncMode: (data['sync_mode'] as SyncMode | null) ?? undefined,
+  };
+}
+
+/** Save `changes` to the account's settings. Needs the network. */
+export async function saveAccountSettings(userId: string, changes: AccountSettings): Promise<void> {
+  const row: Record<string, unknown> = { user_id: userId, updated_at: now() };
+  if ('vaultKeyId' in changes) row['vault_key_id'] = changes.vaultKeyId ?? null;
+  if ('vaultCheck' in changes) row['vault_check'] = changes.vaultCheck ?? null;
+  if ('syncMode' in changes) row['sync_mode'] = changes.syncMode ?? null;
+  const { error } = await supabase.from(TABLE).upsert(row);
+  if (error) throw new Error(`[DB] ${TABLE}.upsert: ${error.message}`);
+}
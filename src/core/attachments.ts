@@ -0,0 +1,232 @@
+/**
+ * Attachments on transactions: checking picked files, making the thumbnail
+ * kept in the row, and moving the bytes through the file store.
+ */
+import type { Attachment } from './types';
+import { newId, now } from './types';
+import type { DbRow } from './storage';
+import { db } from './db';
+import { getFile, putFile, removeFiles } from './files';
+import { useHistoryStore } from '../store/useHistoryStore';
+
+// As the `attachments` bucket allows (0014). No SVG: opened from this origin its scripts would run here
+const ALLOWED_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/heic', 'image/heif', 'application/pdf'];
+
+/** For the file picker's `accept`. */
+export const ATTACHMENT_ACCEPT = ALLOWED_TYPES.join(',');
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+const THUMBNAIL_SIZE = 160;
+
+function allowedType(type: string): boolean {
+  return ALLOWED_TYPES.includes(type);
+}
+
+export function isImage(a: Pick<Attachment, 'type'>): boolean {
+  return a.type.startsWith('image/');
+}
+
+// Formats the browser can't decode (HEIC on most) just go without one
+async function makeThumbnail(file: Blob): Promise<string | undefined> {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL('image/jpeg', 0.7);
+  } catch {
+    return undefined;
+  }
+}
+
+/** Metadata for a picked file; throws if it isn't an image or PDF or is too large. Nothing is stored yet. */
+export async function describeFile(file: File, userId: string): Promise<Attachment> {
+  if (!allowedType(file.type)) throw new Error(`[Files] ${file.name}: only JPEG, PNG, GIF, WebP, HEIC and PDF files can be attached`);
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    throw new Error(`[Files] ${file.name}: larger than ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`);
+  }
+  const id = newId();
+  return {
+    id,
+    name: file.name,
+    type: file.type,
+    size: file.size,
+    path: `${userId}/${id}`,
+    thumbnail: file.type.startsWith('image/') ? await makeThumbnail(file) : undefined,
+    createdAt: now(),
+  };
+}
+
+export function storeAttachment(a: Attachment, file: Blob): Promise<void> {
+  return putFile(a.path, file);
+}
+
+/** Files of `before` that `after` no longer lists. */
+export function droppedAttachments(before: Attachment[] = [], after: Attachment[] = []): Attachment[] {
+  return before.filter((a) => !after.some((b) => b.path === a.path));
+}
+
+/** Delete the files; a failure is only logged, leaving an orphan rather than failing the caller. */
+export function discardAttachments(attachments: Attachment[]): void {
+  if (attachments.length === 0) return;
+  removeFiles(attachments.map((a) => a.path)).catch((err) => console.warn('[Files] Could not delete attachments:', err));
+}
+
+// ── Retired files ────────────────────────────────────────────────────────────
+// A file dropped from a transaction may come back with an undo, so it is
+// only deleted once nothing refers to it: no stored transaction, trashed
+// ones included, and no command still on the undo or redo stack. The list
+// is kept on the device, as the history goes with a reload or sign-out.
+
+function retiredKey(userId: string): string {
+  return `pl_retired_files_${userId}`;
+}
+
+function loadRetired(userId: string): string[] {
+  try {
+    return JSON.parse(localStorage.getItem(retiredKey(userId)) ?? '[]') as string[];
+  } catch {
+    return [];
+  }
+}
+
+function saveRetired(userId: string, paths: string[]): void {
+  if (paths.length > 0) localStorage.setItem(retiredKey(userId), JSON.stringify(paths));
+  else localStorage.removeItem(retiredKey(userId));
+}
+
+/** Paths of the attachments on transaction rows as stored (snapshots in the undo history). */
+export function attachmentPaths(rows: Iterable<DbRow | null>): string[] {
+  const paths: string[] = [];
+  for (const row of rows) {
+    let list = row?.['attachments'];
+    if (typeof list === 'string') {
+      try {
+        list = JSON.parse(list) as unknown;
+      } catch {
+        continue;
+      }
+    }
+    if (!Array.isArray(list)) continue;
+    for (const a of list as Partial<Attachment>[]) if (typeof a?.path === 'string') paths.push(a.path);
+  }
+  return paths;
+}
+
+/** Files their transactions no longer list; `sweepRetiredFiles` deletes them once nothing else does. */
+export function retireFiles(userId: string, paths: string[]): void {
+  if (paths.length === 0) return;
+  saveRetired(userId, [...new Set([...loadRetired(userId), ...paths])]);
+}
+
+/**
+ * Delete the retired files of `userId` that no stored transaction and no
+ * command in the undo history refers to. The rest stay retired.
+ */
+export async function sweepRetiredFiles(userId: string): Promise<void> {
+  const retired = loadRetired(userId);
+  if (retired.length === 0) return;
+  const { undoStack, redoStack } = useHistoryStore.getState();
+  const table = db.transactions.forUser(userId);
+  const inUse = new Set([
+    ...[...undoStack, ...redoStack].flatMap((c) => attachmentPaths(c.rows.flatMap((r) => [r.before, r.after]))),
+    ...[...await table.toArray(), ...await table.trashed().toArray()].flatMap((t) => (t.attachments ?? []).map((a) => a.path)),
+  ]);
+  const unused = retired.filter((path) => !inUse.has(path));
+  if (unused.length === 0) return;
+  await removeFiles(unused);
+  // Read again: more may have been retired meanwhile
+  saveRetired(userId, loadRetired(userId).filter((path) => !unused.includes(path)));
+}
+
+/**
+ * Show the file in a new tab. Anything but the allowed types (an older
+ * attachment, or one from an imported backup) is saved as a download
+ * instead, since a tab on a blob URL runs with this origin.
+ */
+export async function openAttachment(a: Attachment): Promise<void> {
+  if (!allowedType(a.type)) {
+    const url = URL.createObjectURL(new Blob([await getFile(a.path)], { type: 'application/octet-stream' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = a.name;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    return;
+  }
+  // Opened before the download so popup blockers see the click
+  const tab = window.open('', '_blank');
+  try {
+    // Typed from the checked metadata, not whatever the stored blob claims to be
+    const url = URL.createObjectURL(new Blob([await getFile(a.path)], { type: a.type }));
+    if (tab) tab.location.href = url;
+    else window.open(url, '_blank');
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  } catch (err) {
+    tab?.close();
+    throw err;
+  }
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// ── Backups ──────────────────────────────────────────────────────────────────
+
+/** An attachment's bytes in an export, as a data URL. */
+export interface ExportedFile {
+  path: string;
+  data: string;
+}
+
+function toDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error ?? new Error('[Files] Could not read file'));
+    reader.readAsDataURL(blob);
+  });
+}
+
+/** The files behind `attachments`; ones this device can't reach are listed in `missing`. */
+export async function exportFiles(attachments: Attachment[]): Promise<{ files: ExportedFile[]; missing: string[] }> {
+  const files: ExportedFile[] = [];
+  const missing: string[] = [];
+  for (const a of attachments) {
+    try {
+      files.push({ path: a.path, data: await toDataUrl(await getFile(a.path)) });
+    } catch {
+      missing.push(a.path);
+    }
+  }
+  return { files, missing };
+}
+
+/**
+ * `path` under `userId`. A restored backup may come from another account,
+ * and the bucket only takes files under the uploader's own id (0014).
+ */
+function rehomePath(path: string, userId: string): string {
+  return `${userId}/${path.slice(path.lastIndexOf('/') + 1)}`;
+}
+
+/** `a` as stored for `userId`, to match the files `importFiles` stores. */
+export function rehomeAttachment(a: Attachment, userId: string): Attachment {
+  return { ...a, path: rehomePath(a.path, userId) };
+}
+
+/** Store the files from a backup under `userId`. Throws, storing nothing, if any isn't inline data. */
+export async function importFiles(files: ExportedFile[], userId: string): Promise<void> {
+  // Fetching anything else would let a crafted backup make this device request any URL
+  const bad = files.find((f) => !f.data.startsWith('data:'));
+  if (bad) throw new Error(`[Files] ${bad.path}: a backup's files must be data: URLs`);
+  for (const f of files) {
+    const blob = await (await fetch(f.data)).blob();
+    await putFile(rehomePath(f.path, userId), blob);
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Field-level change history.
+ * The db shim hands every write but a clear to `changeLogOps` and writes
+ * the returned `change_log` rows in the same batch as the change itself, so
+ * a record's history can never disagree with the record. Each entry keeps
+ * the columns that moved (old and new value), who made the change and when.
+ */
+import { getStorage, type BatchOp, type DbRow } from './storage';
+import { parseRows } from './validation';
+import { useAuthStore } from '../auth/useAuthStore';
+import type { ChangeAction, ChangeLogEntry, FieldChange } from './types';
+import { newId, now } from './types';
+
+export const CHANGE_LOG_TABLE = 'change_log';
+
+// Bookkeeping columns; `deleted_at` is reported through the action instead
+const IGNORED = new Set(['id', 'user_id', 'created_at', 'updated_at', 'deleted_at']);
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function logRow(
+  table: string,
+  rowId: string,
+  userId: unknown,
+  action: ChangeAction,
+  changes: Record<string, FieldChange>,
+): DbRow {
+  return {
+    id: newId(),
+    user_id: userId ?? null,
+    table_name: table,
+    row_id: rowId,
+    action,
+    changes,
+    actor_id: useAuthStore.getState().user?.id ?? null,
+    created_at: now(),
+  };
+}
+
+// Ids per `in` filter; keeps the Supabase request URL within limits
+const READ_CHUNK = 200;
+
+/** The stored rows `ops` will touch, one query per table and chunk, keyed by `table:id`. */
+async function storedRows(ops: BatchOp[]): Promise<Map<string, DbRow>> {
+  const groups = new Map<string, { table: string; userId?: string; ids: Set<string> }>();
+  const want = (table: string, userId: string | undefined, id: string) => {
+    const key = `${table}:${userId ?? ''}`;
+    const group = groups.get(key) ?? { table, userId, ids: new Set<string>() };
+    group.ids.add(id);
+    groups.set(key, group);
+  };
+  for (const op of ops) {
+    if (op.table === CHANGE_LOG_TABLE) continue;
+    if (op.kind === 'update') want(op.table, op.userId, op.id);
+    else if (op.kind === 'purge') for (const id of op.ids) want(op.table, op.userId, id);
+    else if (op.kind === 'upsert') for (const row of op.rows) want(op.table, row['user_id'] as string | undefined, row['id'] as string);
+  }
+
+  const found = new Map<string, DbRow>();
+  for (const { table, userId, ids } of groups.values()) {
+    const all = [...ids];
+    for (let i = 0; i < all.length; i += READ_CHUNK) {
+      const rows = await getStorage().select(table, { userId, filters: [{ column: 'id', op: 'in', value: all.slice(i, i + READ_CHUNK) }] });
+      for (const row of rows) found.set(`${table}:${row['id'] as string}`, row);
+    }
+  }
+  return found;
+}
+
+function addedColumns(row: DbRow): Record<string, FieldChange> {
+  const changes: Record<string, FieldChange> = {};
+  for (const [column, value] of Object.entries(row)) {
+    if (!IGNORED.has(column) && value != null) changes[column] = { from: null, to: value };
+  }
+  return changes;
+}
+
+/** The log row for patching `before` with `patch`, or null if nothing the user sees moved. */
+export function updateLog(table: string, id: string, before: DbRow, patch: DbRow): DbRow | null {
+  const changes: Record<string, FieldChange> = {};
+  for (const [column, value] of Object.entries(patch)) {
+    if (!IGNORED.has(column) && !same(before[column], value)) {
+      changes[column] = { from: before[column] ?? null, to: value };
+    }
+  }
+  const wasDeleted = before['deleted_at'] != null;
+  const action: ChangeAction = !('deleted_at' in patch) || wasDeleted === (patch['deleted_at'] != null)
+    ? 'update'
+    : wasDeleted ? 'restore' : 'remove';
+  if (action === 'update' && Object.keys(changes).length === 0) return null;
+  return logRow(table, id, before['user_id'], action, changes);
+}
+
+/**
+ * Change-log rows describing `ops`, to be written in the same batch. Must be
+ * called before the ops are applied, since updates, upserts and purges are
+ * described against the stored rows. Clears wipe the log too and aren't logged.
+ */
+export async function changeLogOps(ops: BatchOp[]): Promise<BatchOp[]> {
+  // Stored rows as the ops before the current one leave them
+  const state = await storedRows(ops);
+  const rows: DbRow[] = [];
+  for (const op of ops) {
+    if (op.table === CHANGE_LOG_TABLE) continue;
+    const key = (id: string) => `${op.table}:${id}`;
+
+    if (op.kind === 'insert' || op.kind === 'upsert') {
+      for (const row of op.rows) {
+        const id = row['id'] as string;
+        const before = state.get(key(id));
+        const entry = before ? updateLog(op.table, id, before, row) : logRow(op.table, id, row['user_id'], 'add', addedColumns(row));
+        if (entry) rows.push(entry);
+        state.set(key(id), { ...before, ...row });
+      }
+    } else if (op.kind === 'update') {
+      const before = state.get(key(op.id));
+      if (!before) continue;
+      const entry = updateLog(op.table, op.id, before, op.changes);
+      if (entry) rows.push(entry);
+      state.set(key(op.id), { ...before, ...op.changes });
+    } else if (op.kind === 'purge') {
+      for (const id of op.ids) {
+        const before = state.get(key(id));
+        if (!before) continue;
+        // The last values, since the row itself is gone
+        const changes: Record<string, FieldChange> = {};
+        for (const [column, value] of Object.entries(before)) {
+          if (!IGNORED.has(column) && value != null) changes[column] = { from: value, to: null };
+        }
+        rows.push(logRow(op.table, id, before['user_id'], 'purge', changes));
+        state.delete(key(id));
+      }
+    }
+  }
+  return rows.length > 0 ? [{ kind: 'insert', table: CHANGE_LOG_TABLE, rows }] : [];
+}
+
+/** History of one record, newest first. */
+export async function getHistory(userId: string, table: string, rowId: string): Promise<ChangeLogEntry[]> {
+  const rows = await getStorage().select(CHANGE_LOG_TABLE, {
+    userId,
+    filters: [
+      { column: 'table_name', op: 'eq', value: table },
+      { column: 'row_id', op: 'eq', value: rowId },
+    ],
+    order: [{ column: 'created_at', ascending: false }],
+  });
+  return parseRows<ChangeLogEntry>(CHANGE_LOG_TABLE, rows);
+}
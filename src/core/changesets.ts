@@ -0,0 +1,284 @@
+/**
+ * End-to-end encrypted sync.
+ * With encrypted sync on, Supabase never holds rows: the local mirror is the
+ * canonical copy and queued writes are uploaded as opaque change-sets sealed
+ * with the private-vault key. Other devices download the change-sets newer
+ * than their cursor, open them and merge the writes into their own mirror,
+ * the newer `updated_at` winning. Whether the account syncs this way is
+ * recorded with its settings (see accountSettings.ts), so every device
+ * follows the same mode.
+ */
+import { supabase } from './supabase';
+import { localDb, SYNCED_TABLES, type OutboxEntry } from './localDb';
+import { supabaseAdapter } from './storage/supabaseAdapter';
+import { pendingRowIds, flushOutbox, pullRows } from './sync';
+import { notifyOps } from './live';
+import { sealText, openText, vaultStatus } from './vault';
+import { newId } from './types';
+import { legacyCurrencyColumn, upgradeLegacyOps } from './legacyAmounts';
+import type { BatchOp, DbRow } from './storage/types';
+import { fetchAccountSettings, saveAccountSettings } from './accountSettings';
+import { useUIStore } from '../store/useUIStore';
+
+export const CHANGESETS_TABLE = 'sync_changesets';
+
+const DEVICE_KEY = 'pl_device_id';
+
+interface ChangesetRow {
+  seq: number;
+  device_id: string;
+  payload: string;
+}
+
+interface ChangesetPayload {
+  ops: BatchOp[];
+  /** Set once amounts follow each currency's minor unit; older clients stored hundredths. */
+  minorUnits?: 'iso4217';
+}
+
+/** Identifies this browser, so it can skip the change-sets it uploaded itself. */
+function deviceId(): string {
+  let id = localStorage.getItem(DEVICE_KEY);
+  if (!id) {
+    id = newId();
+    localStorage.setItem(DEVICE_KEY, id);
+  }
+  return id;
+}
+
+function cursorKey(userId: string): string {
+  return `pl_changeset_cursor_${userId}`;
+}
+
+/** The writes an outbox entry stands for. */
+export function entryOps(entry: OutboxEntry): BatchOp[] {
+  switch (entry.op) {
+    case 'put':    return [{ kind: 'upsert', table: entry.table, rows: entry.rows ?? [] }];
+    case 'update': return [{ kind: 'update', table: entry.table, id: entry.rowId ?? '', changes: entry.changes ?? {}, userId: entry.userId }];
+    case 'clear':  return [{ kind: 'clear', table: entry.table }];
+    case 'batch':  return entry.ops ?? [];
+  }
+}
+
+/** Upload `ops` as one sealed change-set and return its sequence number. */
+export async function uploadChangeset(userId: string, ops: BatchOp[]): Promise<number> {
+  const payload = await sealText(JSON.stringify({ ops, minorUnits: 'iso4217' } satisfies ChangesetPayload));
+  const { data, error } = await supabase
+    .from(CHANGESETS_TABLE)
+    .insert({ id: newId(), user_id: userId, device_id: deviceId(), payload })
+    .select('seq')
+    .single();
+  if (error) throw new Error(`[Sync] ${CHANGESETS_TABLE}.insert: ${error.message}`);
+  return (data as { seq: number }).seq;
+}
+
+// ── Download ─────────────────────────────────────────────────────────────────
+
+async function localCurrency(table: string, id: string): Promise<string | undefined> {
+  const column = legacyCurrencyColumn(table);
+  const row = column ? await localDb.rows(table).get(id) : undefined;
+  return column ? (row?.[column] as string | undefined) : undefined;
+}
+
+function isOlder(row: DbRow, than: DbRow): boolean {
+  return String(row['updated_at'] ?? '') < String(than['updated_at'] ?? '');
+}
+
+/**
+ * Apply downloaded writes to the local mirror and return the ones that took
+ * effect. Rows with unsent local writes are left alone, as in `pullRows`;
+ * the local write reaches the other devices in turn.
+ */
+async function mergeOps(ops: BatchOp[]): Promise<BatchOp[]> {
+  const applied: BatchOp[] = [];
+  for (const op of ops) {
+    if (!(SYNCED_TABLES as readonly string[]).includes(op.table)) continue;
+    const local = localDb.rows(op.table);
+    const pending = await pendingRowIds(op.table);
+    switch (op.kind) {
+      case 'insert':
+      case 'upsert': {
+        const rows: DbRow[] = [];
+        for (const row of op.rows) {
+          const id = row['id'] as string;
+          if (pending.has(id)) continue;
+          const current = await local.get(id);
+          if (!current || !isOlder(row, current)) rows.push(row);
+        }
+        await local.bulkPut(rows);
+        if (rows.length > 0) applied.push({ ...op, rows });
+        break;
+      }
+      case 'update': {
+        if (pending.has(op.id)) break;
+        const current = await local.get(op.id);
+        if (!current || isOlder(op.changes, current)) break;
+        await local.put({ ...current, ...op.changes });
+        applied.push(op);
+        break;
+      }
+      case 'purge':
+        await local.bulkDelete(op.ids);
+        applied.push(op);
+        break;
+      case 'clear':
+        await local.clear();
+        applied.push(op);
+        break;
+    }
+  }
+  return applied;
+}
+
+async function runPull(userId: string): Promise<void> {
+  const cursor = Number(localStorage.getItem(cursorKey(userId)) ?? 0);
+  const { data, error } = await supabase
+    .from(CHANGESETS_TABLE)
+    .select('seq, device_id, payload')
+    .eq('user_id', userId)
+    .gt('seq', cursor)
+    .order('seq');
+  if (error) throw new Error(`[Sync] ${CHANGESETS_TABLE}.select: ${error.message}`);
+
+  const self = deviceId();
+  for (const changeset of (data ?? []) as ChangesetRow[]) {
+    if (changeset.device_id !== self) {
+      const text = await openText(changeset.payload);
+      // Stop here; the cursor stays put so nothing is skipped once unlocked
+      if (text === null) throw new Error('[Sync] Unlock the vault to receive changes from your other devices');
+      const { ops, minorUnits } = JSON.parse(text) as ChangesetPayload;
+      notifyOps(await mergeOps(minorUnits ? ops : await upgradeLegacyOps(ops, localCurrency)), userId);
+    }
+    localStorage.setItem(cursorKey(userId), String(changeset.seq));
+  }
+}
+
+let pulling: Promise<void> | null = null;
+
+/** Download and merge change-sets from other devices. Concurrent callers share the same run. */
+export function pullChangesets(userId: string): Promise<void> {
+  if (!pulling) {
+    pulling = runPull(userId).finally(() => {
+      pulling = null;
+    });
+  }
+  return pulling;
+}
+
+// ── Switching modes ──────────────────────────────────────────────────────────
+
+/** Every local row the user owns, as upserts. */
+async function snapshotOps(userId: string): Promise<BatchOp[]> {
+  const ops: BatchOp[] = [];
+  for (const table of SYNCED_TABLES) {
+    const rows = await localDb.rows(table).where('user_id').equals(userId).toArray();
+    if (rows.length > 0) ops.push({ kind: 'upsert', table, rows });
+  }
+  return ops;
+}
+
+/**
+ * Upload the whole local copy as one change-set and drop the older ones, so
+ * a device joining later (or after a passphrase change) has a single
+ * change-set to start from. Only change-sets this device has merged are
+ * dropped: it downloads the others first, and fails if it can't open them,
+ * and any that arrive while the snapshot uploads are kept.
+ */
+export async function compactChangesets(userId: string): Promise<void> {
+  await pullChangesets(userId);
+  const merged = Number(localStorage.getItem(cursorKey(userId)) ?? 0);
+  await uploadChangeset(userId, await snapshotOps(userId));
+  const { error } = await supabase.from(CHANGESETS_TABLE).delete().eq('user_id', userId).lte('seq', merged);
+  if (error) throw new Error(`[Sync] ${CHANGESETS_TABLE}.delete: ${error.message}`);
+}
+
+async function deleteRows(userId: string): Promise<void> {
+  for (const table of SYNCED_TABLES) {
+    const { error } = await supabase.from(table).delete().eq('user_id', userId);
+    if (error) throw new Error(`[Sync] ${table}.delete: ${error.message}`);
+  }
+}
+
+async function hasRows(userId: string): Promise<boolean> {
+  for (const table of SYNCED_TABLES) {
+    const { count, error } = await supabase.from(table).select('id', { count: 'exact', head: true }).eq('user_id', userId);
+    if (error) throw new Error(`[Sync] ${table}.select: ${error.message}`);
+    if ((count ?? 0) > 0) return true;
+  }
+  return false;
+}
+
+async function deleteChangesets(userId: string): Promise<void> {
+  const { error } = await supabase.from(CHANGESETS_TABLE).delete().eq('user_id', userId);
+  if (error) throw new Error(`[Sync] ${CHANGESETS_TABLE}.delete: ${error.message}`);
+}
+
+// Records the new mode first, so other devices stop sending rows, then
+// uploads the caught-up local copy as the starting change-set and deletes
+// the user's rows from Supabase
+async function startEncryptedSync(userId: string): Promise<void> {
+  await saveAccountSettings(userId, { syncMode: 'encrypted' });
+  await compactChangesets(userId);
+  await deleteRows(userId);
+}
+
+// Uploads the caught-up local copy as rows again, because row sync treats
+// rows missing from Supabase as deleted, before recording the new mode; the
+// change-sets are then of no further use
+async function stopEncryptedSync(userId: string): Promise<void> {
+  for (const op of await snapshotOps(userId)) {
+    if (op.kind === 'upsert') await supabaseAdapter.upsert(op.table, op.rows);
+  }
+  await saveAccountSettings(userId, { syncMode: 'rows' });
+  await deleteChangesets(userId);
+}
+
+// Another device has switched the account already. This one takes the new
+// mode, sends what it has queued that way and finishes the switch if it was
+// cut short: rows still on the server mean the starting change-set may be
+// missing too, and change-sets left behind are of no further use.
+async function followAccount(userId: string, on: boolean): Promise<void> {
+  useUIStore.getState().setEncryptedSync(on);
+  await flushOutbox();
+  if ((await localDb.outbox.count()) > 0) {
+    throw new Error('[Sync] Some changes are still waiting to upload; try again once they have synced');
+  }
+  if (on) {
+    if (!(await hasRows(userId))) return;
+    await compactChangesets(userId);
+    await deleteRows(userId);
+  } else {
+    await deleteChangesets(userId);
+  }
+}
+
+/**
+ * Turn encrypted sync on or off for the account, or have this device follow
+ * a switch made on another one. Both sides are first brought fully up to
+ * date under the current mode, so nothing is lost in the switch; fails,
+ * leaving the mode unchanged, if that isn't possible now.
+ */
+export async function setEncryptedSync(userId: string, on: boolean): Promise<void> {
+  const { cloudEnabled, encryptedSync, setEncryptedSync: save } = useUIStore.getState();
+  if (on === encryptedSync) return;
+  if (!cloudEnabled) throw new Error('[Sync] Turn cloud sync on first');
+  if (vaultStatus() !== 'unlocked') throw new Error('[Sync] Encrypted sync needs the private vault turned on and unlocked');
+
+  const account = (await fetchAccountSettings(userId))?.syncMode;
+  if (account === (on ? 'encrypted' : 'rows')) return followAccount(userId, on);
+
+  await flushOutbox();
+  if (encryptedSync) {
+    await pullChangesets(userId);
+  } else {
+    for (const table of SYNCED_TABLES) {
+      if (!(await pullRows(table, { userId }))) throw new Error('[Sync] Could not download your data; try again when online');
+    }
+  }
+  if ((await localDb.outbox.count()) > 0) {
+    throw new Error('[Sync] Some changes are still waiting to upload; try again once they have synced');
+  }
+
+  await (on ? startEncryptedSync(userId) : stopEncryptedSync(userId));
+  save(on);
+}
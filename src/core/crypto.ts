@@ -64,6 +64,38 @@ export async function decryptData(encoded: string, passphrase: string): Promise<
   return new TextDecoder().decode(plaintext);
 }
 
+/**
+ * Derive a reusable AES-GCM key for `encryptWithKey` / `decryptWithKey`.
+ * The same passphrase and salt always give the same key.
+ */
+export async function deriveFieldKey(passphrase: string, salt: string): Promise<CryptoKey> {
+  return deriveKey(passphrase, new TextEncoder().encode(salt));
+}
+
+/**
+ * Encrypt a string with an already derived key.
+ * Returns a base64-encoded string: [12B IV][ciphertext]
+ */
+export async function encryptWithKey(data: string, key: CryptoKey): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12)) as Uint8Array<ArrayBuffer>;
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(data));
+
+  const combined = new Uint8Array(12 + ciphertext.byteLength);
+  combined.set(iv, 0);
+  combined.set(new Uint8Array(ciphertext), 12);
+  return bufferToBase64(combined.buffer);
+}
+
+/**
+ * Decrypt a base64-encoded ciphertext produced by encryptWithKey.
+ */
+export async function decryptWithKey(encoded: string, key: CryptoKey): Promise<string> {
+  const combined = base64ToUint8Array(encoded);
+  const iv = combined.slice(0, 12) as Uint8Array<ArrayBuffer>;
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, combined.slice(12));
+  return new TextDecoder().decode(plaintext);
+}
+
 /**
  * Hash a passphrase for local verification (not for encryption).
  * Uses SHA-256 for speed; good enough for local check only.
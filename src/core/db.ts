@@ -1,9 +1,17 @@
 /**
- * Supabase-backed database shim.
- * Exposes the same table API that stores and other modules expect,
- * but delegates all persistence to Supabase instead of Dexie/IndexedDB.
+ * Database shim.
+ * Exposes the same table API that stores and other modules expect and
+ * delegates persistence to the storage adapter chosen at startup (see
+ * ./storage). Every backend sees the same snake_case rows, so behaviour is
+ * identical whether data lives in Supabase, IndexedDB or memory.
  */
-import { supabase, toDb, fromDb, fromDbArray } from './supabase';
+import { toDb, camelToSnake } from './supabase';
+import { getStorage, VersionConflictError, type BatchOp, type DbRow, type FilterOp, type ModifierCall, type RowQuery } from './storage';
+import { useConflictStore } from '../store/useConflictStore';
+import { changeLogOps } from './audit';
+import type { Recording } from './history';
+import type { Modifier } from './modifiers';
+import { parseRows, assertValid } from './validation';
 import type {
   Account,
   Transaction,
@@ -13,205 +21,390 @@ import type {
   FinancialGoal,
   RecurringRule,
   CreditCard,
+  FxRate,
+  SavedView,
+  Tag,
+  ChangeLogEntry,
 } from './types';
+import { now } from './types';
+
+function toRow(obj: unknown, userId?: string): DbRow {
+  const row = toDb(obj as Record<string, unknown>);
+  if (userId) row['user_id'] = userId;
+  return row;
+}
+
+/**
+ * Apply `ops` atomically together with the change-log rows describing them,
+ * and add them to `recording`, the undoable command they are part of, if any.
+ */
+async function writeLogged(ops: BatchOp[], recording?: Recording): Promise<void> {
+  const recorded = await recording?.capture(ops);
+  await getStorage().batch([...ops, ...(await changeLogOps(ops))]);
+  recorded?.();
+}
+
+/** Hand a rejected versioned update to the conflict resolution flow. */
+function reportConflict(err: VersionConflictError, changes: DbRow, userId?: string): void {
+  useConflictStore.getState().report({ table: err.table, rowId: err.id, userId, changes, server: err.server });
+}
 
 // ── Generic table wrapper ──────────────────────────────────────────────────
 
-class SupabaseTable<T extends { id: string }> {
+class StorageTable<T extends { id: string }> {
   private tableName: string;
   constructor(tableName: string) {
     this.tableName = tableName;
   }
 
   async toArray(): Promise<T[]> {
-    const { data, error } = await supabase.from(this.tableName).select('*');
-    if (error) throw new Error(`[DB] ${this.tableName}.toArray: ${error.message}`);
-    return fromDbArray<T>((data ?? []) as Record<string, unknown>[]);
-  }
-
-  filter(fn: (item: T) => boolean): FilteredTable<T> {
-    return new FilteredTable<T>(this.tableName, fn);
+    return parseRows<T>(this.tableName, await getStorage().select(this.tableName));
   }
 
   async add(obj: T): Promise<void> {
-    const { error } = await supabase
-      .from(this.tableName)
-      .insert(toDb(obj as unknown as Record<string, unknown>));
-    if (error) throw new Error(`[DB] ${this.tableName}.add: ${error.message}`);
+    assertValid(this.tableName, 'add', obj);
+    await writeLogged([{ kind: 'insert', table: this.tableName, rows: [toRow(obj)] }]);
   }
 
   async update(id: string, changes: Partial<T>): Promise<void> {
-    const snakeChanges = toDb(changes as unknown as Record<string, unknown>);
-    const { error } = await supabase
-      .from(this.tableName)
-      .update(snakeChanges)
-      .eq('id', id);
-    if (error) throw new Error(`[DB] ${this.tableName}.update: ${error.message}`);
+    assertValid(this.tableName, 'update', changes, true);
+    await writeLogged([{ kind: 'update', table: this.tableName, id, changes: toRow(changes) }]);
   }
 
   async bulkAdd(objs: T[]): Promise<void> {
-    if (objs.length === 0) return;
-    const { error } = await supabase
-      .from(this.tableName)
-      .insert(objs.map((o) => toDb(o as unknown as Record<string, unknown>)));
-    if (error) throw new Error(`[DB] ${this.tableName}.bulkAdd: ${error.message}`);
+    for (const o of objs) assertValid(this.tableName, 'bulkAdd', o);
+    if (objs.length > 0) await writeLogged([{ kind: 'insert', table: this.tableName, rows: objs.map((o) => toRow(o)) }]);
   }
 
   async bulkPut(objs: T[]): Promise<void> {
-    if (objs.length === 0) return;
-    const { error } = await supabase
-      .from(this.tableName)
-      .upsert(objs.map((o) => toDb(o as unknown as Record<string, unknown>)));
-    if (error) throw new Error(`[DB] ${this.tableName}.bulkPut: ${error.message}`);
+    for (const o of objs) assertValid(this.tableName, 'bulkPut', o);
+    if (objs.length > 0) await writeLogged([{ kind: 'upsert', table: this.tableName, rows: objs.map((o) => toRow(o)) }]);
   }
 
   async count(): Promise<number> {
-    const { count, error } = await supabase
-      .from(this.tableName)
-      .select('*', { count: 'exact', head: true });
-    if (error) throw new Error(`[DB] ${this.tableName}.count: ${error.message}`);
-    return count ?? 0;
+    return getStorage().count(this.tableName);
   }
 
   async clear(): Promise<void> {
-    const { error } = await supabase
-      .from(this.tableName)
-      .delete()
-      .neq('id', '');
-    if (error) throw new Error(`[DB] ${this.tableName}.clear: ${error.message}`);
+    await getStorage().clear(this.tableName);
+  }
+
+  clearOp(): BatchOp {
+    return { kind: 'clear', table: this.tableName };
+  }
+
+  /** The user's rows; writes made through it join `recording`, if given. */
+  forUser(userId: string, recording?: Recording): UserScopedTable<T> {
+    return new UserScopedTable<T>(this.tableName, userId, recording);
+  }
+}
+
+// ── Query builder (evaluated by the storage backend) ────────────────────────
+
+type Column<T> = keyof T & string;
+
+/**
+ * Chainable, typed query over one user's live rows. Column names are the
+ * camelCase entity fields; filters, ordering and `range` pagination are all
+ * pushed down to the backend, so only the requested rows are transferred.
+ *
+ *   db.transactions.forUser(id).query()
+ *     .gte('date', '2026-01-01').eq('type', 'expense')
+ *     .order('date', { ascending: false }).range(0, 49).toArray()
+ */
+class TableQuery<T extends { id: string }> {
+  private tableName: string;
+  private query: RowQuery;
+  constructor(tableName: string, query: RowQuery) {
+    this.tableName = tableName;
+    this.query = query;
+  }
+
+  private where(column: string, op: FilterOp, value: unknown): this {
+    this.query.filters = [...(this.query.filters ?? []), { column: camelToSnake(column), op, value }];
+    return this;
   }
 
-  forUser(userId: string): UserScopedTable<T> {
-    return new UserScopedTable<T>(this.tableName, userId);
+  eq<K extends Column<T>>(column: K, value: T[K] | null): this { return this.where(column, 'eq', value); }
+  neq<K extends Column<T>>(column: K, value: T[K] | null): this { return this.where(column, 'neq', value); }
+  gt<K extends Column<T>>(column: K, value: T[K]): this { return this.where(column, 'gt', value); }
+  gte<K extends Column<T>>(column: K, value: T[K]): this { return this.where(column, 'gte', value); }
+  lt<K extends Column<T>>(column: K, value: T[K]): this { return this.where(column, 'lt', value); }
+  lte<K extends Column<T>>(column: K, value: T[K]): this { return this.where(column, 'lte', value); }
+  in<K extends Column<T>>(column: K, values: T[K][]): this { return this.where(column, 'in', values); }
+  /** Case-insensitive match; `%` is the wildcard. */
+  ilike(column: Column<T>, pattern: string): this { return this.where(column, 'ilike', pattern); }
+
+  /** Inclusive date window on an ISO `yyyy-MM-dd` column. */
+  between<K extends Column<T>>(column: K, from: T[K], to: T[K]): this {
+    return this.gte(column, from).lte(column, to);
+  }
+
+  order(column: Column<T>, { ascending = true }: { ascending?: boolean } = {}): this {
+    this.query.order = [...(this.query.order ?? []), { column: camelToSnake(column), ascending }];
+    return this;
+  }
+
+  /** Inclusive row offsets, e.g. `range(0, 49)` for the first page of 50. */
+  range(from: number, to: number): this {
+    this.query.range = { from, to };
+    return this;
+  }
+
+  async toArray(): Promise<T[]> {
+    return parseRows<T>(this.tableName, await getStorage().select(this.tableName, this.query));
+  }
+
+  /** Number of matching rows, counted by the backend (ignores `range`). */
+  async count(): Promise<number> {
+    return getStorage().count(this.tableName, this.query);
   }
 }
 
-// ── User-scoped table (server-side user_id filter) ──────────────────────────
+// ── User-scoped table (user_id filter on every backend) ─────────────────────
 
-class UserScopedTable<T extends { id: string }> {
+export class UserScopedTable<T extends { id: string }> {
   private tableName: string;
   private userId: string;
-  constructor(tableName: string, userId: string) {
+  private recording?: Recording;
+  constructor(tableName: string, userId: string, recording?: Recording) {
     this.tableName = tableName;
     this.userId = userId;
+    this.recording = recording;
   }
 
   async toArray(): Promise<T[]> {
-    const { data, error } = await supabase
-      .from(this.tableName)
-      .select('*')
-      .eq('user_id', this.userId)
-      .is('deleted_at', null);
-    if (error) throw new Error(`[DB] ${this.tableName}.forUser.toArray: ${error.message}`);
-    return fromDbArray<T>((data ?? []) as Record<string, unknown>[]);
+    const rows = await getStorage().select(this.tableName, { userId: this.userId, liveOnly: true });
+    return parseRows<T>(this.tableName, rows);
   }
 
   async add(obj: T): Promise<void> {
-    const dbObj = toDb(obj as unknown as Record<string, unknown>);
-    dbObj['user_id'] = this.userId;
-    const { error } = await supabase.from(this.tableName).insert(dbObj);
-    if (error) throw new Error(`[DB] ${this.tableName}.forUser.add: ${error.message}`);
+    await writeLogged([this.insertOp(obj)], this.recording);
   }
 
   async count(): Promise<number> {
-    const { count, error } = await supabase
-      .from(this.tableName)
-      .select('*', { count: 'exact', head: true })
-      .eq('user_id', this.userId)
-      .is('deleted_at', null);
-    if (error) throw new Error(`[DB] ${this.tableName}.forUser.count: ${error.message}`);
-    return count ?? 0;
+    return getStorage().count(this.tableName, { userId: this.userId, liveOnly: true });
   }
 
   async bulkAdd(objs: T[]): Promise<void> {
-    if (objs.length === 0) return;
-    const { error } = await supabase
-      .from(this.tableName)
-      .insert(objs.map((o) => {
-        const dbObj = toDb(o as unknown as Record<string, unknown>);
-        dbObj['user_id'] = this.userId;
-        return dbObj;
-      }));
-    if (error) throw new Error(`[DB] ${this.tableName}.forUser.bulkAdd: ${error.message}`);
+    for (const o of objs) assertValid(this.tableName, 'bulkAdd', o);
+    if (objs.length > 0) await writeLogged([{ kind: 'insert', table: this.tableName, rows: objs.map((o) => toRow(o, this.userId)) }], this.recording);
   }
 
   async bulkPut(objs: T[]): Promise<void> {
-    if (objs.length === 0) return;
-    const { error } = await supabase
-      .from(this.tableName)
-      .upsert(
-        objs.map((o) => {
-          const dbObj = toDb(o as unknown as Record<string, unknown>);
-          dbObj['user_id'] = this.userId;
-          return dbObj;
-        }),
-        { onConflict: 'id' },
-      );
-    if (error) throw new Error(`[DB] ${this.tableName}.forUser.bulkPut: ${error.message}`);
+    if (objs.length > 0) await writeLogged([this.bulkPutOp(objs)], this.recording);
   }
 
-  async update(id: string, changes: Partial<T>): Promise<void> {
-    const snakeChanges = toDb(changes as unknown as Record<string, unknown>);
-    const { error } = await supabase
-      .from(this.tableName)
-      .update(snakeChanges)
-      .eq('id', id)
-      .eq('user_id', this.userId);
-    if (error) throw new Error(`[DB] ${this.tableName}.forUser.update: ${error.message}`);
+  /** Fetch one live row by id, or null if it doesn't exist or was deleted. */
+  async get(id: string): Promise<T | null> {
+    const [row] = await this.query().eq('id', id as T['id']).toArray();
+    return row ?? null;
+  }
+
+  /**
+   * Patch one row. Pass the `updatedAt` the changes were based on as
+   * `ifVersion` to have the write rejected, and sent to conflict resolution,
+   * if the row has been changed elsewhere since.
+   */
+  async update(id: string, changes: Partial<T>, ifVersion?: string): Promise<void> {
+    assertValid(this.tableName, 'update', changes, true);
+    const row = toRow(changes);
+    try {
+      await writeLogged([{ kind: 'update', table: this.tableName, id, changes: row, userId: this.userId, ifVersion }], this.recording);
+    } catch (err) {
+      if (err instanceof VersionConflictError) reportConflict(err, row, this.userId);
+      throw err;
+    }
+  }
+
+  // Op builders used by WriteBatch; each mirrors the method of the same name.
+  insertOp(obj: T): BatchOp {
+    assertValid(this.tableName, 'add', obj);
+    return { kind: 'insert', table: this.tableName, rows: [toRow(obj, this.userId)] };
+  }
+
+  updateOp(id: string, changes: Partial<T>, ifVersion?: string, modifier?: ModifierCall): BatchOp {
+    assertValid(this.tableName, 'update', changes, true);
+    return { kind: 'update', table: this.tableName, id, changes: toRow(changes), userId: this.userId, ifVersion, modifier };
+  }
+
+  bulkPutOp(objs: T[]): BatchOp {
+    for (const o of objs) assertValid(this.tableName, 'bulkPut', o);
+    return { kind: 'upsert', table: this.tableName, rows: objs.map((o) => toRow(o, this.userId)) };
+  }
+
+  removeOp(id: string): BatchOp {
+    const ts = new Date().toISOString();
+    return { kind: 'update', table: this.tableName, id, changes: { deleted_at: ts, updated_at: ts }, userId: this.userId };
+  }
+
+  purgeOp(ids: string[]): BatchOp {
+    return { kind: 'purge', table: this.tableName, ids, userId: this.userId };
+  }
+
+  query(): TableQuery<T> {
+    return new TableQuery<T>(this.tableName, { userId: this.userId, liveOnly: true });
+  }
+
+  /** Query over this user's soft-deleted rows (the recycle bin). */
+  trashed(): TableQuery<T> {
+    return new TableQuery<T>(this.tableName, {
+      userId: this.userId,
+      filters: [{ column: 'deleted_at', op: 'neq', value: null }],
+    });
   }
 
   async remove(id: string): Promise<void> {
-    const { error } = await supabase
-      .from(this.tableName)
-      .update({ deleted_at: new Date().toISOString(), updated_at: new Date().toISOString() })
-      .eq('id', id)
-      .eq('user_id', this.userId);
-    if (error) throw new Error(`[DB] ${this.tableName}.forUser.remove: ${error.message}`);
+    await writeLogged([this.removeOp(id)], this.recording);
+  }
+
+  /** Permanently delete rows; there is no way back from this. */
+  async purge(ids: string[]): Promise<void> {
+    if (ids.length > 0) await writeLogged([this.purgeOp(ids)], this.recording);
   }
 }
 
-// ── Filtered-table proxy (client-side filter, mirrors Dexie behaviour) ──────
+// ── Write batch (all-or-nothing across tables) ──────────────────────────────
 
-class FilteredTable<T> {
-  private tableName: string;
-  private fn: (item: T) => boolean;
-  constructor(tableName: string, fn: (item: T) => boolean) {
-    this.tableName = tableName;
-    this.fn = fn;
+/** A batch is retried this many times when a `modify` loses a version race. */
+const MAX_BATCH_ATTEMPTS = 3;
+
+interface ResolvedOp {
+  op: BatchOp | null;
+  /** Computed by `modify`, so safe to recompute and retry on conflict. */
+  recomputable: boolean;
+  after?: () => void;
+}
+
+/**
+ * Collects writes across tables and applies them atomically on commit.
+ * Callbacks registered with `onCommit` run only once every write has landed,
+ * so in-memory store state never reflects a half-applied operation. Undoable
+ * actions pass their `Recording` to `db.batch` so the writes join it.
+ *
+ *   const batch = db.batch();
+ *   batch.add(db.transactions.forUser(uid), txn);
+ *   batch.modify(db.goals.forUser(uid), goalId, addToGoal, amount);
+ *   await batch.commit();
+ */
+export class WriteBatch {
+  private recording?: Recording;
+  private staged: (() => Promise<ResolvedOp>)[] = [];
+  private callbacks: (() => void)[] = [];
+  private committed = false;
+
+  constructor(recording?: Recording) {
+    this.recording = recording;
   }
 
-  async toArray(): Promise<T[]> {
-    const { data, error } = await supabase.from(this.tableName).select('*');
-    if (error) throw new Error(`[DB] ${this.tableName}.filter.toArray: ${error.message}`);
-    return fromDbArray<T>((data ?? []) as Record<string, unknown>[]).filter(this.fn);
+  private push(op: BatchOp): this {
+    this.staged.push(async () => ({ op, recomputable: false }));
+    return this;
   }
 
-  async count(): Promise<number> {
-    return (await this.toArray()).length;
+  add<T extends { id: string }>(table: UserScopedTable<T>, obj: T): this {
+    return this.push(table.insertOp(obj));
+  }
+
+  update<T extends { id: string }>(table: UserScopedTable<T>, id: string, changes: Partial<T>, ifVersion?: string): this {
+    return this.push(table.updateOp(id, changes, ifVersion));
+  }
+
+  /**
+   * Read-modify-write of one row. `modifier` runs at commit time against the
+   * current stored row and the result is written only if that row is still
+   * current; on a version conflict the whole batch is recomputed and retried.
+   * Use this for running totals (balances, progress) instead of computing
+   * them from a possibly stale in-memory copy. `then` receives the final row.
+   * The update names the step, so sync can run it again later (see modifiers.ts).
+   */
+  modify<T extends { id: string; updatedAt: string }, A>(
+    table: UserScopedTable<T>,
+    id: string,
+    modifier: Modifier<T, A>,
+    args: A,
+    then?: (row: T) => void,
+  ): this {
+    this.staged.push(async () => {
+      const current = await table.get(id);
+      const changes = current && modifier.apply(current, args);
+      if (!current || !changes) return { op: null, recomputable: true };
+      const patch = { ...changes, updatedAt: now() };
+      return {
+        op: table.updateOp(id, patch, current.updatedAt, { name: modifier.name, args }),
+        recomputable: true,
+        after: then && (() => then({ ...current, ...patch })),
+      };
+    });
+    return this;
+  }
+
+  /** Insert or replace whole rows, same as `UserScopedTable.bulkPut`. */
+  bulkPut<T extends { id: string }>(table: UserScopedTable<T>, objs: T[]): this {
+    return this.push(table.bulkPutOp(objs));
+  }
+
+  /** Soft delete, same as `UserScopedTable.remove`. */
+  remove<T extends { id: string }>(table: UserScopedTable<T>, id: string): this {
+    return this.push(table.removeOp(id));
+  }
+
+  purge<T extends { id: string }>(table: UserScopedTable<T>, ids: string[]): this {
+    return this.push(table.purgeOp(ids));
+  }
+
+  clear<T extends { id: string }>(table: StorageTable<T>): this {
+    return this.push(table.clearOp());
+  }
+
+  onCommit(fn: () => void): this {
+    this.callbacks.push(fn);
+    return this;
+  }
+
+  async commit(): Promise<void> {
+    if (this.committed) throw new Error('[DB] batch.commit: batch already committed');
+    this.committed = true;
+
+    for (let attempt = 1; ; attempt++) {
+      const resolved: ResolvedOp[] = [];
+      for (const stage of this.staged) resolved.push(await stage());
+      try {
+        await writeLogged(resolved.flatMap((r) => (r.op ? [r.op] : [])), this.recording);
+      } catch (err) {
+        if (!(err instanceof VersionConflictError)) throw err;
+        const culprit = resolved.find(
+          (r) => r.op?.kind === 'update' && r.op.table === err.table && r.op.id === err.id,
+        );
+        if (culprit?.recomputable && attempt < MAX_BATCH_ATTEMPTS) continue;
+        if (culprit?.op?.kind === 'update') reportConflict(err, culprit.op.changes, culprit.op.userId);
+        throw err;
+      }
+      for (const r of resolved) r.after?.();
+      for (const fn of this.callbacks) fn();
+      return;
+    }
   }
 }
 
 // ── DB instance (drop-in replacement for the old Dexie db) ─────────────────
 
 export const db = {
-  accounts:       new SupabaseTable<Account>('accounts'),
-  transactions:   new SupabaseTable<Transaction>('transactions'),
-  loans:          new SupabaseTable<Loan>('loans'),
-  subscriptions:  new SupabaseTable<Subscription>('subscriptions'),
-  budgets:        new SupabaseTable<Budget>('budgets'),
-  goals:          new SupabaseTable<FinancialGoal>('goals'),
-  recurringRules: new SupabaseTable<RecurringRule>('recurring_rules'),
-  creditCards:    new SupabaseTable<CreditCard>('credit_cards'),
-
-  /** No-op wrapper — Supabase JS doesn't support client-side transactions.
-   *  Each individual operation is atomic on the server side. */
-  transaction: async (
-    _mode: string,
-    _tables: unknown[],
-    fn: () => Promise<void>,
-  ): Promise<void> => {
-    await fn();
-  },
+  accounts:       new StorageTable<Account>('accounts'),
+  transactions:   new StorageTable<Transaction>('transactions'),
+  loans:          new StorageTable<Loan>('loans'),
+  subscriptions:  new StorageTable<Subscription>('subscriptions'),
+  budgets:        new StorageTable<Budget>('budgets'),
+  goals:          new StorageTable<FinancialGoal>('goals'),
+  recurringRules: new StorageTable<RecurringRule>('recurring_rules'),
+  creditCards:    new StorageTable<CreditCard>('credit_cards'),
+  fxRates:        new StorageTable<FxRate>('fx_rates'),
+  savedViews:     new StorageTable<SavedView>('saved_views'),
+  tags:           new StorageTable<Tag>('tags'),
+  changeLog:      new StorageTable<ChangeLogEntry>('change_log'),
+
+  /** Start an atomic multi-table write; nothing is persisted until `commit()`. */
+  batch: (recording?: Recording): WriteBatch => new WriteBatch(recording),
 };
 
 /** Keep for any code that imports this helper directly from db.ts */
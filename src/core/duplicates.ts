@@ -0,0 +1,111 @@
+/**
+ * Spotting the same purchase recorded twice: typed in by hand and also
+ * generated by a recurring rule, or brought in again by an import.
+ *
+ * Two transactions look like duplicates when they share account, type,
+ * currency and amount, and either name the same merchant within a few days
+ * of each other or, when a merchant is missing, fall on the same day. The
+ * user can say a pair is genuinely two purchases (`notDuplicateOf`), after
+ * which it isn't flagged again.
+ */
+import type { Transaction } from './types';
+
+/** Most days apart two entries of one purchase are expected to be dated. */
+export const DUPLICATE_WINDOW_DAYS = 3;
+
+type Candidate = Pick<
+  Transaction,
+  'accountId' | 'type' | 'currency' | 'amountMinorUnits' | 'date' | 'merchant' | 'notes' | 'recurringId'
+> & Partial<Pick<Transaction, 'id' | 'notDuplicateOf' | 'deletedAt'>>;
+
+export interface DuplicatePair {
+  /** Stable for the pair whichever way round it was found. */
+  key: string;
+  /** The earlier-recorded of the two. */
+  first: Transaction;
+  second: Transaction;
+}
+
+// Card statement noise: store numbers, payment-network prefixes, company suffixes
+const NOISE = /\b(ltd|limited|plc|inc|llc|co|uk|gb|pos|card|payment|purchase|contactless|www|com)\b/g;
+
+/** A merchant name reduced to what two spellings of the same shop have in common. */
+export function normalizeMerchant(name: string | undefined): string {
+  return (name ?? '')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9 ]+/g, ' ')
+    .replace(/\d+/g, ' ')
+    .replace(NOISE, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// The transaction drawer has no merchant field; the payee goes in the notes
+function merchantOf(t: Candidate): string {
+  return normalizeMerchant(t.merchant || t.notes);
+}
+
+function dayNumber(date: string): number {
+  return Math.round(Date.parse(`${date.slice(0, 10)}T00:00:00Z`) / 86_400_000);
+}
+
+function sameMerchant(a: string, b: string): boolean {
+  return a === b || a.startsWith(`${b} `) || b.startsWith(`${a} `);
+}
+
+function dismissed(a: Candidate, b: Candidate): boolean {
+  return (!!b.id && !!a.notDuplicateOf?.includes(b.id)) || (!!a.id && !!b.notDuplicateOf?.includes(a.id));
+}
+
+function bucket(t: Candidate): string {
+  return `${t.accountId}|${t.type}|${t.currency}|${t.amountMinorUnits}`;
+}
+
+/** Whether `a` and `b` look like one purchase recorded twice. */
+export function isLikelyDuplicate(a: Candidate, b: Candidate): boolean {
+  if (a.id && a.id === b.id) return false;
+  if (a.deletedAt || b.deletedAt || bucket(a) !== bucket(b) || dismissed(a, b)) return false;
+  // Consecutive entries of one daily rule aren't the same purchase
+  if (a.recurringId && a.recurringId === b.recurringId) return false;
+  const days = Math.abs(dayNumber(a.date) - dayNumber(b.date));
+  const ma = merchantOf(a);
+  const mb = merchantOf(b);
+  if (!ma || !mb) return days === 0;
+  return days <= DUPLICATE_WINDOW_DAYS && sameMerchant(ma, mb);
+}
+
+/** Transactions in `existing` that `candidate` would duplicate, closest date first. */
+export function duplicatesOf(candidate: Candidate, existing: Transaction[]): Transaction[] {
+  const day = dayNumber(candidate.date);
+  return existing
+    .filter((t) => isLikelyDuplicate(candidate, t))
+    .sort((a, b) => Math.abs(dayNumber(a.date) - day) - Math.abs(dayNumber(b.date) - day));
+}
+
+/** Every likely duplicate pair among `txns`, newest first. */
+export function findDuplicates(txns: Transaction[]): DuplicatePair[] {
+  const buckets = new Map<string, Transaction[]>();
+  for (const t of txns) {
+    if (t.deletedAt) continue;
+    const group = buckets.get(bucket(t));
+    if (group) group.push(t);
+    else buckets.set(bucket(t), [t]);
+  }
+
+  const pairs: DuplicatePair[] = [];
+  for (const group of buckets.values()) {
+    if (group.length < 2) continue;
+    group.sort((a, b) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt));
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        if (dayNumber(group[j].date) - dayNumber(group[i].date) > DUPLICATE_WINDOW_DAYS) break;
+        if (!isLikelyDuplicate(group[i], group[j])) continue;
+        const [first, second] = group[i].createdAt <= group[j].createdAt ? [group[i], group[j]] : [group[j], group[i]];
+        pairs.push({ key: [first.id, second.id].sort().join(':'), first, second });
+      }
+    }
+  }
+  return pairs.sort((a, b) => b.second.date.localeCompare(a.second.date));
+}
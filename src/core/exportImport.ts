@@ -1,8 +1,12 @@
 import { db } from './db';
 import { getCurrentUserId } from '../auth/useAuthStore';
-import type { Account, Transaction, Loan, Subscription, Budget, FinancialGoal } from './types';
+import { toDb, fromDb } from './supabase';
+import { upgradeLegacyRow } from './legacyAmounts';
+import { discardAttachments, exportFiles, importFiles, rehomeAttachment, type ExportedFile } from './attachments';
+import type { Account, Transaction, Loan, Subscription, Budget, FinancialGoal, FxRate, SavedView, Tag } from './types';
 
-const EXPORT_VERSION = 1;
+// v2: amounts in each currency's minor unit (v1 used hundredths throughout)
+const EXPORT_VERSION = 2;
 
 export interface ExportPayload {
   version: number;
@@ -13,19 +17,33 @@ export interface ExportPayload {
   subscriptions: Subscription[];
   budgets: Budget[];
   goals: FinancialGoal[];
+  /** Absent from exports made before exchange rates existed. */
+  fxRates?: FxRate[];
+  /** Absent from exports made before saved views existed. */
+  savedViews?: SavedView[];
+  /** Absent from exports made before tags could be described. */
+  tags?: Tag[];
+  /** Attachment files, keyed by the paths in `transactions[].attachments`. */
+  files?: ExportedFile[];
 }
 
 export async function exportAllData(): Promise<string> {
   const userId = getCurrentUserId();
-  const [accounts, transactions, loans, subscriptions, budgets, goals] = await Promise.all([
+  const [accounts, transactions, loans, subscriptions, budgets, goals, fxRates, savedViews, tags] = await Promise.all([
     db.accounts.forUser(userId).toArray(),
     db.transactions.forUser(userId).toArray(),
     db.loans.forUser(userId).toArray(),
     db.subscriptions.forUser(userId).toArray(),
     db.budgets.forUser(userId).toArray(),
     db.goals.forUser(userId).toArray(),
+    db.fxRates.forUser(userId).toArray(),
+    db.savedViews.forUser(userId).toArray(),
+    db.tags.forUser(userId).toArray(),
   ]);
 
+  const { files, missing } = await exportFiles(transactions.flatMap((t) => t.attachments ?? []));
+  if (missing.length > 0) console.warn(`[Data] ${missing.length} attachment file(s) could not be read and were left out of the export`);
+
   const payload: ExportPayload = {
     version: EXPORT_VERSION,
     exportedAt: new Date().toISOString(),
@@ -35,6 +53,10 @@ export async function exportAllData(): Promise<string> {
     subscriptions,
     budgets,
     goals,
+    fxRates,
+    savedViews,
+    tags,
+    files,
   };
   return JSON.stringify(payload, null, 2);
 }
@@ -76,33 +98,50 @@ export function downloadCSV(rows: Record<string, unknown>[], filename: string):
 
 export async function importData(jsonString: string): Promise<void> {
   const data = JSON.parse(jsonString) as ExportPayload;
-  if (data.version !== EXPORT_VERSION) throw new Error('Unsupported export version');
+  if (data.version !== 1 && data.version !== EXPORT_VERSION) throw new Error('Unsupported export version');
 
   const userId = getCurrentUserId();
+  const upgrade = <T extends object>(table: string, items: T[] = []): T[] =>
+    data.version === 1
+      ? items.map((item) => fromDb<T>(upgradeLegacyRow(table, toDb(item as Record<string, unknown>))))
+      : items;
+  // Files belong under the importing user, whoever exported them
+  const transactions = upgrade('transactions', data.transactions).map((t) =>
+    t.attachments?.length ? { ...t, attachments: t.attachments.map((a) => rehomeAttachment(a, userId)) } : t);
 
+  await importFiles(data.files ?? [], userId);
   await Promise.all([
     db.accounts.forUser(userId).bulkPut(data.accounts ?? []),
-    db.transactions.forUser(userId).bulkPut(data.transactions ?? []),
-    db.loans.forUser(userId).bulkPut(data.loans ?? []),
-    db.subscriptions.forUser(userId).bulkPut(data.subscriptions ?? []),
+    db.transactions.forUser(userId).bulkPut(transactions),
+    db.loans.forUser(userId).bulkPut(upgrade('loans', data.loans)),
+    db.subscriptions.forUser(userId).bulkPut(upgrade('subscriptions', data.subscriptions)),
     db.budgets.forUser(userId).bulkPut(data.budgets ?? []),
-    db.goals.forUser(userId).bulkPut(data.goals ?? []),
+    db.goals.forUser(userId).bulkPut(upgrade('goals', data.goals)),
+    db.fxRates.forUser(userId).bulkPut(data.fxRates ?? []),
+    db.savedViews.forUser(userId).bulkPut(data.savedViews ?? []),
+    db.tags.forUser(userId).bulkPut(data.tags ?? []),
   ]);
 }
 
 export async function deleteAllData(): Promise<void> {
-  await db.transaction(
-    'rw',
-    [db.accounts, db.transactions, db.loans, db.subscriptions, db.budgets, db.goals, db.recurringRules],
-    async () => {
-      await db.accounts.clear();
-      await db.transactions.clear();
-      await db.loans.clear();
-      await db.subscriptions.clear();
-      await db.budgets.clear();
-      await db.goals.clear();
-      await db.recurringRules.clear();
-    },
-  );
+  const userId = getCurrentUserId();
+  const attachments = [
+    ...await db.transactions.forUser(userId).toArray(),
+    ...await db.transactions.forUser(userId).trashed().toArray(),
+  ].flatMap((t) => t.attachments ?? []);
+  await db.batch()
+    .clear(db.accounts)
+    .clear(db.transactions)
+    .clear(db.loans)
+    .clear(db.subscriptions)
+    .clear(db.budgets)
+    .clear(db.goals)
+    .clear(db.recurringRules)
+    .clear(db.fxRates)
+    .clear(db.savedViews)
+    .clear(db.tags)
+    .clear(db.changeLog)
+    .commit();
+  discardAttachments(attachments);
   localStorage.clear();
 }
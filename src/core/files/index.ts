@@ -0,0 +1,103 @@
+/**
+ * Where attachment bytes live. Transaction rows only carry the metadata
+ * (see `Attachment`); the files themselves never go through the row adapters.
+ *
+ * Every file is kept in IndexedDB on the device that added it, then uploaded
+ * to the private `attachments` bucket in Supabase Storage whenever rows may
+ * leave the device in the clear: the supabase backend, or local-first with
+ * cloud sync on and encrypted sync off. Other devices download on demand.
+ *
+ * VITE_FILE_STORAGE=local keeps files on the device whatever the settings,
+ * as a stand-in for object storage during development.
+ */
+import { getStorage } from '../storage';
+import { cloudMode } from '../sync';
+import { getCurrentUserId } from '../../auth/useAuthStore';
+import { localFiles } from './localFiles';
+import { supabaseFiles } from './supabaseFiles';
+import type { FileBackend } from './types';
+
+export type { FileBackend, FileStore } from './types';
+
+function resolveBackend(): FileBackend {
+  const requested = import.meta.env.VITE_FILE_STORAGE as string | undefined;
+  if (!requested || requested === 'supabase') return 'supabase';
+  if (requested === 'local') return 'local';
+  console.error(`[Files] Unknown VITE_FILE_STORAGE "${requested}", falling back to supabase.`);
+  return 'supabase';
+}
+
+export const fileBackend: FileBackend = resolveBackend();
+
+/** Object storage may be used right now. */
+function remoteEnabled(): boolean {
+  if (fileBackend === 'local') return false;
+  const { backend } = getStorage();
+  if (backend === 'supabase') return true;
+  return backend === 'local-first' && cloudMode() === 'rows';
+}
+
+let uploading: Promise<void> | null = null;
+
+/**
+ * Upload files added while offline or with uploads off. Each file is tried
+ * on its own, so one the bucket refuses doesn't hold up the rest; failures
+ * wait for the next call.
+ */
+export function uploadPendingFiles(): Promise<void> {
+  if (!remoteEnabled()) return Promise.resolve();
+  uploading ??= (async () => {
+    try {
+      // The bucket only takes files under the uploader's own id; others wait for their owner
+      const own = `${getCurrentUserId()}/`;
+      for (const path of await localFiles.pendingPaths()) {
+        if (!path.startsWith(own)) continue;
+        try {
+          const blob = await localFiles.get(path);
+          if (blob) await supabaseFiles.put(path, blob);
+          await localFiles.markUploaded(path);
+        } catch (err) {
+          console.warn(`[Files] ${path}: upload postponed:`, err);
+        }
+      }
+    } catch (err) {
+      console.warn('[Files] Upload postponed:', err);
+    } finally {
+      uploading = null;
+    }
+  })();
+  return uploading;
+}
+
+let started = false;
+
+/** Upload what is pending now and again whenever the browser comes back online. */
+export function startFileUploads(): void {
+  if (started) return;
+  started = true;
+  window.addEventListener('online', () => void uploadPendingFiles());
+  void uploadPendingFiles();
+}
+
+/** Keep a file on this device and start uploading it. */
+export async function putFile(path: string, blob: Blob): Promise<void> {
+  await localFiles.put(path, blob);
+  void uploadPendingFiles();
+}
+
+/** A file from this device, else from object storage (then kept here too). */
+export async function getFile(path: string): Promise<Blob> {
+  const local = await localFiles.get(path);
+  if (local) return local;
+  const remote = remoteEnabled() ? await supabaseFiles.get(path) : null;
+  if (!remote) throw new Error(`[Files] ${path}: not on this device, and not uploaded from the one it was added on`);
+  await localFiles.cache(path, remote);
+  return remote;
+}
+
+/** Delete files here and, when reachable, from object storage. */
+export async function removeFiles(paths: string[]): Promise<void> {
+  if (paths.length === 0) return;
+  await localFiles.remove(paths);
+  if (remoteEnabled()) await supabaseFiles.remove(paths);
+}
@@ -0,0 +1,37 @@
+import { localDb } from '../localDb';
+import type { FileStore } from './types';
+
+/**
+ * This browser's IndexedDB. Holds every file added on this device, marked
+ * pending until object storage has a copy, and caches downloaded ones.
+ */
+export const localFiles: FileStore & {
+  /** Keep a file that object storage already holds. */
+  cache(path: string, blob: Blob): Promise<void>;
+  pendingPaths(): Promise<string[]>;
+  markUploaded(path: string): Promise<void>;
+} = {
+  async put(path, blob) {
+    await localDb.files.put({ path, blob, pending: 1 });
+  },
+
+  async cache(path, blob) {
+    await localDb.files.put({ path, blob, pending: 0 });
+  },
+
+  async get(path) {
+    return (await localDb.files.get(path))?.blob ?? null;
+  },
+
+  async remove(paths) {
+    await localDb.files.bulkDelete(paths);
+  },
+
+  async pendingPaths() {
+    return localDb.files.where('pending').equals(1).primaryKeys();
+  },
+
+  async markUploaded(path) {
+    await localDb.files.update(path, { pending: 0 });
+  },
+};
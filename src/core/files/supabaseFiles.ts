@@ -0,0 +1,28 @@
+import { supabase } from '../supabase';
+import type { FileStore } from './types';
+
+/** Private bucket created by migration 0014; policies key on the path's first segment. */
+const BUCKET = 'attachments';
+
+/** Supabase Storage. Every call needs the network. */
+export const supabaseFiles: FileStore = {
+  async put(path, blob) {
+    const { error } = await supabase.storage.from(BUCKET).upload(path, blob, { contentType: blob.type, upsert: true });
+    if (error) throw new Error(`[Files] upload ${path}: ${error.message}`);
+  },
+
+  async get(path) {
+    const { data, error } = await supabase.storage.from(BUCKET).download(path);
+    if (error) {
+      if (error.status === 404 || error.statusCode === '404') return null;
+      throw new Error(`[Files] download ${path}: ${error.message}`);
+    }
+    return data;
+  },
+
+  async remove(paths) {
+    if (paths.length === 0) return;
+    const { error } = await supabase.storage.from(BUCKET).remove(paths);
+    if (error) throw new Error(`[Files] remove: ${error.message}`);
+  },
+};
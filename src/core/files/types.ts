@@ -0,0 +1,12 @@
+/**
+ * File store contract for attachment bytes. Paths are `<userId>/<fileId>`,
+ * so the owner is always the first path segment.
+ */
+export type FileBackend = 'supabase' | 'local';
+
+export interface FileStore {
+  put(path: string, blob: Blob): Promise<void>;
+  /** The file, or null when this store doesn't hold it. */
+  get(path: string): Promise<Blob | null>;
+  remove(paths: string[]): Promise<void>;
+}
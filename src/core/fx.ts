@@ -0,0 +1,158 @@
+/**
+ * Currency conversion for totals.
+ * Amounts keep the currency they were entered in; anything that adds them up
+ * converts each one into the base currency (Settings → currency) at the rate
+ * for its own date, using the rates the user entered or imported. A pair
+ * without a direct rate is converted through its inverse or through one
+ * shared third currency.
+ */
+import { currencyExponent, splitLines, type Currency, type FxRate, type Transaction } from './types';
+
+export interface Converter {
+  base: Currency;
+  /** `amount` (minor units of `from`) in minor units of `to` on `date`, or null without a usable rate. */
+  convert(amount: number, from: Currency, to: Currency, date?: string): number | null;
+  /** Shorthand for converting into the base currency. Dates default to today. */
+  toBase(amount: number, currency: Currency, date?: string): number | null;
+}
+
+export interface Money {
+  amount: number;
+  currency: Currency;
+  /** Day the amount applies to; today when absent (balances, monthly costs). */
+  date?: string;
+}
+
+export interface BaseTotal {
+  /** Sum of everything that could be converted, in base minor units. */
+  total: number;
+  /** The same amounts unconverted, per original currency. */
+  byCurrency: Record<Currency, number>;
+  /** Amounts left out of `total` for lack of a rate. */
+  unconverted: number;
+}
+
+function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+function pairKey(from: Currency, to: Currency): string {
+  return `${from}/${to}`;
+}
+
+/**
+ * Rate on `date` from rates sorted by date: the latest on or before it, or
+ * the earliest known when `date` predates them all.
+ */
+function rateOn(history: FxRate[], date: string): number {
+  let found = history[0];
+  for (const r of history) {
+    if (r.date > date) break;
+    found = r;
+  }
+  return found.rate;
+}
+
+export function createConverter(rates: FxRate[], base: Currency): Converter {
+  const pairs = new Map<string, FxRate[]>();
+  const neighbours = new Map<Currency, Set<Currency>>();
+  for (const r of rates) {
+    if (r.deletedAt || !(r.rate > 0)) continue;
+    const key = pairKey(r.fromCurrency, r.toCurrency);
+    pairs.set(key, [...(pairs.get(key) ?? []), r]);
+    for (const [a, b] of [[r.fromCurrency, r.toCurrency], [r.toCurrency, r.fromCurrency]]) {
+      neighbours.set(a, (neighbours.get(a) ?? new Set()).add(b));
+    }
+  }
+  for (const history of pairs.values()) history.sort((a, b) => a.date.localeCompare(b.date));
+
+  function direct(from: Currency, to: Currency, date: string): number | null {
+    const forward = pairs.get(pairKey(from, to));
+    if (forward) return rateOn(forward, date);
+    const inverse = pairs.get(pairKey(to, from));
+    return inverse ? 1 / rateOn(inverse, date) : null;
+  }
+
+  function rate(from: Currency, to: Currency, date: string): number | null {
+    if (from === to) return 1;
+    const known = direct(from, to, date);
+    if (known !== null) return known;
+    for (const via of neighbours.get(from) ?? []) {
+      const second = direct(via, to, date);
+      if (second !== null) return (direct(from, via, date) ?? 0) * second;
+    }
+    return null;
+  }
+
+  function convert(amount: number, from: Currency, to: Currency, date = today()): number | null {
+    const r = rate(from, to, date);
+    // Rates are per major unit; scale between the two currencies' minor units
+    return r === null ? null : Math.round(amount * r * 10 ** (currencyExponent(to) - currencyExponent(from)));
+  }
+
+  return {
+    base,
+    convert,
+    toBase: (amount, currency, date) => convert(amount, currency, base, date),
+  };
+}
+
+/** Add up amounts in mixed currencies in the base currency, keeping the originals. */
+export function sumInBase(fx: Converter, items: Iterable<Money>): BaseTotal {
+  const result: BaseTotal = { total: 0, byCurrency: {}, unconverted: 0 };
+  for (const { amount, currency, date } of items) {
+    result.byCurrency[currency] = (result.byCurrency[currency] ?? 0) + amount;
+    const converted = fx.toBase(amount, currency, date);
+    if (converted === null) result.unconverted += 1;
+    else result.total += converted;
+  }
+  return result;
+}
+
+/**
+ * Base-currency totals by category, each split line counted under its own
+ * category. Amounts without a rate count as 0.
+ */
+export function totalsByCategory(fx: Converter, txns: Iterable<Transaction>): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const t of txns) {
+    for (const line of splitLines(t)) {
+      totals[line.category] = (totals[line.category] ?? 0) + (fx.toBase(line.amountMinorUnits, t.currency, t.date) ?? 0);
+    }
+  }
+  return totals;
+}
+
+// ── CSV import ───────────────────────────────────────────────────────────────
+
+export type FxRateInput = Pick<FxRate, 'date' | 'fromCurrency' | 'toCurrency' | 'rate'>;
+
+const CURRENCY = /^[A-Z]{3}$/;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parse historical rates, one per line as `date,from,to,rate` (e.g.
+ * `2024-03-01,USD,GBP,0.79`). A header line is skipped. Lines that can't be
+ * read are reported by line number and left out.
+ */
+export function parseRatesCsv(text: string): { rates: FxRateInput[]; errors: string[] } {
+  const rates: FxRateInput[] = [];
+  const errors: string[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    const cells = line.split(',').map((c) => c.trim().replace(/^"|"$/g, ''));
+    if (cells.every((c) => c === '')) return;
+    if (i === 0 && /date/i.test(cells[0])) return;
+
+    const [date, from, to, value] = cells;
+    const rate = Number(value);
+    const fromCurrency = from?.toUpperCase();
+    const toCurrency = to?.toUpperCase();
+    if (cells.length !== 4) errors.push(`Line ${i + 1}: expected date,from,to,rate`);
+    else if (!ISO_DATE.test(date)) errors.push(`Line ${i + 1}: date must be YYYY-MM-DD`);
+    else if (!CURRENCY.test(fromCurrency) || !CURRENCY.test(toCurrency)) errors.push(`Line ${i + 1}: currencies must be 3-letter codes`);
+    else if (fromCurrency === toCurrency) errors.push(`Line ${i + 1}: both currencies are ${fromCurrency}`);
+    else if (!(rate > 0)) errors.push(`Line ${i + 1}: rate must be a positive number`);
+    else rates.push({ date, fromCurrency, toCurrency, rate });
+  });
+  return { rates, errors };
+}
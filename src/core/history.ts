@@ -0,0 +1,222 @@
+/**
+ * Undo and redo for data mutations.
+ *
+ * Store actions wrapped in `undoable` are recorded as commands. Each run
+ * writes through its own `Recording`, which the db shim hands every write
+ * to, and the command keeps each row it touched as it was before and after.
+ * Side effects on linked records (goal progress, card balances, what is
+ * left on a loan) are written in the same batches as the change itself, so
+ * undoing a command puts all of them back together in one atomic write.
+ *
+ * A command is refused if any of its rows has moved on since (an edit on
+ * another device, or a later one that wasn't undone first) rather than
+ * overwrite the newer data.
+ */
+import { getStorage, VersionConflictError, type BatchOp, type DbRow } from './storage';
+import { changeLogOps, CHANGE_LOG_TABLE } from './audit';
+import { notifyChanges, type LiveChange } from './live';
+import { newId, now } from './types';
+import { useHistoryStore } from '../store/useHistoryStore';
+
+/** One row as a command found it (null if the command created it) and left it. */
+export interface RowSnapshot {
+  table: string;
+  id: string;
+  userId?: string;
+  before: DbRow | null;
+  after: DbRow;
+}
+
+export interface Command {
+  id: string;
+  label: string;
+  at: string;
+  rows: RowSnapshot[];
+}
+
+type RowRef = Pick<RowSnapshot, 'table' | 'id' | 'userId'>;
+
+const key = (ref: RowRef) => `${ref.table}:${ref.id}`;
+
+/**
+ * The rows one run of an undoable action writes. The action hands it to
+ * the tables and batches it writes through (`forUser(userId, recording)`,
+ * `db.batch(recording)`); writes made any other way, such as background
+ * sync or another action running meanwhile, stay out of it.
+ */
+export class Recording {
+  private rows = new Map<string, RowSnapshot>();
+
+  get snapshots(): RowSnapshot[] {
+    return [...this.rows.values()];
+  }
+
+  /**
+   * Called by the db shim before applying `ops`. Resolves to a callback
+   * that adds the rows `ops` touch, to be run once they have landed.
+   * Purges and clears can't be taken back and aren't recorded.
+   */
+  async capture(ops: BatchOp[]): Promise<(() => void) | null> {
+    const refs: RowRef[] = [];
+    for (const op of ops) {
+      if (op.table === CHANGE_LOG_TABLE) continue;
+      if (op.kind === 'insert' || op.kind === 'upsert') {
+        for (const row of op.rows) refs.push({ table: op.table, id: row['id'] as string, userId: row['user_id'] as string | undefined });
+      } else if (op.kind === 'update') {
+        refs.push({ table: op.table, id: op.id, userId: op.userId });
+      }
+    }
+    if (refs.length === 0) return null;
+
+    const stored = await readRows(refs);
+    // Play the ops over the stored rows to get where each row ends up
+    const state = new Map(stored);
+    for (const op of ops) {
+      if (op.table === CHANGE_LOG_TABLE) continue;
+      if (op.kind === 'insert' || op.kind === 'upsert') {
+        for (const row of op.rows) state.set(key({ table: op.table, id: row['id'] as string }), row);
+      } else if (op.kind === 'update') {
+        const current = state.get(key(op));
+        if (current) state.set(key(op), { ...current, ...op.changes });
+      }
+    }
+
+    return () => {
+      for (const ref of refs) {
+        const after = state.get(key(ref));
+        if (!after) continue;
+        const earlier = this.rows.get(key(ref));
+        this.rows.set(key(ref), { ...ref, before: earlier ? earlier.before : stored.get(key(ref)) ?? null, after });
+      }
+    };
+  }
+}
+
+/**
+ * Record each call of `fn` as one undoable command. `fn` gets the call's
+ * own `Recording` to write through; `label` names the command to the user
+ * and may be worked out from the result and arguments.
+ */
+export function undoable<A extends unknown[], R>(
+  label: string | ((result: R, args: NoInfer<A>) => string),
+  fn: (recording: Recording, ...args: A) => Promise<R>,
+): (...args: A) => Promise<R> {
+  return async (...args) => {
+    const recording = new Recording();
+    const result = await fn(recording, ...args);
+    const rows = recording.snapshots;
+    if (rows.length > 0) {
+      useHistoryStore.getState().push({
+        id: newId(),
+        label: typeof label === 'string' ? label : label(result, args),
+        at: now(),
+        rows,
+      });
+    }
+    return result;
+  };
+}
+
+/** The stored rows behind `refs`, soft-deleted ones included, by `key`. */
+async function readRows(refs: RowRef[]): Promise<Map<string, DbRow>> {
+  const groups = new Map<string, { table: string; userId?: string; ids: string[] }>();
+  for (const ref of refs) {
+    const group = `${ref.table}:${ref.userId ?? ''}`;
+    const entry = groups.get(group) ?? { table: ref.table, userId: ref.userId, ids: [] };
+    entry.ids.push(ref.id);
+    groups.set(group, entry);
+  }
+  const found = new Map<string, DbRow>();
+  for (const { table, userId, ids } of groups.values()) {
+    const rows = await getStorage().select(table, { userId, filters: [{ column: 'id', op: 'in', value: ids }] });
+    for (const row of rows) found.set(key({ table, id: row['id'] as string }), row);
+  }
+  return found;
+}
+
+function sameVersion(stored: DbRow | undefined, expected: DbRow | null): boolean {
+  if (!expected) return !stored;
+  // Supabase returns timestamps with an offset instead of `Z`, so compare instants
+  return !!stored && Date.parse(String(stored['updated_at'])) === Date.parse(String(expected['updated_at']));
+}
+
+/** Columns that turn `from` back into `to`. */
+function restoreChanges(from: DbRow, to: DbRow, stamp: string): DbRow {
+  const changes: DbRow = {};
+  for (const column of Object.keys(from)) {
+    if (!(column in to)) changes[column] = null;
+  }
+  for (const [column, value] of Object.entries(to)) {
+    if (column !== 'id' && column !== 'user_id') changes[column] = value;
+  }
+  changes['updated_at'] = stamp;
+  return changes;
+}
+
+type RestoreFix = (row: DbRow, userId?: string) => Promise<DbRow>;
+
+const restoreFixes = new Map<string, RestoreFix>();
+
+/**
+ * Adjust rows of `table` as undo or redo is about to write them back, for
+ * values that must be unique among live rows and may have been taken since.
+ */
+export function onRestore(table: string, fix: RestoreFix): void {
+  restoreFixes.set(table, fix);
+}
+
+/**
+ * Put every row of `command` back to its `before` (undo) or `after` (redo)
+ * state in one atomic write, and let the stores know. Resolves to the
+ * command as it now stands, ready for the opposite step.
+ */
+export async function applyCommand(command: Command, to: 'before' | 'after'): Promise<Command> {
+  const from = to === 'before' ? 'after' : 'before';
+  const stale = () => new Error(`[History] ${command.label}: changed since, so it can't be ${to === 'before' ? 'undone' : 'redone'}`);
+
+  const stored = await readRows(command.rows);
+  if (command.rows.some((r) => !sameVersion(stored.get(key(r)), r[from]))) throw stale();
+
+  const stamp = now();
+  const ops: BatchOp[] = [];
+  const rows: RowSnapshot[] = [];
+  for (const r of command.rows) {
+    const fix = restoreFixes.get(r.table);
+    const target = r[to] && fix ? await fix(r[to], r.userId) : r[to];
+    const present = r[from];
+    const written = target && { ...target, updated_at: stamp };
+    if (!written) {
+      // Undoing a create takes the row away entirely rather than to the trash
+      ops.push({ kind: 'purge', table: r.table, ids: [r.id], userId: r.userId });
+    } else if (!present) {
+      ops.push({ kind: 'insert', table: r.table, rows: [written] });
+    } else {
+      ops.push({
+        kind: 'update',
+        table: r.table,
+        id: r.id,
+        changes: restoreChanges(present, target, stamp),
+        userId: r.userId,
+        ifVersion: present['updated_at'] as string,
+      });
+    }
+    rows.push(!written ? r : to === 'before' ? { ...r, before: written } : { ...r, after: written });
+  }
+
+  try {
+    await getStorage().batch([...ops, ...(await changeLogOps(ops))]);
+  } catch (err) {
+    if (err instanceof VersionConflictError) throw stale();
+    throw err;
+  }
+
+  const byTable = new Map<string, LiveChange[]>();
+  for (const r of rows) {
+    const row = r[to];
+    const change: LiveChange = row ? { kind: 'upsert', row, partial: false, replace: true } : { kind: 'delete', id: r.id };
+    byTable.set(r.table, [...(byTable.get(r.table) ?? []), change]);
+  }
+  for (const [table, changes] of byTable) notifyChanges(table, changes);
+
+  return { ...command, rows };
+}
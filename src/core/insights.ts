@@ -1,6 +1,19 @@
 import { db } from './db';
-import { addDays, startOfMonth, endOfMonth, isWithinInterval, subMonths } from 'date-fns';
-import { toMajor } from './types';
+import { getCurrentUserId } from '../auth/useAuthStore';
+import { addDays, addMonths, format, startOfMonth, subMonths } from 'date-fns';
+import { toMajor, type Transaction } from './types';
+import { sumInBase, totalsByCategory, type Converter } from './fx';
+import { currentConverter } from '../store/useFxStore';
+
+/** Date column bound for range filters (dates are stored as ISO strings). */
+function isoDay(d: Date): string {
+  return format(d, 'yyyy-MM-dd');
+}
+
+/** Base-currency total of transactions at their dates. */
+function totalInBase(fx: Converter, txns: Transaction[]) {
+  return sumInBase(fx, txns.map((t) => ({ amount: t.amountMinorUnits, currency: t.currency, date: t.date })));
+}
 
 export interface Insight {
   id: string;
@@ -11,28 +24,30 @@ export interface Insight {
   actionRoute?: string;
 }
 
+/** Amounts are in the base currency. */
 export interface MonthSummary {
   income: number;
   expenses: number;
   net: number;
   savingsRate: number;
   topCategories: Array<{ category: string; amount: number }>;
+  /** Transactions left out for lack of an exchange rate. */
+  unconverted: number;
 }
 
 export async function generateInsights(): Promise<Insight[]> {
+  const userId = getCurrentUserId();
+  const fx = currentConverter();
   const insights: Insight[] = [];
   const now = new Date();
   const monthStart = startOfMonth(now);
-  const monthEnd = endOfMonth(now);
+  const nextMonthStart = addMonths(monthStart, 1);
 
   // 1. Upcoming bills (subscriptions due in 7 days)
-  const subs = await db.subscriptions
-    .filter((s) => s.isActive && !s.deletedAt)
-    .toArray();
-  const upcoming = subs.filter((s) => {
-    const due = new Date(s.nextBillingDate);
-    return isWithinInterval(due, { start: now, end: addDays(now, 7) });
-  });
+  const subs = await db.subscriptions.forUser(userId).query().eq('isActive', true).toArray();
+  const upcoming = subs.filter(
+    (s) => s.nextBillingDate >= isoDay(now) && s.nextBillingDate <= isoDay(addDays(now, 7)),
+  );
   if (upcoming.length > 0) {
     insights.push({
       id: 'upcoming-bills',
@@ -45,9 +60,7 @@ export async function generateInsights(): Promise<Insight[]> {
   }
 
   // 2. Overdue loans
-  const loans = await db.loans
-    .filter((l) => !l.deletedAt && l.status !== 'settled')
-    .toArray();
+  const loans = await db.loans.forUser(userId).query().neq('status', 'settled').toArray();
   const overdue = loans.filter((l) => l.dueDate && new Date(l.dueDate) < now);
   if (overdue.length > 0) {
     insights.push({
@@ -64,18 +77,13 @@ export async function generateInsights(): Promise<Insight[]> {
 
   // 3. Monthly savings rate
   const txns = await db.transactions
-    .filter(
-      (t) =>
-        !t.deletedAt &&
-        isWithinInterval(new Date(t.date), { start: monthStart, end: monthEnd }),
-    )
+    .forUser(userId)
+    .query()
+    .gte('date', isoDay(monthStart))
+    .lt('date', isoDay(nextMonthStart))
     .toArray();
-  const income = txns
-    .filter((t) => t.type === 'income')
-    .reduce((s, t) => s + t.amountMinorUnits, 0);
-  const expense = txns
-    .filter((t) => t.type === 'expense')
-    .reduce((s, t) => s + t.amountMinorUnits, 0);
+  const income = totalInBase(fx, txns.filter((t) => t.type === 'income')).total;
+  const expense = totalInBase(fx, txns.filter((t) => t.type === 'expense')).total;
 
   if (income > 0) {
     const savingsRate = ((income - expense) / income) * 100;
@@ -105,12 +113,10 @@ export async function generateInsights(): Promise<Insight[]> {
   for (const sub of subs) {
     if (new Date(sub.createdAt) > sixtyDaysAgo) continue;
     const linked = await db.transactions
-      .filter(
-        (t) =>
-          !t.deletedAt &&
-          (t.merchant?.toLowerCase().includes(sub.name.toLowerCase()) ?? false) &&
-          new Date(t.date) > sixtyDaysAgo,
-      )
+      .forUser(userId)
+      .query()
+      .ilike('merchant', `%${sub.name.replace(/[%_\\]/g, '\\$&')}%`)
+      .gt('date', isoDay(sixtyDaysAgo))
       .count();
     if (linked === 0) {
       insights.push({
@@ -128,30 +134,20 @@ export async function generateInsights(): Promise<Insight[]> {
   // 5. Anomaly: spending > 2× 3-month average in a category this month
   const threeMonthsAgo = subMonths(monthStart, 3);
   const recentTxns = await db.transactions
-    .filter(
-      (t) =>
-        !t.deletedAt &&
-        t.type === 'expense' &&
-        new Date(t.date) >= threeMonthsAgo &&
-        new Date(t.date) < monthStart,
-    )
+    .forUser(userId)
+    .query()
+    .eq('type', 'expense')
+    .gte('date', isoDay(threeMonthsAgo))
+    .lt('date', isoDay(monthStart))
     .toArray();
 
-  const categoryAvg: Record<string, number> = {};
-  const categoryCount: Record<string, number> = {};
-  for (const t of recentTxns) {
-    categoryAvg[t.category] = (categoryAvg[t.category] ?? 0) + t.amountMinorUnits;
-    categoryCount[t.category] = (categoryCount[t.category] ?? 0) + 1;
-  }
+  // Split lines count towards their own categories
+  const categoryAvg = totalsByCategory(fx, recentTxns);
   for (const cat of Object.keys(categoryAvg)) {
     categoryAvg[cat] = categoryAvg[cat] / 3; // average per month
   }
 
-  const thisMonthByCategory: Record<string, number> = {};
-  for (const t of txns.filter((t) => t.type === 'expense')) {
-    thisMonthByCategory[t.category] =
-      (thisMonthByCategory[t.category] ?? 0) + t.amountMinorUnits;
-  }
+  const thisMonthByCategory = totalsByCategory(fx, txns.filter((t) => t.type === 'expense'));
 
   for (const [cat, spent] of Object.entries(thisMonthByCategory)) {
     const avg = categoryAvg[cat] ?? 0;
@@ -160,7 +156,7 @@ export async function generateInsights(): Promise<Insight[]> {
         id: `anomaly-${cat}`,
         type: 'warning',
         title: `High ${cat} spending`,
-        description: `You've spent ${toMajor(spent).toFixed(0)} vs avg ${toMajor(avg).toFixed(0)} — more than 2× usual.`,
+        description: `You've spent ${toMajor(spent, fx.base).toFixed(0)} vs avg ${toMajor(avg, fx.base).toFixed(0)} — more than 2× usual.`,
         actionLabel: 'View transactions',
         actionRoute: '/transactions',
       });
@@ -168,14 +164,11 @@ export async function generateInsights(): Promise<Insight[]> {
   }
 
   // 6. Budget overruns
-  const budgets = await db.budgets
-    .filter((b) => b.isActive && !b.deletedAt)
-    .toArray();
+  const budgets = await db.budgets.forUser(userId).query().eq('isActive', true).toArray();
   for (const budget of budgets) {
-    const spent = txns
-      .filter((t) => t.type === 'expense' && t.category === budget.category)
-      .reduce((s, t) => s + t.amountMinorUnits, 0);
-    const pct = budget.amountMinorUnits > 0 ? (spent / budget.amountMinorUnits) * 100 : 0;
+    const spent = thisMonthByCategory[budget.category] ?? 0;
+    const limit = fx.toBase(budget.amountMinorUnits, budget.currency ?? fx.base) ?? budget.amountMinorUnits;
+    const pct = limit > 0 ? (spent / limit) * 100 : 0;
     if (pct >= 100) {
       insights.push({
         id: `budget-over-${budget.id}`,
@@ -202,27 +195,21 @@ export async function generateInsights(): Promise<Insight[]> {
 
 export async function getMonthSummary(year: number, month: number): Promise<MonthSummary> {
   const start = new Date(year, month - 1, 1);
-  const end = endOfMonth(start);
+  const fx = currentConverter();
 
   const txns = await db.transactions
-    .filter(
-      (t) =>
-        !t.deletedAt &&
-        isWithinInterval(new Date(t.date), { start, end }),
-    )
+    .forUser(getCurrentUserId())
+    .query()
+    .gte('date', isoDay(start))
+    .lt('date', isoDay(addMonths(start, 1)))
     .toArray();
 
-  const income = txns
-    .filter((t) => t.type === 'income')
-    .reduce((s, t) => s + t.amountMinorUnits, 0);
-  const expenses = txns
-    .filter((t) => t.type === 'expense')
-    .reduce((s, t) => s + t.amountMinorUnits, 0);
+  const incomeTotal = totalInBase(fx, txns.filter((t) => t.type === 'income'));
+  const expenseTotal = totalInBase(fx, txns.filter((t) => t.type === 'expense'));
+  const income = incomeTotal.total;
+  const expenses = expenseTotal.total;
 
-  const categoryMap: Record<string, number> = {};
-  for (const t of txns.filter((t) => t.type === 'expense')) {
-    categoryMap[t.category] = (categoryMap[t.category] ?? 0) + t.amountMinorUnits;
-  }
+  const categoryMap = totalsByCategory(fx, txns.filter((t) => t.type === 'expense'));
   const topCategories = Object.entries(categoryMap)
     .map(([category, amount]) => ({ category, amount }))
     .sort((a, b) => b.amount - a.amount)
@@ -234,37 +221,38 @@ export async function getMonthSummary(year: number, month: number): Promise<Mont
     net: income - expenses,
     savingsRate: income > 0 ? ((income - expenses) / income) * 100 : 0,
     topCategories,
+    unconverted: incomeTotal.unconverted + expenseTotal.unconverted,
   };
 }
 
-/** Cash flow projection: net over next 30 days based on subscriptions + avg income */
+/** Cash flow projection: net over next 30 days based on subscriptions + avg income, in the base currency */
 export async function getCashFlowProjection(): Promise<number> {
+  const userId = getCurrentUserId();
+  const fx = currentConverter();
   const now = new Date();
   const next30 = addDays(now, 30);
 
   // Upcoming subscription costs
   const subs = await db.subscriptions
-    .filter((s) => s.isActive && !s.deletedAt)
+    .forUser(userId)
+    .query()
+    .eq('isActive', true)
+    .between('nextBillingDate', isoDay(now), isoDay(next30))
     .toArray();
-  const upcomingSubs = subs
-    .filter((s) => {
-      const due = new Date(s.nextBillingDate);
-      return isWithinInterval(due, { start: now, end: next30 });
-    })
-    .reduce((s, sub) => s + sub.amountMinorUnits, 0);
+  const upcomingSubs = sumInBase(
+    fx,
+    subs.map((sub) => ({ amount: sub.amountMinorUnits, currency: sub.currency, date: sub.nextBillingDate })),
+  ).total;
 
   // Average monthly income (last 3 months)
   const threeMonthsAgo = subMonths(now, 3);
   const incomeTxns = await db.transactions
-    .filter(
-      (t) =>
-        !t.deletedAt &&
-        t.type === 'income' &&
-        new Date(t.date) >= threeMonthsAgo,
-    )
+    .forUser(userId)
+    .query()
+    .eq('type', 'income')
+    .gte('date', isoDay(threeMonthsAgo))
     .toArray();
-  const avgMonthlyIncome =
-    incomeTxns.reduce((s, t) => s + t.amountMinorUnits, 0) / 3;
+  const avgMonthlyIncome = totalInBase(fx, incomeTxns).total / 3;
 
   return avgMonthlyIncome - upcomingSubs;
 }
@@ -0,0 +1,102 @@
+/**
+ * Amounts saved before minor units followed each currency's ISO 4217
+ * exponent. Until then every amount was stored in hundredths, so yen were
+ * kept ×100 too large and dinars ×10 too small. Supabase rows are rescaled
+ * by migration 0010; this module does the same for copies held outside
+ * Supabase: the local mirror and outbox (on upgrade), change-sets uploaded
+ * by older clients, and version 1 JSON exports.
+ *
+ * Budgets carry no currency in that format and are upgraded separately when
+ * loaded (see useBudgetStore). Change-log entries keep the values as recorded.
+ */
+import { currencyExponent, type Currency } from './types';
+import type { BatchOp, DbRow } from './storage/types';
+
+interface AmountColumns {
+  /** Column holding the currency of the amounts. */
+  currency: string;
+  columns: string[];
+  /** JSON array columns whose elements carry an amount field. */
+  nested?: { column: string; field: string; currency?: string }[];
+}
+
+const AMOUNT_COLUMNS: Record<string, AmountColumns> = {
+  transactions: {
+    currency: 'currency',
+    columns: ['amount_minor_units', 'received_amount_minor_units'],
+    nested: [{ column: 'partial_payments', field: 'amountMinorUnits' }],
+  },
+  loans: {
+    currency: 'currency',
+    columns: ['principal_minor_units', 'remaining_minor_units'],
+    nested: [{ column: 'payments', field: 'amount' }],
+  },
+  subscriptions: { currency: 'currency', columns: ['amount_minor_units'] },
+  goals: { currency: 'currency', columns: ['target_minor_units', 'current_minor_units'] },
+  recurring_rules: { currency: 'template_currency', columns: ['template_amount_minor_units'] },
+  credit_cards: {
+    currency: 'currency',
+    columns: ['limit_minor_units', 'balance_minor_units', 'min_payment_minor_units', 'cashback_minor_units'],
+    nested: [{ column: 'transactions', field: 'amountMinorUnits', currency: 'currency' }],
+  },
+};
+
+/** A legacy amount (hundredths) in minor units of `currency`. */
+export function fromLegacyMinor(amount: number, currency: Currency): number {
+  return Math.round(amount * 10 ** (currencyExponent(currency) - 2));
+}
+
+function rescale(value: unknown, currency: Currency): unknown {
+  return typeof value === 'number' ? fromLegacyMinor(value, currency) : value;
+}
+
+/** Column name holding the currency for `table`'s amounts, if it has any. */
+export function legacyCurrencyColumn(table: string): string | undefined {
+  return AMOUNT_COLUMNS[table]?.currency;
+}
+
+/**
+ * `row` (or a partial row of changes) with its amounts rescaled. `currency`
+ * stands in when the row doesn't say, as with updates that leave it alone.
+ */
+export function upgradeLegacyRow(table: string, row: DbRow, currency?: Currency): DbRow {
+  const spec = AMOUNT_COLUMNS[table];
+  if (!spec) return row;
+  const rowCurrency = (row[spec.currency] as Currency | undefined) ?? currency;
+  if (!rowCurrency) return row;
+
+  const upgraded: DbRow = { ...row };
+  for (const column of spec.columns) {
+    if (column in row) upgraded[column] = rescale(row[column], rowCurrency);
+  }
+  for (const { column, field, currency: own } of spec.nested ?? []) {
+    const items = row[column];
+    if (!Array.isArray(items)) continue;
+    upgraded[column] = items.map((item: Record<string, unknown>) => ({
+      ...item,
+      [field]: rescale(item[field], (own && (item[own] as Currency | undefined)) || rowCurrency),
+    }));
+  }
+  return upgraded;
+}
+
+/**
+ * `ops` with their amounts rescaled. Updates name no currency, so
+ * `currencyOf` supplies the stored row's.
+ */
+export async function upgradeLegacyOps(
+  ops: BatchOp[],
+  currencyOf: (table: string, id: string) => Promise<Currency | undefined>,
+): Promise<BatchOp[]> {
+  const upgraded: BatchOp[] = [];
+  for (const op of ops) {
+    if (op.kind === 'insert' || op.kind === 'upsert') {
+      upgraded.push({ ...op, rows: op.rows.map((r) => upgradeLegacyRow(op.table, r)) });
+    } else if (op.kind === 'update' && legacyCurrencyColumn(op.table)) {
+      upgraded.push({ ...op, changes: upgradeLegacyRow(op.table, op.changes, await currencyOf(op.table, op.id)) });
+    } else {
+      upgraded.push(op);
+    }
+  }
+  return upgraded;
+}
@@ -0,0 +1,221 @@
+/**
+ * Live row updates for the Zustand stores.
+ *
+ * Changes reach a tab from two places:
+ *   - Supabase realtime, for writes made on other devices (supabase and
+ *     local-first backends only; the local mirror is updated as they arrive,
+ *     and with encrypted sync a notice triggers a change-set download)
+ *   - a BroadcastChannel carrying the writes other tabs make (see
+ *     storage/broadcastAdapter.ts), which also covers the IndexedDB backend
+ *
+ * Stores register with `onTableChange` and fold changes in with `mergeLive`.
+ */
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase, fromDb, getRequestSession } from './supabase';
+import { SYNCED_TABLES } from './localDb';
+import { mirrorRemoteRow, cloudMode } from './sync';
+import { CHANGESETS_TABLE, pullChangesets } from './changesets';
+import { parseLiveRow } from './validation';
+import { openRow } from './vault';
+import { supabaseAdapter } from './storage/supabaseAdapter';
+import { CHANGE_CHANNEL, type BatchOp, type DbRow, type StorageBackend } from './storage';
+
+export type LiveChange =
+  /**
+   * `partial` rows only carry the changed columns plus `id`. `replace` skips
+   * the staleness check, for a row the user explicitly chose (conflict resolution).
+   */
+  | { kind: 'upsert'; row: DbRow; partial: boolean; replace?: boolean }
+  | { kind: 'delete'; id: string }
+  | { kind: 'clear' };
+
+type Listener = (changes: LiveChange[]) => void;
+
+const listeners = new Map<string, Set<Listener>>();
+
+/** Call `fn` with each group of changes to `table`. Returns an unsubscribe function. */
+export function onTableChange(table: string, fn: Listener): () => void {
+  let set = listeners.get(table);
+  if (!set) {
+    set = new Set();
+    listeners.set(table, set);
+  }
+  set.add(fn);
+  return () => set.delete(fn);
+}
+
+async function deliver(table: string, changes: LiveChange[]): Promise<void> {
+  const checked: LiveChange[] = [];
+  for (const change of changes) {
+    if (change.kind !== 'upsert') {
+      checked.push(change);
+      continue;
+    }
+    const row = parseLiveRow(table, await openRow(table, change.row), change.partial);
+    if (row) checked.push({ ...change, row });
+  }
+  if (checked.length === 0) return;
+  for (const fn of listeners.get(table) ?? []) fn(checked);
+}
+
+// Opening vault columns is async; chaining keeps deliveries in arrival order
+let delivery: Promise<void> = Promise.resolve();
+
+/** Deliver changes to the stores registered for `table`; invalid rows are held back. */
+export function notifyChanges(table: string, changes: LiveChange[]): void {
+  if (changes.length === 0) return;
+  delivery = delivery
+    .then(() => deliver(table, changes))
+    .catch((err) => console.warn('[Live] Could not deliver changes:', err));
+}
+
+/**
+ * Fold live changes into a store's array. A change older than the copy already
+ * held (by `updatedAt`) is ignored, so a late echo of our own earlier write
+ * can't undo a newer one. Soft-deleted rows drop out.
+ */
+export function mergeLive<T extends { id: string; updatedAt?: string; deletedAt?: string }>(
+  items: T[],
+  changes: LiveChange[],
+): T[] {
+  let next = [...items];
+  for (const change of changes) {
+    if (change.kind === 'clear') {
+      next = [];
+      continue;
+    }
+    if (change.kind === 'delete') {
+      next = next.filter((i) => i.id !== change.id);
+      continue;
+    }
+    const incoming = fromDb<T>(change.row);
+    const existing = next.find((i) => i.id === incoming.id);
+    const stale = !change.replace && existing?.updatedAt && incoming.updatedAt && incoming.updatedAt < existing.updatedAt;
+    if (stale) continue;
+    const merged = existing && (change.partial || !change.replace) ? { ...existing, ...incoming } : incoming;
+    if (merged.deletedAt) {
+      next = next.filter((i) => i.id !== incoming.id);
+    } else if (existing) {
+      next = next.map((i) => (i.id === incoming.id ? merged : i));
+    } else if (!change.partial) {
+      next = [...next, merged];
+    }
+  }
+  return next;
+}
+
+// ── Sources ──────────────────────────────────────────────────────────────────
+
+function fromOps(ops: BatchOp[], userId: string): Map<string, LiveChange[]> {
+  const byTable = new Map<string, LiveChange[]>();
+  const push = (table: string, change: LiveChange) => {
+    byTable.set(table, [...(byTable.get(table) ?? []), change]);
+  };
+  for (const op of ops) {
+    switch (op.kind) {
+      case 'insert':
+      case 'upsert':
+        for (const row of op.rows) {
+          if (row['user_id'] === userId) push(op.table, { kind: 'upsert', row, partial: false });
+        }
+        break;
+      case 'update':
+        if (op.userId === undefined || op.userId === userId) {
+          push(op.table, { kind: 'upsert', row: { ...op.changes, id: op.id }, partial: true });
+        }
+        break;
+      case 'purge':
+        if (op.userId === undefined || op.userId === userId) {
+          for (const id of op.ids) push(op.table, { kind: 'delete', id });
+        }
+        break;
+      case 'clear':
+        push(op.table, { kind: 'clear' });
+        break;
+    }
+  }
+  return byTable;
+}
+
+/** Deliver writes made through the storage layer, as far as they concern `userId`. */
+export function notifyOps(ops: BatchOp[], userId: string): void {
+  for (const [table, changes] of fromOps(ops, userId)) notifyChanges(table, changes);
+}
+
+let tabChannel: BroadcastChannel | null = null;
+let realtime: RealtimeChannel | null = null;
+// Bumped on every start and stop, so a subscription still working out its
+// topic can tell it has been superseded
+let realtimeRun = 0;
+
+/**
+ * Fetch a row announced on the realtime topic and pass it on. The fetch goes
+ * through row-level security like any other read; a row that can no longer
+ * be read counts as deleted.
+ */
+async function applyRemoteChange(table: string, id: string, userId: string, mirror: boolean): Promise<void> {
+  const [row] = await supabaseAdapter.select(table, { userId, filters: [{ column: 'id', op: 'eq', value: id }] });
+  if (mirror && !(await mirrorRemoteRow(table, row ?? null, id))) return;
+  notifyChanges(table, [row ? { kind: 'upsert', row, partial: false } : { kind: 'delete', id }]);
+}
+
+/**
+ * The private topic the database announces changes on for the session
+ * holding `token` (migration 0017): a hash of the token, so the topic
+ * name gives nothing away.
+ */
+async function sessionTopic(token: string): Promise<string> {
+  const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return `rows:${Array.from(new Uint8Array(hash), (b) => b.toString(16).padStart(2, '0')).join('')}`;
+}
+
+function subscribeRealtime(topic: string, userId: string, mirror: boolean): RealtimeChannel {
+  // The database announces each change as { table, id } on each of the
+  // owner's sessions' topics; realtime never carries row contents
+  return supabase
+    .channel(topic, { config: { private: true } })
+    .on('broadcast', { event: 'row_changed' }, ({ payload }) => {
+      const { table, id } = payload as { table?: string; id?: string };
+      if (table === CHANGESETS_TABLE) {
+        // A device on row sync leaves them until it follows the account over
+        if (cloudMode() === 'encrypted') {
+          pullChangesets(userId).catch((err) => console.warn('[Live] Could not download change-sets:', err));
+        }
+        return;
+      }
+      if (!table || !id || !(SYNCED_TABLES as readonly string[]).includes(table)) return;
+      applyRemoteChange(table, id, userId, mirror)
+        .catch((err) => console.warn('[Live] Could not fetch remote change:', err));
+    })
+    .subscribe();
+}
+
+/** Start delivering changes for `userId`'s rows to the registered stores. */
+export function startLiveUpdates(userId: string, backend: StorageBackend): void {
+  stopLiveUpdates();
+  const run = realtimeRun;
+  // The memory backend lives in this tab only; nothing else can change it
+  if (backend === 'memory') return;
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    tabChannel = new BroadcastChannel(CHANGE_CHANNEL);
+    tabChannel.onmessage = (event: MessageEvent<BatchOp[]>) => notifyOps(event.data, userId);
+  }
+
+  const token = getRequestSession();
+  if (token && (backend === 'supabase' || (backend === 'local-first' && cloudMode() !== 'off'))) {
+    sessionTopic(token)
+      .then((topic) => {
+        if (run === realtimeRun) realtime = subscribeRealtime(topic, userId, backend === 'local-first');
+      })
+      .catch((err) => console.warn('[Live] Could not subscribe to realtime:', err));
+  }
+}
+
+export function stopLiveUpdates(): void {
+  realtimeRun++;
+  tabChannel?.close();
+  tabChannel = null;
+  if (realtime) void supabase.removeChannel(realtime);
+  realtime = null;
+}
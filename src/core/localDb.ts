@@ -0,0 +1,107 @@
+/**
+ * Local IndexedDB mirror of the Supabase tables.
+ * Rows are stored exactly as Supabase returns them (snake_case), so the
+ * same toDb/fromDb converters apply to both sides. Pending writes wait in
+ * the `outbox` table until they can be replayed against Supabase.
+ */
+import Dexie, { type Table, type Transaction } from 'dexie';
+import type { BatchOp, DbRow } from './storage/types';
+import { legacyCurrencyColumn, upgradeLegacyOps, upgradeLegacyRow } from './legacyAmounts';
+
+export const SYNCED_TABLES = [
+  'accounts',
+  'transactions',
+  'loans',
+  'subscriptions',
+  'budgets',
+  'goals',
+  'recurring_rules',
+  'credit_cards',
+  'fx_rates',
+  'saved_views',
+  'tags',
+  'change_log',
+] as const;
+
+export type SyncedTable = (typeof SYNCED_TABLES)[number];
+
+export type OutboxOp = 'put' | 'update' | 'clear' | 'batch';
+
+export interface OutboxEntry {
+  seq?: number;
+  table: string;
+  op: OutboxOp;
+  /** Present on user-scoped writes; replayed as an extra `user_id` filter. */
+  userId?: string;
+  /** Target row for `update`. */
+  rowId?: string;
+  /** Full rows for `put` (replayed as an upsert, so retries are idempotent). */
+  rows?: DbRow[];
+  /** Column changes for `update`. */
+  changes?: DbRow;
+  /** `updated_at` the `update` was based on; the server rejects it if the row moved on. */
+  ifVersion?: string;
+  /** Atomic write set for `batch` (`table` then lists every table touched). */
+  ops?: BatchOp[];
+  createdAt: string;
+  attempts: number;
+  lastError?: string;
+}
+
+/** An attachment's bytes as kept on this device (see core/files). */
+export interface StoredFile {
+  path: string;
+  blob: Blob;
+  /** 1 until the file has been uploaded to object storage. */
+  pending: 0 | 1;
+}
+
+// Rows and queued writes from before v4 hold every amount in hundredths
+async function upgradeLegacyAmounts(tx: Transaction): Promise<void> {
+  for (const name of SYNCED_TABLES) {
+    if (!legacyCurrencyColumn(name)) continue;
+    await tx.table<DbRow, string>(name).toCollection().modify((row, ref) => {
+      ref.value = upgradeLegacyRow(name, row);
+    });
+  }
+
+  async function currencyOf(table: string, id: string): Promise<string | undefined> {
+    const column = legacyCurrencyColumn(table);
+    const row = column ? await tx.table<DbRow, string>(table).get(id) : undefined;
+    return column ? (row?.[column] as string | undefined) : undefined;
+  }
+
+  const outbox = tx.table<OutboxEntry, number>('outbox');
+  for (const entry of await outbox.toArray()) {
+    if (entry.rows) entry.rows = entry.rows.map((row) => upgradeLegacyRow(entry.table, row));
+    if (entry.changes && entry.rowId) {
+      entry.changes = upgradeLegacyRow(entry.table, entry.changes, await currencyOf(entry.table, entry.rowId));
+    }
+    if (entry.ops) entry.ops = await upgradeLegacyOps(entry.ops, currencyOf);
+    await outbox.put(entry);
+  }
+}
+
+class LocalDatabase extends Dexie {
+  outbox!: Table<OutboxEntry, number>;
+  files!: Table<StoredFile, string>;
+
+  constructor() {
+    super('privyledger');
+    const stores: Record<string, string> = { outbox: '++seq, table' };
+    for (const name of SYNCED_TABLES) stores[name] = 'id, user_id';
+    // v2: change_log; v3: fx_rates; v4: amounts scaled to each currency's minor unit; v5: saved_views;
+    // v6: attachment files; v7: tags
+    this.version(3).stores(stores);
+    this.version(4).stores(stores).upgrade(upgradeLegacyAmounts);
+    this.version(5).stores(stores);
+    this.version(6).stores({ ...stores, files: 'path, pending' });
+    this.version(7).stores({ ...stores, files: 'path, pending' });
+  }
+
+  rows(tableName: string): Table<DbRow, string> {
+    return this.table(tableName);
+  }
+}
+
+export const localDb = new LocalDatabase();
@@ -0,0 +1,122 @@
+/**
+ * Locale and number-format preferences, and the formatters that honour them.
+ *
+ * The preferences live in useUIStore (persisted in `pl_settings`), which
+ * hands them here whenever they change, so formatters can be called from
+ * plain functions as well as components. Machine formats (`yyyy-MM-dd` in
+ * queries, file names and CSV) are not localised.
+ */
+import { parseISO, type Day } from 'date-fns';
+
+/** Order of day, month and year in dates; `auto` takes it from the locale. */
+export type DateOrder = 'auto' | 'dmy' | 'mdy' | 'ymd';
+
+/** Digit grouping in numbers and amounts; `locale` uses the locale's rule. */
+export type NumberGrouping = 'locale' | 'always' | 'never';
+
+export interface LocalePrefs {
+  /** BCP 47 tag, e.g. en-GB */
+  locale: string;
+  /** 0 Sunday, 1 Monday, 6 Saturday */
+  weekStartsOn: Day;
+  dateOrder: DateOrder;
+  numberGrouping: NumberGrouping;
+}
+
+export const DEFAULT_LOCALE_PREFS: LocalePrefs = {
+  locale: 'en-GB',
+  weekStartsOn: 1,
+  dateOrder: 'auto',
+  numberGrouping: 'locale',
+};
+
+let prefs = DEFAULT_LOCALE_PREFS;
+
+export function setLocalePrefs(next: LocalePrefs): void {
+  prefs = next;
+}
+
+export function localePrefs(): LocalePrefs {
+  return prefs;
+}
+
+/** Options for date-fns week helpers (`startOfWeek`, `endOfWeek`…). */
+export function weekOptions(): { weekStartsOn: Day } {
+  return { weekStartsOn: prefs.weekStartsOn };
+}
+
+// ── Numbers ───────────────────────────────────────────────────────────────────
+
+/** Intl number options carrying the grouping preference. */
+export function numberOptions(options: Intl.NumberFormatOptions = {}): Intl.NumberFormatOptions {
+  return prefs.numberGrouping === 'locale' ? options : { ...options, useGrouping: prefs.numberGrouping === 'always' };
+}
+
+export function formatNumber(value: number, options?: Intl.NumberFormatOptions): string {
+  return new Intl.NumberFormat(prefs.locale, numberOptions(options)).format(value);
+}
+
+// ── Dates ─────────────────────────────────────────────────────────────────────
+
+const DATE_STYLES = {
+  /** 19/10/2026 */
+  numeric: { day: '2-digit', month: '2-digit', year: 'numeric' },
+  /** 19 Oct 2026 */
+  medium: { day: 'numeric', month: 'short', year: 'numeric' },
+  /** 19 Oct */
+  dayMonth: { day: 'numeric', month: 'short' },
+  /** Mon 19 Oct */
+  weekdayDayMonth: { weekday: 'short', day: 'numeric', month: 'short' },
+  /** Monday 19 Oct */
+  weekdayLong: { weekday: 'long', day: 'numeric', month: 'short' },
+  /** Monday 19 Oct 2026 */
+  full: { weekday: 'long', day: 'numeric', month: 'short', year: 'numeric' },
+  /** October 2026 */
+  monthYear: { month: 'long', year: 'numeric' },
+  /** Oct 2026 */
+  monthShortYear: { month: 'short', year: 'numeric' },
+  /** Oct */
+  month: { month: 'short' },
+  /** Mon */
+  weekday: { weekday: 'short' },
+} satisfies Record<string, Intl.DateTimeFormatOptions>;
+
+export type DateStyle = keyof typeof DATE_STYLES;
+
+function toDate(date: Date | string): Date {
+  return typeof date === 'string' ? parseISO(date) : date;
+}
+
+// The locale's names and digits, arranged in the preferred order
+function ordered(date: Date, options: Intl.DateTimeFormatOptions, order: Exclude<DateOrder, 'auto'>): string {
+  const parts = new Intl.DateTimeFormat(prefs.locale, options).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value;
+  const [weekday, day, month, year] = [part('weekday'), part('day'), part('month'), part('year')];
+
+  if (options.month === '2-digit') {
+    const fields = order === 'dmy' ? [day, month, year] : order === 'mdy' ? [month, day, year] : [year, month, day];
+    return fields.join(order === 'ymd' ? '-' : '/');
+  }
+  const rest = order === 'dmy' ? [day, month, year].filter(Boolean).join(' ')
+    : order === 'mdy' ? `${month} ${day}${year ? `, ${year}` : ''}`
+    : [year, month, day].filter(Boolean).join(' ');
+  if (!weekday) return rest;
+  return order === 'dmy' ? `${weekday} ${rest}` : `${weekday}, ${rest}`;
+}
+
+/** A date (or ISO string) in one of the app's styles. */
+export function formatDate(date: Date | string, style: DateStyle = 'medium'): string {
+  const d = toDate(date);
+  const options: Intl.DateTimeFormatOptions = DATE_STYLES[style];
+  if (prefs.dateOrder !== 'auto' && options.day && options.month) return ordered(d, options, prefs.dateOrder);
+  return new Intl.DateTimeFormat(prefs.locale, options).format(d);
+}
+
+/** Hours and minutes, on the locale's 12- or 24-hour clock. */
+export function formatTime(date: Date | string): string {
+  return new Intl.DateTimeFormat(prefs.locale, { hour: 'numeric', minute: '2-digit' }).format(toDate(date));
+}
+
+export function formatDateTime(date: Date | string, style: DateStyle = 'medium'): string {
+  return `${formatDate(date, style)}, ${formatTime(date)}`;
+}
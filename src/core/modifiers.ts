@@ -0,0 +1,50 @@
+/**
+ * Named read-modify-write steps for `WriteBatch.modify`.
+ *
+ * A step works out a row's new values from its current ones, such as a
+ * loan's remaining balance after a payment. Online, a batch that loses a
+ * version race just runs its steps again. On the local-first backend the
+ * race is only lost when sync replays the outbox, maybe days later, so each
+ * update carries its step's name and arguments and sync runs the step again
+ * on the server's row (see sync.ts). Another device's payment then adds to
+ * this one instead of one of them being dropped in the conflict dialog.
+ *
+ * Steps are defined once at module level, so the name means the same step
+ * on every device and after a reload. Arguments must be plain data.
+ */
+import { assertValid, parseRows } from './validation';
+import { toDb } from './supabase';
+import type { DbRow } from './storage';
+import { now } from './types';
+
+export interface Modifier<T, A> {
+  readonly name: string;
+  /** The new values for `current`, or null to leave it as it is. */
+  readonly apply: (current: T, args: A) => Partial<T> | null;
+}
+
+type AnyApply = (current: unknown, args: unknown) => object | null;
+
+const steps = new Map<string, AnyApply>();
+
+export function defineModifier<T, A>(name: string, apply: (current: T, args: A) => Partial<T> | null): Modifier<T, A> {
+  steps.set(name, apply as AnyApply);
+  return { name, apply };
+}
+
+/**
+ * Run step `name` again on `row` (as stored, vault fields opened). Returns
+ * the patch of snake_case columns to write, with a fresh `updated_at`; null
+ * when the step leaves the row as it is; undefined when the step isn't
+ * known here or the row can't be read, so it can't be re-run.
+ */
+export function rerunModifier(table: string, name: string, args: unknown, row: DbRow): DbRow | null | undefined {
+  const apply = steps.get(name);
+  const [current] = parseRows<unknown>(table, [row]);
+  if (!apply || !current) return undefined;
+  const changes = apply(current, args);
+  if (!changes) return null;
+  const patch = { ...changes, updatedAt: now() };
+  assertValid(table, 'update', patch, true);
+  return toDb(patch);
+}
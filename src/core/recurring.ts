@@ -66,7 +66,7 @@ export async function processRecurringRules(): Promise<number> {
 
     if (newTxns.length > 0) {
       await db.transactions.forUser(userId).bulkAdd(newTxns);
-      await db.recurringRules.update(rule.id, {
+      await db.recurringRules.forUser(userId).update(rule.id, {
         lastGeneratedDate: newTxns[newTxns.length - 1].date,
         updatedAt: now(),
       });
@@ -0,0 +1,55 @@
+/**
+ * Database schema version check.
+ * The migrations in supabase/migrations each record their version in
+ * `schema_migrations`. MIGRATIONS lists the ones this build relies on; any
+ * that the database hasn't applied are reported so an admin can run them.
+ */
+import { supabase } from './supabase';
+
+export interface Migration {
+  version: number;
+  name: string;
+}
+
+/** Every migration this client expects, in order. Add new ones at the end. */
+export const MIGRATIONS: readonly Migration[] = [
+  { version: 1, name: 'base_schema' },
+  { version: 2, name: 'transaction_settlement_columns' },
+  { version: 3, name: 'users_and_admin' },
+  { version: 4, name: 'apply_write_batch' },
+  { version: 5, name: 'realtime' },
+  { version: 6, name: 'change_log' },
+  { version: 7, name: 'session_rls' },
+  { version: 8, name: 'encrypted_sync' },
+  { version: 9, name: 'fx_rates' },
+  { version: 10, name: 'currency_minor_units' },
+  { version: 11, name: 'split_transactions' },
+  { version: 12, name: 'cross_currency_transfers' },
+  { version: 13, name: 'saved_views' },
+  { version: 14, name: 'transaction_attachments' },
+  { version: 15, name: 'duplicate_dismissals' },
+  { version: 16, name: 'tags' },
+  { version: 17, name: 'private_realtime' },
+  { version: 18, name: 'account_settings' },
+  { version: 19, name: 'account_sync_mode' },
+];
+
+/** File name of a migration under supabase/migrations. */
+export function migrationFile(m: Migration): string {
+  return `${String(m.version).padStart(4, '0')}_${m.name}.sql`;
+}
+
+/**
+ * Migrations the database has not applied yet. A database without the
+ * version RPC predates tracked migrations, so everything is pending.
+ */
+export async function getPendingMigrations(): Promise<Migration[]> {
+  const { data, error } = await supabase.rpc('get_applied_migrations');
+  if (error) {
+    // PGRST202: function not found
+    if (error.code === 'PGRST202') return [...MIGRATIONS];
+    throw new Error(`[Schema] get_applied_migrations: ${error.message}`);
+  }
+  const applied = new Set((data as number[] | null) ?? []);
+  return MIGRATIONS.filter((m) => !applied.has(m.version));
+}
@@ -0,0 +1,356 @@
+/**
+ * Transaction search queries.
+ * A query is a list of whitespace-separated terms, all of which must match:
+ *
+ *   merchant:tesco amount>20 tag:work -category:Groceries
+ *   date:2026-01..2026-03 method:card status:scheduled "corner shop"
+ *
+ * `field:value` matches when the field contains the value (case-insensitive),
+ * `field=value` when it equals it; amounts and dates also take `>`, `>=`,
+ * `<`, `<=` and `a..b` ranges. A leading `-` negates a term, double quotes
+ * keep spaces in a value, and bare words search the text fields.
+ */
+import { addDays, addMonths, addYears, format, subMonths } from 'date-fns';
+import { isScheduled, splitLines, toMajor, type Account, type PaymentMethod, type Transaction, type TransactionType } from './types';
+
+export type SearchField =
+  | 'merchant' | 'category' | 'tag' | 'account' | 'type' | 'method'
+  | 'status' | 'notes' | 'amount' | 'date' | 'currency';
+
+export type SearchOp = ':' | '=' | '>' | '>=' | '<' | '<=';
+
+/** Field names with a short description, in the order autocomplete offers them. */
+export const SEARCH_FIELDS: Record<SearchField, string> = {
+  merchant: 'Merchant or payee',
+  category: 'Category, including split lines',
+  tag: 'Tag, including split lines',
+  account: 'Account paid from or into',
+  type: 'income, expense or transfer',
+  method: 'Payment method',
+  status: 'completed, scheduled or partial',
+  notes: 'Notes, including split lines',
+  amount: 'Amount, e.g. amount>20 or amount:10..50',
+  date: 'Date, e.g. date:2026-01..2026-03',
+  currency: 'Currency code',
+};
+
+const TYPES: TransactionType[] = ['income', 'expense', 'transfer'];
+const METHODS: PaymentMethod[] = ['card', 'cash', 'bank_transfer', 'direct_debit', 'online', 'standing_order', 'wallet', 'other'];
+const STATUSES = ['completed', 'scheduled', 'partial'];
+
+export interface SearchTerm {
+  /** Absent for bare words. */
+  field?: SearchField;
+  op: SearchOp;
+  value: string;
+  negate: boolean;
+  /** Position of the term in the query, for highlighting. */
+  start: number;
+  end: number;
+}
+
+export interface ParsedQuery {
+  terms: SearchTerm[];
+  /** Terms that couldn't be understood; they are left out of matching. */
+  errors: string[];
+}
+
+interface Token {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/** Split on whitespace outside double quotes. An unclosed quote runs to the end. */
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    if (/\s/.test(input[i])) { i++; continue; }
+    const start = i;
+    let quoted = false;
+    while (i < input.length && (quoted || !/\s/.test(input[i]))) {
+      if (input[i] === '"') quoted = !quoted;
+      i++;
+    }
+    tokens.push({ text: input.slice(start, i), start, end: i });
+  }
+  return tokens;
+}
+
+function unquote(value: string): string {
+  return value.replace(/"/g, '');
+}
+
+const TERM = /^([a-z]+)(>=|<=|:|=|>|<)(.*)$/i;
+
+// ── Value parsing ──────────────────────────────────────────────────────────
+
+/** A day, month or year as a half-open range of ISO days. */
+interface Period {
+  from: string;
+  to: string;
+}
+
+function parsePeriod(value: string): Period | null {
+  const m = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/.exec(value);
+  if (!m) return null;
+  const [, y, mo, d] = m;
+  const start = new Date(Number(y), mo ? Number(mo) - 1 : 0, d ? Number(d) : 1);
+  // Rejects out-of-range parts, which Date would roll over (2026-13 → 2027-01)
+  if (format(start, d ? 'yyyy-MM-dd' : mo ? 'yyyy-MM' : 'yyyy') !== value) return null;
+  const end = d ? addDays(start, 1) : mo ? addMonths(start, 1) : addYears(start, 1);
+  return { from: format(start, 'yyyy-MM-dd'), to: format(end, 'yyyy-MM-dd') };
+}
+
+function parseDateValue(value: string): Period | null {
+  const [a, b] = value.split('..');
+  if (b === undefined) return parsePeriod(a);
+  const from = a ? parsePeriod(a) : { from: '0000-01-01', to: '' };
+  const to = b ? parsePeriod(b) : { from: '', to: '9999-12-31' };
+  return from && to ? { from: from.from, to: to.to } : null;
+}
+
+function parseNumber(value: string): number | null {
+  if (value === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function parseAmountValue(value: string): { min: number; max: number } | null {
+  const [a, b] = value.split('..');
+  if (b === undefined) {
+    const n = parseNumber(a);
+    return n === null ? null : { min: n, max: n };
+  }
+  const min = a === '' ? -Infinity : parseNumber(a);
+  const max = b === '' ? Infinity : parseNumber(b);
+  return min === null || max === null ? null : { min, max };
+}
+
+/** Why `term` can't be matched, or null if it's fine. */
+function validate(term: SearchTerm): string | null {
+  const { field, op, value } = term;
+  if (!field) return null;
+  if (value === '') return `"${field}${op}" needs a value`;
+  const ordered = op !== ':' && op !== '=';
+  if (ordered && field !== 'amount' && field !== 'date') return `"${field}" can't be compared with ${op}`;
+  if (field === 'amount' && !parseAmountValue(value)) return `"${value}" isn't an amount`;
+  if (field === 'date' && !parseDateValue(value)) return `"${value}" isn't a date (use YYYY, YYYY-MM or YYYY-MM-DD)`;
+  if (field === 'type' && !TYPES.some((t) => t.startsWith(value.toLowerCase()))) return `Unknown type "${value}"`;
+  if (field === 'status' && !STATUSES.some((s) => s.startsWith(value.toLowerCase()))) return `Unknown status "${value}"`;
+  return null;
+}
+
+export function parseQuery(input: string): ParsedQuery {
+  const terms: SearchTerm[] = [];
+  const errors: string[] = [];
+  for (const token of tokenize(input)) {
+    const negate = token.text.length > 1 && token.text.startsWith('-');
+    const text = negate ? token.text.slice(1) : token.text;
+    const m = TERM.exec(text);
+    let term: SearchTerm;
+    if (m && m[1].toLowerCase() in SEARCH_FIELDS) {
+      term = { field: m[1].toLowerCase() as SearchField, op: m[2] as SearchOp, value: unquote(m[3]), negate, start: token.start, end: token.end };
+    } else if (m) {
+      errors.push(`Unknown field "${m[1]}"`);
+      continue;
+    } else {
+      term = { op: ':', value: unquote(text), negate, start: token.start, end: token.end };
+      if (term.value === '') continue;
+    }
+    const error = validate(term);
+    if (error) errors.push(error);
+    else terms.push(term);
+  }
+  return { terms, errors };
+}
+
+// ── Matching ───────────────────────────────────────────────────────────────
+
+export interface SearchContext {
+  /** Account name for an id, for `account:` terms. */
+  accountName: (id: string) => string | undefined;
+}
+
+function textMatches(candidates: (string | undefined)[], op: SearchOp, value: string): boolean {
+  const v = value.toLowerCase();
+  return candidates.some((c) => {
+    if (!c) return false;
+    const s = c.toLowerCase();
+    return op === '=' ? s === v : s.includes(v);
+  });
+}
+
+function compare<T>(actual: T, op: SearchOp, low: T, high: T, endExclusive = false): boolean {
+  switch (op) {
+    case '>': return endExclusive ? actual >= high : actual > high;
+    case '>=': return actual >= low;
+    case '<': return actual < low;
+    case '<=': return endExclusive ? actual < high : actual <= high;
+    default: return actual >= low && (endExclusive ? actual < high : actual <= high);
+  }
+}
+
+function termMatches(t: Transaction, term: SearchTerm, ctx: SearchContext): boolean {
+  const lines = splitLines(t);
+  const { op, value } = term;
+  switch (term.field) {
+    case undefined:
+      return textMatches([
+        t.merchant, t.notes, t.paymentMethod,
+        ...lines.flatMap((line) => [line.category, line.notes, ...line.tags]),
+        ...t.tags,
+        String(toMajor(t.amountMinorUnits, t.currency)),
+      ], op, value);
+    case 'merchant':
+      return textMatches([t.merchant], op, value);
+    case 'category':
+      return textMatches(lines.map((line) => line.category), op, value);
+    case 'tag':
+      return textMatches([...t.tags, ...lines.flatMap((line) => line.tags)], op, value);
+    case 'notes':
+      return textMatches([t.notes, ...lines.map((line) => line.notes)], op, value);
+    case 'account':
+      return textMatches([ctx.accountName(t.accountId), t.toAccountId && ctx.accountName(t.toAccountId)], op, value);
+    case 'type':
+      return t.type.startsWith(value.toLowerCase());
+    case 'method':
+      return textMatches([t.paymentMethod, t.paymentMethod?.replace(/_/g, ' ')], op, value);
+    case 'currency':
+      return textMatches([t.currency, t.toCurrency], op, value);
+    case 'status': {
+      const v = value.toLowerCase();
+      if ('partial'.startsWith(v)) return t.status === 'partially_received';
+      return 'scheduled'.startsWith(v) ? isScheduled(t) : !isScheduled(t);
+    }
+    case 'amount': {
+      const { min, max } = parseAmountValue(value)!;
+      return compare(toMajor(t.amountMinorUnits, t.currency), op, min, max);
+    }
+    case 'date': {
+      const { from, to } = parseDateValue(value)!;
+      return compare(t.date.slice(0, 10), op, from, to, true);
+    }
+  }
+}
+
+export function matchesQuery(t: Transaction, query: ParsedQuery, ctx: SearchContext): boolean {
+  return query.terms.every((term) => termMatches(t, term, ctx) !== term.negate);
+}
+
+/** Text to highlight in results: what the query looks for in names and notes. */
+export function highlightTerms(query: ParsedQuery): string[] {
+  return query.terms
+    .filter((term) => !term.negate && (!term.field || term.field === 'merchant' || term.field === 'notes' || term.field === 'category' || term.field === 'tag'))
+    .map((term) => term.value)
+    .filter(Boolean);
+}
+
+/**
+ * `input` with its `tag:` and `tag=` terms for `from` naming `to` instead,
+ * for when the tag is renamed. Partial values like `tag:wor` are left alone.
+ */
+export function renameTagTerms(input: string, from: string, to: string): string {
+  let out = input;
+  for (const term of parseQuery(input).terms.reverse()) {
+    if (term.field !== 'tag' || term.value.toLowerCase() !== from.toLowerCase()) continue;
+    out = `${out.slice(0, term.start)}${term.negate ? '-' : ''}tag${term.op}${quoteIfNeeded(to)}${out.slice(term.end)}`;
+  }
+  return out;
+}
+
+// ── Autocomplete ───────────────────────────────────────────────────────────
+
+/** Values offered after `field:`, drawn from the user's data. */
+export interface SuggestionSource {
+  merchants: string[];
+  categories: string[];
+  tags: string[];
+  accounts: string[];
+  currencies: string[];
+}
+
+function distinct(values: (string | undefined)[]): string[] {
+  return [...new Set(values.filter((v): v is string => !!v))].sort((a, b) => a.localeCompare(b));
+}
+
+export function suggestionSource(txns: Transaction[], accounts: Account[]): SuggestionSource {
+  return {
+    merchants: distinct(txns.map((t) => t.merchant)),
+    categories: distinct(txns.flatMap((t) => splitLines(t).map((line) => line.category))),
+    tags: distinct(txns.flatMap((t) => [...t.tags, ...(t.splits ?? []).flatMap((line) => line.tags)])),
+    accounts: distinct(accounts.filter((a) => !a.deletedAt).map((a) => a.name)),
+    currencies: distinct(txns.flatMap((t) => [t.currency, t.toCurrency])),
+  };
+}
+
+export interface Suggestion {
+  label: string;
+  hint?: string;
+  /** The query with the term under the caret completed. */
+  query: string;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+function quoteIfNeeded(value: string): string {
+  return /\s/.test(value) ? `"${value}"` : value;
+}
+
+function exampleDates(): string[] {
+  const now = new Date();
+  return [
+    format(now, 'yyyy-MM'),
+    format(subMonths(now, 1), 'yyyy-MM'),
+    `${format(subMonths(now, 2), 'yyyy-MM')}..${format(now, 'yyyy-MM')}`,
+    format(now, 'yyyy'),
+  ];
+}
+
+/** Completions for the last term of `input` (where the caret sits while typing). */
+export function suggest(input: string, source: SuggestionSource): Suggestion[] {
+  const tokens = tokenize(input);
+  const last = tokens[tokens.length - 1];
+  // Nothing typed yet: offer field names; after a finished term, wait for the next
+  if (!last || last.end < input.length) {
+    if (input.trim()) return [];
+    return (Object.keys(SEARCH_FIELDS) as SearchField[]).slice(0, MAX_SUGGESTIONS).map((field) => ({
+      label: `${field}:`, hint: SEARCH_FIELDS[field], query: `${field}:`,
+    }));
+  }
+
+  const before = input.slice(0, last.start);
+  const negate = last.text.startsWith('-') ? '-' : '';
+  const text = last.text.slice(negate.length);
+  const m = TERM.exec(text);
+
+  if (!m) {
+    const prefix = text.toLowerCase();
+    return (Object.keys(SEARCH_FIELDS) as SearchField[])
+      .filter((field) => field.startsWith(prefix) && field !== prefix)
+      .map((field) => ({ label: `${negate}${field}:`, hint: SEARCH_FIELDS[field], query: `${before}${negate}${field}:` }));
+  }
+
+  const field = m[1].toLowerCase() as SearchField;
+  if (!(field in SEARCH_FIELDS)) return [];
+  const op = m[2];
+  const partial = unquote(m[3]).toLowerCase();
+  const values: Record<SearchField, string[]> = {
+    merchant: source.merchants,
+    category: source.categories,
+    tag: source.tags,
+    account: source.accounts,
+    type: TYPES,
+    method: METHODS,
+    status: STATUSES,
+    currency: source.currencies,
+    notes: [],
+    amount: ['20', '10..50', '100..'],
+    date: exampleDates(),
+  };
+  return values[field]
+    .filter((v) => v.toLowerCase().includes(partial) && v.toLowerCase() !== partial)
+    .slice(0, MAX_SUGGESTIONS)
+    .map((v) => ({ label: `${negate}${field}${op}${v}`, query: `${before}${negate}${field}${op}${quoteIfNeeded(v)} ` }));
+}
@@ -0,0 +1,52 @@
+import type { BatchOp, StorageAdapter } from './types';
+
+/** Channel other tabs listen on for writes made in this one (see core/live.ts). */
+export const CHANGE_CHANNEL = 'privyledger-changes';
+
+/**
+ * Wrap an adapter so every successful write is also posted to other tabs of
+ * this origin as a list of BatchOps. Reads pass straight through.
+ */
+export function withBroadcast(inner: StorageAdapter): StorageAdapter {
+  const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANGE_CHANNEL) : null;
+
+  function announce(ops: BatchOp[]): void {
+    if (ops.length > 0) channel?.postMessage(ops);
+  }
+
+  return {
+    backend: inner.backend,
+    select: (table, query) => inner.select(table, query),
+    count: (table, query) => inner.count(table, query),
+
+    async insert(table, rows) {
+      await inner.insert(table, rows);
+      announce([{ kind: 'insert', table, rows }]);
+    },
+
+    async upsert(table, rows) {
+      await inner.upsert(table, rows);
+      announce([{ kind: 'upsert', table, rows }]);
+    },
+
+    async update(table, id, changes, userId, ifVersion) {
+      await inner.update(table, id, changes, userId, ifVersion);
+      announce([{ kind: 'update', table, id, changes, userId }]);
+    },
+
+    async purge(table, ids, userId) {
+      await inner.purge(table, ids, userId);
+      announce([{ kind: 'purge', table, ids, userId }]);
+    },
+
+    async clear(table) {
+      await inner.clear(table);
+      announce([{ kind: 'clear', table }]);
+    },
+
+    async batch(ops) {
+      await inner.batch(ops);
+      announce(ops);
+    },
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * Picks the persistence backend once at startup from VITE_STORAGE_BACKEND.
+ *   local-first (default) – IndexedDB with background sync to Supabase
+ *   supabase              – direct Supabase access, no local copy
+ *   indexeddb             – this browser only, nothing leaves the device
+ *   memory                – volatile, for tests and demos
+ */
+import { supabaseAdapter } from './supabaseAdapter';
+import { indexedDbAdapter } from './indexedDbAdapter';
+import { syncedAdapter } from './syncedAdapter';
+import { createMemoryAdapter } from './memoryAdapter';
+import { withBroadcast } from './broadcastAdapter';
+import { withVault } from './vaultAdapter';
+import type { StorageAdapter, StorageBackend } from './types';
+
+export type { BatchOp, DbRow, FilterOp, ModifierCall, RowFilter, RowOrder, RowQuery, StorageAdapter, StorageBackend } from './types';
+export { createMemoryAdapter } from './memoryAdapter';
+export { VersionConflictError } from './types';
+export { CHANGE_CHANNEL } from './broadcastAdapter';
+
+const BACKENDS: StorageBackend[] = ['local-first', 'supabase', 'indexeddb', 'memory'];
+
+function resolveBackend(): StorageBackend {
+  const requested = import.meta.env.VITE_STORAGE_BACKEND as string | undefined;
+  if (!requested) return 'local-first';
+  if ((BACKENDS as string[]).includes(requested)) return requested as StorageBackend;
+  console.error(`[Storage] Unknown VITE_STORAGE_BACKEND "${requested}", falling back to local-first.`);
+  return 'local-first';
+}
+
+function baseAdapter(backend: StorageBackend): StorageAdapter {
+  // Persistent backends share data between tabs, so writes are announced to them
+  switch (backend) {
+    case 'supabase':  return withBroadcast(supabaseAdapter);
+    case 'indexeddb': return withBroadcast(indexedDbAdapter);
+    case 'memory':    return createMemoryAdapter();
+    default:          return withBroadcast(syncedAdapter);
+  }
+}
+
+export function createStorageAdapter(backend: StorageBackend): StorageAdapter {
+  // Outermost, so nothing below (backends, other tabs, the outbox) sees vault columns unsealed
+  return withVault(baseAdapter(backend));
+}
+
+let current: StorageAdapter = createStorageAdapter(resolveBackend());
+
+/** The adapter every db.ts table delegates to. */
+export function getStorage(): StorageAdapter {
+  return current;
+}
+
+/** Swap the backend, e.g. to a seeded memory adapter in tests or demos. */
+export function setStorage(adapter: StorageAdapter): void {
+  current = adapter;
+}
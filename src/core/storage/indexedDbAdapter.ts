@@ -0,0 +1,68 @@
+import { localDb } from '../localDb';
+import { applyQuery, matchesQuery } from './query';
+import { applyOps, batchTables, isStale, VersionConflictError, type RowQuery, type StorageAdapter } from './types';
+
+/** Narrow by the user_id index first, then evaluate the rest in memory. */
+function candidates(table: string, query: RowQuery) {
+  const t = localDb.rows(table);
+  return query.userId !== undefined
+    ? t.where('user_id').equals(query.userId).toArray()
+    : t.toArray();
+}
+
+/** Browser-only backend backed by the Dexie database in localDb.ts. */
+export const indexedDbAdapter: StorageAdapter = {
+  backend: 'indexeddb',
+
+  async select(table, query = {}) {
+    return applyQuery(await candidates(table, query), query);
+  },
+
+  async count(table, query = {}) {
+    return (await candidates(table, query)).filter((r) => matchesQuery(r, query)).length;
+  },
+
+  async insert(table, rows) {
+    if (rows.length === 0) return;
+    try {
+      await localDb.rows(table).bulkAdd(rows);
+    } catch (err) {
+      throw new Error(`[DB] ${table}.insert: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  },
+
+  async upsert(table, rows) {
+    if (rows.length === 0) return;
+    await localDb.rows(table).bulkPut(rows);
+  },
+
+  async update(table, id, changes, userId, ifVersion) {
+    const t = localDb.rows(table);
+    await localDb.transaction('rw', t, async () => {
+      const existing = await t.get(id);
+      if (!existing || (userId !== undefined && existing['user_id'] !== userId)) return;
+      if (isStale(existing, ifVersion)) throw new VersionConflictError(table, id, existing);
+      await t.put({ ...existing, ...changes });
+    });
+  },
+
+  async purge(table, ids, userId) {
+    const t = localDb.rows(table);
+    await localDb.transaction('rw', t, async () => {
+      const existing = await t.bulkGet(ids);
+      const owned = existing.filter((r) => r && (userId === undefined || r['user_id'] === userId));
+      await t.bulkDelete(owned.map((r) => r!['id'] as string));
+    });
+  },
+
+  async clear(table) {
+    await localDb.rows(table).clear();
+  },
+
+  async batch(ops) {
+    if (ops.length === 0) return;
+    // A Dexie transaction aborts (and rolls back) if any op inside it throws
+    const scope = batchTables(ops).map((t) => localDb.rows(t));
+    await localDb.transaction('rw', scope, () => applyOps(indexedDbAdapter, ops));
+  },
+};
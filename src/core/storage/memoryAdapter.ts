@@ -0,0 +1,80 @@
+import { applyQuery, matchesQuery } from './query';
+import { applyOps, batchTables, isStale, VersionConflictError, type DbRow, type StorageAdapter } from './types';
+
+/**
+ * Volatile in-process backend for tests, demos and offline development.
+ * Rows are cloned on the way in and out so callers can't mutate stored state.
+ */
+export function createMemoryAdapter(seed: Record<string, DbRow[]> = {}): StorageAdapter {
+  const tables = new Map<string, Map<string, DbRow>>();
+
+  function rows(table: string): Map<string, DbRow> {
+    let t = tables.get(table);
+    if (!t) {
+      t = new Map();
+      tables.set(table, t);
+    }
+    return t;
+  }
+
+  for (const [table, seeded] of Object.entries(seed)) {
+    for (const row of seeded) rows(table).set(row['id'] as string, structuredClone(row));
+  }
+
+  const adapter: StorageAdapter = {
+    backend: 'memory',
+
+    async select(table, query) {
+      return applyQuery([...rows(table).values()], query).map((r) => structuredClone(r));
+    },
+
+    async count(table, query) {
+      return [...rows(table).values()].filter((r) => matchesQuery(r, query)).length;
+    },
+
+    async insert(table, newRows) {
+      const t = rows(table);
+      const clash = newRows.find((r) => t.has(r['id'] as string));
+      if (clash) throw new Error(`[DB] ${table}.insert: duplicate id ${String(clash['id'])}`);
+      for (const r of newRows) t.set(r['id'] as string, structuredClone(r));
+    },
+
+    async upsert(table, newRows) {
+      const t = rows(table);
+      for (const r of newRows) t.set(r['id'] as string, structuredClone(r));
+    },
+
+    async update(table, id, changes, userId, ifVersion) {
+      const t = rows(table);
+      const existing = t.get(id);
+      if (!existing || (userId !== undefined && existing['user_id'] !== userId)) return;
+      if (isStale(existing, ifVersion)) throw new VersionConflictError(table, id, structuredClone(existing));
+      t.set(id, { ...existing, ...structuredClone(changes) });
+    },
+
+    async purge(table, ids, userId) {
+      const t = rows(table);
+      for (const id of ids) {
+        const existing = t.get(id);
+        if (existing && (userId === undefined || existing['user_id'] === userId)) t.delete(id);
+      }
+    },
+
+    async clear(table) {
+      rows(table).clear();
+    },
+
+    async batch(ops) {
+      // Snapshot the touched tables and roll back to them if any op fails
+      const snapshot = new Map(batchTables(ops).map((t) => [t, new Map(rows(t))]));
+      try {
+        await applyOps(adapter, ops);
+      } catch (err) {
+        for (const [t, saved] of snapshot) tables.set(t, saved);
+        throw err;
+      }
+    },
+  };
+
+  return adapter;
+}
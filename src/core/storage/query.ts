@@ -0,0 +1,77 @@
+/**
+ * In-process evaluation of a RowQuery, for backends without a query engine.
+ * Semantics follow PostgREST so results match the Supabase adapter.
+ */
+import type { DbRow, RowFilter, RowQuery } from './types';
+
+function compare(a: unknown, b: unknown): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  const as = String(a);
+  const bs = String(b);
+  return as < bs ? -1 : as > bs ? 1 : 0;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** SQL ILIKE: `%` any run, `_` one char, `\` escapes the next char. */
+function likeToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === '\\' && i + 1 < pattern.length) source += escapeRegExp(pattern[++i]);
+    else if (ch === '%') source += '.*';
+    else if (ch === '_') source += '.';
+    else source += escapeRegExp(ch);
+  }
+  return new RegExp(`^${source}$`, 'is');
+}
+
+function matchesFilter(row: DbRow, { column, op, value }: RowFilter): boolean {
+  const actual = row[column];
+  if (op === 'eq' && value === null) return actual == null;
+  if (op === 'neq' && value === null) return actual != null;
+  // SQL comparisons against NULL are never true
+  if (actual == null) return false;
+  switch (op) {
+    case 'eq':    return actual === value;
+    case 'neq':   return actual !== value;
+    case 'gt':    return compare(actual, value) > 0;
+    case 'gte':   return compare(actual, value) >= 0;
+    case 'lt':    return compare(actual, value) < 0;
+    case 'lte':   return compare(actual, value) <= 0;
+    case 'in':    return (value as unknown[]).includes(actual);
+    case 'ilike': return likeToRegExp(String(value)).test(String(actual));
+  }
+}
+
+export function matchesQuery(row: DbRow, query: RowQuery = {}): boolean {
+  if (query.userId !== undefined && row['user_id'] !== query.userId) return false;
+  if (query.liveOnly && row['deleted_at'] != null) return false;
+  return (query.filters ?? []).every((f) => matchesFilter(row, f));
+}
+
+/** Filter, order and slice `rows` as the query describes. */
+export function applyQuery(rows: DbRow[], query: RowQuery = {}): DbRow[] {
+  let result = rows.filter((r) => matchesQuery(r, query));
+
+  if (query.order?.length) {
+    const order = query.order;
+    result = result.slice().sort((a, b) => {
+      for (const { column, ascending } of order) {
+        const av = a[column];
+        const bv = b[column];
+        if (av == null && bv == null) continue;
+        if (av == null) return ascending ? 1 : -1;
+        if (bv == null) return ascending ? -1 : 1;
+        const cmp = compare(av, bv);
+        if (cmp !== 0) return ascending ? cmp : -cmp;
+      }
+      return 0;
+    });
+  }
+
+  if (query.range) result = result.slice(query.range.from, query.range.to + 1);
+  return result;
+}
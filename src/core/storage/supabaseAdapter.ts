@@ -0,0 +1,125 @@
+import { supabase } from '../supabase';
+import { batchTables, VersionConflictError, type DbRow, type RowFilter, type RowQuery, type StorageAdapter } from './types';
+
+// Both select and count queries share this builder type
+type SelectBuilder = ReturnType<ReturnType<typeof supabase.from>['select']>;
+
+function applyFilter(q: SelectBuilder, { column, op, value }: RowFilter): SelectBuilder {
+  if (value === null && op === 'eq') return q.is(column, null);
+  if (value === null && op === 'neq') return q.not(column, 'is', null);
+  switch (op) {
+    case 'eq':    return q.eq(column, value);
+    case 'neq':   return q.neq(column, value);
+    case 'gt':    return q.gt(column, value);
+    case 'gte':   return q.gte(column, value);
+    case 'lt':    return q.lt(column, value);
+    case 'lte':   return q.lte(column, value);
+    case 'in':    return q.in(column, value as unknown[]);
+    case 'ilike': return q.ilike(column, String(value));
+  }
+}
+
+/** Build the conflict error for a versioned write that matched nothing, or null if the row is gone. */
+async function conflictFor(table: string, id: string, userId?: string): Promise<VersionConflictError | null> {
+  let q = supabase.from(table).select('*').eq('id', id);
+  if (userId !== undefined) q = q.eq('user_id', userId);
+  const { data } = await q.maybeSingle();
+  return data ? new VersionConflictError(table, id, data as DbRow) : null;
+}
+
+// Raised by apply_write_batch when a versioned update is stale
+const BATCH_CONFLICT = /version_conflict (\w+)\/(\S+)/;
+
+function applyWhere(q: SelectBuilder, query: RowQuery): SelectBuilder {
+  if (query.userId !== undefined) q = q.eq('user_id', query.userId);
+  if (query.liveOnly) q = q.is('deleted_at', null);
+  for (const f of query.filters ?? []) q = applyFilter(q, f);
+  return q;
+}
+
+/** Talks to Supabase directly. Every call needs the network. */
+export const supabaseAdapter: StorageAdapter = {
+  backend: 'supabase',
+
+  async select(table, query: RowQuery = {}) {
+    let q = applyWhere(supabase.from(table).select('*'), query);
+    for (const { column, ascending } of query.order ?? []) q = q.order(column, { ascending });
+    if (query.range) q = q.range(query.range.from, query.range.to);
+    const { data, error } = await q;
+    if (error) throw new Error(`[DB] ${table}.select: ${error.message}`);
+    return (data ?? []) as DbRow[];
+  },
+
+  async count(table, query: RowQuery = {}) {
+    const q = applyWhere(supabase.from(table).select('*', { count: 'exact', head: true }), query);
+    const { count, error } = await q;
+    if (error) throw new Error(`[DB] ${table}.count: ${error.message}`);
+    return count ?? 0;
+  },
+
+  async insert(table, rows) {
+    if (rows.length === 0) return;
+    const { error } = await supabase.from(table).insert(rows);
+    if (error) throw new Error(`[DB] ${table}.insert: ${error.message}`);
+  },
+
+  async upsert(table, rows) {
+    if (rows.length === 0) return;
+    const { error } = await supabase.from(table).upsert(rows, { onConflict: 'id' });
+    if (error) throw new Error(`[DB] ${table}.upsert: ${error.message}`);
+  },
+
+  async update(table, id, changes, userId, ifVersion) {
+    let q = supabase.from(table).update(changes).eq('id', id);
+    if (userId !== undefined) q = q.eq('user_id', userId);
+    if (ifVersion !== undefined) q = q.eq('updated_at', ifVersion);
+    const { data, error } = await q.select('id');
+    if (error) throw new Error(`[DB] ${table}.update: ${error.message}`);
+    if (ifVersion !== undefined && (data ?? []).length === 0) {
+      const conflict = await conflictFor(table, id, userId);
+      if (conflict) throw conflict;
+    }
+  },
+
+  async purge(table, ids, userId) {
+    if (ids.length === 0) return;
+    let q = supabase.from(table).delete().in('id', ids);
+    if (userId !== undefined) q = q.eq('user_id', userId);
+    const { error } = await q;
+    if (error) throw new Error(`[DB] ${table}.purge: ${error.message}`);
+  },
+
+  async clear(table) {
+    const { error } = await supabase.from(table).delete().neq('id', '');
+    if (error) throw new Error(`[DB] ${table}.clear: ${error.message}`);
+  },
+
+  // PostgREST has no client-side transactions, so the whole batch is sent to
+  // the apply_write_batch function (migration 0004), which runs it in one
+  // database transaction.
+  async batch(ops) {
+    if (ops.length === 0) return;
+    const payload = ops.map((op) => {
+      switch (op.kind) {
+        case 'update':
+          return {
+            kind: op.kind, table: op.table, id: op.id, changes: op.changes,
+            user_id: op.userId ?? null, if_version: op.ifVersion ?? null,
+          };
+        case 'purge':
+          return { kind: op.kind, table: op.table, ids: op.ids, user_id: op.userId ?? null };
+        default:
+          return op;
+      }
+    });
+    const { error } = await supabase.rpc('apply_write_batch', { p_ops: payload });
+    if (!error) return;
+    const stale = BATCH_CONFLICT.exec(error.message);
+    if (stale) {
+      const op = ops.find((o) => o.kind === 'update' && o.table === stale[1] && o.id === stale[2]);
+      const conflict = await conflictFor(stale[1], stale[2], op?.kind === 'update' ? op.userId : undefined);
+      if (conflict) throw conflict;
+    }
+    throw new Error(`[DB] batch(${batchTables(ops).join(', ')}): ${error.message}`);
+  },
+};
@@ -0,0 +1,59 @@
+import { enqueue, pullRows } from '../sync';
+import { indexedDbAdapter } from './indexedDbAdapter';
+import { batchTables, type StorageAdapter } from './types';
+
+/**
+ * Local-first backend: reads come from IndexedDB after a best-effort refresh
+ * of just the queried rows from Supabase, and writes are applied locally then
+ * queued in the sync outbox.
+ */
+export const syncedAdapter: StorageAdapter = {
+  backend: 'local-first',
+
+  async select(table, query = {}) {
+    await pullRows(table, query);
+    return indexedDbAdapter.select(table, query);
+  },
+
+  async count(table, query = {}) {
+    await pullRows(table, { ...query, range: undefined, order: undefined });
+    return indexedDbAdapter.count(table, query);
+  },
+
+  async insert(table, rows) {
+    if (rows.length === 0) return;
+    await indexedDbAdapter.insert(table, rows);
+    // Replayed as an upsert so a retry after a lost response is harmless
+    await enqueue({ table, op: 'put', rows });
+  },
+
+  async upsert(table, rows) {
+    if (rows.length === 0) return;
+    await indexedDbAdapter.upsert(table, rows);
+    await enqueue({ table, op: 'put', rows });
+  },
+
+  async update(table, id, changes, userId, ifVersion) {
+    await indexedDbAdapter.update(table, id, changes, userId, ifVersion);
+    // The version goes along so Supabase also rejects it if another device got there first
+    await enqueue({ table, op: 'update', rowId: id, changes, userId, ifVersion });
+  },
+
+  async purge(table, ids, userId) {
+    if (ids.length === 0) return;
+    await indexedDbAdapter.purge(table, ids, userId);
+    await enqueue({ table, op: 'batch', ops: [{ kind: 'purge', table, ids, userId }] });
+  },
+
+  async clear(table) {
+    await indexedDbAdapter.clear(table);
+    await enqueue({ table, op: 'clear' });
+  },
+
+  async batch(ops) {
+    if (ops.length === 0) return;
+    await indexedDbAdapter.batch(ops);
+    // Queued as one entry so it also reaches Supabase as a single transaction
+    await enqueue({ table: batchTables(ops).join(','), op: 'batch', ops });
+  },
+};
@@ -0,0 +1,115 @@
+/**
+ * Storage adapter contract shared by every persistence backend.
+ * Adapters work on raw snake_case rows; the camelCase conversion happens once
+ * in db.ts so all backends see exactly the same shapes.
+ */
+export type DbRow = Record<string, unknown>;
+
+export type StorageBackend = 'local-first' | 'supabase' | 'indexeddb' | 'memory';
+
+export type FilterOp = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'ilike';
+
+export interface RowFilter {
+  column: string;
+  op: FilterOp;
+  /** An array for `in`; a `%`-wildcard pattern for `ilike`. */
+  value: unknown;
+}
+
+export interface RowOrder {
+  column: string;
+  ascending: boolean;
+}
+
+export interface RowQuery {
+  /** Only rows owned by this user. */
+  userId?: string;
+  /** Exclude soft-deleted rows (`deleted_at` set). */
+  liveOnly?: boolean;
+  /** All filters must match (AND). */
+  filters?: RowFilter[];
+  /** Applied in order; nulls sort last ascending and first descending, as in Postgres. */
+  order?: RowOrder[];
+  /** Inclusive row offsets after ordering, as in PostgREST `range`. Ignored by count. */
+  range?: { from: number; to: number };
+}
+
+/**
+ * The `WriteBatch.modify` step that computed an update's changes, by name
+ * and with its arguments, so sync can run it again on a newer row (see
+ * core/modifiers.ts). Ignored by the backends themselves.
+ */
+export interface ModifierCall {
+  name: string;
+  /** Plain data; sealed as a whole while the private vault is on. */
+  args: unknown;
+}
+
+/** One write inside an atomic batch. */
+export type BatchOp =
+  | { kind: 'insert'; table: string; rows: DbRow[] }
+  | { kind: 'upsert'; table: string; rows: DbRow[] }
+  | { kind: 'update'; table: string; id: string; changes: DbRow; userId?: string; ifVersion?: string; modifier?: ModifierCall }
+  | { kind: 'purge'; table: string; ids: string[]; userId?: string }
+  | { kind: 'clear'; table: string };
+
+export interface StorageAdapter {
+  readonly backend: StorageBackend;
+  select(table: string, query?: RowQuery): Promise<DbRow[]>;
+  count(table: string, query?: RowQuery): Promise<number>;
+  /** Insert new rows. Rejects if any id already exists. */
+  insert(table: string, rows: DbRow[]): Promise<void>;
+  /** Insert or replace rows by id. */
+  upsert(table: string, rows: DbRow[]): Promise<void>;
+  /**
+   * Patch one row. A missing row (or one owned by another user) is a no-op.
+   * With `ifVersion`, the row's `updated_at` must still equal it, otherwise
+   * nothing is written and a VersionConflictError is thrown.
+   */
+  update(table: string, id: string, changes: DbRow, userId?: string, ifVersion?: string): Promise<void>;
+  /** Permanently delete rows by id (only the user's own, if `userId` is given). */
+  purge(table: string, ids: string[], userId?: string): Promise<void>;
+  /** Delete every row in the table. */
+  clear(table: string): Promise<void>;
+  /** Apply all ops in order, atomically: either every op lands or none do. */
+  batch(ops: BatchOp[]): Promise<void>;
+}
+
+/** A versioned update lost the race: the row changed since the caller read it. */
+export class VersionConflictError extends Error {
+  table: string;
+  id: string;
+  /** The row as it is now. */
+  server: DbRow;
+
+  constructor(table: string, id: string, server: DbRow) {
+    super(`[DB] ${table}.update: ${id} was changed elsewhere`);
+    this.name = 'VersionConflictError';
+    this.table = table;
+    this.id = id;
+    this.server = server;
+  }
+}
+
+/** True when `row` no longer carries the version an update was based on. */
+export function isStale(row: DbRow, ifVersion: string | undefined): boolean {
+  return ifVersion !== undefined && row['updated_at'] !== ifVersion;
+}
+
+/** Tables touched by a batch, for backends that must declare a transaction scope. */
+export function batchTables(ops: BatchOp[]): string[] {
+  return [...new Set(ops.map((op) => op.table))];
+}
+
+/** Apply batch ops one by one through an adapter's own methods. */
+export async function applyOps(adapter: StorageAdapter, ops: BatchOp[]): Promise<void> {
+  for (const op of ops) {
+    switch (op.kind) {
+      case 'insert': await adapter.insert(op.table, op.rows); break;
+      case 'upsert': await adapter.upsert(op.table, op.rows); break;
+      case 'update': await adapter.update(op.table, op.id, op.changes, op.userId, op.ifVersion); break;
+      case 'purge':  await adapter.purge(op.table, op.ids, op.userId); break;
+      case 'clear':  await adapter.clear(op.table); break;
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { openRow, sealJson, sealRow, sealedColumns } from '../vault';
+import { applyQuery } from './query';
+import { VersionConflictError, type BatchOp, type DbRow, type RowQuery, type StorageAdapter } from './types';
+
+/**
+ * Wrap an adapter so private-vault columns are sealed on every write and
+ * opened on every read (see core/vault.ts). Filters and ordering on sealed
+ * columns can't run in the backend, which only holds ciphertext for them,
+ * so those queries are finished here on the opened rows.
+ */
+export function withVault(inner: StorageAdapter): StorageAdapter {
+  async function sealOp(op: BatchOp): Promise<BatchOp> {
+    switch (op.kind) {
+      case 'insert':
+      case 'upsert':
+        return { ...op, rows: await Promise.all(op.rows.map((r) => sealRow(op.table, r))) };
+      case 'update':
+        return {
+          ...op,
+          changes: await sealRow(op.table, op.changes),
+          // The arguments of a `modify` step may hold the same private text
+          ...(op.modifier && { modifier: { ...op.modifier, args: await sealJson(op.modifier.args) } }),
+        };
+      default:
+        return op;
+    }
+  }
+
+  // Conflict resolution shows the server row, so it must be readable
+  async function opened<T>(write: Promise<T>): Promise<T> {
+    try {
+      return await write;
+    } catch (err) {
+      if (!(err instanceof VersionConflictError)) throw err;
+      throw new VersionConflictError(err.table, err.id, await openRow(err.table, err.server));
+    }
+  }
+
+  async function select(table: string, query: RowQuery = {}): Promise<DbRow[]> {
+    const sealed = sealedColumns(table);
+    const localFilters = (query.filters ?? []).filter((f) => sealed.includes(f.column));
+    const localOrder = (query.order ?? []).some((o) => sealed.includes(o.column));
+    if (localFilters.length === 0 && !localOrder) {
+      return Promise.all((await inner.select(table, query)).map((r) => openRow(table, r)));
+    }
+    const rows = await inner.select(table, {
+      ...query,
+      filters: query.filters?.filter((f) => !localFilters.includes(f)),
+      range: undefined,
+    });
+    const open = await Promise.all(rows.map((r) => openRow(table, r)));
+    return applyQuery(open, { filters: localFilters, order: query.order, range: query.range });
+  }
+
+  return {
+    backend: inner.backend,
+    select,
+
+    async count(table, query = {}) {
+      const sealed = sealedColumns(table);
+      if (!(query.filters ?? []).some((f) => sealed.includes(f.column))) return inner.count(table, query);
+      return (await select(table, { ...query, order: undefined, range: undefined })).length;
+    },
+
+    async insert(table, rows) {
+      await inner.insert(table, await Promise.all(rows.map((r) => sealRow(table, r))));
+    },
+
+    async upsert(table, rows) {
+      await inner.upsert(table, await Promise.all(rows.map((r) => sealRow(table, r))));
+    },
+
+    async update(table, id, changes, userId, ifVersion) {
+      await opened(inner.update(table, id, await sealRow(table, changes), userId, ifVersion));
+    },
+
+    purge: (table, ids, userId) => inner.purge(table, ids, userId),
+    clear: (table) => inner.clear(table),
+
+    async batch(ops) {
+      await opened(inner.batch(await Promise.all(ops.map(sealOp))));
+    },
+  };
+}
@@ -10,11 +10,37 @@ if (!supabaseUrl || !supabaseAnonKey) {
   );
 }
 
-export const supabase = createClient(supabaseUrl ?? '', supabaseAnonKey ?? '');
+// Row-level security identifies the caller from this header (migration 0007)
+const SESSION_HEADER = 'x-session-token';
+let sessionToken: string | null = null;
+
+/** Set the session token sent with every request; null when signed out. */
+export function setRequestSession(token: string | null): void {
+  sessionToken = token;
+}
+
+export function hasRequestSession(): boolean {
+  return sessionToken !== null;
+}
+
+export function getRequestSession(): string | null {
+  return sessionToken;
+}
+
+export const supabase = createClient(supabaseUrl ?? '', supabaseAnonKey ?? '', {
+  global: {
+    fetch: (input, init) => {
+      if (!sessionToken) return fetch(input, init);
+      const headers = new Headers(init?.headers);
+      headers.set(SESSION_HEADER, sessionToken);
+      return fetch(input, { ...init, headers });
+    },
+  },
+});
 
 // ── camelCase ↔ snake_case converters ─────────────────────────────────────
 
-function camelToSnake(str: string): string {
+export function camelToSnake(str: string): string {
   return str.replace(/[A-Z]/g, (ch) => `_${ch.toLowerCase()}`);
 }
 
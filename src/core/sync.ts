@@ -0,0 +1,449 @@
+/**
+ * Background sync between the local IndexedDB mirror and Supabase.
+ *
+ * Every write lands in IndexedDB first and is queued in the outbox. The outbox
+ * is replayed in order whenever the browser is online; a network failure
+ * leaves the remaining entries in place until connectivity returns. A queued
+ * running-total update another device beat to the row is worked out again on
+ * the server's copy (see modifiers.ts); other stale updates go to the user.
+ *
+ * `UserSettings.cloudEnabled` turns the Supabase side off: writes keep being
+ * queued but nothing is sent or fetched until it is turned back on. With
+ * `encryptedSync` the outbox is uploaded as sealed change-sets instead of
+ * rows (see changesets.ts). That choice is the account's: each device keeps
+ * a copy, checks it against the server before every flush and pull, and
+ * stops syncing while the two differ.
+ */
+import { localDb, type OutboxEntry } from './localDb';
+import { supabaseAdapter } from './storage/supabaseAdapter';
+import { matchesQuery } from './storage/query';
+import { VersionConflictError, type BatchOp, type DbRow, type RowQuery } from './storage/types';
+import { hasRequestSession } from './supabase';
+import { openJson, openRow, sealRow } from './vault';
+import { entryOps, uploadChangeset, pullChangesets } from './changesets';
+import { rerunModifier } from './modifiers';
+import { CHANGE_LOG_TABLE, updateLog } from './audit';
+import { notifyChanges } from './live';
+import { useSyncStore } from '../store/useSyncStore';
+import { useConflictStore } from '../store/useConflictStore';
+import { useUIStore } from '../store/useUIStore';
+import { useAuthStore } from '../auth/useAuthStore';
+import { fetchAccountSettings, saveAccountSettings } from './accountSettings';
+
+/** A rejected entry is retried this many times before it is dropped. */
+const MAX_ATTEMPTS = 5;
+
+class NetworkError extends Error {}
+
+function isOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine;
+}
+
+function isNetworkFailure(message: string): boolean {
+  return !isOnline() || /failed to fetch|networkerror|load failed|network request failed/i.test(message);
+}
+
+export type CloudMode = 'off' | 'rows' | 'encrypted';
+
+/** How this device talks to Supabase, from the user's settings. */
+export function cloudMode(): CloudMode {
+  const { cloudEnabled, encryptedSync } = useUIStore.getState();
+  if (!cloudEnabled) return 'off';
+  return encryptedSync ? 'encrypted' : 'rows';
+}
+
+/**
+ * Why this device must not sync right now, or null if it may. The account's
+ * mode is read from the server each time: a device still on row sync after
+ * another switched the account to encrypted sync would put rows back on the
+ * server in the clear, and one still uploading change-sets after a switch
+ * back would send them where nobody reads them. An account with no mode
+ * recorded yet takes this device's.
+ */
+async function modeMismatch(): Promise<string | null> {
+  const userId = useAuthStore.getState().user?.id;
+  if (!userId) return null;
+  const mine = cloudMode() === 'encrypted' ? 'encrypted' : 'rows';
+  const account = (await fetchAccountSettings(userId))?.syncMode;
+  if (!account) {
+    await saveAccountSettings(userId, { syncMode: mine });
+    return null;
+  }
+  if (account === mine) return null;
+  return account === 'encrypted'
+    ? '[Sync] Your account uses end-to-end encrypted sync; turn it on in Settings to sync this device'
+    : '[Sync] Your account no longer uses end-to-end encrypted sync; turn it off in Settings to sync this device';
+}
+
+let modeCheck: Promise<string | null> | null = null;
+
+/** Check the account's sync mode; false, with the reason in the sync status, if this device must not sync. */
+async function modeAllowsSync(): Promise<boolean> {
+  if (!modeCheck) {
+    modeCheck = modeMismatch().finally(() => {
+      modeCheck = null;
+    });
+  }
+  try {
+    const mismatch = await modeCheck;
+    if (mismatch) useSyncStore.setState({ status: 'error', lastError: mismatch });
+    return !mismatch;
+  } catch (err) {
+    useSyncStore.setState(failureStatus(err));
+    return false;
+  }
+}
+
+function failureStatus(err: unknown) {
+  const message = err instanceof Error ? err.message : String(err);
+  return isNetworkFailure(message)
+    ? { status: 'offline' as const, lastError: message }
+    : { status: 'error' as const, lastError: message };
+}
+
+async function refreshPending(): Promise<number> {
+  const pending = await localDb.outbox.count();
+  useSyncStore.setState({ pending });
+  return pending;
+}
+
+// ── Outbox ───────────────────────────────────────────────────────────────────
+
+export async function enqueue(entry: Omit<OutboxEntry, 'seq' | 'createdAt' | 'attempts'>): Promise<void> {
+  await localDb.outbox.add({ ...entry, createdAt: new Date().toISOString(), attempts: 0 });
+  await refreshPending();
+  void flushOutbox();
+}
+
+/** Row ids in `tableName` that still have unsent local writes. */
+export async function pendingRowIds(tableName: string): Promise<Set<string>> {
+  const entries = await localDb.outbox.toArray();
+  const ids = new Set<string>();
+  for (const e of entries) {
+    if (e.op === 'batch') {
+      for (const op of e.ops ?? []) {
+        if (op.table !== tableName) continue;
+        if (op.kind === 'update') ids.add(op.id);
+        if (op.kind === 'purge') op.ids.forEach((id) => ids.add(id));
+        if (op.kind === 'insert' || op.kind === 'upsert') op.rows.forEach((r) => ids.add(r['id'] as string));
+      }
+      continue;
+    }
+    if (e.table !== tableName) continue;
+    if (e.rowId) ids.add(e.rowId);
+    for (const r of e.rows ?? []) ids.add(r['id'] as string);
+  }
+  return ids;
+}
+
+async function replay(entry: OutboxEntry): Promise<void> {
+  try {
+    switch (entry.op) {
+      case 'put':
+        await supabaseAdapter.upsert(entry.table, entry.rows ?? []);
+        break;
+      case 'update':
+        await supabaseAdapter.update(entry.table, entry.rowId ?? '', entry.changes ?? {}, entry.userId, entry.ifVersion);
+        break;
+      case 'clear':
+        await supabaseAdapter.clear(entry.table);
+        break;
+      case 'batch':
+        await supabaseAdapter.batch(entry.ops ?? []);
+        break;
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw isNetworkFailure(message) ? new NetworkError(message) : err;
+  }
+}
+
+/**
+ * Another device changed the row first and the update isn't a `modify` step
+ * that can simply run again. The rejected changes wait in the conflict store
+ * for the user to decide; the caller drops the entry from the outbox.
+ */
+async function recordConflict(entry: OutboxEntry, err: VersionConflictError): Promise<void> {
+  const op = entry.op === 'batch'
+    ? entry.ops?.find((o) => o.kind === 'update' && o.table === err.table && o.id === err.id)
+    : undefined;
+  const changes = op?.kind === 'update' ? op.changes : entry.changes ?? {};
+  const userId = op?.kind === 'update' ? op.userId : entry.userId;
+  // The outbox holds vault columns sealed; the conflict dialog shows them
+  useConflictStore.getState().report({
+    table: err.table,
+    rowId: err.id,
+    userId,
+    changes: await openRow(err.table, changes),
+    server: await openRow(err.table, err.server),
+  });
+}
+
+/**
+ * The entry's ops with the `modify` step behind a rejected update run again
+ * on the server's row, and its change-log row redone to match. Also returns
+ * the row as that leaves it, sealed as stored. Null if the update can't be
+ * re-run here, which leaves it to the user.
+ */
+async function rebaseEntry(entry: OutboxEntry, err: VersionConflictError): Promise<{ ops: BatchOp[]; row: DbRow } | null> {
+  const ops = entry.ops ?? [];
+  const culprit = ops.find((o) => o.kind === 'update' && o.table === err.table && o.id === err.id);
+  if (culprit?.kind !== 'update' || !culprit.modifier) return null;
+  const server = await openRow(err.table, err.server);
+  const patch = rerunModifier(err.table, culprit.modifier.name, await openJson(culprit.modifier.args), server);
+  if (patch === undefined) return null;
+
+  const changes = patch && (await sealRow(err.table, patch));
+  const log = patch && updateLog(err.table, err.id, server, patch);
+  const next: BatchOp[] = [];
+  for (const op of ops) {
+    if (op === culprit) {
+      // A step with nothing left to do is dropped
+      if (changes) next.push({ ...op, changes, ifVersion: err.server['updated_at'] as string });
+    } else if (op.kind === 'insert' && op.table === CHANGE_LOG_TABLE) {
+      const rows = op.rows.filter((r) => r['table_name'] !== err.table || r['row_id'] !== err.id);
+      if (log) rows.push(await sealRow(CHANGE_LOG_TABLE, log));
+      if (rows.length > 0) next.push({ ...op, rows });
+    } else {
+      next.push(op);
+    }
+  }
+  return { ops: next, row: { ...err.server, ...changes } };
+}
+
+/**
+ * Replay `entry`. A `modify` step that lost a race with another device is
+ * run again on the server's row and the whole entry retried, so the batch
+ * still lands all at once. Returns the rows that differ from what this
+ * device wrote, sealed as stored, to be taken into the local mirror.
+ */
+async function replayRebasing(entry: OutboxEntry): Promise<Map<string, { table: string; row: DbRow }>> {
+  const rebased = new Map<string, { table: string; row: DbRow }>();
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await replay(entry);
+      return rebased;
+    } catch (err) {
+      if (!(err instanceof VersionConflictError) || attempt >= MAX_ATTEMPTS) throw err;
+      const result = await rebaseEntry(entry, err);
+      if (!result) throw err;
+      entry = { ...entry, ops: result.ops };
+      rebased.set(`${err.table}:${err.id}`, { table: err.table, row: result.row });
+    }
+  }
+}
+
+/**
+ * Put the server's copy of the rows `entry` wrote back into the local mirror,
+ * now that the entry has been dropped as a whole.
+ */
+async function revertEntry(entry: OutboxEntry): Promise<void> {
+  const ids = new Map<string, Set<string>>();
+  for (const op of entryOps(entry)) {
+    const touched = op.kind === 'update' ? [op.id]
+      : op.kind === 'purge' ? op.ids
+      : op.kind === 'insert' || op.kind === 'upsert' ? op.rows.map((r) => r['id'] as string)
+      : [];
+    ids.set(op.table, new Set([...(ids.get(op.table) ?? []), ...touched]));
+  }
+  for (const [table, set] of ids) {
+    if (set.size === 0) continue;
+    const remote = await supabaseAdapter.select(table, { filters: [{ column: 'id', op: 'in', value: [...set] }] });
+    for (const id of set) {
+      const row = remote.find((r) => r['id'] === id) ?? null;
+      if (await mirrorRemoteRow(table, row, id)) {
+        notifyChanges(table, [row ? { kind: 'upsert', row, partial: false, replace: true } : { kind: 'delete', id }]);
+      }
+    }
+  }
+}
+
+let flushing: Promise<void> | null = null;
+
+/** Replay queued writes in order. Concurrent callers share the same run. */
+export function flushOutbox(): Promise<void> {
+  if (!flushing) {
+    flushing = runFlush().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+}
+
+// The whole outbox goes up as one change-set; on failure it stays queued as is
+async function flushChangesets(entries: OutboxEntry[]): Promise<void> {
+  const userId = useAuthStore.getState().user?.id;
+  if (!userId) return;
+  useSyncStore.setState({ status: 'syncing' });
+  try {
+    await uploadChangeset(userId, entries.flatMap(entryOps));
+  } catch (err) {
+    useSyncStore.setState(failureStatus(err));
+    return;
+  }
+  await localDb.outbox.bulkDelete(entries.map((e) => e.seq!));
+  await refreshPending();
+  useSyncStore.setState({ status: 'synced', lastError: null, lastSyncedAt: new Date().toISOString() });
+}
+
+async function runFlush(): Promise<void> {
+  const mode = cloudMode();
+  if (mode === 'off') {
+    useSyncStore.setState({ status: 'local' });
+    return;
+  }
+  if (!isOnline()) {
+    useSyncStore.setState({ status: 'offline' });
+    return;
+  }
+  // Signed out: the server would reject every write, so keep them queued
+  if (!hasRequestSession()) return;
+
+  const entries = await localDb.outbox.orderBy('seq').toArray();
+  if (entries.length === 0) {
+    useSyncStore.setState({ status: 'synced', pending: 0 });
+    return;
+  }
+  if (!(await modeAllowsSync())) return;
+  if (mode === 'encrypted') return flushChangesets(entries);
+
+  useSyncStore.setState({ status: 'syncing' });
+
+  for (const entry of entries) {
+    try {
+      const rebased = await replayRebasing(entry);
+      await localDb.outbox.delete(entry.seq!);
+      for (const { table, row } of rebased.values()) {
+        if (await mirrorRemoteRow(table, row)) notifyChanges(table, [{ kind: 'upsert', row, partial: false }]);
+      }
+    } catch (err) {
+      if (err instanceof VersionConflictError) {
+        // A batch lands whole or not at all, as it would have online; only
+        // the stale update goes to the user, as the rest was written with it
+        await recordConflict(entry, err);
+        await localDb.outbox.delete(entry.seq!);
+        // Otherwise the next full pull catches up
+        await revertEntry(entry).catch((e) => console.warn('[Sync] Could not refresh rows of a rejected write:', e));
+        continue;
+      }
+      const message = err instanceof Error ? err.message : String(err);
+      if (err instanceof NetworkError) {
+        useSyncStore.setState({ status: 'offline', lastError: message });
+      } else if (entry.attempts + 1 >= MAX_ATTEMPTS) {
+        console.error('[Sync] Dropping write after repeated rejection:', message, entry);
+        await localDb.outbox.delete(entry.seq!);
+        useSyncStore.setState({ status: 'error', lastError: message });
+      } else {
+        await localDb.outbox.update(entry.seq!, { attempts: entry.attempts + 1, lastError: message });
+        useSyncStore.setState({ status: 'error', lastError: message });
+      }
+      await refreshPending();
+      return;
+    }
+  }
+
+  await refreshPending();
+  useSyncStore.setState({ status: 'synced', lastError: null, lastSyncedAt: new Date().toISOString() });
+}
+
+// ── Pull ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Refresh the part of the local mirror of `tableName` that `query` covers.
+ * Rows with unsent local writes are left untouched so an offline edit is never
+ * overwritten by the older server copy. A paginated query only upserts the
+ * page it fetched; rows deleted elsewhere drop out on the next unpaged pull.
+ * With encrypted sync the server holds no rows, so this downloads the new
+ * change-sets instead. Returns false when the refresh failed (or cloud sync is
+ * off) and the local copy is all we have.
+ */
+export async function pullRows(tableName: string, query: RowQuery = {}): Promise<boolean> {
+  const mode = cloudMode();
+  if (mode === 'off') {
+    useSyncStore.setState({ status: 'local' });
+    return false;
+  }
+  if (!isOnline()) {
+    useSyncStore.setState({ status: 'offline' });
+    return false;
+  }
+
+  await flushOutbox();
+  if (!(await modeAllowsSync())) return false;
+
+  if (mode === 'encrypted') {
+    const userId = query.userId ?? useAuthStore.getState().user?.id;
+    if (!userId) return false;
+    try {
+      await pullChangesets(userId);
+      return true;
+    } catch (err) {
+      useSyncStore.setState(failureStatus(err));
+      return false;
+    }
+  }
+
+  let remote;
+  try {
+    remote = await supabaseAdapter.select(tableName, query);
+  } catch (err) {
+    useSyncStore.setState(failureStatus(err));
+    return false;
+  }
+
+  const remoteIds = new Set(remote.map((r) => r['id'] as string));
+  const pending = await pendingRowIds(tableName);
+  const local = localDb.rows(tableName);
+
+  await localDb.transaction('rw', local, async () => {
+    if (!query.range) {
+      const covered = query.userId !== undefined
+        ? await local.where('user_id').equals(query.userId).toArray()
+        : await local.toArray();
+      const stale = covered
+        .filter((r) => matchesQuery(r, query))
+        .map((r) => r['id'] as string)
+        .filter((id) => !remoteIds.has(id) && !pending.has(id));
+      await local.bulkDelete(stale);
+    }
+    await local.bulkPut(remote.filter((r) => !pending.has(r['id'] as string)));
+  });
+
+  return true;
+}
+
+/**
+ * Apply a row announced by the realtime feed to the local mirror. Rows with
+ * unsent local writes are skipped, as in `pullRows`. Returns false if skipped.
+ */
+export async function mirrorRemoteRow(tableName: string, row: DbRow | null, deletedId?: string): Promise<boolean> {
+  const id = row ? (row['id'] as string) : deletedId;
+  if (!id) return false;
+  const pending = await pendingRowIds(tableName);
+  if (pending.has(id)) return false;
+  if (row) await localDb.rows(tableName).put(row);
+  else await localDb.rows(tableName).delete(id);
+  return true;
+}
+
+/**
+ * Put the server's copy of a row into the local mirror even though writes to
+ * it are still queued, for a row whose conflict the user is resolving. The
+ * queued writes are still checked against it when they are replayed.
+ */
+export async function adoptRemoteRow(tableName: string, row: DbRow): Promise<void> {
+  await localDb.rows(tableName).put(row);
+}
+
+// ── Lifecycle ────────────────────────────────────────────────────────────────
+
+let started = false;
+
+/** Register connectivity listeners and push anything left from a previous session. */
+export function startSync(): void {
+  if (started) return;
+  started = true;
+  window.addEventListener('online', () => void flushOutbox());
+  window.addEventListener('offline', () => useSyncStore.setState({ status: 'offline' }));
+  void refreshPending().then(() => flushOutbox());
+}
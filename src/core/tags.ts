@@ -0,0 +1,78 @@
+/**
+ * Tags as the user manages them.
+ *
+ * Transactions name their tags directly, on the transaction and on each
+ * split line. The `tags` table only gives a name a colour and description,
+ * so a tag in use may have no row there, and a described tag may be on no
+ * transaction at all.
+ */
+import type { Transaction } from './types';
+import { splitLines } from './types';
+import type { Converter } from './fx';
+
+/** Colours offered for tags. */
+export const TAG_COLORS = [
+  '#38bdf8', '#818cf8', '#f472b6', '#34d399',
+  '#fbbf24', '#f87171', '#a78bfa', '#2dd4bf',
+  '#fb923c', '#4ade80', '#e879f9', '#94a3b8',
+];
+
+/** Every tag on `t`, its split lines' included, once each. */
+export function tagsOf(t: Pick<Transaction, 'tags' | 'splits'>): string[] {
+  return [...new Set([...t.tags, ...(t.splits ?? []).flatMap((line) => line.tags)])];
+}
+
+/** How many transactions use each tag. */
+export function tagUsage(txns: Iterable<Transaction>): Map<string, number> {
+  const usage = new Map<string, number>();
+  for (const t of txns) {
+    for (const tag of tagsOf(t)) usage.set(tag, (usage.get(tag) ?? 0) + 1);
+  }
+  return usage;
+}
+
+function replaceTag(tags: string[], from: string, to: string): string[] {
+  return [...new Set(tags.map((tag) => (tag === from ? to : tag)))];
+}
+
+/** `t`'s tags with `from` renamed to `to`, or null if it doesn't use `from`. */
+export function retag(t: Pick<Transaction, 'tags' | 'splits'>, from: string, to: string): Pick<Transaction, 'tags' | 'splits'> | null {
+  if (!tagsOf(t).includes(from)) return null;
+  const tags = replaceTag(t.tags, from, to);
+  if (!t.splits) return { tags };
+  return { tags, splits: t.splits.map((line) => (line.tags.includes(from) ? { ...line, tags: replaceTag(line.tags, from, to) } : line)) };
+}
+
+export interface TagTotal {
+  income: number;
+  expense: number;
+  count: number;
+}
+
+/**
+ * Base-currency income and expense by tag. Each split line counts under the
+ * transaction's tags and its own, so a transaction with two tags counts in
+ * full under both. Untagged amounts go under ''. Transfers are left out.
+ */
+export function totalsByTag(fx: Converter, txns: Iterable<Transaction>): Map<string, TagTotal> {
+  const totals = new Map<string, TagTotal>();
+  for (const t of txns) {
+    if (t.type === 'transfer') continue;
+    const counted = new Set<string>();
+    for (const line of splitLines(t)) {
+      const amount = fx.toBase(line.amountMinorUnits, t.currency, t.date) ?? 0;
+      const tags = [...new Set([...t.tags, ...line.tags])];
+      for (const tag of tags.length ? tags : ['']) {
+        const entry = totals.get(tag) ?? { income: 0, expense: 0, count: 0 };
+        if (t.type === 'income') entry.income += amount;
+        else entry.expense += amount;
+        if (!counted.has(tag)) {
+          entry.count += 1;
+          counted.add(tag);
+        }
+        totals.set(tag, entry);
+      }
+    }
+  }
+  return totals;
+}
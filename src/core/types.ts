@@ -1,3 +1,5 @@
+import { localePrefs, numberOptions } from './locale';
+
 export type Currency = string; // ISO 4217
 
 export interface BaseEntity {
@@ -44,6 +46,29 @@ export interface PartialPayment {
   linkedAccountId?: string;
 }
 
+/** Part of a transaction reported under its own category; lines add up to the transaction's amount. */
+export interface SplitLine {
+  id: string;
+  amountMinorUnits: number;
+  category: string;
+  tags: string[];
+  notes?: string;
+}
+
+/** A receipt, invoice or other document kept against a transaction; the bytes are in core/files. */
+export interface Attachment {
+  id: string;
+  name: string;
+  /** MIME type: an image or application/pdf. */
+  type: string;
+  size: number;
+  /** File store key, `<userId>/<id>`. */
+  path: string;
+  /** Small JPEG data URL for images, so lists needn't fetch the file. */
+  thumbnail?: string;
+  createdAt: string;
+}
+
 export interface Transaction extends BaseEntity {
   accountId: string;
   toAccountId?: string;
@@ -63,6 +88,16 @@ export interface Transaction extends BaseEntity {
   receivedAt?: string;
   receivedAmountMinorUnits?: number;
   partialPayments?: PartialPayment[];
+  /** Transfers: amount credited to `toAccountId`, in `toCurrency`. Unset when both sides match. */
+  toAmountMinorUnits?: number;
+  toCurrency?: Currency;
+  /** Transfers: charge taken from `accountId` on top of the amount sent, in `currency`. */
+  feeMinorUnits?: number;
+  /** Split lines; when present `category` holds the largest line's category. */
+  splits?: SplitLine[];
+  attachments?: Attachment[];
+  /** Transactions the user said this one only looks like a duplicate of. */
+  notDuplicateOf?: string[];
   tags: string[];
   isRecurring: boolean;
   recurringId?: string;
@@ -76,6 +111,29 @@ export function isScheduled(t: Transaction): boolean {
   return t.status === 'scheduled' || t.status === 'partially_received' || t.paymentTiming === 'future';
 }
 
+/** The lines a transaction is reported under: its splits, or the whole amount in its own category */
+export function splitLines(t: Transaction): SplitLine[] {
+  if (t.splits?.length) return t.splits;
+  return [{ id: t.id, amountMinorUnits: t.amountMinorUnits, category: t.category, tags: t.tags, notes: t.notes }];
+}
+
+/** Both sides of a transfer; `received` falls back to the amount sent when no rate was recorded */
+export function transferLegs(t: Transaction): { sent: number; currency: Currency; received: number; toCurrency: Currency; fee: number } {
+  return {
+    sent: t.amountMinorUnits,
+    currency: t.currency,
+    received: t.toAmountMinorUnits ?? t.amountMinorUnits,
+    toCurrency: t.toCurrency ?? t.currency,
+    fee: t.feeMinorUnits ?? 0,
+  };
+}
+
+/** Units of `toCurrency` per unit of `currency` the transfer was made at; null for same-currency transfers */
+export function impliedRate(t: Pick<Transaction, 'amountMinorUnits' | 'currency' | 'toAmountMinorUnits' | 'toCurrency'>): number | null {
+  if (!t.toCurrency || t.toCurrency === t.currency || !t.toAmountMinorUnits || !t.amountMinorUnits) return null;
+  return toMajor(t.toAmountMinorUnits, t.toCurrency) / toMajor(t.amountMinorUnits, t.currency);
+}
+
 // ── Loan ───────────────────────────────────────────────────────────────────
 
 export type LoanDirection = 'lent' | 'borrowed';
@@ -127,6 +185,11 @@ export interface Budget extends BaseEntity {
   name: string;
   category: string;
   amountMinorUnits: number;
+  /**
+   * Currency of the limit. Budgets saved before amounts followed each
+   * currency's minor unit have none; they are upgraded when loaded.
+   */
+  currency?: Currency;
   period: BudgetPeriod;
   isActive: boolean;
 }
@@ -209,34 +272,169 @@ export interface RecurringRule extends BaseEntity {
   isActive: boolean;
 }
 
+// ── FX Rate ────────────────────────────────────────────────────────────────
+
+/** One unit of `fromCurrency` was worth `rate` units of `toCurrency` on `date`. */
+export interface FxRate extends BaseEntity {
+  date: string;
+  fromCurrency: Currency;
+  toCurrency: Currency;
+  rate: number;
+}
+
+// ── Saved View ─────────────────────────────────────────────────────────────
+
+export type DateFilterType =
+  | 'all'
+  | 'today'
+  | 'yesterday'
+  | 'this_week'
+  | 'this_month'
+  | 'last_month'
+  | 'custom';
+
+export interface DateFilter {
+  type: DateFilterType;
+  from?: string;
+  to?: string;
+}
+
+/** Everything the transactions page filters on, as a saved view captures it. */
+export interface ViewFilters {
+  /** Query in the search language (see core/search). */
+  search: string;
+  date: DateFilter;
+  types: string[];
+  accounts: string[];
+  categories: string[];
+  paymentMethods: string[];
+  statuses: string[];
+  tags: string[];
+}
+
+export type ViewSort = 'date_desc' | 'date_asc' | 'amount_desc' | 'amount_asc';
+export type ViewGrouping = 'day' | 'month' | 'category' | 'none';
+
+export interface SavedView extends BaseEntity {
+  name: string;
+  /** Key in `/transactions?view=<slug>`; unique among the user's views. */
+  slug: string;
+  filters: ViewFilters;
+  sort: ViewSort;
+  grouping: ViewGrouping;
+  /** Shown as a tab at the top of the transactions page. */
+  pinned: boolean;
+  /** Order among the tabs. */
+  position: number;
+}
+
+export function emptyViewFilters(): ViewFilters {
+  return { search: '', date: { type: 'all' }, types: [], accounts: [], categories: [], paymentMethods: [], statuses: [], tags: [] };
+}
+
+// ── Tag ────────────────────────────────────────────────────────────────────
+
+/** How a tag is shown; transactions refer to it by `name` alone. */
+export interface Tag extends BaseEntity {
+  /** Unique among the user's tags. */
+  name: string;
+  color?: string;
+  description?: string;
+}
+
+// ── Change Log ─────────────────────────────────────────────────────────────
+
+export type ChangeAction = 'add' | 'update' | 'remove' | 'restore' | 'purge';
+
+/** A column's value before and after a change. */
+export interface FieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface ChangeLogEntry {
+  id: string;
+  tableName: string;
+  rowId: string;
+  action: ChangeAction;
+  /** Keyed by snake_case column name; only columns that actually changed. */
+  changes: Record<string, FieldChange>;
+  /** User who made the change. */
+  actorId?: string;
+  createdAt: string;
+}
+
 // ── User Settings ──────────────────────────────────────────────────────────
 
 export interface UserSettings {
   displayName: string;
   currency: Currency;
   theme: 'dark' | 'light' | 'system';
+  /** Send changes to Supabase at all; when false nothing leaves the device. */
   cloudEnabled: boolean;
+  /** Upload only encrypted change-sets instead of rows (needs the private vault). This device's copy of the account's mode. */
+  encryptedSync: boolean;
 }
 
 // ── Utilities ──────────────────────────────────────────────────────────────
 
-/** Convert minor units (pence/cents) to major units for display */
-export function toMajor(minor: number): number {
-  return minor / 100;
+// ISO 4217 currencies whose minor unit isn't a hundredth; all others use 2 decimals
+const CURRENCY_EXPONENTS: Record<Currency, number> = {
+  BIF: 0, CLP: 0, DJF: 0, GNF: 0, ISK: 0, JPY: 0, KMF: 0, KRW: 0, PYG: 0,
+  RWF: 0, UGX: 0, UYI: 0, VND: 0, VUV: 0, XAF: 0, XOF: 0, XPF: 0,
+  BHD: 3, IQD: 3, JOD: 3, KWD: 3, LYD: 3, OMR: 3, TND: 3,
+  CLF: 4, UYW: 4,
+};
+
+/** Decimal places of a currency's minor unit (ISO 4217): 2 for GBP, 0 for JPY, 3 for KWD */
+export function currencyExponent(currency: Currency): number {
+  return CURRENCY_EXPONENTS[currency.toUpperCase()] ?? 2;
+}
+
+/** Convert minor units (pence, cents, fils…) to major units for display */
+export function toMajor(minor: number, currency: Currency): number {
+  return minor / 10 ** currencyExponent(currency);
 }
 
 /** Convert major units to minor units for storage */
-export function toMinor(major: number): number {
-  return Math.round(major * 100);
+export function toMinor(major: number, currency: Currency): number {
+  return Math.round(major * 10 ** currencyExponent(currency));
+}
+
+/** Plain decimal amount without symbol or grouping, e.g. "1234.50" or "1200" for JPY (CSV exports) */
+export function formatAmount(minor: number, currency: Currency): string {
+  return toMajor(minor, currency).toFixed(currencyExponent(currency));
+}
+
+/** Smallest amount an input for `currency` accepts, as an `<input step>` value */
+export function amountStep(currency: Currency): string {
+  const exponent = currencyExponent(currency);
+  return exponent === 0 ? '1' : (10 ** -exponent).toFixed(exponent);
+}
+
+/** Symbol shown next to amounts in `currency`, e.g. £, ¥ or KWD */
+export function currencySymbol(currency: Currency): string {
+  try {
+    const parts = new Intl.NumberFormat(localePrefs().locale, { style: 'currency', currency }).formatToParts(0);
+    return parts.find((p) => p.type === 'currency')?.value ?? currency;
+  } catch {
+    return currency;
+  }
 }
 
-/** Format currency for display */
-export function formatCurrency(minorUnits: number, currency = 'GBP'): string {
-  return new Intl.NumberFormat('en-GB', {
+/**
+ * Format currency for display in the user's locale. `trimWhole` drops a zero
+ * fraction, e.g. "£1,200" rather than "£1,200.00" on chart axes.
+ */
+export function formatCurrency(minorUnits: number, currency = 'GBP', trimWhole = false): string {
+  const exponent = currencyExponent(currency);
+  const digits = trimWhole && minorUnits % 10 ** exponent === 0 ? 0 : exponent;
+  return new Intl.NumberFormat(localePrefs().locale, numberOptions({
     style: 'currency',
     currency,
-    minimumFractionDigits: 2,
-  }).format(minorUnits / 100);
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  })).format(toMajor(minorUnits, currency));
 }
 
 /** Generate a UUID */
@@ -0,0 +1,372 @@
+/**
+ * Runtime validation of entity rows.
+ * `fromDb` only renames columns, so without these checks a row with a
+ * malformed JSON column or a non-numeric amount would reach the UI typed as a
+ * valid entity. Rows read through the db shim are parsed against the schemas
+ * below; the safe repairs (numeric strings, comma-separated tags, JSON stored
+ * as text) are applied and anything else is left out of the result and
+ * reported to the data-health panel. Writes are checked against the same
+ * schemas before they reach storage.
+ */
+import { z } from 'zod';
+import { fromDb, toDb } from './supabase';
+import type { DbRow } from './storage';
+import type {
+  Account,
+  Transaction,
+  PartialPayment,
+  SplitLine,
+  Attachment,
+  Loan,
+  LoanPayment,
+  Subscription,
+  Budget,
+  FinancialGoal,
+  CreditCard,
+  CreditCardTransaction,
+  RecurringRule,
+  FxRate,
+  SavedView,
+  ViewFilters,
+  Tag,
+  ChangeLogEntry,
+} from './types';
+import { useDataHealthStore, type InvalidRow } from '../store/useDataHealthStore';
+
+// ── Building blocks ──────────────────────────────────────────────────────────
+
+/** BIGINT columns can arrive as strings; anything else must be a whole number. */
+const minorUnits = z.coerce.number().int();
+
+/** A jsonb column, also accepted when it was stored as a JSON string. */
+function json<S extends z.ZodType>(schema: S) {
+  return z.preprocess((value) => {
+    if (typeof value !== 'string') return value;
+    try {
+      return JSON.parse(value) as unknown;
+    } catch {
+      return value;
+    }
+  }, schema);
+}
+
+const tags = z.preprocess(
+  (value) => (typeof value === 'string' ? value.split(',').map((t) => t.trim()).filter(Boolean) : value),
+  z.array(z.string()).default([]),
+);
+
+const base = {
+  id: z.string().min(1),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  deletedAt: z.string().optional(),
+};
+
+const transactionType = z.enum(['income', 'expense', 'transfer']);
+const paymentMethod = z.enum(['card', 'cash', 'bank_transfer', 'direct_debit', 'online', 'standing_order', 'wallet', 'other']);
+
+// ── Entities ─────────────────────────────────────────────────────────────────
+
+export const accountSchema = z.looseObject({
+  ...base,
+  name: z.string(),
+  type: z.enum(['checking', 'savings', 'cash', 'credit', 'investment']),
+  currency: z.string(),
+  color: z.string(),
+  isArchived: z.boolean().default(false),
+  notes: z.string().optional(),
+}) satisfies z.ZodType<Account>;
+
+const partialPaymentSchema = z.looseObject({
+  id: z.string(),
+  amountMinorUnits: minorUnits,
+  notes: z.string().optional(),
+  recordedAt: z.string(),
+  paymentMethod: paymentMethod.optional(),
+  linkedAccountId: z.string().optional(),
+}) satisfies z.ZodType<PartialPayment>;
+
+const splitLineSchema = z.looseObject({
+  id: z.string(),
+  amountMinorUnits: minorUnits,
+  category: z.string(),
+  tags,
+  notes: z.string().optional(),
+}) satisfies z.ZodType<SplitLine>;
+
+const attachmentSchema = z.looseObject({
+  id: z.string(),
+  name: z.string(),
+  type: z.string(),
+  size: z.coerce.number().int().nonnegative(),
+  path: z.string().min(1),
+  thumbnail: z.string().optional(),
+  createdAt: z.string(),
+}) satisfies z.ZodType<Attachment>;
+
+export const transactionSchema = z.looseObject({
+  ...base,
+  accountId: z.string(),
+  toAccountId: z.string().optional(),
+  type: transactionType,
+  amountMinorUnits: minorUnits,
+  currency: z.string(),
+  category: z.string(),
+  subcategory: z.string().optional(),
+  merchant: z.string().optional(),
+  notes: z.string().optional(),
+  date: z.string(),
+  paymentMethod: paymentMethod.optional(),
+  paymentTiming: z.enum(['instant', 'future']).optional(),
+  status: z.enum(['completed', 'scheduled', 'partially_received']).optional(),
+  hasFixedScheduleDate: z.boolean().optional(),
+  completedAt: z.string().optional(),
+  receivedAt: z.string().optional(),
+  receivedAmountMinorUnits: minorUnits.optional(),
+  partialPayments: json(z.array(partialPaymentSchema)).optional(),
+  toAmountMinorUnits: minorUnits.optional(),
+  toCurrency: z.string().optional(),
+  feeMinorUnits: minorUnits.optional(),
+  splits: json(z.array(splitLineSchema)).optional(),
+  attachments: json(z.array(attachmentSchema)).optional(),
+  notDuplicateOf: json(z.array(z.string())).optional(),
+  tags,
+  isRecurring: z.boolean().default(false),
+  recurringId: z.string().optional(),
+  allocationType: z.enum(['goal', 'loan', 'credit_card', 'subscription', 'budget']).optional(),
+  linkedGoalId: z.string().optional(),
+  linkedEntityName: z.string().optional(),
+}) satisfies z.ZodType<Transaction>;
+
+const loanPaymentSchema = z.looseObject({
+  id: z.string(),
+  amount: minorUnits,
+  date: z.string(),
+  notes: z.string().optional(),
+}) satisfies z.ZodType<LoanPayment>;
+
+export const loanSchema = z.looseObject({
+  ...base,
+  direction: z.enum(['lent', 'borrowed']),
+  counterparty: z.string(),
+  principalMinorUnits: minorUnits,
+  currency: z.string(),
+  remainingMinorUnits: minorUnits,
+  interestRate: z.coerce.number().optional(),
+  startDate: z.string(),
+  dueDate: z.string().optional(),
+  status: z.enum(['active', 'partially_paid', 'settled', 'overdue']),
+  notes: z.string().optional(),
+  payments: json(z.array(loanPaymentSchema).default([])),
+}) satisfies z.ZodType<Loan>;
+
+export const subscriptionSchema = z.looseObject({
+  ...base,
+  name: z.string(),
+  amountMinorUnits: minorUnits,
+  currency: z.string(),
+  billingCycle: z.enum(['weekly', 'monthly', 'quarterly', 'annual']),
+  nextBillingDate: z.string(),
+  category: z.string(),
+  accountId: z.string().optional(),
+  url: z.string().optional(),
+  isActive: z.boolean().default(true),
+  notes: z.string().optional(),
+}) satisfies z.ZodType<Subscription>;
+
+export const budgetSchema = z.looseObject({
+  ...base,
+  name: z.string(),
+  category: z.string(),
+  amountMinorUnits: minorUnits,
+  currency: z.string().optional(),
+  period: z.enum(['weekly', 'monthly']),
+  isActive: z.boolean().default(true),
+}) satisfies z.ZodType<Budget>;
+
+export const goalSchema = z.looseObject({
+  ...base,
+  name: z.string(),
+  targetMinorUnits: minorUnits,
+  currentMinorUnits: minorUnits,
+  currency: z.string(),
+  targetDate: z.string().optional(),
+  category: z.enum(['emergency_fund', 'investment', 'purchase', 'debt_payoff', 'custom']),
+  notes: z.string().optional(),
+  isAchieved: z.boolean().default(false),
+}) satisfies z.ZodType<FinancialGoal>;
+
+const creditCardTransactionSchema = z.looseObject({
+  ...base,
+  merchant: z.string(),
+  category: z.string(),
+  icon: z.string().optional(),
+  amountMinorUnits: minorUnits,
+  currency: z.string(),
+  date: z.string(),
+  notes: z.string().optional(),
+}) satisfies z.ZodType<CreditCardTransaction>;
+
+export const creditCardSchema = z.looseObject({
+  ...base,
+  name: z.string(),
+  last4: z.string(),
+  expiry: z.string(),
+  network: z.enum(['visa', 'mastercard', 'amex', 'other']),
+  limitMinorUnits: minorUnits,
+  balanceMinorUnits: minorUnits,
+  minPaymentMinorUnits: minorUnits,
+  dueDate: z.string(),
+  apr: z.coerce.number(),
+  cashbackMinorUnits: minorUnits,
+  status: z.enum(['active', 'overdue', 'closed']),
+  color: z.string(),
+  currency: z.string(),
+  notes: z.string().optional(),
+  transactions: json(z.array(creditCardTransactionSchema).default([])),
+}) satisfies z.ZodType<CreditCard>;
+
+export const recurringRuleSchema = z.looseObject({
+  ...base,
+  templateAccountId: z.string(),
+  templateType: transactionType,
+  templateAmountMinorUnits: minorUnits,
+  templateCurrency: z.string(),
+  templateCategory: z.string(),
+  templateMerchant: z.string().optional(),
+  templateNotes: z.string().optional(),
+  frequency: z.enum(['daily', 'weekly', 'biweekly', 'monthly', 'quarterly', 'annual']),
+  startDate: z.string(),
+  endDate: z.string().optional(),
+  lastGeneratedDate: z.string().optional(),
+  isActive: z.boolean().default(true),
+}) satisfies z.ZodType<RecurringRule>;
+
+export const fxRateSchema = z.looseObject({
+  ...base,
+  date: z.string(),
+  fromCurrency: z.string(),
+  toCurrency: z.string(),
+  rate: z.coerce.number().positive(),
+}) satisfies z.ZodType<FxRate>;
+
+const stringList = z.array(z.string()).default([]);
+
+const viewFiltersSchema = z.looseObject({
+  search: z.string().default(''),
+  date: z.looseObject({
+    type: z.enum(['all', 'today', 'yesterday', 'this_week', 'this_month', 'last_month', 'custom']).catch('all'),
+    from: z.string().optional(),
+    to: z.string().optional(),
+  }).default({ type: 'all' }),
+  types: stringList,
+  accounts: stringList,
+  categories: stringList,
+  paymentMethods: stringList,
+  statuses: stringList,
+  tags: stringList,
+}) satisfies z.ZodType<ViewFilters>;
+
+export const savedViewSchema = z.looseObject({
+  ...base,
+  name: z.string(),
+  slug: z.string().min(1),
+  filters: json(viewFiltersSchema),
+  sort: z.enum(['date_desc', 'date_asc', 'amount_desc', 'amount_asc']).catch('date_desc'),
+  grouping: z.enum(['day', 'month', 'category', 'none']).catch('day'),
+  pinned: z.boolean().default(false),
+  position: z.coerce.number().int().default(0),
+}) satisfies z.ZodType<SavedView>;
+
+export const tagSchema = z.looseObject({
+  ...base,
+  name: z.string().min(1),
+  color: z.string().optional(),
+  description: z.string().optional(),
+}) satisfies z.ZodType<Tag>;
+
+export const changeLogEntrySchema = z.looseObject({
+  id: z.string().min(1),
+  tableName: z.string(),
+  rowId: z.string(),
+  action: z.enum(['add', 'update', 'remove', 'restore', 'purge']),
+  changes: json(z.record(z.string(), z.object({ from: z.unknown(), to: z.unknown() })).default({})),
+  actorId: z.string().optional(),
+  createdAt: z.string(),
+}) satisfies z.ZodType<ChangeLogEntry>;
+
+/** Schema for each table, keyed by table name. */
+const SCHEMAS: Record<string, z.ZodObject> = {
+  accounts: accountSchema,
+  transactions: transactionSchema,
+  loans: loanSchema,
+  subscriptions: subscriptionSchema,
+  budgets: budgetSchema,
+  goals: goalSchema,
+  credit_cards: creditCardSchema,
+  recurring_rules: recurringRuleSchema,
+  fx_rates: fxRateSchema,
+  saved_views: savedViewSchema,
+  tags: tagSchema,
+  change_log: changeLogEntrySchema,
+};
+
+function describe(error: z.ZodError): string[] {
+  return error.issues.map((issue) => `${issue.path.join('.') || 'row'}: ${issue.message}`);
+}
+
+// ── Reads ────────────────────────────────────────────────────────────────────
+
+/**
+ * Convert rows read from `table` to entities. Rows that fail validation are
+ * dropped and reported; rows that now pass clear any earlier report.
+ */
+export function parseRows<T>(table: string, rows: DbRow[]): T[] {
+  const schema = SCHEMAS[table];
+  if (!schema) return rows.map((row) => fromDb<T>(row));
+
+  const valid: T[] = [];
+  const invalid: InvalidRow[] = [];
+  for (const row of rows) {
+    const result = schema.safeParse(fromDb(row));
+    if (result.success) {
+      valid.push(result.data as T);
+    } else {
+      invalid.push({ table, id: String(row['id'] ?? ''), problems: describe(result.error), row });
+    }
+  }
+  useDataHealthStore.getState().record(table, rows.map((r) => String(r['id'] ?? '')), invalid);
+  return valid;
+}
+
+/**
+ * Check a row arriving as a live change. Full rows come back normalised;
+ * `partial` rows only carry some columns, so they are checked but passed on
+ * unchanged. Returns null, after reporting, if the row is invalid.
+ */
+export function parseLiveRow(table: string, row: DbRow, partial: boolean): DbRow | null {
+  const schema = SCHEMAS[table];
+  if (!schema) return row;
+  const result = (partial ? schema.partial() : schema).safeParse(fromDb(row));
+  const id = String(row['id'] ?? '');
+  if (!result.success) {
+    useDataHealthStore.getState().record(table, [id], [{ table, id, problems: describe(result.error), row }]);
+    return null;
+  }
+  if (partial) return row;
+  useDataHealthStore.getState().record(table, [id], []);
+  return toDb(result.data);
+}
+
+// ── Writes ───────────────────────────────────────────────────────────────────
+
+/**
+ * Throw if `obj` is not a valid entity for `table`, or with `partial` not a
+ * valid set of changes to one. Only checks; the caller writes `obj` as is.
+ */
+export function assertValid(table: string, op: string, obj: unknown, partial = false): void {
+  const schema = SCHEMAS[table];
+  if (!schema) return;
+  const result = (partial ? schema.partial() : schema).safeParse(obj);
+  if (!result.success) throw new Error(`[DB] ${table}.${op}: invalid row: ${describe(result.error).join('; ')}`);
+}
@@ -0,0 +1,407 @@
+/**
+ * Private vault: opt-in encryption of sensitive columns in the browser.
+ * With the vault on, the columns in VAULT_FIELDS are sealed with AES-GCM
+ * before any storage backend sees them and opened again when read (see
+ * storage/vaultAdapter.ts), so Supabase, the local mirror and the outbox only
+ * ever hold ciphertext for them. The key is derived from a passphrase that
+ * never leaves the device and is kept in memory only, so the vault locks
+ * whenever the app reloads.
+ *
+ * A sealed value is `vault:v1:<keyId>:<base64>`. The key id names the
+ * passphrase generation, which lets a passphrase change re-encrypt rows in
+ * place and lets another device recognise values it needs unlocking for.
+ *
+ * Whether the vault is on is an account setting (see accountSettings.ts).
+ * Until a device has checked it, and while the vault is locked, nothing
+ * that would need sealing is written.
+ */
+import { deriveFieldKey, encryptWithKey, decryptWithKey } from './crypto';
+import { getStorage, type DbRow, type RowQuery } from './storage';
+import { newId } from './types';
+import { accountSettingsShared, fetchAccountSettings, saveAccountSettings } from './accountSettings';
+import { useAuthStore } from '../auth/useAuthStore';
+import { useVaultStore } from '../store/useVaultStore';
+
+/**
+ * Sealed fields per table: a column (snake_case), or `column[].key` for
+ * `key` in each entry of a JSON array column.
+ */
+export const VAULT_FIELDS: Record<string, readonly string[]> = {
+  transactions: ['merchant', 'notes', 'splits[].notes', 'partial_payments[].notes'],
+  loans: ['counterparty', 'notes', 'payments[].notes'],
+  credit_cards: ['last4', 'notes', 'transactions[].merchant', 'transactions[].notes'],
+  recurring_rules: ['template_merchant', 'template_notes'],
+};
+
+// Change-log entries repeat old and new values, so those are sealed too
+const CHANGE_LOG = 'change_log';
+const PREFIX = 'vault:v1:';
+const SENTINEL = 'privyledger-vault';
+/** Rows written back per batch when re-encrypting. */
+const REENCRYPT_CHUNK = 200;
+
+/** `checking` until this session knows whether the signed-in account has the vault on. */
+export type VaultStatus = 'checking' | 'off' | 'locked' | 'unlocked';
+
+interface VaultConfig {
+  /** Key new values are sealed with. */
+  keyId: string;
+  /** SENTINEL sealed with that key, to check a passphrase against. */
+  check: string;
+}
+
+/** Keys unlocked this session, by key id. */
+const keys = new Map<string, CryptoKey>();
+/**
+ * A sealed value met whose key isn't unlocked: the vault is on elsewhere but
+ * not set up here yet, or the passphrase was changed on another device.
+ */
+let lockedSample: string | null = null;
+/** Users whose account setting this session has checked. */
+const checked = new Set<string>();
+
+function currentUserId(): string | undefined {
+  return useAuthStore.getState().user?.id;
+}
+
+function configKey(userId: string): string {
+  return `pl_vault_${userId}`;
+}
+
+function loadConfig(userId: string | undefined): VaultConfig | null {
+  if (!userId) return null;
+  try {
+    const raw = localStorage.getItem(configKey(userId));
+    return raw ? (JSON.parse(raw) as VaultConfig) : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveConfig(userId: string, config: VaultConfig | null): void {
+  if (config) localStorage.setItem(configKey(userId), JSON.stringify(config));
+  else localStorage.removeItem(configKey(userId));
+}
+
+// Set once a check has reached the server, so an offline start can go by this device's copy
+function checkedKey(userId: string): string {
+  return `pl_vault_checked_${userId}`;
+}
+
+function deriveVaultKey(userId: string, keyId: string, passphrase: string): Promise<CryptoKey> {
+  return deriveFieldKey(passphrase, `privyledger-vault:${userId}:${keyId}`);
+}
+
+export function isSealed(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(PREFIX);
+}
+
+function keyIdOf(sealed: string): string {
+  return sealed.slice(PREFIX.length, sealed.indexOf(':', PREFIX.length));
+}
+
+async function sealWith(value: string, keyId: string, key: CryptoKey): Promise<string> {
+  return `${PREFIX}${keyId}:${await encryptWithKey(value, key)}`;
+}
+
+/** The plain text of `sealed`, or null if `key` can't open it. */
+async function tryOpen(sealed: string, key: CryptoKey): Promise<string | null> {
+  try {
+    return await decryptWithKey(sealed.slice(PREFIX.length + keyIdOf(sealed).length + 1), key);
+  } catch {
+    return null;
+  }
+}
+
+// Remember a value that needs unlocking so the app can ask for the passphrase
+function noteLocked(sealed: string): void {
+  if (lockedSample) return;
+  lockedSample = sealed;
+  useVaultStore.getState().refresh();
+}
+
+async function open(value: unknown): Promise<unknown> {
+  if (!isSealed(value)) return value;
+  const key = keys.get(keyIdOf(value));
+  if (!key) {
+    noteLocked(value);
+    return value;
+  }
+  const plain = await tryOpen(value, key);
+  if (plain === null) console.warn('[Vault] A sealed value could not be decrypted and was left as is');
+  return plain ?? value;
+}
+
+// ── Rows ─────────────────────────────────────────────────────────────────────
+
+/** Columns of `table` the backend only ever sees sealed (while the vault is on). */
+export function sealedColumns(table: string): readonly string[] {
+  return vaultStatus() === 'off' ? [] : (VAULT_FIELDS[table] ?? []).filter((f) => !f.includes('[]'));
+}
+
+function parseJson(value: string): unknown {
+  try {
+    return JSON.parse(value) as unknown;
+  } catch {
+    return value;
+  }
+}
+
+// `value` of a field's column with `fn` applied to the field
+async function mapField(value: unknown, field: string, fn: (value: unknown) => Promise<unknown>): Promise<unknown> {
+  const [, key] = field.split('[].');
+  if (key === undefined) return fn(value);
+  const entries = typeof value === 'string' ? parseJson(value) : value;
+  if (!Array.isArray(entries)) return value;
+  return Promise.all(entries.map(async (entry: unknown) =>
+    entry && typeof entry === 'object' && key in entry
+      ? { ...entry, [key]: await fn((entry as Record<string, unknown>)[key]) }
+      : entry));
+}
+
+function columnOf(field: string): string {
+  return field.split('[].')[0];
+}
+
+async function mapFields(table: string, row: DbRow, fn: (value: unknown) => Promise<unknown>): Promise<DbRow> {
+  if (table === CHANGE_LOG) {
+    const fields = VAULT_FIELDS[String(row['table_name'])];
+    const changes = row['changes'];
+    if (!fields || !changes || typeof changes !== 'object') return row;
+    const next: Record<string, unknown> = { ...changes };
+    for (const field of fields) {
+      const change = next[columnOf(field)];
+      if (!change || typeof change !== 'object') continue;
+      const { from, to } = change as { from: unknown; to: unknown };
+      next[columnOf(field)] = { from: await mapField(from, field, fn), to: await mapField(to, field, fn) };
+    }
+    return { ...row, changes: next };
+  }
+
+  const fields = VAULT_FIELDS[table];
+  if (!fields) return row;
+  const next = { ...row };
+  for (const field of fields) {
+    if (columnOf(field) in next) next[columnOf(field)] = await mapField(next[columnOf(field)], field, fn);
+  }
+  return next;
+}
+
+/**
+ * Seal the vault fields of a row (or partial row) about to be written.
+ * Passes rows through while the vault is off. While it is locked, or before
+ * the account's setting has been checked, throws rather than write a field
+ * that would need sealing.
+ */
+export async function sealRow(table: string, row: DbRow): Promise<DbRow> {
+  if (!VAULT_FIELDS[table] && table !== CHANGE_LOG) return row;
+  const status = vaultStatus();
+  if (status === 'off') return row;
+  const config = loadConfig(currentUserId());
+  const key = config && keys.get(config.keyId);
+  return mapFields(table, row, async (value) => {
+    if (typeof value !== 'string' || isSealed(value)) return value;
+    if (status === 'checking') throw new Error(`[Vault] ${table}: still checking whether the vault is on; try again in a moment`);
+    if (status !== 'unlocked' || !config || !key) throw new Error(`[Vault] ${table}: unlock the vault before saving changes`);
+    return sealWith(value, config.keyId, key);
+  });
+}
+
+/** Open the sealed columns of a row read from storage. Values sealed with a key not unlocked here stay sealed. */
+export async function openRow(table: string, row: DbRow): Promise<DbRow> {
+  if (!VAULT_FIELDS[table] && table !== CHANGE_LOG) return row;
+  return mapFields(table, row, open);
+}
+
+// ── Whole payloads ───────────────────────────────────────────────────────────
+
+/** Seal arbitrary text (e.g. a sync change-set) with the current vault key. */
+export async function sealText(text: string): Promise<string> {
+  const config = loadConfig(currentUserId());
+  const key = config && keys.get(config.keyId);
+  if (!config || !key) throw new Error('[Vault] Unlock the vault first');
+  return sealWith(text, config.keyId, key);
+}
+
+/** Open text from `sealText`, or null while its key isn't unlocked here. */
+export async function openText(sealed: string): Promise<string | null> {
+  if (!isSealed(sealed)) return null;
+  const key = keys.get(keyIdOf(sealed));
+  if (!key) {
+    noteLocked(sealed);
+    return null;
+  }
+  return tryOpen(sealed, key);
+}
+
+/**
+ * Seal a value that may hold vault fields, such as the arguments of a queued
+ * `modify` step, as one piece. Passes it through while the vault is off and,
+ * like `sealRow`, throws while it is locked or still being checked.
+ */
+export async function sealJson(value: unknown): Promise<unknown> {
+  const status = vaultStatus();
+  if (status === 'off' || value === undefined) return value;
+  if (status !== 'unlocked') throw new Error('[Vault] Unlock the vault before saving changes');
+  return sealText(JSON.stringify(value));
+}
+
+/** Open a value from `sealJson`; throws while its key isn't unlocked here. */
+export async function openJson(value: unknown): Promise<unknown> {
+  if (!isSealed(value)) return value;
+  const text = await openText(value);
+  if (text === null) throw new Error('[Vault] Unlock the vault first');
+  return JSON.parse(text) as unknown;
+}
+
+// ── Status and passphrase management ─────────────────────────────────────────
+
+export function vaultStatus(): VaultStatus {
+  if (lockedSample) return 'locked';
+  const userId = currentUserId();
+  const config = loadConfig(userId);
+  if (config) return keys.has(config.keyId) ? 'unlocked' : 'locked';
+  return userId && checked.has(userId) ? 'off' : 'checking';
+}
+
+/**
+ * Find out whether the account has the vault on, and bring this device's
+ * copy of the setting in line. Where account settings are shared this asks
+ * the server; offline, the copy from the last check stands in. Throws if
+ * there is nothing to go on yet.
+ */
+export async function checkVault(): Promise<void> {
+  const userId = currentUserId();
+  if (!userId) return;
+  if (accountSettingsShared()) {
+    try {
+      const settings = await fetchAccountSettings(userId);
+      if (settings) {
+        const { vaultKeyId, vaultCheck } = settings;
+        saveConfig(userId, vaultKeyId && vaultCheck ? { keyId: vaultKeyId, check: vaultCheck } : null);
+      } else {
+        // Turned on before the setting was shared: this device's vault becomes the account's
+        await publishConfig(userId, loadConfig(userId));
+      }
+      localStorage.setItem(checkedKey(userId), '1');
+    } catch (err) {
+      if (!localStorage.getItem(checkedKey(userId))) throw err;
+      console.warn('[Vault] Could not check the account setting; going by the last check:', err);
+    }
+  }
+  checked.add(userId);
+}
+
+async function publishConfig(userId: string, config: VaultConfig | null): Promise<void> {
+  if (!accountSettingsShared()) return;
+  await saveAccountSettings(userId, { vaultKeyId: config?.keyId, vaultCheck: config?.check });
+}
+
+/** Forget every key; sealed values stay unreadable until the next unlock. */
+export function lockVault(): void {
+  keys.clear();
+  lockedSample = null;
+  checked.clear();
+}
+
+/**
+ * Unlock with the passphrase. When the values that need unlocking use a key
+ * this device hasn't seen (vault turned on or passphrase changed elsewhere),
+ * that key becomes the one new writes are sealed with here as well.
+ */
+export async function unlockVault(passphrase: string): Promise<void> {
+  const userId = currentUserId();
+  if (!userId) throw new Error('[Vault] No signed-in user');
+  const config = loadConfig(userId);
+  const sample = lockedSample ?? config?.check;
+  if (!sample) throw new Error('[Vault] The vault is not turned on');
+
+  const keyId = keyIdOf(sample);
+  const key = await deriveVaultKey(userId, keyId, passphrase);
+  if ((await tryOpen(sample, key)) === null) throw new Error('[Vault] Wrong passphrase');
+  keys.set(keyId, key);
+  if (config?.keyId !== keyId) saveConfig(userId, { keyId, check: await sealWith(SENTINEL, keyId, key) });
+  lockedSample = null;
+}
+
+/** Start sealing with a key derived from `passphrase` and re-encrypt existing rows with it. */
+async function switchKey(userId: string, passphrase: string): Promise<void> {
+  const keyId = newId();
+  const key = await deriveVaultKey(userId, keyId, passphrase);
+  const config = { keyId, check: await sealWith(SENTINEL, keyId, key) };
+  // Other devices go by the account's setting, so it changes first
+  await publishConfig(userId, config);
+  keys.set(keyId, key);
+  saveConfig(userId, config);
+  await reencryptAll(userId);
+}
+
+/** Turn the vault on and seal every existing value. */
+export async function enableVault(passphrase: string): Promise<void> {
+  const userId = currentUserId();
+  if (!userId) throw new Error('[Vault] No signed-in user');
+  if (vaultStatus() === 'checking') throw new Error('[Vault] Still checking whether the vault is on; try again in a moment');
+  if (loadConfig(userId)) throw new Error('[Vault] The vault is already on');
+  await switchKey(userId, passphrase);
+}
+
+/**
+ * Change the passphrase. Rows are re-encrypted with the new key; the old key
+ * stays in memory so a re-encryption that fails halfway can be run again.
+ */
+export async function rotateVaultKey(newPassphrase: string): Promise<void> {
+  const userId = currentUserId();
+  if (!userId || vaultStatus() !== 'unlocked') throw new Error('[Vault] Unlock the vault first');
+  await switchKey(userId, newPassphrase);
+}
+
+/** Turn the vault off and store every value in plain text again. */
+export async function disableVault(): Promise<void> {
+  const userId = currentUserId();
+  const config = loadConfig(userId);
+  if (!userId || !config || vaultStatus() !== 'unlocked') throw new Error('[Vault] Unlock the vault first');
+  saveConfig(userId, null);
+  try {
+    await reencryptAll(userId);
+    await publishConfig(userId, null);
+  } catch (err) {
+    saveConfig(userId, config);
+    throw err;
+  }
+  lockVault();
+  checked.add(userId);
+}
+
+function containsSealed(value: unknown): boolean {
+  if (isSealed(value)) return true;
+  if (typeof value === 'string') return value.startsWith('[') && containsSealed(parseJson(value));
+  if (Array.isArray(value)) return value.some(containsSealed);
+  return !!value && typeof value === 'object' && Object.values(value).some(containsSealed);
+}
+
+function stillSealed(table: string, row: DbRow): boolean {
+  if (table !== CHANGE_LOG) return (VAULT_FIELDS[table] ?? []).some((f) => containsSealed(row[columnOf(f)]));
+  return containsSealed(row['changes']);
+}
+
+/**
+ * Rewrite every vault column of the user's rows, deleted ones included, under
+ * the current setting: reads open them with any unlocked key and writes seal
+ * them with the current one (or not at all once the vault is off).
+ */
+export async function reencryptAll(userId: string): Promise<void> {
+  const storage = getStorage();
+  const queries: [string, RowQuery][] = [
+    ...Object.keys(VAULT_FIELDS).map((table): [string, RowQuery] => [table, { userId }]),
+    [CHANGE_LOG, { userId, filters: [{ column: 'table_name', op: 'in', value: Object.keys(VAULT_FIELDS) }] }],
+  ];
+  for (const [table, query] of queries) {
+    const rows = await storage.select(table, query);
+    if (rows.some((r) => stillSealed(table, r))) {
+      throw new Error(`[Vault] ${table}: some records were sealed with a passphrase that is not unlocked on this device`);
+    }
+    for (let i = 0; i < rows.length; i += REENCRYPT_CHUNK) {
+      await storage.batch([{ kind: 'upsert', table, rows: rows.slice(i, i + REENCRYPT_CHUNK) }]);
+    }
+  }
+}
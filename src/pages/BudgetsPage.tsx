@@ -1,17 +1,21 @@
 import { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
-import { startOfMonth, endOfMonth, startOfWeek, endOfWeek, isWithinInterval, getDaysInMonth, getDate } from 'date-fns';
+import { startOfMonth, endOfMonth, startOfWeek, endOfWeek, isWithinInterval, getDaysInMonth, getDate, differenceInCalendarDays } from 'date-fns';
 import { useBudgetStore } from '../store/useBudgetStore';
 import { useTransactionStore } from '../store/useTransactionStore';
 import type { Budget } from '../core/types';
-import { formatCurrency, toMinor } from '../core/types';
+import { formatCurrency, splitLines, toMajor, toMinor } from '../core/types';
+import type { Money } from '../core/fx';
 import { useUIStore } from '../store/useUIStore';
+import { weekOptions } from '../core/locale';
+import { useConverter } from '../store/useFxStore';
 import { ALL_CATEGORIES } from '../core/categorizer';
 import BottomSheet from '../components/ui/BottomSheet';
 import Button from '../components/ui/Button';
 import Badge from '../components/ui/Badge';
 import Card from '../components/ui/Card';
 import Input from '../components/ui/Input';
+import AmountInput from '../components/ui/AmountInput';
 import Select from '../components/ui/Select';
 
 interface BudgetFormData {
@@ -23,11 +27,13 @@ interface BudgetFormData {
 
 function BudgetForm({ initial, onDone }: { initial?: Budget; onDone: () => void }) {
   const { add, update } = useBudgetStore();
+  const base = useUIStore((s) => s.currency);
+  const currency = initial?.currency ?? base;
   const { register, handleSubmit, formState: { isSubmitting } } = useForm<BudgetFormData>({
     defaultValues: {
       name: initial?.name ?? '',
       category: initial?.category ?? 'Groceries',
-      amount: initial ? String(initial.amountMinorUnits / 100) : '',
+      amount: initial ? String(toMajor(initial.amountMinorUnits, currency)) : '',
       period: initial?.period ?? 'monthly',
     },
   });
@@ -36,7 +42,8 @@ function BudgetForm({ initial, onDone }: { initial?: Budget; onDone: () => void
     const payload = {
       name: data.name,
       category: data.category,
-      amountMinorUnits: toMinor(parseFloat(data.amount)),
+      amountMinorUnits: toMinor(parseFloat(data.amount), currency),
+      currency,
       period: data.period,
       isActive: initial?.isActive ?? true,
     };
@@ -56,7 +63,7 @@ function BudgetForm({ initial, onDone }: { initial?: Budget; onDone: () => void
       <Input label="Budget Name" placeholder="e.g. Grocery Budget" required {...register('name', { required: true })} />
       <Select label="Category" options={catOptions} {...register('category')} />
       <Select label="Period" options={periodOptions} {...register('period')} />
-      <Input label="Amount Limit" type="number" step="0.01" min="1" required {...register('amount', { required: true })} />
+      <AmountInput label="Amount Limit" currency={currency} required {...register('amount', { required: true })} />
       <div className="flex gap-2 pt-2">
         <Button type="submit" loading={isSubmitting} className="flex-1">{initial ? 'Update' : 'Create Budget'}</Button>
         <Button type="button" variant="ghost" onClick={onDone}>Cancel</Button>
@@ -69,6 +76,7 @@ export default function BudgetsPage() {
   const { budgets, load, remove } = useBudgetStore();
   const { transactions, load: loadTxns } = useTransactionStore();
   const { currency } = useUIStore();
+  const fx = useConverter();
   const [showForm, setShowForm] = useState(false);
   const [editing, setEditing] = useState<Budget | undefined>();
 
@@ -77,30 +85,36 @@ export default function BudgetsPage() {
   const now = new Date();
   const monthStart = startOfMonth(now);
   const monthEnd = endOfMonth(now);
-  const weekStart = startOfWeek(now, { weekStartsOn: 1 });
-  const weekEnd = endOfWeek(now, { weekStartsOn: 1 });
+  const weekStart = startOfWeek(now, weekOptions());
+  const weekEnd = endOfWeek(now, weekOptions());
   const daysInMonth = getDaysInMonth(now);
   const dayOfMonth = getDate(now);
   const daysLeft = daysInMonth - dayOfMonth;
   const monthElapsedPct = (dayOfMonth / daysInMonth) * 100;
-  // Day of week: Monday=1 … Sunday=7
-  const dayOfWeek = ((now.getDay() + 6) % 7) + 1;
+  // Day of week: 1 on the first day of the user's week … 7 on the last
+  const dayOfWeek = differenceInCalendarDays(now, weekStart) + 1;
 
-  // Compute spent per category for both periods
-  const monthSpent: Record<string, number> = {};
-  const weekSpent: Record<string, number> = {};
+  // Collect expenses per category for both periods, split lines under their own categories
+  const monthExpenses: Record<string, Money[]> = {};
+  const weekExpenses: Record<string, Money[]> = {};
   for (const t of transactions) {
     if (t.type === 'expense' && !t.deletedAt) {
       const txDate = new Date(t.date);
-      if (isWithinInterval(txDate, { start: monthStart, end: monthEnd })) {
-        monthSpent[t.category] = (monthSpent[t.category] ?? 0) + t.amountMinorUnits;
-      }
-      if (isWithinInterval(txDate, { start: weekStart, end: weekEnd })) {
-        weekSpent[t.category] = (weekSpent[t.category] ?? 0) + t.amountMinorUnits;
+      const inMonth = isWithinInterval(txDate, { start: monthStart, end: monthEnd });
+      const inWeek = isWithinInterval(txDate, { start: weekStart, end: weekEnd });
+      for (const line of splitLines(t)) {
+        const spend = { amount: line.amountMinorUnits, currency: t.currency, date: t.date };
+        if (inMonth) (monthExpenses[line.category] ??= []).push(spend);
+        if (inWeek) (weekExpenses[line.category] ??= []).push(spend);
       }
     }
   }
 
+  // Spent in the budget's own currency, each expense converted at its date
+  function spentIn(spends: Money[] = [], budgetCurrency: string): number {
+    return spends.reduce((s, m) => s + (fx.convert(m.amount, m.currency, budgetCurrency, m.date) ?? 0), 0);
+  }
+
   const active = budgets.filter((b) => b.isActive && !b.deletedAt);
 
   function openAdd() {
@@ -143,9 +157,11 @@ export default function BudgetsPage() {
         <div className="space-y-3">
           {active.map((budget) => {
             const isWeekly = budget.period === 'weekly';
-            const spent = isWeekly
-              ? (weekSpent[budget.category] ?? 0)
-              : (monthSpent[budget.category] ?? 0);
+            const budgetCurrency = budget.currency ?? currency;
+            const spent = spentIn(
+              isWeekly ? weekExpenses[budget.category] : monthExpenses[budget.category],
+              budgetCurrency,
+            );
             const pct = budget.amountMinorUnits > 0 ? (spent / budget.amountMinorUnits) * 100 : 0;
             const remaining = budget.amountMinorUnits - spent;
             const isOver = pct >= 100;
@@ -189,10 +205,10 @@ export default function BudgetsPage() {
                   </div>
                   <div className="text-right shrink-0">
                     <p className="text-sm font-bold text-slate-900">
-                      {formatCurrency(spent, currency)} / {formatCurrency(budget.amountMinorUnits, currency)}
+                      {formatCurrency(spent, budgetCurrency)} / {formatCurrency(budget.amountMinorUnits, budgetCurrency)}
                     </p>
                     <p className={`text-xs mt-0.5 ${isOver ? 'text-red-600' : 'text-slate-400'}`}>
-                      {isOver ? `${formatCurrency(Math.abs(remaining), currency)} over` : `${formatCurrency(remaining, currency)} left`}
+                      {isOver ? `${formatCurrency(Math.abs(remaining), budgetCurrency)} over` : `${formatCurrency(remaining, budgetCurrency)} left`}
                     </p>
                   </div>
                 </div>
@@ -210,7 +226,7 @@ export default function BudgetsPage() {
                   <p className="text-xs text-slate-400">{pct.toFixed(0)}% used · {daysLeftInPeriod}d left</p>
                   {!isOver && dailyRate > 0 && (
                     <p className={`text-xs ${projectedOver ? 'text-amber-600' : 'text-slate-400'}`}>
-                      Projected: {formatCurrency(projectedTotal, currency)}{projectedOver ? ' ⚠ over limit' : ''}
+                      Projected: {formatCurrency(projectedTotal, budgetCurrency)}{projectedOver ? ' ⚠ over limit' : ''}
                     </p>
                   )}
                 </div>
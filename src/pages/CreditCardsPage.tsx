@@ -1,16 +1,18 @@
 import { useEffect, useState, useRef } from 'react';
 import { useForm } from 'react-hook-form';
-import { format } from 'date-fns';
 import { useCreditCardStore } from '../store/useCreditCardStore';
 import type { CreditCard } from '../core/types';
-import { formatCurrency, toMinor } from '../core/types';
+import { formatCurrency, toMajor, toMinor } from '../core/types';
+import { formatDate } from '../core/locale';
 import BottomSheet from '../components/ui/BottomSheet';
 import Button from '../components/ui/Button';
 import Badge from '../components/ui/Badge';
 import Card from '../components/ui/Card';
 import Input from '../components/ui/Input';
+import AmountInput from '../components/ui/AmountInput';
 import Select from '../components/ui/Select';
 import Textarea from '../components/ui/Textarea';
+import HistoryTimeline from '../components/history/HistoryTimeline';
 
 // ── Utility ring gauge ────────────────────────────────────────────────────────
 
@@ -119,9 +121,9 @@ function CardForm({ initial, onDone }: { initial?: CreditCard; onDone: () => voi
       last4: initial?.last4 ?? '',
       expiry: initial?.expiry ?? '',
       network: initial?.network ?? 'visa',
-      limit: initial ? String(initial.limitMinorUnits / 100) : '',
-      balance: initial ? String(initial.balanceMinorUnits / 100) : '',
-      minPayment: initial ? String(initial.minPaymentMinorUnits / 100) : '',
+      limit: initial ? String(toMajor(initial.limitMinorUnits, initial.currency)) : '',
+      balance: initial ? String(toMajor(initial.balanceMinorUnits, initial.currency)) : '',
+      minPayment: initial ? String(toMajor(initial.minPaymentMinorUnits, initial.currency)) : '',
       dueDate: initial?.dueDate ?? '',
       apr: initial ? String(initial.apr) : '',
       currency: initial?.currency ?? 'GBP',
@@ -130,6 +132,7 @@ function CardForm({ initial, onDone }: { initial?: CreditCard; onDone: () => voi
     },
   });
   const watchedColor = watch('color');
+  const currency = watch('currency').trim().toUpperCase() || 'GBP';
 
   async function onSubmit(data: CardFormData) {
     const payload = {
@@ -137,15 +140,15 @@ function CardForm({ initial, onDone }: { initial?: CreditCard; onDone: () => voi
       last4: data.last4.replace(/\D/g, '').slice(-4),
       expiry: data.expiry,
       network: data.network,
-      limitMinorUnits: toMinor(parseFloat(data.limit) || 0),
-      balanceMinorUnits: toMinor(parseFloat(data.balance) || 0),
-      minPaymentMinorUnits: toMinor(parseFloat(data.minPayment) || 0),
+      limitMinorUnits: toMinor(parseFloat(data.limit) || 0, currency),
+      balanceMinorUnits: toMinor(parseFloat(data.balance) || 0, currency),
+      minPaymentMinorUnits: toMinor(parseFloat(data.minPayment) || 0, currency),
       dueDate: data.dueDate,
       apr: parseFloat(data.apr) || 0,
       cashbackMinorUnits: initial?.cashbackMinorUnits ?? 0,
       status: (initial?.status ?? 'active') as CreditCard['status'],
       color: data.color,
-      currency: data.currency || 'GBP',
+      currency,
       notes: data.notes || undefined,
     };
     if (initial) {
@@ -179,13 +182,13 @@ function CardForm({ initial, onDone }: { initial?: CreditCard; onDone: () => voi
         <Input label="Currency" placeholder="GBP" {...register('currency')} />
       </div>
       <div className="grid grid-cols-2 gap-3">
-        <Input label="Credit Limit (£)" type="number" step="0.01" min="0" required error={errors.limit?.message}
+        <AmountInput label="Credit Limit" currency={currency} min="0" required error={errors.limit?.message}
           {...register('limit', { required: 'Required' })} />
-        <Input label="Current Balance (£)" type="number" step="0.01" min="0"
+        <AmountInput label="Current Balance" currency={currency} min="0"
           {...register('balance')} />
       </div>
       <div className="grid grid-cols-2 gap-3">
-        <Input label="Min. Payment (£)" type="number" step="0.01" min="0"
+        <AmountInput label="Min. Payment" currency={currency} min="0"
           {...register('minPayment')} />
         <Input label="APR (%)" type="number" step="0.1" min="0"
           {...register('apr')} />
@@ -240,7 +243,7 @@ function RecordPaymentForm({ card, onDone }: { card: CreditCard; onDone: () => v
   });
 
   async function onSubmit(data: PaymentFormData) {
-    await recordPayment(card.id, toMinor(parseFloat(data.amount)));
+    await recordPayment(card.id, toMinor(parseFloat(data.amount), card.currency));
     onDone();
   }
 
@@ -252,7 +255,7 @@ function RecordPaymentForm({ card, onDone }: { card: CreditCard; onDone: () => v
           {formatCurrency(card.balanceMinorUnits, card.currency)}
         </span>
       </p>
-      <Input label="Payment Amount (£)" type="number" step="0.01" min="0.01" required
+      <AmountInput label="Payment Amount" currency={card.currency} required
         {...register('amount', { required: true })} />
       <div className="flex gap-2 pt-2">
         <Button type="submit" loading={isSubmitting} variant="success" className="flex-1">
@@ -284,7 +287,7 @@ function AddSpendForm({ card, onDone }: { card: CreditCard; onDone: () => void }
     await addTransaction(card.id, {
       merchant: data.merchant,
       category: data.category,
-      amountMinorUnits: toMinor(parseFloat(data.amount)),
+      amountMinorUnits: toMinor(parseFloat(data.amount), card.currency),
       currency: card.currency,
       date: data.date,
       notes: data.notes || undefined,
@@ -296,7 +299,7 @@ function AddSpendForm({ card, onDone }: { card: CreditCard; onDone: () => void }
     <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
       <Input label="Merchant" placeholder="e.g. Tesco" required {...register('merchant', { required: true })} />
       <Input label="Category" placeholder="e.g. Groceries" required {...register('category', { required: true })} />
-      <Input label="Amount (£)" type="number" step="0.01" min="0.01" required
+      <AmountInput label="Amount" currency={card.currency} required
         {...register('amount', { required: true })} />
       <Input label="Date" type="date" required {...register('date', { required: true })} />
       <Textarea label="Notes" {...register('notes')} />
@@ -346,7 +349,6 @@ export default function CreditCardsPage() {
 
   function handleDelete(id: string) {
     remove(id);
-    showToast('Card removed');
     setActiveIdx(0);
   }
 
@@ -458,7 +460,7 @@ export default function CreditCardsPage() {
                 </DetailRow>
                 <DetailRow label="Payment Due">
                   <span className={card.status === 'overdue' ? 'text-red-600' : 'text-slate-800'}>
-                    {card.dueDate ? format(new Date(card.dueDate), 'd MMM yyyy') : '—'}
+                    {card.dueDate ? formatDate(card.dueDate) : '—'}
                   </span>
                 </DetailRow>
                 <DetailRow label="Purchase APR">
@@ -506,7 +508,7 @@ export default function CreditCardsPage() {
                             <div>
                               <p className="text-sm font-medium text-slate-800">{t.merchant}</p>
                               <p className="text-xs text-slate-400">
-                                {t.category} · {t.date ? format(new Date(t.date), 'd MMM') : ''}
+                                {t.category} · {t.date ? formatDate(t.date, 'dayMonth') : ''}
                               </p>
                             </div>
                           </div>
@@ -587,6 +589,12 @@ export default function CreditCardsPage() {
                 )}
               </div>
 
+              {/* Change history */}
+              <SectionLabel>History</SectionLabel>
+              <Card>
+                <HistoryTimeline table="credit_cards" rowId={card.id} version={card.updatedAt} currency={card.currency} />
+              </Card>
+
             </>
           )}
         </>
@@ -610,7 +618,7 @@ export default function CreditCardsPage() {
       <BottomSheet open={!!payingCard} onClose={() => setPayingCard(undefined)} title="Record Payment">
         {payingCard && (
           <div className="px-5 py-4">
-            <RecordPaymentForm card={payingCard} onDone={() => { setPayingCard(undefined); showToast('Payment recorded'); }} />
+            <RecordPaymentForm card={payingCard} onDone={() => setPayingCard(undefined)} />
           </div>
         )}
       </BottomSheet>
@@ -618,7 +626,7 @@ export default function CreditCardsPage() {
       <BottomSheet open={!!spendCard} onClose={() => setSpendCard(undefined)} title="Add Spend">
         {spendCard && (
           <div className="px-5 py-4">
-            <AddSpendForm card={spendCard} onDone={() => { setSpendCard(undefined); showToast('Spend added'); }} />
+            <AddSpendForm card={spendCard} onDone={() => setSpendCard(undefined)} />
           </div>
         )}
       </BottomSheet>
@@ -1,8 +1,10 @@
 import { useEffect, useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { format, startOfMonth, endOfMonth, isWithinInterval, subMonths, getDaysInMonth, getDate } from 'date-fns';
-import { formatCurrency, isScheduled as isTxnScheduled } from '../core/types';
+import { startOfMonth, endOfMonth, isWithinInterval, subMonths, getDaysInMonth, getDate } from 'date-fns';
+import { formatCurrency, isScheduled as isTxnScheduled, type Transaction } from '../core/types';
+import { formatDate } from '../core/locale';
 import { generateInsights, type Insight } from '../core/insights';
+import { sumInBase, totalsByCategory, type BaseTotal, type Converter, type Money } from '../core/fx';
 import { useAccountStore } from '../store/useAccountStore';
 import { useTransactionStore } from '../store/useTransactionStore';
 import { useSubscriptionStore } from '../store/useSubscriptionStore';
@@ -10,19 +12,33 @@ import { useLoanStore } from '../store/useLoanStore';
 import { useBudgetStore } from '../store/useBudgetStore';
 import { useGoalStore } from '../store/useGoalStore';
 import { useUIStore } from '../store/useUIStore';
+import { useConverter } from '../store/useFxStore';
 import Card, { CardHeader, CardTitle } from '../components/ui/Card';
 import Badge from '../components/ui/Badge';
+import OriginalAmounts from '../components/ui/OriginalAmounts';
 import NetBalanceChart from '../components/dashboard/NetBalanceChart';
 import CategoryDonut from '../components/dashboard/CategoryDonut';
 import UpcomingBills from '../components/dashboard/UpcomingBills';
 
+/** Month figures in the base currency. */
 interface MonthStats {
   income: number;
   expenses: number;
   net: number;
   savingsRate: number;
+  /** Net in the original currencies, shown under the converted total. */
+  netOriginal: BaseTotal;
 }
 
+const EMPTY_STATS: MonthStats = {
+  income: 0,
+  expenses: 0,
+  net: 0,
+  savingsRate: 0,
+  netOriginal: { total: 0, byCurrency: {}, unconverted: 0 },
+};
+
+/** Amounts in the account's own currency, plus the net in the base currency. */
 interface AccountMonthStat {
   id: string;
   name: string;
@@ -31,6 +47,31 @@ interface AccountMonthStat {
   income: number;
   expenses: number;
   net: number;
+  netInBase: number;
+}
+
+/** Income actually received — scheduled counts 0, partially_received only the received portion. */
+function receivedAmount(t: Transaction): number {
+  if (t.status === 'partially_received') return t.receivedAmountMinorUnits ?? 0;
+  if (isTxnScheduled(t)) return 0;
+  return t.amountMinorUnits;
+}
+
+function moneyOf(t: Transaction, amount = t.amountMinorUnits): Money {
+  return { amount, currency: t.currency, date: t.date };
+}
+
+function monthStats(income: Money[], expenses: Money[], fx: Converter): MonthStats {
+  const netOriginal = sumInBase(fx, [...income, ...expenses.map((m) => ({ ...m, amount: -m.amount }))]);
+  const incomeTotal = sumInBase(fx, income).total;
+  const expenseTotal = sumInBase(fx, expenses).total;
+  return {
+    income: incomeTotal,
+    expenses: expenseTotal,
+    net: netOriginal.total,
+    savingsRate: incomeTotal > 0 ? ((incomeTotal - expenseTotal) / incomeTotal) * 100 : 0,
+    netOriginal,
+  };
 }
 
 const QUICK_CURRENCIES = ['GBP', 'INR'] as const;
@@ -105,9 +146,10 @@ export default function DashboardPage() {
   const { budgets, load: loadBudgets } = useBudgetStore();
   const { goals, load: loadGoals } = useGoalStore();
   const { currency, setCurrency } = useUIStore();
+  const fx = useConverter();
 
-  const [stats, setStats] = useState<MonthStats>({ income: 0, expenses: 0, net: 0, savingsRate: 0 });
-  const [lastStats, setLastStats] = useState<MonthStats>({ income: 0, expenses: 0, net: 0, savingsRate: 0 });
+  const [stats, setStats] = useState<MonthStats>(EMPTY_STATS);
+  const [lastStats, setLastStats] = useState<MonthStats>(EMPTY_STATS);
   const [accountStats, setAccountStats] = useState<AccountMonthStat[]>([]);
   const [insights, setInsights] = useState<Insight[]>([]);
   const [spentByCategory, setSpentByCategory] = useState<Record<string, number>>({});
@@ -133,35 +175,18 @@ export default function DashboardPage() {
       (t) => !t.deletedAt && isWithinInterval(new Date(t.date), { start, end }),
     );
 
-    // Only count income actually received — scheduled counts 0, partially_received counts only received portion
-    const income = monthTxns
-      .filter((t) => t.type === 'income')
-      .reduce((s, t) => {
-        if (t.status === 'partially_received') return s + (t.receivedAmountMinorUnits ?? 0);
-        if (isTxnScheduled(t)) return s;
-        return s + t.amountMinorUnits;
-      }, 0);
-    const expenses = monthTxns.filter((t) => t.type === 'expense').reduce((s, t) => s + t.amountMinorUnits, 0);
-    setStats({
-      income,
-      expenses,
-      net: income - expenses,
-      savingsRate: income > 0 ? ((income - expenses) / income) * 100 : 0,
-    });
-
-    // Per-account net for this month (same future-income exclusion)
+    const incomeOf = (txns: Transaction[]) => txns.filter((t) => t.type === 'income').map((t) => moneyOf(t, receivedAmount(t)));
+    const expensesOf = (txns: Transaction[]) => txns.filter((t) => t.type === 'expense').map((t) => moneyOf(t));
+    setStats(monthStats(incomeOf(monthTxns), expensesOf(monthTxns), fx));
+
+    // Per-account net for this month (same future-income exclusion), in the account's currency
     const activeAccs = accounts.filter((a) => !a.isArchived && !a.deletedAt);
     setAccountStats(
       activeAccs.map((acc) => {
         const accTxns = monthTxns.filter((t) => t.accountId === acc.id);
-        const accIncome = accTxns
-          .filter((t) => t.type === 'income')
-          .reduce((s, t) => {
-            if (t.status === 'partially_received') return s + (t.receivedAmountMinorUnits ?? 0);
-            if (isTxnScheduled(t)) return s;
-            return s + t.amountMinorUnits;
-          }, 0);
-        const accExpenses = accTxns.filter((t) => t.type === 'expense').reduce((s, t) => s + t.amountMinorUnits, 0);
+        const inAccountCurrency = (m: Money) => fx.convert(m.amount, m.currency, acc.currency, m.date) ?? 0;
+        const accIncome = incomeOf(accTxns).reduce((s, m) => s + inAccountCurrency(m), 0);
+        const accExpenses = expensesOf(accTxns).reduce((s, m) => s + inAccountCurrency(m), 0);
         return {
           id: acc.id,
           name: acc.name,
@@ -170,16 +195,13 @@ export default function DashboardPage() {
           income: accIncome,
           expenses: accExpenses,
           net: accIncome - accExpenses,
+          netInBase: monthStats(incomeOf(accTxns), expensesOf(accTxns), fx).net,
         };
       }),
     );
 
-    // Spent by category this month
-    const catMap: Record<string, number> = {};
-    for (const t of monthTxns.filter((t) => t.type === 'expense')) {
-      catMap[t.category] = (catMap[t.category] ?? 0) + t.amountMinorUnits;
-    }
-    setSpentByCategory(catMap);
+    // Spent by category this month, for budgets (which are in the base currency)
+    setSpentByCategory(totalsByCategory(fx, monthTxns.filter((t) => t.type === 'expense')));
 
     // Last month
     const lastMonth = subMonths(now, 1);
@@ -188,15 +210,12 @@ export default function DashboardPage() {
     const lastTxns = transactions.filter(
       (t) => !t.deletedAt && isWithinInterval(new Date(t.date), { start: lastStart, end: lastEnd }),
     );
-    const lastIncome = lastTxns.filter((t) => t.type === 'income').reduce((s, t) => s + t.amountMinorUnits, 0);
-    const lastExpenses = lastTxns.filter((t) => t.type === 'expense').reduce((s, t) => s + t.amountMinorUnits, 0);
-    setLastStats({
-      income: lastIncome,
-      expenses: lastExpenses,
-      net: lastIncome - lastExpenses,
-      savingsRate: lastIncome > 0 ? ((lastIncome - lastExpenses) / lastIncome) * 100 : 0,
-    });
-  }, [transactions, accounts]);
+    setLastStats(monthStats(
+      lastTxns.filter((t) => t.type === 'income').map((t) => moneyOf(t)),
+      expensesOf(lastTxns),
+      fx,
+    ));
+  }, [transactions, accounts, fx]);
 
   useEffect(() => {
     generateInsights().then(setInsights).catch(console.error);
@@ -227,35 +246,29 @@ export default function DashboardPage() {
       ? `Saving ${stats.savingsRate.toFixed(0)}% · Aim for 15%+`
       : 'Spending more than you earn this month';
 
-  // Sum of account nets for the currently selected display currency
-  const accountsInCurrency = accountStats.filter((a) => a.currency === currency);
-  const totalForCurrency = accountsInCurrency.length > 0
-    ? accountsInCurrency.reduce((s, a) => s + a.net, 0)
-    : stats.net;
-
+  // Balances and recurring costs are converted at today's rate
   const activeLoans = loans.filter((l) => l.status !== 'settled' && !l.deletedAt);
-  const totalOwed = activeLoans
-    .filter((l) => l.direction === 'lent')
-    .reduce((s, l) => s + l.remainingMinorUnits, 0);
-  const totalBorrowed = activeLoans
+  const borrowed = sumInBase(fx, activeLoans
     .filter((l) => l.direction === 'borrowed')
-    .reduce((s, l) => s + l.remainingMinorUnits, 0);
+    .map((l) => ({ amount: l.remainingMinorUnits, currency: l.currency })));
+  const totalBorrowed = borrowed.total;
 
-  const monthlySubCost = subscriptions
+  const monthlySubs = sumInBase(fx, subscriptions
     .filter((s) => s.isActive && !s.deletedAt)
-    .reduce((s, sub) => {
-      const monthly =
+    .map((sub) => ({
+      amount:
         sub.billingCycle === 'weekly' ? sub.amountMinorUnits * 4.33
         : sub.billingCycle === 'quarterly' ? sub.amountMinorUnits / 3
         : sub.billingCycle === 'annual' ? sub.amountMinorUnits / 12
-        : sub.amountMinorUnits;
-      return s + monthly;
-    }, 0);
+        : sub.amountMinorUnits,
+      currency: sub.currency,
+    })));
+  const monthlySubCost = monthlySubs.total;
 
   // Goals summary
   const activeGoals = goals.filter((g) => !g.isAchieved && !g.deletedAt);
-  const totalGoalTarget = activeGoals.reduce((s, g) => s + g.targetMinorUnits, 0);
-  const totalGoalCurrent = activeGoals.reduce((s, g) => s + g.currentMinorUnits, 0);
+  const totalGoalTarget = sumInBase(fx, activeGoals.map((g) => ({ amount: g.targetMinorUnits, currency: g.currency }))).total;
+  const totalGoalCurrent = sumInBase(fx, activeGoals.map((g) => ({ amount: g.currentMinorUnits, currency: g.currency }))).total;
   const goalsProgress = totalGoalTarget > 0 ? (totalGoalCurrent / totalGoalTarget) * 100 : 0;
 
   // Finance report guidance — derived from overall data
@@ -305,7 +318,7 @@ export default function DashboardPage() {
             healthColor === 'emerald' ? 'bg-emerald-400' : healthColor === 'amber' ? 'bg-amber-400' : 'bg-red-400'
           }`} />
           <div className="flex-1 min-w-0">
-            <p className="text-sm font-semibold text-slate-800">{format(now, 'MMMM yyyy')}</p>
+            <p className="text-sm font-semibold text-slate-800">{formatDate(now, 'monthYear')}</p>
             <p className={`text-xs mt-0.5 ${
               healthColor === 'emerald' ? 'text-emerald-600' : healthColor === 'amber' ? 'text-amber-600' : 'text-red-600'
             }`}>{healthMsg}</p>
@@ -356,11 +369,16 @@ export default function DashboardPage() {
                   <h2 className="text-sm font-medium text-slate-500 truncate">{acc.name}</h2>
                   <span className="text-xs text-slate-400 uppercase shrink-0">{acc.currency}</span>
                 </div>
-                <h2 className={`text-base font-semibold shrink-0 tabular-nums ${
-                  acc.net > 0 ? 'text-emerald-600' : acc.net < 0 ? 'text-red-600' : 'text-slate-400'
-                }`}>
-                  {acc.net > 0 ? '+' : ''}{formatCurrency(acc.net, acc.currency)}
-                </h2>
+                <div className="text-right shrink-0">
+                  <h2 className={`text-base font-semibold tabular-nums ${
+                    acc.net > 0 ? 'text-emerald-600' : acc.net < 0 ? 'text-red-600' : 'text-slate-400'
+                  }`}>
+                    {acc.net > 0 ? '+' : ''}{formatCurrency(acc.net, acc.currency)}
+                  </h2>
+                  {acc.currency !== currency && acc.net !== 0 && (
+                    <p className="text-xs text-slate-400 tabular-nums">≈ {formatCurrency(acc.netInBase, currency)}</p>
+                  )}
+                </div>
               </div>
             ))}
             {/* divider before total */}
@@ -372,22 +390,18 @@ export default function DashboardPage() {
         <div>
           <div className="flex items-baseline gap-3 flex-wrap">
             <h1 className={`text-[2.75rem] font-extrabold tracking-tight leading-none ${
-              totalForCurrency >= 0 ? 'text-sky-600' : 'text-red-600'
+              stats.net >= 0 ? 'text-sky-600' : 'text-red-600'
             }`}>
-              {totalForCurrency >= 0 ? '+' : ''}{formatCurrency(totalForCurrency, currency)}
+              {stats.net >= 0 ? '+' : ''}{formatCurrency(stats.net, currency)}
             </h1>
             <div className="flex items-center gap-1.5">
-              <TrendBadge current={totalForCurrency} prev={lastStats.net} />
+              <TrendBadge current={stats.net} prev={lastStats.net} />
               {lastStats.net !== 0 && (
-                <span className="text-xs text-slate-400">vs {format(subMonths(now, 1), 'MMM')}</span>
+                <span className="text-xs text-slate-400">vs {formatDate(subMonths(now, 1), 'month')}</span>
               )}
             </div>
           </div>
-          {accountsInCurrency.length === 0 && accountStats.length > 0 && (
-            <p className="text-xs text-slate-400 mt-1">
-              No {currency} accounts — add one in Settings to see a {currency} total
-            </p>
-          )}
+          <OriginalAmounts total={stats.netOriginal} className="mt-1" />
         </div>
 
         {/* ── KPI row ── */}
@@ -440,6 +454,7 @@ export default function DashboardPage() {
             {formatCurrency(monthlySubCost, currency)}
           </p>
           <p className="text-xs text-slate-400 mt-1.5">{subscriptions.filter((s) => s.isActive).length} active subscriptions</p>
+          <OriginalAmounts total={monthlySubs} className="mt-0.5" />
         </button>
 
         <button
@@ -454,6 +469,7 @@ export default function DashboardPage() {
           <p className="text-xs text-slate-400 mt-1.5">
             {totalBorrowed > 0 ? `${activeLoans.filter((l) => l.direction === 'borrowed').length} active loan${activeLoans.filter((l) => l.direction === 'borrowed').length !== 1 ? 's' : ''}` : 'No active loans'}
           </p>
+          <OriginalAmounts total={borrowed} className="mt-0.5" />
         </button>
       </div>
 
@@ -1,16 +1,19 @@
 import { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
-import { format, differenceInDays, parseISO } from 'date-fns';
+import { differenceInDays, parseISO } from 'date-fns';
 import { useGoalStore } from '../store/useGoalStore';
 import { useTransactionStore } from '../store/useTransactionStore';
 import { useAccountStore } from '../store/useAccountStore';
+import { useUIStore } from '../store/useUIStore';
 import type { FinancialGoal } from '../core/types';
-import { formatCurrency, toMinor } from '../core/types';
+import { formatCurrency, toMajor, toMinor } from '../core/types';
+import { formatDate, formatTime } from '../core/locale';
 import Modal from '../components/ui/Modal';
 import Button from '../components/ui/Button';
 import Badge from '../components/ui/Badge';
 import Card from '../components/ui/Card';
 import Input from '../components/ui/Input';
+import AmountInput from '../components/ui/AmountInput';
 import Select from '../components/ui/Select';
 import Textarea from '../components/ui/Textarea';
 
@@ -34,12 +37,14 @@ interface GoalFormData {
 
 function GoalForm({ initial, onDone }: { initial?: FinancialGoal; onDone: () => void }) {
   const { add, update } = useGoalStore();
+  const base = useUIStore((s) => s.currency);
+  const currency = initial?.currency ?? base;
   const { register, handleSubmit, formState: { isSubmitting } } = useForm<GoalFormData>({
     defaultValues: {
       name: initial?.name ?? '',
-      targetAmount: initial ? String(initial.targetMinorUnits / 100) : '',
-      currentAmount: initial ? String(initial.currentMinorUnits / 100) : '0',
-      currency: initial?.currency ?? 'GBP',
+      targetAmount: initial ? String(toMajor(initial.targetMinorUnits, initial.currency)) : '',
+      currentAmount: initial ? String(toMajor(initial.currentMinorUnits, initial.currency)) : '0',
+      currency,
       targetDate: initial?.targetDate ?? '',
       category: initial?.category ?? 'custom',
       notes: initial?.notes ?? '',
@@ -47,13 +52,13 @@ function GoalForm({ initial, onDone }: { initial?: FinancialGoal; onDone: () =>
   });
 
   async function onSubmit(data: GoalFormData) {
-    const target = toMinor(parseFloat(data.targetAmount));
-    const current = toMinor(parseFloat(data.currentAmount || '0'));
+    const target = toMinor(parseFloat(data.targetAmount), currency);
+    const current = toMinor(parseFloat(data.currentAmount || '0'), currency);
     const payload = {
       name: data.name,
       targetMinorUnits: target,
       currentMinorUnits: current,
-      currency: data.currency || 'GBP',
+      currency,
       targetDate: data.targetDate || undefined,
       category: data.category as FinancialGoal['category'],
       notes: data.notes || undefined,
@@ -72,8 +77,8 @@ function GoalForm({ initial, onDone }: { initial?: FinancialGoal; onDone: () =>
       <Input label="Goal Name" placeholder="e.g. Send money to papa India" required {...register('name', { required: true })} />
       <Select label="Category" options={GOAL_CATEGORIES} {...register('category')} />
       <div className="grid grid-cols-2 gap-3">
-        <Input label="Target Amount (£)" type="number" step="0.01" min="1" required {...register('targetAmount', { required: true })} />
-        <Input label="Already saved (£)" type="number" step="0.01" min="0" {...register('currentAmount')} />
+        <AmountInput label="Target Amount" currency={currency} required {...register('targetAmount', { required: true })} />
+        <AmountInput label="Already saved" currency={currency} min="0" {...register('currentAmount')} />
       </div>
       <Input label="Target Date (optional)" type="date" {...register('targetDate')} />
       <Textarea label="Notes" {...register('notes')} />
@@ -120,7 +125,7 @@ function GoalProjection({ goal }: { goal: FinancialGoal }) {
 
   if (dailyRate > 0 && remaining > 0) {
     const projectedDate = new Date(now.getTime() + (remaining / dailyRate) * 86400000);
-    return <p className="text-xs text-slate-400">At current pace: {format(projectedDate, 'MMM yyyy')}</p>;
+    return <p className="text-xs text-slate-400">At current pace: {formatDate(projectedDate, 'monthShortYear')}</p>;
   }
   return null;
 }
@@ -167,7 +172,7 @@ function GoalCard({
           </div>
           <p className="text-xs text-slate-400 mt-0.5">
             {GOAL_CATEGORIES.find((c) => c.value === goal.category)?.label}
-            {goal.targetDate && ` · Target: ${format(new Date(goal.targetDate), 'd MMM yyyy')}`}
+            {goal.targetDate && ` · Target: ${formatDate(goal.targetDate)}`}
           </p>
         </div>
         <div className="text-right shrink-0">
@@ -218,9 +223,9 @@ function GoalCard({
               <div className="grid grid-cols-3 items-center gap-1">
                 <div>
                   <p className="text-xs font-medium text-slate-800">
-                    {format(parseISO(t.date), 'd MMM yyyy')}
+                    {formatDate(t.date)}
                   </p>
-                  <p className="text-xs text-slate-400">{format(parseISO(t.createdAt), 'h:mm a')}</p>
+                  <p className="text-xs text-slate-400">{formatTime(t.createdAt)}</p>
                 </div>
                 <p className="text-xs text-slate-500 text-center truncate">{getAccountName(t.accountId)}</p>
                 <p className="text-sm font-bold text-sky-700 text-right">
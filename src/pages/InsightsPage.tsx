@@ -8,15 +8,19 @@ import {
   Tooltip,
   ResponsiveContainer,
 } from 'recharts';
-import { subMonths, startOfMonth, endOfMonth, format, isWithinInterval } from 'date-fns';
+import { subMonths, addMonths, startOfMonth, endOfMonth, format, isWithinInterval } from 'date-fns';
 import { generateInsights, type Insight } from '../core/insights';
 import { useTransactionStore } from '../store/useTransactionStore';
 import { useSubscriptionStore } from '../store/useSubscriptionStore';
 import { useLoanStore } from '../store/useLoanStore';
 import { useBudgetStore } from '../store/useBudgetStore';
 import { useGoalStore } from '../store/useGoalStore';
-import { formatCurrency, toMajor } from '../core/types';
+import { formatCurrency, toMajor, toMinor, type Subscription, type Transaction } from '../core/types';
+import { formatDate, formatNumber } from '../core/locale';
+import { sumInBase, totalsByCategory, type Converter } from '../core/fx';
+import { useConverter } from '../store/useFxStore';
 import { db } from '../core/db';
+import { getCurrentUserId } from '../auth/useAuthStore';
 import Card, { CardHeader, CardTitle } from '../components/ui/Card';
 import Badge from '../components/ui/Badge';
 import { Link } from 'react-router-dom';
@@ -28,6 +32,27 @@ interface MonthData {
   savings: number;
 }
 
+/** Base-currency total of one type of transaction, each converted at its date. */
+function totalOfType(fx: Converter, txns: Transaction[], type: Transaction['type']): number {
+  return sumInBase(fx, txns
+    .filter((t) => t.type === type)
+    .map((t) => ({ amount: t.amountMinorUnits, currency: t.currency, date: t.date }))).total;
+}
+
+/** Monthly cost of active subscriptions in the base currency, at today's rates. */
+function monthlySubCost(fx: Converter, subscriptions: Subscription[]): number {
+  return sumInBase(fx, subscriptions
+    .filter((s) => s.isActive && !s.deletedAt)
+    .map((sub) => ({
+      amount:
+        sub.billingCycle === 'weekly' ? sub.amountMinorUnits * 4.33
+        : sub.billingCycle === 'quarterly' ? sub.amountMinorUnits / 3
+        : sub.billingCycle === 'annual' ? sub.amountMinorUnits / 12
+        : sub.amountMinorUnits,
+      currency: sub.currency,
+    }))).total;
+}
+
 const INSIGHT_COLORS: Record<Insight['type'], 'warning' | 'success' | 'info' | 'danger'> = {
   warning: 'warning',
   suggestion: 'info',
@@ -35,7 +60,9 @@ const INSIGHT_COLORS: Record<Insight['type'], 'warning' | 'success' | 'info' | '
   success: 'success',
 };
 
+/** Amounts are in `currency`, the base currency. */
 interface FinanceReport {
+  currency: string;
   savingsRate: number;
   income: number;
   expenses: number;
@@ -98,7 +125,7 @@ function FinanceReportPanel({ report }: { report: FinanceReport }) {
 
   // Subscriptions
   if (report.income > 0 && report.subPctOfIncome > 25) {
-    tips.push({ text: `Subscriptions are ${report.subPctOfIncome.toFixed(0)}% of income (${formatCurrency(report.subMonthlyTotal, 'GBP')}/mo). Consider cancelling unused ones.`, severity: 'bad', to: '/subscriptions' });
+    tips.push({ text: `Subscriptions are ${report.subPctOfIncome.toFixed(0)}% of income (${formatCurrency(report.subMonthlyTotal, report.currency)}/mo). Consider cancelling unused ones.`, severity: 'bad', to: '/subscriptions' });
   } else if (report.income > 0 && report.subPctOfIncome > 15) {
     tips.push({ text: `Subscriptions are ${report.subPctOfIncome.toFixed(0)}% of income. Review to keep below 15%.`, severity: 'warn', to: '/subscriptions' });
   }
@@ -107,7 +134,7 @@ function FinanceReportPanel({ report }: { report: FinanceReport }) {
   if (report.overdueLoansCount > 0) {
     tips.push({ text: `${report.overdueLoansCount} overdue loan${report.overdueLoansCount > 1 ? 's' : ''}. Record payments or update due dates.`, severity: 'bad', to: '/loans' });
   } else if (report.activeLoansCount > 0) {
-    tips.push({ text: `${report.activeLoansCount} active loan${report.activeLoansCount > 1 ? 's' : ''} totalling ${formatCurrency(report.totalDebt, 'GBP')}. Use the Avalanche or Snowball method below to pay efficiently.`, severity: 'warn', to: '/loans' });
+    tips.push({ text: `${report.activeLoansCount} active loan${report.activeLoansCount > 1 ? 's' : ''} totalling ${formatCurrency(report.totalDebt, report.currency)}. Use the Avalanche or Snowball method below to pay efficiently.`, severity: 'warn', to: '/loans' });
   }
 
   // Budgets
@@ -161,13 +188,14 @@ export default function InsightsPage() {
   const { loans, load: loadLoans } = useLoanStore();
   const { budgets, load: loadBudgets } = useBudgetStore();
   const { goals, load: loadGoals } = useGoalStore();
+  const fx = useConverter();
   const [insights, setInsights] = useState<Insight[]>([]);
   const [monthlyData, setMonthlyData] = useState<MonthData[]>([]);
   const [topCategories, setTopCategories] = useState<Array<{ category: string; amount: number }>>([]);
   const [savingsRate, setSavingsRate] = useState(0);
   const [cashFlow, setCashFlow] = useState(0);
   const [report, setReport] = useState<FinanceReport>({
-    savingsRate: 0, income: 0, expenses: 0,
+    currency: fx.base, savingsRate: 0, income: 0, expenses: 0,
     subMonthlyTotal: 0, subPctOfIncome: 0,
     activeLoansCount: 0, totalDebt: 0, overdueLoansCount: 0,
     budgetsTotal: 0, budgetsOverCount: 0,
@@ -185,35 +213,36 @@ export default function InsightsPage() {
   useEffect(() => {
     generateInsights().then(setInsights).catch(console.error);
     buildCharts();
-  }, [transactions, subscriptions, loans]);
+  }, [transactions, subscriptions, loans, fx]);
 
   useEffect(() => {
     buildReport();
-  }, [transactions, subscriptions, loans, budgets, goals]);
+  }, [transactions, subscriptions, loans, budgets, goals, fx]);
 
   async function buildCharts() {
     const now = new Date();
     const points: MonthData[] = [];
+    const userId = getCurrentUserId();
 
     for (let i = 5; i >= 0; i--) {
       const monthDate = subMonths(now, i);
       const start = startOfMonth(monthDate);
-      const end = endOfMonth(monthDate);
 
       const txns = await db.transactions
-        .filter(
-          (t) => !t.deletedAt && isWithinInterval(new Date(t.date), { start, end }),
-        )
+        .forUser(userId)
+        .query()
+        .gte('date', format(start, 'yyyy-MM-dd'))
+        .lt('date', format(addMonths(start, 1), 'yyyy-MM-dd'))
         .toArray();
 
-      const income = txns.filter((t) => t.type === 'income').reduce((s, t) => s + t.amountMinorUnits, 0);
-      const expenses = txns.filter((t) => t.type === 'expense').reduce((s, t) => s + t.amountMinorUnits, 0);
+      const income = totalOfType(fx, txns, 'income');
+      const expenses = totalOfType(fx, txns, 'expense');
 
       points.push({
-        month: format(monthDate, 'MMM'),
-        income: toMajor(income),
-        expenses: toMajor(expenses),
-        savings: toMajor(income - expenses),
+        month: formatDate(monthDate, 'month'),
+        income: toMajor(income, fx.base),
+        expenses: toMajor(expenses, fx.base),
+        savings: toMajor(income - expenses, fx.base),
       });
     }
 
@@ -226,35 +255,20 @@ export default function InsightsPage() {
     const currentTxns = transactions.filter(
       (t) => !t.deletedAt && isWithinInterval(new Date(t.date), { start: currentStart, end: currentEnd }),
     );
-    const income = currentTxns.filter((t) => t.type === 'income').reduce((s, t) => s + t.amountMinorUnits, 0);
-    const expenses = currentTxns.filter((t) => t.type === 'expense').reduce((s, t) => s + t.amountMinorUnits, 0);
+    const income = totalOfType(fx, currentTxns, 'income');
+    const expenses = totalOfType(fx, currentTxns, 'expense');
 
     setSavingsRate(income > 0 ? ((income - expenses) / income) * 100 : 0);
 
     // Top categories
-    const catMap: Record<string, number> = {};
-    for (const t of currentTxns.filter((t) => t.type === 'expense')) {
-      catMap[t.category] = (catMap[t.category] ?? 0) + t.amountMinorUnits;
-    }
-    const cats = Object.entries(catMap)
+    const cats = Object.entries(totalsByCategory(fx, currentTxns.filter((t) => t.type === 'expense')))
       .map(([category, amount]) => ({ category, amount }))
       .sort((a, b) => b.amount - a.amount)
       .slice(0, 8);
     setTopCategories(cats);
 
     // Cash flow: avg income - fixed subs next 30 days
-    const totalIncome = currentTxns.filter((t) => t.type === 'income').reduce((s, t) => s + t.amountMinorUnits, 0);
-    const monthSubs = subscriptions
-      .filter((s) => s.isActive && !s.deletedAt)
-      .reduce((s, sub) => {
-        const monthly =
-          sub.billingCycle === 'weekly' ? sub.amountMinorUnits * 4.33
-          : sub.billingCycle === 'quarterly' ? sub.amountMinorUnits / 3
-          : sub.billingCycle === 'annual' ? sub.amountMinorUnits / 12
-          : sub.amountMinorUnits;
-        return s + monthly;
-      }, 0);
-    setCashFlow(totalIncome - monthSubs);
+    setCashFlow(income - monthlySubCost(fx, subscriptions));
   }
 
   function buildReport() {
@@ -264,36 +278,27 @@ export default function InsightsPage() {
     const currentTxns = transactions.filter(
       (t) => !t.deletedAt && isWithinInterval(new Date(t.date), { start: currentStart, end: currentEnd }),
     );
-    const income = currentTxns.filter((t) => t.type === 'income').reduce((s, t) => s + t.amountMinorUnits, 0);
-    const expenses = currentTxns.filter((t) => t.type === 'expense').reduce((s, t) => s + t.amountMinorUnits, 0);
+    const income = totalOfType(fx, currentTxns, 'income');
+    const expenses = totalOfType(fx, currentTxns, 'expense');
     const sr = income > 0 ? ((income - expenses) / income) * 100 : 0;
 
-    const activeSubs = subscriptions.filter((s) => s.isActive && !s.deletedAt);
-    const subMonthlyTotal = activeSubs.reduce((s, sub) => {
-      const monthly =
-        sub.billingCycle === 'weekly' ? sub.amountMinorUnits * 4.33
-        : sub.billingCycle === 'quarterly' ? sub.amountMinorUnits / 3
-        : sub.billingCycle === 'annual' ? sub.amountMinorUnits / 12
-        : sub.amountMinorUnits;
-      return s + monthly;
-    }, 0);
+    const subMonthlyTotal = monthlySubCost(fx, subscriptions);
 
     const activeLoans = loans.filter((l) => l.status !== 'settled' && !l.deletedAt);
     const overdueLoans = activeLoans.filter((l) => l.dueDate && new Date(l.dueDate) < now);
-    const totalDebt = activeLoans.reduce((s, l) => s + l.remainingMinorUnits, 0);
+    const totalDebt = sumInBase(fx, activeLoans.map((l) => ({ amount: l.remainingMinorUnits, currency: l.currency }))).total;
 
     const activeBudgets = budgets.filter((b) => b.isActive && !b.deletedAt);
-    const spentByCategory: Record<string, number> = {};
-    for (const t of currentTxns.filter((t) => t.type === 'expense')) {
-      spentByCategory[t.category] = (spentByCategory[t.category] ?? 0) + t.amountMinorUnits;
-    }
-    const budgetsOver = activeBudgets.filter((b) => (spentByCategory[b.category] ?? 0) > b.amountMinorUnits);
+    const spentByCategory = totalsByCategory(fx, currentTxns.filter((t) => t.type === 'expense'));
+    const budgetsOver = activeBudgets.filter((b) =>
+      (spentByCategory[b.category] ?? 0) > (fx.toBase(b.amountMinorUnits, b.currency ?? fx.base) ?? b.amountMinorUnits));
 
     const activeGoals = goals.filter((g) => !g.isAchieved && !g.deletedAt);
-    const totalTarget = activeGoals.reduce((s, g) => s + g.targetMinorUnits, 0);
-    const totalCurrent = activeGoals.reduce((s, g) => s + g.currentMinorUnits, 0);
+    const totalTarget = sumInBase(fx, activeGoals.map((g) => ({ amount: g.targetMinorUnits, currency: g.currency }))).total;
+    const totalCurrent = sumInBase(fx, activeGoals.map((g) => ({ amount: g.currentMinorUnits, currency: g.currency }))).total;
 
     setReport({
+      currency: fx.base,
       savingsRate: sr,
       income,
       expenses,
@@ -311,6 +316,7 @@ export default function InsightsPage() {
 
   // Debt payoff order (avalanche = highest interest first)
   const activeLoans = loans.filter((l) => l.status !== 'settled' && !l.deletedAt);
+  const loansTotal = sumInBase(fx, activeLoans.map((l) => ({ amount: l.remainingMinorUnits, currency: l.currency }))).total;
   const avalanche = [...activeLoans].sort(
     (a, b) => (b.interestRate ?? 0) - (a.interestRate ?? 0),
   );
@@ -328,14 +334,14 @@ export default function InsightsPage() {
       <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
         <ReportCard
           title="Savings Rate"
-          value={`${savingsRate.toFixed(1)}%`}
+          value={`${formatNumber(savingsRate, { minimumFractionDigits: 1, maximumFractionDigits: 1 })}%`}
           sub="Target: 20%+"
           color={savingsRate >= 20 ? 'green' : savingsRate >= 10 ? 'amber' : 'red'}
           to="/transactions"
         />
         <ReportCard
           title="Projected Cash Flow"
-          value={formatCurrency(cashFlow, 'GBP')}
+          value={formatCurrency(cashFlow, fx.base)}
           sub="Income minus subs"
           color={cashFlow >= 0 ? 'green' : 'red'}
           to="/subscriptions"
@@ -343,7 +349,7 @@ export default function InsightsPage() {
         <ReportCard
           title="Active Loans"
           value={String(activeLoans.length)}
-          sub={activeLoans.length > 0 ? `${formatCurrency(activeLoans.reduce((s, l) => s + l.remainingMinorUnits, 0), 'GBP')} total` : 'No active loans'}
+          sub={activeLoans.length > 0 ? `${formatCurrency(loansTotal, fx.base)} total` : 'No active loans'}
           color={activeLoans.length === 0 ? 'green' : 'amber'}
           to="/loans"
         />
@@ -388,10 +394,10 @@ export default function InsightsPage() {
             <BarChart data={monthlyData} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
               <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
               <XAxis dataKey="month" tick={{ fill: '#94a3b8', fontSize: 12 }} axisLine={false} tickLine={false} />
-              <YAxis tick={{ fill: '#94a3b8', fontSize: 11 }} axisLine={false} tickLine={false} tickFormatter={(v) => `£${v}`} width={55} />
+              <YAxis tick={{ fill: '#94a3b8', fontSize: 11 }} axisLine={false} tickLine={false} tickFormatter={(v) => formatCurrency(toMinor(v, fx.base), fx.base, true)} width={55} />
               <Tooltip
                 contentStyle={{ backgroundColor: '#ffffff', border: '1px solid #e2e8f0', borderRadius: 8 }}
-                formatter={(value: number | undefined, name: string | undefined) => [`£${(value ?? 0).toFixed(2)}`, (name ?? '').charAt(0).toUpperCase() + (name ?? '').slice(1)] as [string, string]}
+                formatter={(value: number | undefined, name: string | undefined) => [formatCurrency(toMinor(value ?? 0, fx.base), fx.base), (name ?? '').charAt(0).toUpperCase() + (name ?? '').slice(1)] as [string, string]}
               />
               <Bar dataKey="income" fill="#10b981" name="income" radius={[4, 4, 0, 0]} />
               <Bar dataKey="expenses" fill="#ef4444" name="expenses" radius={[4, 4, 0, 0]} />
@@ -415,7 +421,7 @@ export default function InsightsPage() {
                 <div key={cat.category}>
                   <div className="flex justify-between text-xs mb-1">
                     <span className="text-slate-700">{cat.category}</span>
-                    <span className="text-slate-500">{formatCurrency(cat.amount, 'GBP')}</span>
+                    <span className="text-slate-500">{formatCurrency(cat.amount, fx.base)}</span>
                   </div>
                   <div className="w-full bg-slate-100 rounded-full h-1.5">
                     <div
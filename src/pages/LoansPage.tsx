@@ -1,17 +1,19 @@
 import { useEffect, useState } from 'react';
-import { useForm } from 'react-hook-form';
-import { format } from 'date-fns';
+import { useForm, useWatch } from 'react-hook-form';
 import { useLoanStore } from '../store/useLoanStore';
 import type { Loan } from '../core/types';
-import { formatCurrency, toMinor } from '../core/types';
+import { formatCurrency, toMajor, toMinor } from '../core/types';
+import { formatDate } from '../core/locale';
 import { useUIStore } from '../store/useUIStore';
 import Modal from '../components/ui/Modal';
 import Button from '../components/ui/Button';
 import Badge from '../components/ui/Badge';
 import Card from '../components/ui/Card';
 import Input from '../components/ui/Input';
+import AmountInput from '../components/ui/AmountInput';
 import Select from '../components/ui/Select';
 import Textarea from '../components/ui/Textarea';
+import HistoryTimeline from '../components/history/HistoryTimeline';
 
 const STATUS_LABELS: Record<Loan['status'], string> = {
   active: 'Active',
@@ -46,11 +48,11 @@ interface PaymentFormData {
 
 function LoanForm({ initial, onDone }: { initial?: Loan; onDone: () => void }) {
   const { add, update } = useLoanStore();
-  const { register, handleSubmit, formState: { errors, isSubmitting } } = useForm<LoanFormData>({
+  const { register, handleSubmit, control, formState: { errors, isSubmitting } } = useForm<LoanFormData>({
     defaultValues: {
       direction: initial?.direction ?? 'lent',
       counterparty: initial?.counterparty ?? '',
-      amount: initial ? String(initial.principalMinorUnits / 100) : '',
+      amount: initial ? String(toMajor(initial.principalMinorUnits, initial.currency)) : '',
       currency: initial?.currency ?? 'GBP',
       interestRate: initial?.interestRate ? String(initial.interestRate) : '',
       startDate: initial?.startDate ?? new Date().toISOString().split('T')[0],
@@ -59,13 +61,15 @@ function LoanForm({ initial, onDone }: { initial?: Loan; onDone: () => void }) {
     },
   });
 
+  const currency = useWatch({ control, name: 'currency' }).trim().toUpperCase() || 'GBP';
+
   async function onSubmit(data: LoanFormData) {
-    const principal = toMinor(parseFloat(data.amount));
+    const principal = toMinor(parseFloat(data.amount), currency);
     const payload = {
       direction: data.direction,
       counterparty: data.counterparty,
       principalMinorUnits: principal,
-      currency: data.currency || 'GBP',
+      currency,
       remainingMinorUnits: initial?.remainingMinorUnits ?? principal,
       interestRate: data.interestRate ? parseFloat(data.interestRate) : undefined,
       startDate: data.startDate,
@@ -91,7 +95,7 @@ function LoanForm({ initial, onDone }: { initial?: Loan; onDone: () => void }) {
       <Input label="Person / Entity" placeholder="e.g. John Smith" required error={errors.counterparty?.message}
         {...register('counterparty', { required: 'Required' })} />
       <div className="grid grid-cols-2 gap-3">
-        <Input label="Amount" type="number" step="0.01" min="0.01" required error={errors.amount?.message}
+        <AmountInput label="Amount" currency={currency} required error={errors.amount?.message}
           {...register('amount', { required: 'Required' })} />
         <Input label="Currency" placeholder="GBP" {...register('currency')} />
       </div>
@@ -119,7 +123,7 @@ function PaymentForm({ loan, onDone }: { loan: Loan; onDone: () => void }) {
 
   async function onSubmit(data: PaymentFormData) {
     await addPayment(loan.id, {
-      amount: toMinor(parseFloat(data.amount)),
+      amount: toMinor(parseFloat(data.amount), loan.currency),
       date: data.date,
       notes: data.notes || undefined,
     });
@@ -134,7 +138,7 @@ function PaymentForm({ loan, onDone }: { loan: Loan; onDone: () => void }) {
           {formatCurrency(loan.remainingMinorUnits, loan.currency)}
         </span>
       </p>
-      <Input label="Payment Amount" type="number" step="0.01" min="0.01" required
+      <AmountInput label="Payment Amount" currency={loan.currency} required
         {...register('amount', { required: true })} />
       <Input label="Date" type="date" required {...register('date', { required: true })} />
       <Textarea label="Notes" {...register('notes')} />
@@ -169,7 +173,7 @@ function EditPaymentRow({
   const payment = loan.payments.find((p) => p.id === paymentId);
   const { register, handleSubmit, formState: { isSubmitting } } = useForm<EditPaymentFormData>({
     defaultValues: {
-      amount: payment ? String(payment.amount / 100) : '',
+      amount: payment ? String(toMajor(payment.amount, loan.currency)) : '',
       date: payment?.date ?? new Date().toISOString().split('T')[0],
       notes: payment?.notes ?? '',
     },
@@ -177,7 +181,7 @@ function EditPaymentRow({
 
   async function onSubmit(data: EditPaymentFormData) {
     await updatePayment(loan.id, paymentId, {
-      amount: toMinor(parseFloat(data.amount)),
+      amount: toMinor(parseFloat(data.amount), loan.currency),
       date: data.date,
       notes: data.notes || undefined,
     });
@@ -188,11 +192,9 @@ function EditPaymentRow({
     <li className="px-2 py-2 rounded-lg bg-slate-100/30 border border-slate-300/40">
       <form onSubmit={handleSubmit(onSubmit)} className="space-y-2">
         <div className="grid grid-cols-2 gap-2">
-          <Input
+          <AmountInput
             label="Amount"
-            type="number"
-            step="0.01"
-            min="0.01"
+            currency={loan.currency}
             required
             {...register('amount', { required: true })}
           />
@@ -271,7 +273,7 @@ function PaymentHistoryDropdown({ loan }: { loan: Loan }) {
                       +{formatCurrency(p.amount, loan.currency)}
                     </p>
                     <p className="text-xs text-slate-400 leading-tight">
-                      {format(new Date(p.date), 'd MMM yyyy')}
+                      {formatDate(p.date)}
                       {p.notes && (
                         <> · <span className="italic text-slate-400">{p.notes}</span></>
                       )}
@@ -312,6 +314,42 @@ function PaymentHistoryDropdown({ loan }: { loan: Loan }) {
   );
 }
 
+// ── Change history dropdown ───────────────────────────────────────────────────
+
+function ChangeHistoryDropdown({ loan }: { loan: Loan }) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="mt-1">
+      <button
+        onClick={() => setOpen((o) => !o)}
+        className="flex items-center gap-2 text-xs text-slate-400 hover:text-slate-700 transition-colors w-full text-left py-1 rounded-lg px-1 hover:bg-slate-100/30"
+      >
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          className={`h-3 w-3 transition-transform duration-200 ${open ? 'rotate-90' : ''}`}
+          viewBox="0 0 20 20"
+          fill="currentColor"
+          aria-hidden="true"
+        >
+          <path
+            fillRule="evenodd"
+            d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z"
+            clipRule="evenodd"
+          />
+        </svg>
+        <span>Change history</span>
+      </button>
+
+      {open && (
+        <div className="mt-2 px-2 animate-slideDown">
+          <HistoryTimeline table="loans" rowId={loan.id} version={loan.updatedAt} currency={loan.currency} />
+        </div>
+      )}
+    </div>
+  );
+}
+
 // ── Main page ─────────────────────────────────────────────────────────────────
 
 export default function LoansPage() {
@@ -422,8 +460,8 @@ export default function LoansPage() {
                         </Badge>
                       </div>
                       <p className="text-xs text-slate-400 mt-0.5">
-                        Started {format(new Date(loan.startDate), 'd MMM yyyy')}
-                        {loan.dueDate && ` · Due ${format(new Date(loan.dueDate), 'd MMM yyyy')}`}
+                        Started {formatDate(loan.startDate)}
+                        {loan.dueDate && ` · Due ${formatDate(loan.dueDate)}`}
                         {loan.interestRate && ` · ${loan.interestRate}% p.a.`}
                       </p>
                     </div>
@@ -477,6 +515,7 @@ export default function LoansPage() {
 
                   {/* Animated payment history dropdown */}
                   <PaymentHistoryDropdown loan={loan} />
+                  <ChangeHistoryDropdown loan={loan} />
                 </div>
               </Card>
             );
@@ -7,10 +7,21 @@ import { useLoanStore } from '../store/useLoanStore';
 import { useSubscriptionStore } from '../store/useSubscriptionStore';
 import { useBudgetStore } from '../store/useBudgetStore';
 import { useGoalStore } from '../store/useGoalStore';
+import { useDataHealthStore } from '../store/useDataHealthStore';
+import { useVaultStore } from '../store/useVaultStore';
+import { useFxStore } from '../store/useFxStore';
 import { useForm } from 'react-hook-form';
 import { exportAllData, downloadJSON, downloadCSV, importData, deleteAllData } from '../core/exportImport';
 import { encryptData, decryptData } from '../core/crypto';
 import { db } from '../core/db';
+import { findDuplicates } from '../core/duplicates';
+import { formatAmount, formatCurrency } from '../core/types';
+import { formatDate, formatNumber, type LocalePrefs } from '../core/locale';
+import { getStorage } from '../core/storage';
+import { flushOutbox } from '../core/sync';
+import { setEncryptedSync } from '../core/changesets';
+import { startLiveUpdates } from '../core/live';
+import { getCurrentUserId } from '../auth/useAuthStore';
 import Card, { CardHeader, CardTitle } from '../components/ui/Card';
 import Button from '../components/ui/Button';
 import Input from '../components/ui/Input';
@@ -34,6 +45,8 @@ const CURRENCIES = [
   { value: 'SEK', label: 'SEK — Swedish Krona' },
   { value: 'NOK', label: 'NOK — Norwegian Krone' },
   { value: 'SGD', label: 'SGD — Singapore Dollar' },
+  { value: 'KWD', label: 'KWD — Kuwaiti Dinar' },
+  { value: 'BHD', label: 'BHD — Bahraini Dinar' },
 ];
 
 const THEMES = [
@@ -42,6 +55,440 @@ const THEMES = [
   { value: 'system', label: 'System' },
 ];
 
+const LOCALES = [
+  { value: 'en-GB', label: 'English (United Kingdom)' },
+  { value: 'en-US', label: 'English (United States)' },
+  { value: 'en-IE', label: 'English (Ireland)' },
+  { value: 'en-CA', label: 'English (Canada)' },
+  { value: 'en-AU', label: 'English (Australia)' },
+  { value: 'en-IN', label: 'English (India)' },
+  { value: 'en-ZA', label: 'English (South Africa)' },
+  { value: 'de-DE', label: 'Deutsch (Deutschland)' },
+  { value: 'de-CH', label: 'Deutsch (Schweiz)' },
+  { value: 'fr-FR', label: 'Français (France)' },
+  { value: 'es-ES', label: 'Español (España)' },
+  { value: 'es-MX', label: 'Español (México)' },
+  { value: 'it-IT', label: 'Italiano (Italia)' },
+  { value: 'nl-NL', label: 'Nederlands (Nederland)' },
+  { value: 'pt-BR', label: 'Português (Brasil)' },
+  { value: 'sv-SE', label: 'Svenska (Sverige)' },
+  { value: 'nb-NO', label: 'Norsk bokmål (Norge)' },
+  { value: 'ja-JP', label: '日本語 (日本)' },
+];
+
+const WEEK_STARTS = [
+  { value: '1', label: 'Monday' },
+  { value: '0', label: 'Sunday' },
+  { value: '6', label: 'Saturday' },
+];
+
+const DATE_ORDERS = [
+  { value: 'auto', label: 'As the region writes them' },
+  { value: 'dmy', label: 'Day, month, year (19/10/2026)' },
+  { value: 'mdy', label: 'Month, day, year (10/19/2026)' },
+  { value: 'ymd', label: 'Year, month, day (2026-10-19)' },
+];
+
+const NUMBER_GROUPINGS = [
+  { value: 'locale', label: 'As the region groups them' },
+  { value: 'always', label: 'Always group thousands' },
+  { value: 'never', label: 'Never group digits' },
+];
+
+const TRASH_RETENTION = [
+  { value: '7', label: '7 days' },
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: '0', label: 'Until I empty it' },
+];
+
+// ── Private vault ─────────────────────────────────────────────────────────────
+
+const MIN_PASSPHRASE = 8;
+
+type VaultAction = 'enable' | 'change' | 'disable';
+
+const VAULT_DONE: Record<VaultAction, string> = {
+  enable: 'Vault turned on. Existing records are now encrypted.',
+  change: 'Passphrase changed and records re-encrypted.',
+  disable: 'Vault turned off. Records are stored unencrypted again.',
+};
+
+function PrivateVaultPanel() {
+  const { status, busy, enable, changePassphrase, disable, lock } = useVaultStore();
+  const [mode, setMode] = useState<VaultAction | 'idle'>('idle');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+  function reset(next: typeof mode = 'idle') {
+    setMode(next);
+    setPassphrase('');
+    setConfirm('');
+  }
+
+  async function submit(action: VaultAction) {
+    setMessage(null);
+    try {
+      if (action === 'enable') await enable(passphrase);
+      else if (action === 'change') await changePassphrase(passphrase);
+      else await disable();
+      setMessage({ ok: true, text: VAULT_DONE[action] });
+      reset();
+    } catch (err) {
+      setMessage({ ok: false, text: err instanceof Error ? err.message.replace(/^\[Vault\] /, '') : 'Something went wrong' });
+    }
+  }
+
+  const needsPassphrase = mode === 'enable' || mode === 'change';
+  const valid = !needsPassphrase || (passphrase.length >= MIN_PASSPHRASE && passphrase === confirm);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Private Vault</CardTitle>
+        <Badge variant={status === 'off' || status === 'checking' ? 'default' : 'success'}>
+          {status === 'checking' ? 'Checking…' : status === 'off' ? 'Off' : 'On'}
+        </Badge>
+      </CardHeader>
+      <div className="space-y-3">
+        <p className="text-xs text-slate-400">
+          Encrypts transaction merchants and notes (split lines and part payments included), recurring
+          transaction templates, loan counterparties and notes, and card numbers, notes and spends
+          in this browser before they are saved. The passphrase never leaves your device and can't be recovered;
+          you'll need it again after every reload and on each device.
+        </p>
+
+        {mode === 'idle' && status !== 'checking' && (
+          <div className="flex flex-wrap gap-2">
+            {status === 'off' ? (
+              <Button size="sm" onClick={() => reset('enable')}>Turn on</Button>
+            ) : (
+              <>
+                <Button variant="secondary" size="sm" onClick={() => reset('change')}>Change passphrase</Button>
+                <Button variant="secondary" size="sm" onClick={lock}>Lock now</Button>
+                <Button variant="ghost" size="sm" onClick={() => reset('disable')}>Turn off</Button>
+              </>
+            )}
+          </div>
+        )}
+
+        {needsPassphrase && (
+          <div className="space-y-3">
+            <Input
+              label={mode === 'enable' ? 'Passphrase' : 'New passphrase'}
+              type="password"
+              autoComplete="new-password"
+              hint={`At least ${MIN_PASSPHRASE} characters`}
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              disabled={busy}
+            />
+            <Input
+              label="Confirm passphrase"
+              type="password"
+              autoComplete="new-password"
+              value={confirm}
+              onChange={(e) => setConfirm(e.target.value)}
+              error={confirm && confirm !== passphrase ? 'Passphrases do not match' : undefined}
+              disabled={busy}
+            />
+          </div>
+        )}
+
+        {mode === 'disable' && (
+          <p className="text-xs text-amber-600">Every encrypted field will be decrypted and saved in plain text again.</p>
+        )}
+
+        {mode !== 'idle' && (
+          <div className="flex gap-2">
+            <Button size="sm" variant={mode === 'disable' ? 'danger' : 'primary'} onClick={() => submit(mode)} disabled={!valid || busy}>
+              {busy ? 'Re-encrypting...' : mode === 'enable' ? 'Encrypt my data' : mode === 'change' ? 'Change passphrase' : 'Decrypt and turn off'}
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => reset()} disabled={busy}>Cancel</Button>
+          </div>
+        )}
+
+        {message && <p className={`text-xs ${message.ok ? 'text-emerald-600' : 'text-red-600'}`}>{message.text}</p>}
+      </div>
+    </Card>
+  );
+}
+
+// ── Exchange rates ────────────────────────────────────────────────────────────
+
+/** Rates listed before "Show all". */
+const RATES_SHOWN = 10;
+
+function ExchangeRatesPanel() {
+  const { rates, add, remove, importCsv } = useFxStore();
+  const base = useUIStore((s) => s.currency);
+  const [date, setDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [from, setFrom] = useState(base === 'USD' ? 'EUR' : 'USD');
+  const [rate, setRate] = useState('');
+  const [showAll, setShowAll] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+  async function run(fn: () => Promise<string>) {
+    setMessage(null);
+    setBusy(true);
+    try {
+      setMessage({ ok: true, text: await fn() });
+    } catch (err) {
+      setMessage({ ok: false, text: err instanceof Error ? err.message : 'Could not save the rates' });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function handleAdd() {
+    void run(async () => {
+      await add({ date, fromCurrency: from, toCurrency: base, rate: Number(rate) });
+      setRate('');
+      return `Saved 1 ${from} = ${rate} ${base} for ${date}.`;
+    });
+  }
+
+  function handleCsv(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    void run(async () => {
+      const { imported, errors } = await importCsv(await file.text());
+      const skipped = errors.length > 0 ? ` Skipped ${errors.length}: ${errors.slice(0, 3).join('; ')}${errors.length > 3 ? '…' : ''}` : '';
+      return `Imported ${imported} rate${imported !== 1 ? 's' : ''}.${skipped}`;
+    });
+  }
+
+  const shown = showAll ? rates : rates.slice(0, RATES_SHOWN);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Exchange Rates</CardTitle>
+        <Badge>{rates.length}</Badge>
+      </CardHeader>
+      <div className="space-y-3">
+        <p className="text-xs text-slate-400">
+          Totals are shown in {base}. Amounts in other currencies are converted at the latest rate on or before
+          their date. Import a CSV of historical rates with one <code>date,from,to,rate</code> line each,
+          e.g. <code>2024-03-01,USD,GBP,0.79</code>.
+        </p>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 items-end">
+          <Input label="Date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          <Select
+            label="Currency"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            options={CURRENCIES.filter((c) => c.value !== base)}
+          />
+          <Input
+            label={`1 ${from} in ${base}`}
+            type="number"
+            min="0"
+            step="any"
+            value={rate}
+            onChange={(e) => setRate(e.target.value)}
+          />
+          <Button size="sm" onClick={handleAdd} disabled={busy || !date || !(Number(rate) > 0)}>Add rate</Button>
+        </div>
+
+        <label className="cursor-pointer inline-block">
+          <span className={`inline-flex items-center px-3 py-1.5 text-xs font-medium rounded-lg bg-slate-100 hover:bg-slate-600 text-slate-900 transition-colors ${busy ? 'opacity-50 cursor-not-allowed' : ''}`}>
+            Import CSV
+          </span>
+          <input type="file" accept=".csv,text/csv" className="sr-only" onChange={handleCsv} disabled={busy} />
+        </label>
+
+        {message && <p className={`text-xs ${message.ok ? 'text-emerald-600' : 'text-red-600'}`}>{message.text}</p>}
+
+        {rates.length > 0 && (
+          <ul className="divide-y divide-slate-200 text-sm">
+            {shown.map((r) => (
+              <li key={r.id} className="flex items-center justify-between py-1.5">
+                <span className="text-slate-500 tabular-nums">{formatDate(r.date, 'numeric')}</span>
+                <span className="text-slate-800 tabular-nums">1 {r.fromCurrency} = {formatNumber(r.rate, { maximumFractionDigits: 6 })} {r.toCurrency}</span>
+                <Button variant="ghost" size="sm" onClick={() => void run(async () => { await remove(r.id); return 'Rate removed.'; })} disabled={busy}>
+                  Remove
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+        {rates.length > RATES_SHOWN && (
+          <Button variant="ghost" size="sm" onClick={() => setShowAll((v) => !v)}>
+            {showAll ? 'Show fewer' : `Show all ${rates.length}`}
+          </Button>
+        )}
+      </div>
+    </Card>
+  );
+}
+
+// ── Cloud sync ────────────────────────────────────────────────────────────────
+
+function SyncToggle({ checked, disabled, onChange, title, description }: {
+  checked: boolean;
+  disabled?: boolean;
+  onChange: (checked: boolean) => void;
+  title: string;
+  description: string;
+}) {
+  return (
+    <label className={`flex items-start gap-3 group ${disabled ? 'opacity-50' : 'cursor-pointer'}`}>
+      <div className="relative mt-0.5 shrink-0">
+        <input
+          type="checkbox"
+          className="sr-only peer"
+          checked={checked}
+          disabled={disabled}
+          onChange={(e) => onChange(e.target.checked)}
+        />
+        <div className="w-10 h-6 bg-slate-200 peer-checked:bg-blue-600 rounded-full transition-colors" />
+        <div className="absolute top-1 left-1 w-4 h-4 bg-white rounded-full shadow transition-transform peer-checked:translate-x-4" />
+      </div>
+      <div>
+        <p className="text-sm font-semibold text-slate-800 group-hover:text-blue-700 transition-colors">{title}</p>
+        <p className="text-xs text-slate-400 mt-0.5">{description}</p>
+      </div>
+    </label>
+  );
+}
+
+function CloudSyncPanel() {
+  const { cloudEnabled, encryptedSync, setCloudEnabled } = useUIStore();
+  const vaultStatus = useVaultStore((s) => s.status);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+  function toggleCloud(on: boolean) {
+    setCloudEnabled(on);
+    // Whether the vault is on is kept with the account while cloud sync is on
+    void useVaultStore.getState().check();
+    // Realtime is only subscribed while cloud sync is on
+    startLiveUpdates(getCurrentUserId(), 'local-first');
+    void flushOutbox();
+  }
+
+  async function toggleEncrypted(on: boolean) {
+    setMessage(null);
+    setBusy(true);
+    try {
+      await setEncryptedSync(getCurrentUserId(), on);
+      setMessage({
+        ok: true,
+        text: on
+          ? 'Encrypted sync is on. Your records were removed from the server.'
+          : 'Encrypted sync is off. Your records are stored on the server again.',
+      });
+    } catch (err) {
+      setMessage({ ok: false, text: err instanceof Error ? err.message.replace(/^\[\w+\] /, '') : 'Something went wrong' });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Cloud Sync</CardTitle>
+        <Badge variant={!cloudEnabled ? 'default' : 'success'}>
+          {!cloudEnabled ? 'Off' : encryptedSync ? 'Encrypted' : 'On'}
+        </Badge>
+      </CardHeader>
+      <div className="space-y-3">
+        <SyncToggle
+          checked={cloudEnabled}
+          disabled={busy}
+          onChange={toggleCloud}
+          title="Sync with the cloud"
+          description="Keeps your devices in step through the server. When off, everything stays in this browser and changes wait here until you turn it back on."
+        />
+        <SyncToggle
+          checked={encryptedSync}
+          disabled={busy || !cloudEnabled || (vaultStatus !== 'unlocked' && !encryptedSync)}
+          onChange={(on) => void toggleEncrypted(on)}
+          title="End-to-end encryption"
+          description="The server only stores changes encrypted with your Private Vault passphrase and can't read any of your records. This applies to your whole account: your other devices stop syncing until you turn it on there too."
+        />
+        {vaultStatus !== 'unlocked' && !encryptedSync && (
+          <p className="text-xs text-slate-400">Turn on the Private Vault below to use end-to-end encryption.</p>
+        )}
+        {busy && <p className="text-xs text-slate-500">Bringing this device up to date...</p>}
+        {message && <p className={`text-xs ${message.ok ? 'text-emerald-600' : 'text-red-600'}`}>{message.text}</p>}
+      </div>
+    </Card>
+  );
+}
+
+// ── Data health ───────────────────────────────────────────────────────────────
+
+function DataHealthPanel() {
+  const { invalid, discard } = useDataHealthStore();
+  const [discardKey, setDiscardKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleDiscard(table: string, id: string) {
+    setError(null);
+    try {
+      await discard(table, id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not delete the record');
+    } finally {
+      setDiscardKey(null);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Data Health</CardTitle>
+        {invalid.length > 0 && <Badge variant="warning">{invalid.length} hidden</Badge>}
+      </CardHeader>
+      {invalid.length === 0 ? (
+        <p className="text-xs text-slate-400">Every record loaded so far passed validation.</p>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-xs text-slate-400">
+            These records are stored in a shape the app can't read, so they are left out of your totals and lists.
+            Copy anything you need from the stored values, then delete the record and enter it again.
+          </p>
+          {invalid.map((r) => {
+            const key = `${r.table}:${r.id}`;
+            return (
+              <div key={key} className="rounded-lg border border-amber-300 bg-amber-50/50 p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <Badge>{r.table.replace('_', ' ')}</Badge>
+                  <span className="text-xs font-mono text-slate-500 truncate">{r.id || '(no id)'}</span>
+                </div>
+                <ul className="text-xs text-amber-700 list-disc list-inside">
+                  {r.problems.map((p) => <li key={p}>{p}</li>)}
+                </ul>
+                <details className="text-xs">
+                  <summary className="cursor-pointer text-slate-500">Stored values</summary>
+                  <pre className="mt-1 max-h-40 overflow-auto rounded bg-slate-100 p-2 text-slate-700">{JSON.stringify(r.row, null, 2)}</pre>
+                </details>
+                {discardKey === key ? (
+                  <div className="flex gap-2">
+                    <Button variant="danger" size="sm" onClick={() => handleDiscard(r.table, r.id)}>Delete permanently</Button>
+                    <Button variant="ghost" size="sm" onClick={() => setDiscardKey(null)}>Cancel</Button>
+                  </div>
+                ) : (
+                  <Button variant="secondary" size="sm" onClick={() => setDiscardKey(key)} disabled={!r.id}>Delete record</Button>
+                )}
+              </div>
+            );
+          })}
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+      )}
+    </Card>
+  );
+}
+
 interface AccountFormData {
   name: string;
   type: string;
@@ -50,7 +497,12 @@ interface AccountFormData {
 }
 
 export default function SettingsPage() {
-  const { theme, currency, defaultAccountId, showAccountBreakdown, setTheme, setCurrency, setDefaultAccountId, setShowAccountBreakdown } = useUIStore();
+  const {
+    theme, currency, defaultAccountId, showAccountBreakdown, trashRetentionDays,
+    locale, weekStartsOn, dateOrder, numberGrouping,
+    setTheme, setCurrency, setDefaultAccountId, setShowAccountBreakdown, setTrashRetentionDays,
+    setLocale, setWeekStartsOn, setDateOrder, setNumberGrouping,
+  } = useUIStore();
   const { accounts, load: loadAccounts, add: addAccount, remove: removeAccount } = useAccountStore();
   const loadTransactions = useTransactionStore((s) => s.load);
   const loadLoans = useLoanStore((s) => s.load);
@@ -89,13 +541,13 @@ export default function SettingsPage() {
   }
 
   async function handleExportTransactionsCSV() {
-    const txns = await db.transactions.toArray();
+    const txns = await db.transactions.forUser(getCurrentUserId()).query().order('date', { ascending: false }).toArray();
     downloadCSV(
       txns.map((t) => ({
         id: t.id,
         date: t.date,
         type: t.type,
-        amount: (t.amountMinorUnits / 100).toFixed(2),
+        amount: formatAmount(t.amountMinorUnits, t.currency),
         currency: t.currency,
         category: t.category,
         merchant: t.merchant ?? '',
@@ -123,7 +575,12 @@ export default function SettingsPage() {
         loadBudgets(),
         loadGoals(),
       ]);
-      setImportResult('Import successful! All data loaded.');
+      const duplicates = findDuplicates(useTransactionStore.getState().transactions).length;
+      setImportResult(
+        duplicates > 0
+          ? `Import successful! All data loaded. ${duplicates} possible duplicate${duplicates === 1 ? '' : 's'} to review on the Transactions page.`
+          : 'Import successful! All data loaded.',
+      );
     } catch (err) {
       setImportResult(`Import failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
     } finally {
@@ -199,7 +656,7 @@ export default function SettingsPage() {
           <div>
             <p className="text-sm font-semibold text-emerald-600">Your data is private</p>
             <p className="text-xs text-slate-500 mt-1">
-              All data is stored locally in your browser's IndexedDB. Nothing is sent to any server.
+              All data is kept in your browser's IndexedDB, so the app keeps working offline. Changes sync to your account whenever you're online.
               On iOS, open this page in Safari and use <strong className="text-slate-700">"Share → Add to Home Screen"</strong> to install it as an app.
             </p>
           </div>
@@ -217,14 +674,56 @@ export default function SettingsPage() {
             options={THEMES}
           />
           <Select
-            label="Default Currency"
+            label="Base Currency"
             value={currency}
             onChange={(e) => setCurrency(e.target.value)}
             options={CURRENCIES}
           />
+          <Select
+            label="Keep Deleted Items in Trash For"
+            value={String(trashRetentionDays)}
+            onChange={(e) => setTrashRetentionDays(Number(e.target.value))}
+            options={TRASH_RETENTION}
+          />
+        </div>
+      </Card>
+
+      {/* Region & formats */}
+      <Card>
+        <CardHeader><CardTitle>Region &amp; Formats</CardTitle></CardHeader>
+        <div className="space-y-4">
+          <Select
+            label="Region"
+            value={locale}
+            onChange={(e) => setLocale(e.target.value)}
+            options={LOCALES}
+          />
+          <Select
+            label="First Day of the Week"
+            value={String(weekStartsOn)}
+            onChange={(e) => setWeekStartsOn(Number(e.target.value) as LocalePrefs['weekStartsOn'])}
+            options={WEEK_STARTS}
+          />
+          <Select
+            label="Date Format"
+            value={dateOrder}
+            onChange={(e) => setDateOrder(e.target.value as LocalePrefs['dateOrder'])}
+            options={DATE_ORDERS}
+          />
+          <Select
+            label="Number Grouping"
+            value={numberGrouping}
+            onChange={(e) => setNumberGrouping(e.target.value as LocalePrefs['numberGrouping'])}
+            options={NUMBER_GROUPINGS}
+          />
+          <p className="text-xs text-slate-400">
+            Preview: {formatDate(new Date(), 'full')} · {formatDate(new Date(), 'numeric')} · {formatCurrency(123456789, currency)}
+          </p>
         </div>
       </Card>
 
+      <ExchangeRatesPanel />
+
       {/* Dashboard & Transactions */}
       <Card>
         <CardHeader><CardTitle>Dashboard &amp; Transactions</CardTitle></CardHeader>
@@ -387,6 +886,12 @@ export default function SettingsPage() {
         </div>
       </Card>
 
+      {getStorage().backend === 'local-first' && <CloudSyncPanel />}
+
+      <PrivateVaultPanel />
+
+      <DataHealthPanel />
+
       {/* iOS Installation tip */}
       <Card>
         <CardHeader><CardTitle>iOS Installation</CardTitle></CardHeader>
@@ -1,16 +1,20 @@
 import { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
-import { format, addDays, isWithinInterval } from 'date-fns';
+import { addDays, isWithinInterval } from 'date-fns';
 import { useSubscriptionStore } from '../store/useSubscriptionStore';
 import type { Subscription } from '../core/types';
-import { formatCurrency, toMinor } from '../core/types';
+import { formatCurrency, toMajor, toMinor } from '../core/types';
+import { formatDate } from '../core/locale';
 import { useUIStore } from '../store/useUIStore';
+import { useConverter } from '../store/useFxStore';
+import { sumInBase } from '../core/fx';
 import { ALL_CATEGORIES } from '../core/categorizer';
 import Modal from '../components/ui/Modal';
 import Button from '../components/ui/Button';
 import Badge from '../components/ui/Badge';
 import Card from '../components/ui/Card';
 import Input from '../components/ui/Input';
+import AmountInput from '../components/ui/AmountInput';
 import Select from '../components/ui/Select';
 import Textarea from '../components/ui/Textarea';
 
@@ -49,11 +53,13 @@ interface SubFormData {
 
 function SubForm({ initial, onDone }: { initial?: Subscription; onDone: () => void }) {
   const { add, update } = useSubscriptionStore();
+  const base = useUIStore((s) => s.currency);
+  const currency = initial?.currency ?? base;
   const { register, handleSubmit, formState: { isSubmitting } } = useForm<SubFormData>({
     defaultValues: {
       name: initial?.name ?? '',
-      amount: initial ? String(initial.amountMinorUnits / 100) : '',
-      currency: initial?.currency ?? 'GBP',
+      amount: initial ? String(toMajor(initial.amountMinorUnits, initial.currency)) : '',
+      currency,
       billingCycle: initial?.billingCycle ?? 'monthly',
       nextBillingDate: initial?.nextBillingDate ?? new Date().toISOString().split('T')[0],
       category: initial?.category ?? 'Entertainment',
@@ -65,8 +71,8 @@ function SubForm({ initial, onDone }: { initial?: Subscription; onDone: () => vo
   async function onSubmit(data: SubFormData) {
     const payload = {
       name: data.name,
-      amountMinorUnits: toMinor(parseFloat(data.amount)),
-      currency: data.currency || 'GBP',
+      amountMinorUnits: toMinor(parseFloat(data.amount), currency),
+      currency,
       billingCycle: data.billingCycle,
       nextBillingDate: data.nextBillingDate,
       category: data.category || 'Entertainment',
@@ -88,7 +94,7 @@ function SubForm({ initial, onDone }: { initial?: Subscription; onDone: () => vo
     <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
       <Input label="Subscription Name" placeholder="e.g. Netflix" required {...register('name', { required: true })} />
       <div className="grid grid-cols-2 gap-3">
-        <Input label="Amount" type="number" step="0.01" min="0.01" required {...register('amount', { required: true })} />
+        <AmountInput label="Amount" currency={currency} required {...register('amount', { required: true })} />
         <Select label="Billing Cycle" options={CYCLE_OPTIONS} {...register('billingCycle')} />
       </div>
       <Input label="Next Billing Date" type="date" required {...register('nextBillingDate', { required: true })} />
@@ -106,6 +112,7 @@ function SubForm({ initial, onDone }: { initial?: Subscription; onDone: () => vo
 export default function SubscriptionsPage() {
   const { subscriptions, load, update, remove } = useSubscriptionStore();
   const { currency } = useUIStore();
+  const fx = useConverter();
   const [showForm, setShowForm] = useState(false);
   const [editing, setEditing] = useState<Subscription | undefined>();
   const [showInactive, setShowInactive] = useState(false);
@@ -116,12 +123,9 @@ export default function SubscriptionsPage() {
   const next7 = addDays(now, 7);
 
   const active = subscriptions.filter((s) => !s.deletedAt && (showInactive ? true : s.isActive));
-  const totalMonthly = subscriptions
-    .filter((s) => s.isActive && !s.deletedAt)
-    .reduce((sum, s) => sum + monthlyCost(s), 0);
-  const totalAnnual = subscriptions
-    .filter((s) => s.isActive && !s.deletedAt)
-    .reduce((sum, s) => sum + annualCost(s), 0);
+  const running = subscriptions.filter((s) => s.isActive && !s.deletedAt);
+  const totalMonthly = sumInBase(fx, running.map((s) => ({ amount: monthlyCost(s), currency: s.currency }))).total;
+  const totalAnnual = sumInBase(fx, running.map((s) => ({ amount: annualCost(s), currency: s.currency }))).total;
 
   return (
     <div className="p-4 lg:p-6 space-y-4 max-w-4xl mx-auto">
@@ -175,7 +179,7 @@ export default function SubscriptionsPage() {
                       <Badge variant="info">{sub.billingCycle}</Badge>
                     </div>
                     <p className="text-xs text-slate-400 mt-0.5">
-                      {sub.category} · Next: {format(new Date(sub.nextBillingDate), 'd MMM yyyy')}
+                      {sub.category} · Next: {formatDate(sub.nextBillingDate)}
                     </p>
                     {sub.url && (
                       <a
@@ -190,7 +194,7 @@ export default function SubscriptionsPage() {
                   </div>
                   <div className="text-right shrink-0">
                     <p className="text-sm font-bold text-slate-900">{formatCurrency(sub.amountMinorUnits, sub.currency)}</p>
-                    <p className="text-xs text-slate-400">≈ £{(monthlyCost(sub) / 100).toFixed(2)}/mo</p>
+                    <p className="text-xs text-slate-400">≈ {formatCurrency(Math.round(monthlyCost(sub)), sub.currency)}/mo</p>
                   </div>
                 </div>
 
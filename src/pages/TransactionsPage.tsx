@@ -1,11 +1,16 @@
 import { useEffect, useMemo, useState, useRef, useCallback, Fragment } from 'react';
-import { format, parseISO, isToday, isYesterday, startOfWeek, endOfWeek, startOfMonth, endOfMonth, subMonths, startOfDay, endOfDay } from 'date-fns';
+import { useSearchParams } from 'react-router-dom';
+import { parseISO, isToday, isYesterday, startOfWeek, endOfWeek, startOfMonth, endOfMonth, subMonths, startOfDay, endOfDay } from 'date-fns';
 import { useTransactionStore } from '../store/useTransactionStore';
 import { useAccountStore } from '../store/useAccountStore';
 import { useGoalStore } from '../store/useGoalStore';
 import { useUIStore } from '../store/useUIStore';
-import type { Transaction, PartialPayment } from '../core/types';
-import { formatCurrency, isScheduled as isTxnScheduled } from '../core/types';
+import { useSavedViewStore } from '../store/useSavedViewStore';
+import { useTagStore } from '../store/useTagStore';
+import { useConverter } from '../store/useFxStore';
+import type { Transaction, PartialPayment, SavedView, ViewFilters, ViewGrouping, ViewSort } from '../core/types';
+import { amountStep, currencyExponent, currencySymbol, emptyViewFilters, formatCurrency, isScheduled as isTxnScheduled, splitLines, toMinor } from '../core/types';
+import { formatDate, formatDateTime, formatTime, weekOptions } from '../core/locale';
 import AccountBreakdown from '../components/transactions/AccountBreakdown';
 import TransactionDrawer from '../components/transactions/TransactionDrawer';
 import CategorySheet from '../components/transactions/CategorySheet';
@@ -18,11 +23,22 @@ import {
   PaymentModeFilterSheet,
   StatusFilterSheet,
   TagsFilterSheet,
+  SortSheet,
   PAYMENT_MODE_LABELS,
 } from '../components/transactions/FilterSheets';
 import type { DateFilter } from '../components/transactions/FilterSheets';
 import ReportSheet from '../components/transactions/ReportSheet';
+import BulkActions from '../components/transactions/BulkActions';
+import QuerySearch from '../components/transactions/QuerySearch';
+import { SavedViewsSheet, ViewTabs } from '../components/transactions/SavedViews';
+import { arrangeTransactions, sameFilters, NO_DATE, SORT_OPTIONS, GROUPING_OPTIONS } from '../components/transactions/views';
+import Highlight from '../components/ui/Highlight';
+import { highlightTerms, matchesQuery, parseQuery, suggestionSource, type SearchContext } from '../core/search';
 import { CATEGORY_EMOJIS } from '../components/transactions/CategorySheet';
+import DuplicatesSheet from '../components/transactions/DuplicatesSheet';
+import TagManager from '../components/transactions/TagManager';
+import { findDuplicates } from '../core/duplicates';
+import { tagUsage } from '../core/tags';
 
 // ── Toast ─────────────────────────────────────────────────────────────────
 
@@ -75,20 +91,25 @@ function FilterChip({
   );
 }
 
-// ── Date group header ─────────────────────────────────────────────────────
+// ── Group header ──────────────────────────────────────────────────────────
 
-function DateGroupHeader({ dateKey }: { dateKey: string }) {
+function GroupHeader({ groupKey, grouping }: { groupKey: string; grouping: ViewGrouping }) {
+  if (grouping === 'none') return null;
   let label: string;
-  if (dateKey === 'no-date') {
+  if (grouping === 'category') {
+    label = `${CATEGORY_EMOJIS[groupKey] ?? '📌'} ${groupKey}`;
+  } else if (groupKey === NO_DATE) {
     label = '📅 No Fixed Date';
+  } else if (grouping === 'month') {
+    label = formatDate(`${groupKey}-01`, 'monthYear');
   } else {
     try {
-      const d = parseISO(dateKey);
-      if (isToday(d)) label = 'Today · ' + format(d, 'd MMM yyyy');
-      else if (isYesterday(d)) label = 'Yesterday · ' + format(d, 'd MMM yyyy');
-      else label = format(d, 'EEEE · d MMM yyyy');
+      const d = parseISO(groupKey);
+      if (isToday(d)) label = 'Today · ' + formatDate(d);
+      else if (isYesterday(d)) label = 'Yesterday · ' + formatDate(d);
+      else label = formatDate(d, 'full');
     } catch {
-      label = dateKey;
+      label = groupKey;
     }
   }
 
@@ -189,10 +210,14 @@ function TxnCard({
   txn,
   onEdit,
   onDelete,
+  highlight = [],
+  duplicate = false,
 }: {
   txn: Transaction;
   onEdit: () => void;
   onDelete: () => void;
+  highlight?: string[];
+  duplicate?: boolean;
 }) {
   const [showActions, setShowActions] = useState(false);
 
@@ -243,11 +268,16 @@ function TxnCard({
               )}
 
               {/* Title */}
-              <p className="text-sm font-semibold text-slate-900 truncate">{title}</p>
+              <p className="text-sm font-semibold text-slate-900 truncate"><Highlight text={title} terms={highlight} /></p>
 
               {/* Chips row */}
               <div className="flex items-center gap-1.5 mt-1 flex-wrap">
-                {displayCategory &&
+                {txn.splits?.length ? txn.splits.map((line) => (
+                  <span key={line.id} className="inline-flex items-center gap-1 px-2 py-0.5 bg-slate-100 text-slate-600 rounded-full text-xs font-medium">
+                    <span>{CATEGORY_EMOJIS[line.category] ?? '📌'}</span>
+                    {line.category} · {formatCurrency(line.amountMinorUnits, txn.currency)}
+                  </span>
+                )) : displayCategory &&
                   displayCategory.toLowerCase() !== txn.type.toLowerCase() &&
                   (txn.notes || txn.merchant || isGoalLinked) && (
                   <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-slate-100 text-slate-600 rounded-full text-xs font-medium">
@@ -260,6 +290,19 @@ function TxnCard({
                     {PAYMENT_MODE_LABELS[txn.paymentMethod] ?? txn.paymentMethod}
                   </span>
                 )}
+                {(txn.attachments?.length ?? 0) > 0 && (
+                  <span
+                    className="px-2 py-0.5 bg-slate-100 text-slate-600 rounded-full text-xs font-medium"
+                    title={txn.attachments!.map((a) => a.name).join(', ')}
+                  >
+                    📎 {txn.attachments!.length}
+                  </span>
+                )}
+                {duplicate && (
+                  <span className="px-2 py-0.5 bg-amber-50 text-amber-700 rounded-full text-xs font-medium">
+                    Possible duplicate
+                  </span>
+                )}
               </div>
 
               {/* Goal-linked notes */}
@@ -270,8 +313,8 @@ function TxnCard({
               {/* Date + time */}
               <p className="text-xs text-slate-400 mt-1">
                 {txn.date.includes('T')
-                  ? format(parseISO(txn.date), 'd MMM · h:mm a')
-                  : `${format(parseISO(txn.date), 'd MMM')} · ${format(parseISO(txn.createdAt), 'h:mm a')}`
+                  ? `${formatDate(txn.date, 'dayMonth')} · ${formatTime(txn.date)}`
+                  : `${formatDate(txn.date, 'dayMonth')} · ${formatTime(txn.createdAt)}`
                 }
               </p>
 
@@ -292,6 +335,12 @@ function TxnCard({
               <p className={`text-base font-bold ${amountColor}`}>
                 {amountPrefix}{formatCurrency(txn.amountMinorUnits, txn.currency)}
               </p>
+              {txn.type === 'transfer' && txn.toCurrency && txn.toCurrency !== txn.currency && txn.toAmountMinorUnits != null && (
+                <p className="text-xs text-slate-500">→ {formatCurrency(txn.toAmountMinorUnits, txn.toCurrency)}</p>
+              )}
+              {txn.type === 'transfer' && !!txn.feeMinorUnits && (
+                <p className="text-xs text-slate-400">+ {formatCurrency(txn.feeMinorUnits, txn.currency)} fee</p>
+              )}
             </div>
           </div>
 
@@ -348,9 +397,7 @@ function PartialInstallmentRow({
 }) {
   const pm = PARTIAL_PAYMENT_METHODS.find((x) => x.id === payment.paymentMethod);
   const methodStr = pm ? `${pm.emoji} ${pm.label}` : null;
-  const dateStr = new Date(payment.recordedAt).toLocaleDateString('en-GB', {
-    day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit',
-  });
+  const dateStr = formatDateTime(payment.recordedAt, 'dayMonth');
 
   return (
     <div className="flex items-stretch gap-2 ml-4 mb-1.5">
@@ -391,13 +438,11 @@ function PartialPaymentSheet({
   onClose,
   txn,
   onSave,
-  onSaved,
 }: {
   open: boolean;
   onClose: () => void;
   txn: Transaction;
   onSave: (amount: number, notes: string, paymentMethod?: string, linkedAccountId?: string, recordedAt?: string) => Promise<void>;
-  onSaved?: (msg: string) => void;
 }) {
   const [amountStr, setAmountStr] = useState('');
   const [notes, setNotes] = useState('');
@@ -432,7 +477,7 @@ function PartialPaymentSheet({
       setError('Please enter a valid amount.');
       return;
     }
-    const minor = Math.round(major * 100);
+    const minor = toMinor(major, txn.currency);
     if (minor > remaining) {
       setError(`Amount cannot exceed the remaining ${formatCurrency(remaining, txn.currency)}.`);
       return;
@@ -442,9 +487,6 @@ function PartialPaymentSheet({
     try {
       const recordedAt = paymentDate && paymentTime ? `${paymentDate}T${paymentTime}` : undefined;
       await onSave(minor, notes, paymentMethod || undefined, linkedAccountId || undefined, recordedAt);
-      const newReceived = (txn.receivedAmountMinorUnits ?? 0) + minor;
-      const isFull = newReceived >= txn.amountMinorUnits;
-      onSaved?.(isFull ? '✓ Income received in full' : '✓ Partial payment saved');
       setAmountStr('');
       setNotes('');
       setPaymentMethod('');
@@ -524,16 +566,16 @@ function PartialPaymentSheet({
           </label>
           <div className="relative">
             <span className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-500 font-semibold text-sm">
-              {txn.currency === 'GBP' ? '£' : txn.currency === 'USD' ? '$' : '€'}
+              {currencySymbol(txn.currency)}
             </span>
             <input
               type="number"
               inputMode="decimal"
-              min="0.01"
-              step="0.01"
+              min={amountStep(txn.currency)}
+              step={amountStep(txn.currency)}
               value={amountStr}
               onChange={(e) => { setAmountStr(e.target.value); setError(''); }}
-              placeholder="0.00"
+              placeholder={(0).toFixed(currencyExponent(txn.currency))}
               className="w-full pl-8 pr-4 py-3 rounded-xl border border-slate-200 text-slate-900 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-emerald-500 text-sm font-medium"
             />
           </div>
@@ -670,7 +712,7 @@ function PartialPaymentSheet({
                       </div>
                     </div>
                     <p className="text-xs text-slate-400 shrink-0 ml-2">
-                      {new Date(p.recordedAt).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                      {formatDateTime(p.recordedAt, 'dayMonth')}
                     </p>
                   </div>
                 );
@@ -701,12 +743,14 @@ function ScheduledCard({
   onEdit,
   onDelete,
   onSuccess,
+  highlight = [],
 }: {
   txn: Transaction;
   onMarkCompleted: () => void;
   onEdit: () => void;
   onDelete: () => void;
   onSuccess?: (msg: string) => void;
+  highlight?: string[];
 }) {
   const [showActions, setShowActions] = useState(false);
   const [showPartialSheet, setShowPartialSheet] = useState(false);
@@ -734,7 +778,7 @@ function ScheduledCard({
   const remaining = txn.amountMinorUnits - received;
 
   const dateText = txn.hasFixedScheduleDate
-    ? `Expected ${format(parseISO(txn.date), 'd MMM yyyy')}`
+    ? `Expected ${formatDate(txn.date)}`
     : 'No fixed date';
 
   return (
@@ -773,7 +817,7 @@ function ScheduledCard({
                 return (
                   <>
                     <p className="text-sm font-semibold text-slate-900 truncate">
-                      {txn.notes || txn.merchant || scat || txn.type}
+                      <Highlight text={txn.notes || txn.merchant || scat || txn.type} terms={highlight} />
                     </p>
 
                     {/* Category chip — only when there's a real category, hidden when already title */}
@@ -831,10 +875,7 @@ function ScheduledCard({
                   <p className="text-xs font-bold text-emerald-700">Received in full</p>
                   {txn.receivedAt && (
                     <p className="text-xs text-slate-400">
-                      {new Date(txn.receivedAt).toLocaleDateString('en-GB', {
-                        day: 'numeric', month: 'short', year: 'numeric',
-                        hour: '2-digit', minute: '2-digit',
-                      })}
+                      {formatDateTime(txn.receivedAt)}
                     </p>
                   )}
                 </div>
@@ -881,7 +922,6 @@ function ScheduledCard({
                       e.stopPropagation();
                       setMarkingFull(true);
                       markFullReceived(txn.id)
-                        .then(() => onSuccess?.('✓ Income received in full'))
                         .catch((err: unknown) => {
                           const msg = err instanceof Error ? err.message : 'Save failed';
                           onSuccess?.(msg.includes('column') ? '✗ DB migration required — see schema file' : `✗ ${msg}`);
@@ -943,7 +983,6 @@ function ScheduledCard({
           onClose={() => setShowPartialSheet(false)}
           txn={txn}
           onSave={(amount, notes, method, acctId, recordedAt) => addPartialPayment(txn.id, amount, notes, method, acctId, recordedAt)}
-          onSaved={(msg) => onSuccess?.(msg)}
         />
       )}
     </div>
@@ -1010,7 +1049,7 @@ function applyDateFilter(t: Transaction, filter: DateFilter): boolean {
     case 'yesterday':
       return isYesterday(txnDate);
     case 'this_week':
-      return txnDate >= startOfWeek(today, { weekStartsOn: 1 }) && txnDate <= endOfWeek(today, { weekStartsOn: 1 });
+      return txnDate >= startOfWeek(today, weekOptions()) && txnDate <= endOfWeek(today, weekOptions());
     case 'this_month':
       return txnDate >= startOfMonth(today) && txnDate <= endOfMonth(today);
     case 'last_month': {
@@ -1040,13 +1079,21 @@ type ActiveSheet =
   | 'payment'
   | 'status'
   | 'tags'
-  | 'report';
+  | 'sort'
+  | 'views'
+  | 'report'
+  | 'duplicates'
+  | 'manage_tags';
 
 export default function TransactionsPage() {
   const { transactions, load, remove, markCompleted } = useTransactionStore();
   const { accounts, load: loadAccounts } = useAccountStore();
   const { load: loadGoals } = useGoalStore();
   const { showAccountBreakdown, currency } = useUIStore();
+  const { views, load: loadViews } = useSavedViewStore();
+  const { tags, load: loadTags } = useTagStore();
+  const fx = useConverter();
+  const [searchParams, setSearchParams] = useSearchParams();
 
   // ── Filter state ───────────────────────────────────────────────────────
   const [search, setSearch] = useState('');
@@ -1057,6 +1104,10 @@ export default function TransactionsPage() {
   const [paymentFilter, setPaymentFilter] = useState<string[]>([]);
   const [statusFilter, setStatusFilter] = useState<string[]>([]);
   const [tagsFilter, setTagsFilter] = useState<string[]>([]);
+  const [sort, setSort] = useState<ViewSort>('date_desc');
+  const [grouping, setGrouping] = useState<ViewGrouping>('day');
+  // Bumped whenever the filters are replaced wholesale, so the sheets drop their drafts
+  const [filterEpoch, setFilterEpoch] = useState(0);
 
   // ── UI state ───────────────────────────────────────────────────────────
   const [activeSheet, setActiveSheet] = useState<ActiveSheet>(null);
@@ -1066,6 +1117,8 @@ export default function TransactionsPage() {
   const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
   const [toast, setToast] = useState<string | null>(null);
   const toastTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [selecting, setSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
 
   useEffect(() => {
     load();
@@ -1073,33 +1126,99 @@ export default function TransactionsPage() {
     loadGoals();
   }, []);
 
+  useEffect(() => {
+    loadViews();
+  }, [loadViews]);
+
+  useEffect(() => {
+    loadTags();
+  }, [loadTags]);
+
+  // ── Saved views ────────────────────────────────────────────────────────
+  const currentFilters = useMemo<ViewFilters>(() => ({
+    search,
+    date: dateFilter,
+    types: typeFilter,
+    accounts: accountFilter,
+    categories: categoryFilter,
+    paymentMethods: paymentFilter,
+    statuses: statusFilter,
+    tags: tagsFilter,
+  }), [search, dateFilter, typeFilter, accountFilter, categoryFilter, paymentFilter, statusFilter, tagsFilter]);
+
+  function setFilters(f: ViewFilters) {
+    setSearch(f.search);
+    setDateFilter(f.date);
+    setTypeFilter(f.types);
+    setAccountFilter(f.accounts);
+    setCategoryFilter(f.categories);
+    setPaymentFilter(f.paymentMethods);
+    setStatusFilter(f.statuses);
+    setTagsFilter(f.tags);
+    setFilterEpoch((n) => n + 1);
+  }
+
+  // The view named by ?view= is applied once it has loaded, and again
+  // whenever the address changes to another view (tabs, back, links)
+  const viewSlug = searchParams.get('view');
+  const activeView = viewSlug ? views.find((v) => v.slug === viewSlug) : undefined;
+  const [appliedSlug, setAppliedSlug] = useState<string | null>(null);
+  if (activeView && appliedSlug !== activeView.slug) {
+    setAppliedSlug(activeView.slug);
+    setFilters(activeView.filters);
+    setSort(activeView.sort);
+    setGrouping(activeView.grouping);
+  }
+  const viewModified = !!activeView && (
+    !sameFilters(currentFilters, activeView.filters) || sort !== activeView.sort || grouping !== activeView.grouping
+  );
+
+  function pointAtView(slug: string | null) {
+    setAppliedSlug(slug);
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      if (slug) next.set('view', slug);
+      else next.delete('view');
+      return next;
+    });
+  }
+
+  function openView(view: SavedView | null) {
+    if (view) {
+      setFilters(view.filters);
+      setSort(view.sort);
+      setGrouping(view.grouping);
+    } else {
+      setFilters(emptyViewFilters());
+      setSort('date_desc');
+      setGrouping('day');
+    }
+    pointAtView(view?.slug ?? null);
+  }
+
   const showToast = useCallback((msg: string) => {
     if (toastTimer.current) clearTimeout(toastTimer.current);
     setToast(msg);
     toastTimer.current = setTimeout(() => setToast(null), 2400);
   }, []);
 
+  // ── Possible duplicates ────────────────────────────────────────────────
+  const duplicatePairs = useMemo(() => findDuplicates(transactions), [transactions]);
+  const duplicateIds = useMemo(
+    () => new Set(duplicatePairs.flatMap((p) => [p.first.id, p.second.id])),
+    [duplicatePairs],
+  );
+
   // ── Filtered transactions ──────────────────────────────────────────────
-  const filtered = useMemo(() => {
+  // Chip filters first; the search query narrows these further, here and in reports
+  const chipFiltered = useMemo(() => {
     return transactions.filter((t) => {
-      // Search
-      if (search.trim()) {
-        const q = search.toLowerCase();
-        const matches =
-          t.merchant?.toLowerCase().includes(q) ||
-          t.category.toLowerCase().includes(q) ||
-          t.notes?.toLowerCase().includes(q) ||
-          t.tags.some((tag) => tag.toLowerCase().includes(q)) ||
-          t.paymentMethod?.toLowerCase().includes(q) ||
-          String(t.amountMinorUnits / 100).includes(q);
-        if (!matches) return false;
-      }
       // Type
       if (typeFilter.length > 0 && !typeFilter.includes(t.type)) return false;
       // Account
-      if (accountFilter.length > 0 && !accountFilter.includes(t.accountId)) return false;
+      if (accountFilter.length > 0 && !accountFilter.includes(t.accountId) && !(t.toAccountId && accountFilter.includes(t.toAccountId))) return false;
       // Category
-      if (categoryFilter.length > 0 && !categoryFilter.includes(t.category)) return false;
+      if (categoryFilter.length > 0 && !splitLines(t).some((line) => categoryFilter.includes(line.category))) return false;
       // Payment mode
       if (paymentFilter.length > 0 && !paymentFilter.includes(t.paymentMethod ?? '')) return false;
       // Status
@@ -1109,33 +1228,30 @@ export default function TransactionsPage() {
         if (!matchesStatus) return false;
       }
       // Tags
-      if (tagsFilter.length > 0 && !tagsFilter.some((tag) => t.tags.includes(tag))) return false;
+      if (tagsFilter.length > 0 && !tagsFilter.some((tag) => t.tags.includes(tag) || t.splits?.some((line) => line.tags.includes(tag)))) return false;
       // Date
       if (!applyDateFilter(t, dateFilter)) return false;
       return true;
     });
-  }, [transactions, search, dateFilter, typeFilter, accountFilter, categoryFilter, paymentFilter, statusFilter, tagsFilter]);
-
-  // ── Grouped by date ────────────────────────────────────────────────────
-  const grouped = useMemo(() => {
-    const map = new Map<string, Transaction[]>();
-    for (const t of filtered) {
-      const key =
-        isTxnScheduled(t) && !t.hasFixedScheduleDate
-          ? 'no-date'
-          : t.date.split('T')[0];
-      const list = map.get(key) ?? [];
-      list.push(t);
-      map.set(key, list);
-    }
-    const entries = [...map.entries()];
-    entries.sort(([a], [b]) => {
-      if (a === 'no-date') return -1;
-      if (b === 'no-date') return 1;
-      return b.localeCompare(a);
-    });
-    return entries;
-  }, [filtered]);
+  }, [transactions, dateFilter, typeFilter, accountFilter, categoryFilter, paymentFilter, statusFilter, tagsFilter]);
+
+  const query = useMemo(() => parseQuery(search), [search]);
+  const searchContext = useMemo<SearchContext>(() => {
+    const names = new Map(accounts.map((a) => [a.id, a.name]));
+    return { accountName: (id) => names.get(id) };
+  }, [accounts]);
+  const filtered = useMemo(
+    () => chipFiltered.filter((t) => matchesQuery(t, query, searchContext)),
+    [chipFiltered, query, searchContext],
+  );
+  const highlight = useMemo(() => highlightTerms(query), [query]);
+  const searchSource = useMemo(() => suggestionSource(transactions, accounts), [transactions, accounts]);
+
+  // Only rows still on screen count as selected
+  const selected = useMemo(() => filtered.filter((t) => selectedIds.has(t.id)), [filtered, selectedIds]);
+
+  // ── Sorted and grouped ─────────────────────────────────────────────────
+  const grouped = useMemo(() => arrangeTransactions(filtered, sort, grouping, fx), [filtered, sort, grouping, fx]);
 
   // ── Summary ────────────────────────────────────────────────────────────
   const summary = useMemo(() => {
@@ -1162,11 +1278,8 @@ export default function TransactionsPage() {
   const net = summary.income - summary.expense;
 
   // ── All tags in current dataset ────────────────────────────────────────
-  const allTags = useMemo(() => {
-    const set = new Set<string>();
-    transactions.forEach((t) => t.tags.forEach((tag) => set.add(tag)));
-    return [...set].sort();
-  }, [transactions]);
+  const usageByTag = useMemo(() => tagUsage(transactions), [transactions]);
+  const allTags = useMemo(() => [...usageByTag.keys()].sort(), [usageByTag]);
 
   // ── Active filter count ────────────────────────────────────────────────
   const activeFilterCount =
@@ -1186,33 +1299,33 @@ export default function TransactionsPage() {
   }
 
   async function handleDelete(id: string) {
-    const txn = transactions.find((t) => t.id === id);
+    // Also reverses any goal allocation
     await remove(id);
-    // Reverse goal allocation if the transaction was linked to a goal
-    if (txn?.allocationType === 'goal' && txn.linkedGoalId) {
-      const { deallocateAmount } = useGoalStore.getState();
-      await deallocateAmount(txn.linkedGoalId, txn.amountMinorUnits);
-    }
     setConfirmDeleteId(null);
-    showToast('Transaction deleted');
   }
 
-  async function handleMarkCompleted(id: string, type: Transaction['type']) {
-    await markCompleted(id);
-    const label =
-      type === 'income' ? 'Received' : type === 'expense' ? 'Paid' : 'Transferred';
-    showToast(`✓ Marked as ${label} today`);
+  function toggleSelected(id: string) {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  function exitSelection() {
+    setSelecting(false);
+    setSelectedIds(new Set());
+  }
+
+  function handleBulkDone(message: string, changed: boolean) {
+    exitSelection();
+    // Changes get the undo toast instead
+    if (!changed) showToast(message);
   }
 
   function clearAllFilters() {
-    setDateFilter({ type: 'all' });
-    setTypeFilter([]);
-    setAccountFilter([]);
-    setCategoryFilter([]);
-    setPaymentFilter([]);
-    setStatusFilter([]);
-    setTagsFilter([]);
-    setSearch('');
+    setFilters(emptyViewFilters());
     showToast('Filters cleared');
   }
 
@@ -1222,11 +1335,30 @@ export default function TransactionsPage() {
       <div className="bg-white border-b border-slate-100 shrink-0">
         {/* Title row */}
         <div className="flex items-center justify-between px-4 pt-4 pb-2">
-          <div>
-            <h1 className="text-lg font-bold text-slate-900">Transactions</h1>
-            <p className="text-xs text-slate-400">Log income, expenses &amp; transfers</p>
-          </div>
+          {selecting ? (
+            <div>
+              <h1 className="text-lg font-bold text-slate-900">{selected.length} selected</h1>
+              <button
+                onClick={() => setSelectedIds(selected.length === filtered.length ? new Set() : new Set(filtered.map((t) => t.id)))}
+                className="text-xs font-semibold text-blue-600 hover:text-blue-800"
+              >
+                {selected.length === filtered.length && filtered.length > 0 ? 'Clear selection' : `Select all ${filtered.length}`}
+              </button>
+            </div>
+          ) : (
+            <div>
+              <h1 className="text-lg font-bold text-slate-900">Transactions</h1>
+              <p className="text-xs text-slate-400">Log income, expenses &amp; transfers</p>
+            </div>
+          )}
           <div className="flex items-center gap-1">
+            {/* Selection mode */}
+            <button
+              onClick={() => (selecting ? exitSelection() : setSelecting(true))}
+              className={`px-3 h-9 rounded-xl text-sm font-semibold transition-colors ${selecting ? 'bg-blue-600 text-white hover:bg-blue-700' : 'text-slate-500 hover:text-blue-600 hover:bg-blue-50'}`}
+            >
+              {selecting ? 'Done' : 'Select'}
+            </button>
             {/* Report icon */}
             <button
               onClick={() => setActiveSheet('report')}
@@ -1250,38 +1382,32 @@ export default function TransactionsPage() {
           </div>
         </div>
 
+        {/* Saved view tabs */}
+        <ViewTabs
+          views={views}
+          active={activeView}
+          modified={viewModified}
+          onSelect={openView}
+          onManage={() => setActiveSheet('views')}
+        />
+
         {/* Search bar */}
         <div className="px-4 pb-3">
-          <div className="relative">
-            <svg
-              className="absolute left-3.5 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
-            >
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
-            </svg>
-            <input
-              type="search"
-              value={search}
-              onChange={(e) => setSearch(e.target.value)}
-              placeholder="Search merchant, amount, category, notes..."
-              className="w-full pl-10 pr-4 py-2.5 bg-slate-100 rounded-xl text-sm text-slate-900 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white border border-transparent focus:border-transparent transition-all"
-            />
-            {search && (
-              <button
-                onClick={() => setSearch('')}
-                className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-700"
-                aria-label="Clear search"
-              >
-                <svg className="h-4 w-4" fill="currentColor" viewBox="0 0 20 20">
-                  <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
-                </svg>
-              </button>
-            )}
-          </div>
+          <QuerySearch value={search} onChange={setSearch} source={searchSource} />
         </div>
 
+        {duplicatePairs.length > 0 && (
+          <button
+            onClick={() => setActiveSheet('duplicates')}
+            className="mx-4 mb-3 w-[calc(100%-2rem)] flex items-center justify-between px-3.5 py-2 rounded-xl bg-amber-50 border border-amber-200 text-xs font-semibold text-amber-800"
+          >
+            <span>
+              ⚠ {duplicatePairs.length} possible duplicate{duplicatePairs.length === 1 ? '' : 's'}
+            </span>
+            <span className="text-amber-700">Review</span>
+          </button>
+        )}
+
         {/* Filter chips */}
         <div className="flex gap-2 px-4 pb-3 overflow-x-auto scrollbar-none">
           {/* Filter icon chip */}
@@ -1334,6 +1460,13 @@ export default function TransactionsPage() {
             active={tagsFilter.length > 0}
             onClick={() => setActiveSheet('tags')}
           />
+          <FilterChip
+            label={sort === 'date_desc' && grouping === 'day'
+              ? 'Sort'
+              : [SORT_OPTIONS.find((o) => o.id === sort)?.label, GROUPING_OPTIONS.find((o) => o.id === grouping)?.label.toLowerCase()].join(', ')}
+            active={sort !== 'date_desc' || grouping !== 'day'}
+            onClick={() => setActiveSheet('sort')}
+          />
         </div>
       </div>
 
@@ -1396,24 +1529,47 @@ export default function TransactionsPage() {
           </div>
         ) : (
           <div className="px-4">
-            {grouped.map(([dateKey, txns]) => (
-              <div key={dateKey} className="mb-4">
-                <DateGroupHeader dateKey={dateKey} />
-                {txns.map((t) => (
+            {grouped.map(([groupKey, txns]) => (
+              <div key={groupKey} className="mb-4">
+                <GroupHeader groupKey={groupKey} grouping={grouping} />
+                {txns.map((t) => selecting ? (
+                  // Taps select instead of reaching the card's own actions
+                  <div
+                    key={t.id}
+                    onClickCapture={(e) => { e.stopPropagation(); toggleSelected(t.id); }}
+                    className="flex items-start gap-2 cursor-pointer"
+                    role="checkbox"
+                    aria-checked={selectedIds.has(t.id)}
+                  >
+                    <span className={`mt-3 w-5 h-5 shrink-0 rounded-full border-2 flex items-center justify-center text-[11px] font-bold ${selectedIds.has(t.id) ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-slate-300 text-transparent'}`}>
+                      ✓
+                    </span>
+                    <div className="flex-1 min-w-0">
+                      {isTxnScheduled(t) ? (
+                        <ScheduledCard txn={t} onMarkCompleted={() => {}} onEdit={() => {}} onDelete={() => {}} />
+                      ) : (
+                        <TxnCard txn={t} onEdit={() => {}} onDelete={() => {}} duplicate={duplicateIds.has(t.id)} />
+                      )}
+                    </div>
+                  </div>
+                ) : (
                   <Fragment key={t.id}>
                     {isTxnScheduled(t) ? (
                       <ScheduledCard
                         txn={t}
-                        onMarkCompleted={() => handleMarkCompleted(t.id, t.type)}
+                        onMarkCompleted={() => void markCompleted(t.id)}
                         onEdit={() => openDrawer(t.type, t)}
                         onDelete={() => setConfirmDeleteId(t.id)}
                         onSuccess={showToast}
+                        highlight={highlight}
                       />
                     ) : (
                       <TxnCard
                         txn={t}
                         onEdit={() => openDrawer(t.type, t)}
                         onDelete={() => setConfirmDeleteId(t.id)}
+                        highlight={highlight}
+                        duplicate={duplicateIds.has(t.id)}
                       />
                     )}
                     {/* P·1, P·2 … installment sub-cards */}
@@ -1428,38 +1584,42 @@ export default function TransactionsPage() {
         )}
       </div>
 
-      {/* ── Fixed mobile bottom bar ─────────────────────────────────── */}
-      <div className="fixed bottom-0 left-0 right-0 z-40 bg-white border-t border-slate-100 px-4 py-3 lg:hidden safe-bottom">
-        <div className="flex gap-3 max-w-lg mx-auto">
-          <button
-            onClick={() => openDrawer('income')}
-            className="flex-1 flex items-center justify-center gap-2 py-3.5 bg-emerald-500 text-white font-bold text-sm rounded-2xl shadow-sm shadow-emerald-200 active:bg-emerald-600 transition-colors"
-          >
-            <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M12 4v16m8-8H4" />
-            </svg>
-            INCOME
-          </button>
-          <button
-            onClick={() => openDrawer('transfer')}
-            className="w-12 flex items-center justify-center py-3.5 bg-blue-50 text-blue-600 rounded-2xl border border-blue-100 active:bg-blue-100 transition-colors shrink-0"
-            aria-label="Transfer"
-          >
-            <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16V4m0 0L3 8m4-4l4 4m6 0v12m0 0l4-4m-4 4l-4-4" />
-            </svg>
-          </button>
-          <button
-            onClick={() => openDrawer('expense')}
-            className="flex-1 flex items-center justify-center gap-2 py-3.5 bg-red-500 text-white font-bold text-sm rounded-2xl shadow-sm shadow-red-200 active:bg-red-600 transition-colors"
-          >
-            <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M20 12H4" />
-            </svg>
-            EXPENSE
-          </button>
+      {/* ── Bulk actions / fixed mobile bottom bar ───────────────────── */}
+      {selecting ? (
+        <BulkActions selected={selected} accounts={accounts} onDone={handleBulkDone} />
+      ) : (
+        <div className="fixed bottom-0 left-0 right-0 z-40 bg-white border-t border-slate-100 px-4 py-3 lg:hidden safe-bottom">
+          <div className="flex gap-3 max-w-lg mx-auto">
+            <button
+              onClick={() => openDrawer('income')}
+              className="flex-1 flex items-center justify-center gap-2 py-3.5 bg-emerald-500 text-white font-bold text-sm rounded-2xl shadow-sm shadow-emerald-200 active:bg-emerald-600 transition-colors"
+            >
+              <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M12 4v16m8-8H4" />
+              </svg>
+              INCOME
+            </button>
+            <button
+              onClick={() => openDrawer('transfer')}
+              className="w-12 flex items-center justify-center py-3.5 bg-blue-50 text-blue-600 rounded-2xl border border-blue-100 active:bg-blue-100 transition-colors shrink-0"
+              aria-label="Transfer"
+            >
+              <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16V4m0 0L3 8m4-4l4 4m6 0v12m0 0l4-4m-4 4l-4-4" />
+              </svg>
+            </button>
+            <button
+              onClick={() => openDrawer('expense')}
+              className="flex-1 flex items-center justify-center gap-2 py-3.5 bg-red-500 text-white font-bold text-sm rounded-2xl shadow-sm shadow-red-200 active:bg-red-600 transition-colors"
+            >
+              <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M20 12H4" />
+              </svg>
+              EXPENSE
+            </button>
+          </div>
         </div>
-      </div>
+      )}
 
       {/* ── Transaction drawer ───────────────────────────────────────── */}
       <TransactionDrawer
@@ -1468,71 +1628,109 @@ export default function TransactionsPage() {
         initialType={drawerType}
         initial={editingTxn}
         onSaved={(goalAchieved) => {
-          if (goalAchieved) {
-            showToast('🎉 Goal achieved! Expense saved and linked.');
-          } else {
-            showToast(editingTxn ? '✓ Transaction updated' : '✓ Expense saved and linked to goal.');
-          }
+          if (goalAchieved) showToast('🎉 Goal achieved! Expense saved and linked.');
         }}
       />
 
       {/* ── Filter sheets ────────────────────────────────────────────── */}
-      <DateFilterSheet
-        open={activeSheet === 'date'}
-        onClose={() => setActiveSheet(null)}
-        value={dateFilter}
-        onChange={setDateFilter}
-      />
-      <TypeFilterSheet
-        open={activeSheet === 'type'}
-        onClose={() => setActiveSheet(null)}
-        value={typeFilter}
-        onChange={setTypeFilter}
-      />
-      <AccountFilterSheet
-        open={activeSheet === 'account'}
-        onClose={() => setActiveSheet(null)}
-        value={accountFilter}
-        onChange={setAccountFilter}
-        accounts={accounts}
-      />
-      <CategoryFilterSheet
-        open={activeSheet === 'category'}
-        onClose={() => setActiveSheet(null)}
-        value={categoryFilter}
-        onChange={setCategoryFilter}
-      />
-      <PaymentModeFilterSheet
-        open={activeSheet === 'payment'}
-        onClose={() => setActiveSheet(null)}
-        value={paymentFilter}
-        onChange={setPaymentFilter}
-      />
-      <StatusFilterSheet
-        open={activeSheet === 'status'}
-        onClose={() => setActiveSheet(null)}
-        value={statusFilter}
-        onChange={setStatusFilter}
-      />
-      <TagsFilterSheet
-        open={activeSheet === 'tags'}
+      <Fragment key={filterEpoch}>
+        <DateFilterSheet
+          open={activeSheet === 'date'}
+          onClose={() => setActiveSheet(null)}
+          value={dateFilter}
+          onChange={setDateFilter}
+        />
+        <TypeFilterSheet
+          open={activeSheet === 'type'}
+          onClose={() => setActiveSheet(null)}
+          value={typeFilter}
+          onChange={setTypeFilter}
+        />
+        <AccountFilterSheet
+          open={activeSheet === 'account'}
+          onClose={() => setActiveSheet(null)}
+          value={accountFilter}
+          onChange={setAccountFilter}
+          accounts={accounts}
+        />
+        <CategoryFilterSheet
+          open={activeSheet === 'category'}
+          onClose={() => setActiveSheet(null)}
+          value={categoryFilter}
+          onChange={setCategoryFilter}
+        />
+        <PaymentModeFilterSheet
+          open={activeSheet === 'payment'}
+          onClose={() => setActiveSheet(null)}
+          value={paymentFilter}
+          onChange={setPaymentFilter}
+        />
+        <StatusFilterSheet
+          open={activeSheet === 'status'}
+          onClose={() => setActiveSheet(null)}
+          value={statusFilter}
+          onChange={setStatusFilter}
+        />
+        <TagsFilterSheet
+          open={activeSheet === 'tags'}
+          onClose={() => setActiveSheet(null)}
+          value={tagsFilter}
+          onChange={setTagsFilter}
+          allTags={allTags}
+          registry={tags}
+          usage={usageByTag}
+          onManage={() => setActiveSheet('manage_tags')}
+        />
+        <SortSheet
+          open={activeSheet === 'sort'}
+          onClose={() => setActiveSheet(null)}
+          sort={sort}
+          grouping={grouping}
+          onChange={(nextSort, nextGrouping) => { setSort(nextSort); setGrouping(nextGrouping); }}
+        />
+      </Fragment>
+
+      {/* ── Saved views sheet ────────────────────────────────────────── */}
+      <SavedViewsSheet
+        open={activeSheet === 'views'}
         onClose={() => setActiveSheet(null)}
-        value={tagsFilter}
-        onChange={setTagsFilter}
-        allTags={allTags}
+        current={{ filters: currentFilters, sort, grouping }}
+        active={activeView}
+        modified={viewModified}
+        onOpen={openView}
+        onActiveChange={pointAtView}
+        onDone={showToast}
       />
 
       {/* ── Report sheet ─────────────────────────────────────────────── */}
       <ReportSheet
         open={activeSheet === 'report'}
         onClose={() => setActiveSheet(null)}
-        filteredTransactions={filtered}
+        transactions={chipFiltered}
+        query={search}
+        onQueryChange={setSearch}
+        searchSource={searchSource}
         accounts={accounts}
         dateFilter={dateFilter}
         activeTypeFilters={typeFilter}
         activeCategoryFilters={categoryFilter}
       />
 
+      {/* ── Tag manager ──────────────────────────────────────────────── */}
+      <TagManager
+        open={activeSheet === 'manage_tags'}
+        onClose={() => setActiveSheet(null)}
+        transactions={transactions}
+      />
+
+      {/* ── Duplicates sheet ─────────────────────────────────────────── */}
+      <DuplicatesSheet
+        open={activeSheet === 'duplicates'}
+        onClose={() => setActiveSheet(null)}
+        pairs={duplicatePairs}
+        accounts={accounts}
+      />
+
       {/* ── Delete confirm ───────────────────────────────────────────── */}
       <DeleteConfirm
         open={!!confirmDeleteId}
@@ -0,0 +1,113 @@
+import { useEffect, useState } from 'react';
+import { addDays, differenceInCalendarDays, parseISO } from 'date-fns';
+import { formatDate } from '../core/locale';
+import { useTrashStore, type TrashItem } from '../store/useTrashStore';
+import { useUIStore } from '../store/useUIStore';
+import Button from '../components/ui/Button';
+import Badge from '../components/ui/Badge';
+import Card from '../components/ui/Card';
+import Modal from '../components/ui/Modal';
+
+const TABLE_BADGES: Record<TrashItem['table'], string> = {
+  transactions: 'Transaction',
+  loans: 'Loan',
+  credit_cards: 'Card',
+  goals: 'Goal',
+  budgets: 'Budget',
+  subscriptions: 'Subscription',
+};
+
+export default function TrashPage() {
+  const { items, loading, load, restore, purge } = useTrashStore();
+  const { trashRetentionDays } = useUIStore();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [confirm, setConfirm] = useState<TrashItem[] | null>(null);
+
+  useEffect(() => { void load(); }, [load]);
+
+  async function handleRestore(item: TrashItem) {
+    setBusyId(item.id);
+    try {
+      await restore(item);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handlePurge() {
+    if (!confirm) return;
+    await purge(confirm);
+    setConfirm(null);
+  }
+
+  function purgeNote(item: TrashItem): string | null {
+    if (trashRetentionDays <= 0) return null;
+    const left = differenceInCalendarDays(addDays(parseISO(item.deletedAt), trashRetentionDays), new Date());
+    return left <= 0 ? 'Deleted permanently soon' : `Deleted permanently in ${left} day${left === 1 ? '' : 's'}`;
+  }
+
+  return (
+    <div className="p-4 lg:p-6 space-y-4 max-w-4xl mx-auto">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-bold text-slate-900">Trash</h1>
+          <p className="text-slate-500 text-sm mt-0.5">
+            {trashRetentionDays > 0
+              ? `Deleted items are kept for ${trashRetentionDays} days`
+              : 'Deleted items are kept until you empty the trash'}
+          </p>
+        </div>
+        {items.length > 0 && (
+          <Button size="sm" variant="danger" onClick={() => setConfirm(items)}>Empty Trash</Button>
+        )}
+      </div>
+
+      {loading && items.length === 0 ? (
+        <p className="text-sm text-slate-400">Loading…</p>
+      ) : items.length === 0 ? (
+        <Card className="text-center py-10">
+          <p className="text-slate-500 text-sm">Nothing in the trash.</p>
+        </Card>
+      ) : (
+        <ul className="space-y-2" role="list">
+          {items.map((item) => (
+            <li key={`${item.table}:${item.id}`}>
+              <Card className="flex items-center gap-3">
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-semibold text-slate-800 truncate">{item.label}</p>
+                    <Badge>{TABLE_BADGES[item.table]}</Badge>
+                  </div>
+                  <p className="text-xs text-slate-500 mt-0.5 truncate">{item.detail}</p>
+                  <p className="text-xs text-slate-400 mt-0.5">
+                    Deleted {formatDate(item.deletedAt)}
+                    {purgeNote(item) && ` · ${purgeNote(item)}`}
+                  </p>
+                </div>
+                <Button size="sm" variant="secondary" loading={busyId === item.id} onClick={() => void handleRestore(item)}>
+                  Restore
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setConfirm([item])} aria-label={`Delete ${item.label} permanently`}>
+                  Delete
+                </Button>
+              </Card>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Modal open={confirm !== null} onClose={() => setConfirm(null)} title="Delete permanently?" size="sm">
+        <p className="text-sm text-slate-600">
+          {confirm && confirm.length === 1
+            ? `"${confirm[0].label}" will be deleted for good.`
+            : `All ${confirm?.length ?? 0} items in the trash will be deleted for good.`}
+          {' '}This can't be undone.
+        </p>
+        <div className="flex justify-end gap-2 mt-5">
+          <Button variant="ghost" onClick={() => setConfirm(null)}>Cancel</Button>
+          <Button variant="danger" onClick={() => void handlePurge()}>Delete</Button>
+        </div>
+      </Modal>
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 import { create } from 'zustand';
 import { db } from '../core/db';
+import { onTableChange, mergeLive } from '../core/live';
+import { undoable } from '../core/history';
 import type { Account, AccountType } from '../core/types';
 import { newId, now } from '../core/types';
 import { getCurrentUserId } from '../auth/useAuthStore';
@@ -13,7 +15,7 @@ interface AccountState {
   remove: (id: string) => Promise<void>;
 }
 
-export const useAccountStore = create<AccountState>((set) => ({
+export const useAccountStore = create<AccountState>((set, get) => ({
   accounts: [],
   loading: false,
 
@@ -28,7 +30,7 @@ export const useAccountStore = create<AccountState>((set) => ({
     }
   },
 
-  add: async (data) => {
+  add: undoable('Account added', async (rec, data) => {
     const userId = getCurrentUserId();
     const account: Account = {
       id: newId(),
@@ -36,27 +38,32 @@ export const useAccountStore = create<AccountState>((set) => ({
       updatedAt: now(),
       ...data,
     };
-    await db.accounts.forUser(userId).add(account);
+    await db.accounts.forUser(userId, rec).add(account);
     set((s) => ({ accounts: [...s.accounts, account] }));
     return account;
-  },
+  }),
 
-  update: async (id, data) => {
+  update: undoable('Account updated', async (rec, id, data) => {
     const userId = getCurrentUserId();
     const updated = { ...data, updatedAt: now() };
-    await db.accounts.forUser(userId).update(id, updated);
+    const version = get().accounts.find((a) => a.id === id)?.updatedAt;
+    await db.accounts.forUser(userId, rec).update(id, updated, version);
     set((s) => ({
       accounts: s.accounts.map((a) => (a.id === id ? { ...a, ...updated } : a)),
     }));
-  },
+  }),
 
-  remove: async (id) => {
+  remove: undoable('Account deleted', async (rec, id) => {
     const userId = getCurrentUserId();
-    await db.accounts.forUser(userId).remove(id);
+    await db.accounts.forUser(userId, rec).remove(id);
     set((s) => ({ accounts: s.accounts.filter((a) => a.id !== id) }));
-  },
+  }),
 }));
 
+// Merge writes made in other tabs and on other devices
+onTableChange('accounts', (changes) =>
+  useAccountStore.setState((s) => ({ accounts: mergeLive(s.accounts, changes) })));
+
 // Seed a default account for the current user if they have none
 export async function seedDefaultAccount(): Promise<void> {
   try {
@@ -1,8 +1,28 @@
 import { create } from 'zustand';
 import { db } from '../core/db';
+import { onTableChange, mergeLive } from '../core/live';
+import { undoable } from '../core/history';
 import type { Budget } from '../core/types';
 import { newId, now } from '../core/types';
 import { getCurrentUserId } from '../auth/useAuthStore';
+import { fromLegacyMinor } from '../core/legacyAmounts';
+import { useUIStore } from './useUIStore';
+
+// Budgets saved without a currency hold hundredths of the base currency
+async function upgradeLegacy(budgets: Budget[]): Promise<Budget[]> {
+  const currency = useUIStore.getState().currency;
+  const upgraded: Budget[] = [];
+  for (const budget of budgets) {
+    if (budget.currency) {
+      upgraded.push(budget);
+      continue;
+    }
+    const changes = { currency, amountMinorUnits: fromLegacyMinor(budget.amountMinorUnits, currency), updatedAt: now() };
+    await db.budgets.forUser(getCurrentUserId()).update(budget.id, changes);
+    upgraded.push({ ...budget, ...changes });
+  }
+  return upgraded;
+}
 
 interface BudgetState {
   budgets: Budget[];
@@ -13,7 +33,7 @@ interface BudgetState {
   remove: (id: string) => Promise<void>;
 }
 
-export const useBudgetStore = create<BudgetState>((set) => ({
+export const useBudgetStore = create<BudgetState>((set, get) => ({
   budgets: [],
   loading: false,
 
@@ -21,29 +41,34 @@ export const useBudgetStore = create<BudgetState>((set) => ({
     set({ loading: true });
     try {
       const userId = getCurrentUserId();
-      const budgets = await db.budgets.forUser(userId).toArray();
+      const budgets = await upgradeLegacy(await db.budgets.forUser(userId).toArray());
       set({ budgets, loading: false });
     } catch {
       set({ loading: false });
     }
   },
 
-  add: async (data) => {
+  add: undoable('Budget added', async (rec, data) => {
     const userId = getCurrentUserId();
     const budget: Budget = { id: newId(), createdAt: now(), updatedAt: now(), ...data };
-    await db.budgets.forUser(userId).add(budget);
+    await db.budgets.forUser(userId, rec).add(budget);
     set((s) => ({ budgets: [...s.budgets, budget] }));
     return budget;
-  },
+  }),
 
-  update: async (id, data) => {
+  update: undoable('Budget updated', async (rec, id, data) => {
     const updated = { ...data, updatedAt: now() };
-    await db.budgets.forUser(getCurrentUserId()).update(id, updated);
+    const version = get().budgets.find((b) => b.id === id)?.updatedAt;
+    await db.budgets.forUser(getCurrentUserId(), rec).update(id, updated, version);
     set((s) => ({ budgets: s.budgets.map((b) => (b.id === id ? { ...b, ...updated } : b)) }));
-  },
+  }),
 
-  remove: async (id) => {
-    await db.budgets.forUser(getCurrentUserId()).update(id, { deletedAt: now(), updatedAt: now() });
+  remove: undoable('Budget deleted', async (rec, id) => {
+    await db.budgets.forUser(getCurrentUserId(), rec).update(id, { deletedAt: now(), updatedAt: now() });
     set((s) => ({ budgets: s.budgets.filter((b) => b.id !== id) }));
-  },
+  }),
 }));
+
+// Merge writes made in other tabs and on other devices
+onTableChange('budgets', (changes) =>
+  useBudgetStore.setState((s) => ({ budgets: mergeLive(s.budgets, changes) })));
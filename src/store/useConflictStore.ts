@@ -0,0 +1,81 @@
+import { create } from 'zustand';
+import { getStorage, VersionConflictError, type DbRow } from '../core/storage';
+import { notifyChanges } from '../core/live';
+import { adoptRemoteRow } from '../core/sync';
+import { sealRow } from '../core/vault';
+import { newId, now } from '../core/types';
+
+/** An update rejected because the row changed elsewhere after it was read. */
+export interface Conflict {
+  id: string;
+  table: string;
+  rowId: string;
+  userId?: string;
+  /** The columns this device tried to write (snake_case). */
+  changes: DbRow;
+  /** The row as the server has it now. */
+  server: DbRow;
+  detectedAt: string;
+}
+
+interface ConflictState {
+  conflicts: Conflict[];
+  /** Record a conflict; a second one on the same row folds into the first. */
+  report: (conflict: Omit<Conflict, 'id' | 'detectedAt'>) => void;
+  /** Re-apply this device's changes on top of the server version. */
+  keepMine: (id: string) => Promise<void>;
+  /** Discard this device's changes and take the server version. */
+  keepServer: (id: string) => Promise<void>;
+}
+
+// The local-first mirror must hold the server row before it is built upon or shown,
+// even with later writes to it still queued; otherwise the local version check
+// rejects "keep mine" again. Conflicts hold rows opened for display; the mirror
+// keeps vault columns sealed.
+async function adoptServerRow(c: Conflict): Promise<void> {
+  if (getStorage().backend === 'local-first') await adoptRemoteRow(c.table, await sealRow(c.table, c.server));
+}
+
+export const useConflictStore = create<ConflictState>((set, get) => ({
+  conflicts: [],
+
+  report: (conflict) => {
+    set((s) => {
+      const existing = s.conflicts.find((c) => c.table === conflict.table && c.rowId === conflict.rowId);
+      if (!existing) {
+        return { conflicts: [...s.conflicts, { ...conflict, id: newId(), detectedAt: now() }] };
+      }
+      const merged = { ...existing, server: conflict.server, changes: { ...existing.changes, ...conflict.changes } };
+      return { conflicts: s.conflicts.map((c) => (c.id === existing.id ? merged : c)) };
+    });
+  },
+
+  keepMine: async (id) => {
+    const conflict = get().conflicts.find((c) => c.id === id);
+    if (!conflict) return;
+    await adoptServerRow(conflict);
+    const changes = { ...conflict.changes, updated_at: now() };
+    try {
+      await getStorage().update(
+        conflict.table, conflict.rowId, changes, conflict.userId, conflict.server['updated_at'] as string,
+      );
+    } catch (err) {
+      // Changed again in the meantime: show the newer server version instead
+      if (err instanceof VersionConflictError) {
+        set((s) => ({ conflicts: s.conflicts.map((c) => (c.id === id ? { ...c, server: err.server } : c)) }));
+        return;
+      }
+      throw err;
+    }
+    set((s) => ({ conflicts: s.conflicts.filter((c) => c.id !== id) }));
+    notifyChanges(conflict.table, [{ kind: 'upsert', row: { ...conflict.server, ...changes }, partial: false, replace: true }]);
+  },
+
+  keepServer: async (id) => {
+    const conflict = get().conflicts.find((c) => c.id === id);
+    if (!conflict) return;
+    await adoptServerRow(conflict);
+    set((s) => ({ conflicts: s.conflicts.filter((c) => c.id !== id) }));
+    notifyChanges(conflict.table, [{ kind: 'upsert', row: conflict.server, partial: false, replace: true }]);
+  },
+}));
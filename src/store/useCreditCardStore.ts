@@ -1,5 +1,8 @@
 import { create } from 'zustand';
-import { db } from '../core/db';
+import { db, type WriteBatch } from '../core/db';
+import { onTableChange, mergeLive } from '../core/live';
+import { undoable } from '../core/history';
+import { defineModifier } from '../core/modifiers';
 import type { CreditCard, CreditCardTransaction } from '../core/types';
 import { newId, now } from '../core/types';
 import { getCurrentUserId } from '../auth/useAuthStore';
@@ -11,11 +14,35 @@ interface CreditCardState {
   add: (data: Omit<CreditCard, 'id' | 'createdAt' | 'updatedAt' | 'transactions'>) => Promise<CreditCard>;
   update: (id: string, data: Partial<CreditCard>) => Promise<void>;
   remove: (id: string) => Promise<void>;
-  addTransaction: (cardId: string, txn: Omit<CreditCardTransaction, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
+  /** Record spend on a card. With `batch`, the write is staged there and applied when the caller commits. */
+  addTransaction: (cardId: string, txn: Omit<CreditCardTransaction, 'id' | 'createdAt' | 'updatedAt'>, batch?: WriteBatch) => Promise<void>;
   removeTransaction: (cardId: string, txnId: string) => Promise<void>;
   recordPayment: (cardId: string, amountMinorUnits: number) => Promise<void>;
 }
 
+function replaceCard(card: CreditCard): void {
+  useCreditCardStore.setState((s) => ({ cards: s.cards.map((c) => (c.id === card.id ? card : c)) }));
+}
+
+// Balances are recomputed from the freshest stored copy of the card, so spend
+// or payments recorded on another device in the meantime aren't overwritten
+const addSpend = defineModifier('credit_cards.addTransaction', (card: CreditCard, txn: CreditCardTransaction) => ({
+  transactions: [...card.transactions, txn],
+  balanceMinorUnits: card.balanceMinorUnits + txn.amountMinorUnits,
+}));
+
+const removeSpend = defineModifier('credit_cards.removeTransaction', (card: CreditCard, txnId: string) => {
+  const txn = card.transactions.find((t) => t.id === txnId);
+  if (!txn) return null;
+  return { transactions: card.transactions.filter((t) => t.id !== txnId), balanceMinorUnits: Math.max(0, card.balanceMinorUnits - txn.amountMinorUnits) };
+});
+
+const recordPayment = defineModifier('credit_cards.recordPayment', (card: CreditCard, amountMinorUnits: number) => {
+  const newBalance = Math.max(0, card.balanceMinorUnits - amountMinorUnits);
+  const newStatus: CreditCard['status'] = newBalance === 0 ? 'active' : card.status === 'overdue' ? 'active' : card.status;
+  return { balanceMinorUnits: newBalance, status: newStatus };
+});
+
 export const useCreditCardStore = create<CreditCardState>((set, get) => ({
   cards: [],
   loading: false,
@@ -32,54 +59,46 @@ export const useCreditCardStore = create<CreditCardState>((set, get) => ({
     }
   },
 
-  add: async (data) => {
+  add: undoable('Card added', async (rec, data) => {
     const userId = getCurrentUserId();
     const card: CreditCard = { id: newId(), createdAt: now(), updatedAt: now(), transactions: [], ...data };
-    await db.creditCards.forUser(userId).add(card);
+    await db.creditCards.forUser(userId, rec).add(card);
     set((s) => ({ cards: [card, ...s.cards] }));
     return card;
-  },
+  }),
 
-  update: async (id, data) => {
+  update: undoable('Card updated', async (rec, id, data) => {
     const updated = { ...data, updatedAt: now() };
-    await db.creditCards.forUser(getCurrentUserId()).update(id, updated);
+    const version = get().cards.find((c) => c.id === id)?.updatedAt;
+    await db.creditCards.forUser(getCurrentUserId(), rec).update(id, updated, version);
     set((s) => ({ cards: s.cards.map((c) => (c.id === id ? { ...c, ...updated } : c)) }));
-  },
+  }),
 
-  remove: async (id) => {
-    await db.creditCards.forUser(getCurrentUserId()).update(id, { deletedAt: now(), updatedAt: now() });
+  remove: undoable('Card removed', async (rec, id) => {
+    await db.creditCards.forUser(getCurrentUserId(), rec).update(id, { deletedAt: now(), updatedAt: now() });
     set((s) => ({ cards: s.cards.filter((c) => c.id !== id) }));
-  },
+  }),
 
-  addTransaction: async (cardId, txnData) => {
-    const { cards } = get();
-    const card = cards.find((c) => c.id === cardId);
-    if (!card) return;
+  addTransaction: undoable('Card spend added', async (rec, cardId, txnData, batch) => {
     const txn: CreditCardTransaction = { id: newId(), createdAt: now(), updatedAt: now(), ...txnData };
-    const updatedCard: Partial<CreditCard> = { transactions: [...card.transactions, txn], balanceMinorUnits: card.balanceMinorUnits + txn.amountMinorUnits, updatedAt: now() };
-    await db.creditCards.forUser(getCurrentUserId()).update(cardId, updatedCard);
-    set((s) => ({ cards: s.cards.map((c) => (c.id === cardId ? { ...c, ...updatedCard } : c)) }));
-  },
+    const writes = batch ?? db.batch(rec);
+    writes.modify(db.creditCards.forUser(getCurrentUserId(), rec), cardId, addSpend, txn, replaceCard);
+    if (!batch) await writes.commit();
+  }),
 
-  removeTransaction: async (cardId, txnId) => {
-    const { cards } = get();
-    const card = cards.find((c) => c.id === cardId);
-    if (!card) return;
-    const txn = card.transactions.find((t) => t.id === txnId);
-    if (!txn) return;
-    const updatedCard: Partial<CreditCard> = { transactions: card.transactions.filter((t) => t.id !== txnId), balanceMinorUnits: Math.max(0, card.balanceMinorUnits - txn.amountMinorUnits), updatedAt: now() };
-    await db.creditCards.forUser(getCurrentUserId()).update(cardId, updatedCard);
-    set((s) => ({ cards: s.cards.map((c) => (c.id === cardId ? { ...c, ...updatedCard } : c)) }));
-  },
+  removeTransaction: undoable('Card spend removed', async (rec, cardId, txnId) => {
+    await db.batch(rec)
+      .modify(db.creditCards.forUser(getCurrentUserId(), rec), cardId, removeSpend, txnId, replaceCard)
+      .commit();
+  }),
 
-  recordPayment: async (cardId, amountMinorUnits) => {
-    const { cards } = get();
-    const card = cards.find((c) => c.id === cardId);
-    if (!card) return;
-    const newBalance = Math.max(0, card.balanceMinorUnits - amountMinorUnits);
-    const newStatus: CreditCard['status'] = newBalance === 0 ? 'active' : card.status === 'overdue' ? 'active' : card.status;
-    const updatedCard: Partial<CreditCard> = { balanceMinorUnits: newBalance, status: newStatus, updatedAt: now() };
-    await db.creditCards.forUser(getCurrentUserId()).update(cardId, updatedCard);
-    set((s) => ({ cards: s.cards.map((c) => (c.id === cardId ? { ...c, ...updatedCard } : c)) }));
-  },
+  recordPayment: undoable('Card payment recorded', async (rec, cardId, amountMinorUnits) => {
+    await db.batch(rec)
+      .modify(db.creditCards.forUser(getCurrentUserId(), rec), cardId, recordPayment, amountMinorUnits, replaceCard)
+      .commit();
+  }),
 }));
+
+// Merge writes made in other tabs and on other devices
+onTableChange('credit_cards', (changes) =>
+  useCreditCardStore.setState((s) => ({ cards: mergeLive(s.cards, changes).sort((a, b) => b.createdAt.localeCompare(a.createdAt)) })));
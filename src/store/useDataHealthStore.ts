@@ -0,0 +1,45 @@
+import { create } from 'zustand';
+import type { DbRow } from '../core/storage';
+import { UserScopedTable } from '../core/db';
+import { getCurrentUserId } from '../auth/useAuthStore';
+
+/** A stored row that failed validation and is being kept out of the app. */
+export interface InvalidRow {
+  table: string;
+  id: string;
+  /** One entry per failing field, e.g. "amountMinorUnits: Invalid input". */
+  problems: string[];
+  /** The row as stored (snake_case). */
+  row: DbRow;
+}
+
+interface DataHealthState {
+  invalid: InvalidRow[];
+  /**
+   * Record the outcome of checking `checkedIds` in `table`: `found` replaces
+   * any earlier report for those rows, so rows that now pass drop out.
+   */
+  record: (table: string, checkedIds: string[], found: InvalidRow[]) => void;
+  /** Permanently delete an invalid row. */
+  discard: (table: string, id: string) => Promise<void>;
+}
+
+export const useDataHealthStore = create<DataHealthState>((set, get) => ({
+  invalid: [],
+
+  record: (table, checkedIds, found) => {
+    const checked = new Set(checkedIds);
+    const current = get().invalid;
+    const kept = current.filter((r) => r.table !== table || !checked.has(r.id));
+    // Most reads find nothing new; avoid re-rendering the panel for them
+    if (found.length === 0 && kept.length === current.length) return;
+    const fresh = found.filter((f) => !current.some((r) => r.table === table && r.id === f.id));
+    if (fresh.length > 0) console.warn(`[Data] Skipped ${fresh.length} invalid row(s) in ${table}`);
+    set({ invalid: [...kept, ...found] });
+  },
+
+  discard: async (table, id) => {
+    await new UserScopedTable(table, getCurrentUserId()).purge([id]);
+    set((s) => ({ invalid: s.invalid.filter((r) => r.table !== table || r.id !== id) }));
+  },
+}));
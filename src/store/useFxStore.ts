@@ -0,0 +1,92 @@
+import { useMemo } from 'react';
+import { create } from 'zustand';
+import { db } from '../core/db';
+import { onTableChange, mergeLive } from '../core/live';
+import { undoable, type Recording } from '../core/history';
+import { createConverter, parseRatesCsv, type Converter, type FxRateInput } from '../core/fx';
+import type { FxRate } from '../core/types';
+import { newId, now } from '../core/types';
+import { getCurrentUserId } from '../auth/useAuthStore';
+import { useUIStore } from './useUIStore';
+
+function sortRates(rates: FxRate[]): FxRate[] {
+  return rates.slice().sort((a, b) =>
+    b.date.localeCompare(a.date) || a.fromCurrency.localeCompare(b.fromCurrency) || a.toCurrency.localeCompare(b.toCurrency));
+}
+
+function samePair(a: FxRateInput, b: FxRateInput): boolean {
+  return a.date === b.date && a.fromCurrency === b.fromCurrency && a.toCurrency === b.toCurrency;
+}
+
+interface FxState {
+  rates: FxRate[];
+  loading: boolean;
+  load: () => Promise<void>;
+  /** Record a rate; replaces the one already held for the same pair and day. */
+  add: (data: FxRateInput) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+  /** Import rates from CSV (see `parseRatesCsv`); returns what was imported and the lines skipped. */
+  importCsv: (text: string) => Promise<{ imported: number; errors: string[] }>;
+}
+
+export const useFxStore = create<FxState>((set, get) => {
+  // Existing rates for the same pair and day keep their id, so they are replaced
+  async function save(rec: Recording, inputs: FxRateInput[]): Promise<void> {
+    const rates = inputs.map((input): FxRate => {
+      const existing = get().rates.find((r) => samePair(r, input));
+      return existing
+        ? { ...existing, rate: input.rate, updatedAt: now() }
+        : { id: newId(), createdAt: now(), updatedAt: now(), ...input };
+    });
+    await db.fxRates.forUser(getCurrentUserId(), rec).bulkPut(rates);
+    set((s) => ({
+      rates: sortRates([...s.rates.filter((r) => !rates.some((n) => n.id === r.id)), ...rates]),
+    }));
+  }
+
+  return {
+    rates: [],
+    loading: false,
+
+    load: async () => {
+      set({ loading: true });
+      try {
+        const rates = await db.fxRates.forUser(getCurrentUserId()).toArray();
+        set({ rates: sortRates(rates), loading: false });
+      } catch {
+        set({ loading: false });
+      }
+    },
+
+    add: undoable('Exchange rate saved', (rec, data) => save(rec, [data])),
+
+    remove: undoable('Exchange rate deleted', async (rec, id) => {
+      await db.fxRates.forUser(getCurrentUserId(), rec).update(id, { deletedAt: now(), updatedAt: now() });
+      set((s) => ({ rates: s.rates.filter((r) => r.id !== id) }));
+    }),
+
+    importCsv: undoable(({ imported }) => `${imported} exchange rate${imported === 1 ? '' : 's'} imported`, async (rec, text) => {
+      const { rates, errors } = parseRatesCsv(text);
+      // A later line for the same pair and day wins
+      const unique = rates.filter((r, i) => !rates.slice(i + 1).some((later) => samePair(r, later)));
+      if (unique.length > 0) await save(rec, unique);
+      return { imported: unique.length, errors };
+    }),
+  };
+});
+
+/** Converter into the base currency from the user's current rates. */
+export function useConverter(): Converter {
+  const rates = useFxStore((s) => s.rates);
+  const base = useUIStore((s) => s.currency);
+  return useMemo(() => createConverter(rates, base), [rates, base]);
+}
+
+/** The same, outside React. */
+export function currentConverter(): Converter {
+  return createConverter(useFxStore.getState().rates, useUIStore.getState().currency);
+}
+
+// Merge writes made in other tabs and on other devices
+onTableChange('fx_rates', (changes) =>
+  useFxStore.setState((s) => ({ rates: sortRates(mergeLive(s.rates, changes)) })));
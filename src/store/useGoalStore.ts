@@ -1,5 +1,8 @@
 import { create } from 'zustand';
-import { db } from '../core/db';
+import { db, type WriteBatch } from '../core/db';
+import { onTableChange, mergeLive } from '../core/live';
+import { undoable } from '../core/history';
+import { defineModifier } from '../core/modifiers';
 import type { FinancialGoal } from '../core/types';
 import { newId, now } from '../core/types';
 import { getCurrentUserId } from '../auth/useAuthStore';
@@ -11,12 +14,30 @@ interface GoalState {
   add: (data: Omit<FinancialGoal, 'id' | 'createdAt' | 'updatedAt'>) => Promise<FinancialGoal>;
   update: (id: string, data: Partial<FinancialGoal>) => Promise<void>;
   remove: (id: string) => Promise<void>;
-  /** Add transaction amount to goal progress. Returns true if goal is now achieved. */
-  allocateAmount: (goalId: string, amountMinorUnits: number) => Promise<boolean>;
+  /** Add transaction amount to goal progress. Returns true if goal is now achieved.
+   *  With `batch`, the write is staged there and applied when the caller commits;
+   *  the result is then only known afterwards, from the goal in state. */
+  allocateAmount: (goalId: string, amountMinorUnits: number, batch?: WriteBatch) => Promise<boolean>;
   /** Reverse a transaction allocation (e.g. on delete). */
-  deallocateAmount: (goalId: string, amountMinorUnits: number) => Promise<void>;
+  deallocateAmount: (goalId: string, amountMinorUnits: number, batch?: WriteBatch) => Promise<void>;
 }
 
+function replaceGoal(goal: FinancialGoal): void {
+  useGoalStore.setState((s) => ({ goals: s.goals.map((g) => (g.id === goal.id ? goal : g)) }));
+}
+
+// Progress is recomputed from the freshest stored copy of the goal, so an
+// allocation made on another device in the meantime isn't overwritten
+const allocate = defineModifier('goals.allocateAmount', (goal: FinancialGoal, amountMinorUnits: number) => {
+  const newCurrent = goal.currentMinorUnits + amountMinorUnits;
+  return { currentMinorUnits: newCurrent, isAchieved: newCurrent >= goal.targetMinorUnits };
+});
+
+const deallocate = defineModifier('goals.deallocateAmount', (goal: FinancialGoal, amountMinorUnits: number) => {
+  const newCurrent = Math.max(0, goal.currentMinorUnits - amountMinorUnits);
+  return { currentMinorUnits: newCurrent, isAchieved: newCurrent >= goal.targetMinorUnits };
+});
+
 export const useGoalStore = create<GoalState>((set, get) => ({
   goals: [],
   loading: false,
@@ -32,46 +53,41 @@ export const useGoalStore = create<GoalState>((set, get) => ({
     }
   },
 
-  add: async (data) => {
+  add: undoable('Goal added', async (rec, data) => {
     const userId = getCurrentUserId();
     const goal: FinancialGoal = { id: newId(), createdAt: now(), updatedAt: now(), ...data };
-    await db.goals.forUser(userId).add(goal);
+    await db.goals.forUser(userId, rec).add(goal);
     set((s) => ({ goals: [...s.goals, goal] }));
     return goal;
-  },
+  }),
 
-  update: async (id, data) => {
+  update: undoable('Goal updated', async (rec, id, data) => {
     const updated = { ...data, updatedAt: now() };
-    await db.goals.forUser(getCurrentUserId()).update(id, updated);
+    const version = get().goals.find((g) => g.id === id)?.updatedAt;
+    await db.goals.forUser(getCurrentUserId(), rec).update(id, updated, version);
     set((s) => ({ goals: s.goals.map((g) => (g.id === id ? { ...g, ...updated } : g)) }));
-  },
+  }),
 
-  remove: async (id) => {
-    await db.goals.forUser(getCurrentUserId()).update(id, { deletedAt: now(), updatedAt: now() });
+  remove: undoable('Goal deleted', async (rec, id) => {
+    await db.goals.forUser(getCurrentUserId(), rec).update(id, { deletedAt: now(), updatedAt: now() });
     set((s) => ({ goals: s.goals.filter((g) => g.id !== id) }));
-  },
+  }),
 
-  allocateAmount: async (goalId, amountMinorUnits) => {
-    const goal = get().goals.find((g) => g.id === goalId);
-    if (!goal) return false;
-    const newCurrent = goal.currentMinorUnits + amountMinorUnits;
-    const isAchieved = newCurrent >= goal.targetMinorUnits;
-    const changes: Partial<FinancialGoal> = { currentMinorUnits: newCurrent, isAchieved, updatedAt: now() };
-    await db.goals.forUser(getCurrentUserId()).update(goalId, changes);
-    set((s) => ({ goals: s.goals.map((g) => g.id === goalId ? { ...g, ...changes } : g) }));
-    return isAchieved;
-  },
+  allocateAmount: undoable('Added to goal', async (rec, goalId, amountMinorUnits, batch) => {
+    const writes = batch ?? db.batch(rec);
+    writes.modify(db.goals.forUser(getCurrentUserId(), rec), goalId, allocate, amountMinorUnits, replaceGoal);
+    if (batch) return false;
+    await writes.commit();
+    return get().goals.find((g) => g.id === goalId)?.isAchieved ?? false;
+  }),
 
-  deallocateAmount: async (goalId, amountMinorUnits) => {
-    const goal = get().goals.find((g) => g.id === goalId);
-    if (!goal) return;
-    const newCurrent = Math.max(0, goal.currentMinorUnits - amountMinorUnits);
-    const changes: Partial<FinancialGoal> = {
-      currentMinorUnits: newCurrent,
-      isAchieved: newCurrent >= goal.targetMinorUnits,
-      updatedAt: now(),
-    };
-    await db.goals.forUser(getCurrentUserId()).update(goalId, changes);
-    set((s) => ({ goals: s.goals.map((g) => g.id === goalId ? { ...g, ...changes } : g) }));
-  },
+  deallocateAmount: undoable('Taken from goal', async (rec, goalId, amountMinorUnits, batch) => {
+    const writes = batch ?? db.batch(rec);
+    writes.modify(db.goals.forUser(getCurrentUserId(), rec), goalId, deallocate, amountMinorUnits, replaceGoal);
+    if (!batch) await writes.commit();
+  }),
 }));
+
+// Merge writes made in other tabs and on other devices
+onTableChange('goals', (changes) =>
+  useGoalStore.setState((s) => ({ goals: mergeLive(s.goals, changes) })));
@@ -0,0 +1,115 @@
+import { create } from 'zustand';
+import { applyCommand, type Command } from '../core/history';
+import { attachmentPaths, retireFiles, sweepRetiredFiles } from '../core/attachments';
+
+/** Oldest commands fall off the undo stack beyond this. */
+const MAX_COMMANDS = 50;
+
+/** What the undo toast shows; `action` is the step its button takes. */
+export interface HistoryNotice {
+  id: number;
+  text: string;
+  action: 'undo' | 'redo' | null;
+}
+
+interface HistoryState {
+  undoStack: Command[];
+  redoStack: Command[];
+  notice: HistoryNotice | null;
+  /** Record a command that has just been carried out; clears the redo stack. */
+  push: (command: Command) => void;
+  /** Reverse the latest command, with its effects on linked records. */
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  dismiss: () => void;
+  /** Forget everything, e.g. when the user signs out. */
+  clear: () => void;
+}
+
+let noticeId = 0;
+
+function notice(text: string, action: HistoryNotice['action']): HistoryNotice {
+  return { id: ++noticeId, text, action };
+}
+
+function message(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Files kept for `commands` to bring back can go once nothing else uses
+ * them. Signed out, they are only noted, to be swept after the next sign-in.
+ */
+function forget(commands: Command[], sweep = true): void {
+  const byUser = new Map<string, string[]>();
+  for (const r of commands.flatMap((c) => c.rows)) {
+    const paths = attachmentPaths([r.before, r.after]);
+    if (r.userId && paths.length > 0) byUser.set(r.userId, [...(byUser.get(r.userId) ?? []), ...paths]);
+  }
+  for (const [userId, paths] of byUser) {
+    retireFiles(userId, paths);
+    if (sweep) sweepRetiredFiles(userId).catch((err) => console.warn('[Files] Could not delete retired attachments:', err));
+  }
+}
+
+export const useHistoryStore = create<HistoryState>((set, get) => ({
+  undoStack: [],
+  redoStack: [],
+  notice: null,
+
+  push: (command) => {
+    const { undoStack, redoStack } = get();
+    const stack = [...undoStack, command];
+    set({ undoStack: stack.slice(-MAX_COMMANDS), redoStack: [], notice: notice(command.label, 'undo') });
+    forget([...stack.slice(0, -MAX_COMMANDS), ...redoStack]);
+  },
+
+  undo: async () => {
+    const command = get().undoStack.at(-1);
+    if (!command) {
+      set({ notice: notice('Nothing to undo', null) });
+      return;
+    }
+    try {
+      const undone = await applyCommand(command, 'before');
+      set((s) => ({
+        undoStack: s.undoStack.filter((c) => c.id !== command.id),
+        redoStack: [...s.redoStack, undone],
+        notice: notice(`Undone: ${command.label}`, 'redo'),
+      }));
+    } catch (err) {
+      // A command that can't be undone now never will be; drop it so the ones below stay reachable
+      set((s) => ({ undoStack: s.undoStack.filter((c) => c.id !== command.id), notice: notice(message(err), null) }));
+      forget([command]);
+    }
+  },
+
+  redo: async () => {
+    const command = get().redoStack.at(-1);
+    if (!command) {
+      set({ notice: notice('Nothing to redo', null) });
+      return;
+    }
+    try {
+      const redone = await applyCommand(command, 'after');
+      const stack = [...get().undoStack, redone];
+      set((s) => ({
+        undoStack: stack.slice(-MAX_COMMANDS),
+        redoStack: s.redoStack.filter((c) => c.id !== command.id),
+        notice: notice(command.label, 'undo'),
+      }));
+      forget(stack.slice(0, -MAX_COMMANDS));
+    } catch (err) {
+      set((s) => ({ redoStack: s.redoStack.filter((c) => c.id !== command.id), notice: notice(message(err), null) }));
+      forget([command]);
+    }
+  },
+
+  dismiss: () => set({ notice: null }),
+
+  clear: () => {
+    const { undoStack, redoStack } = get();
+    set({ undoStack: [], redoStack: [], notice: null });
+    forget([...undoStack, ...redoStack], false);
+  },
+}));
@@ -1,5 +1,8 @@
 import { create } from 'zustand';
 import { db } from '../core/db';
+import { onTableChange, mergeLive } from '../core/live';
+import { undoable } from '../core/history';
+import { defineModifier } from '../core/modifiers';
 import type { Loan, LoanPayment } from '../core/types';
 import { newId, now } from '../core/types';
 import { getCurrentUserId } from '../auth/useAuthStore';
@@ -16,6 +19,36 @@ interface LoanState {
   removePayment: (loanId: string, paymentId: string) => Promise<void>;
 }
 
+function replaceLoan(loan: Loan): void {
+  useLoanStore.setState((s) => ({ loans: s.loans.map((l) => (l.id === loan.id ? loan : l)) }));
+}
+
+function loanStatus(loan: Loan, remaining: number): Loan['status'] {
+  return remaining === 0 ? 'settled' : remaining < loan.principalMinorUnits ? 'partially_paid' : 'active';
+}
+
+// Payments are applied to the freshest stored copy of the loan, so one
+// recorded on another device in the meantime isn't overwritten
+const addPayment = defineModifier('loans.addPayment', (loan: Loan, payment: LoanPayment) => {
+  const newRemaining = Math.max(0, loan.remainingMinorUnits - payment.amount);
+  return { payments: [...loan.payments, payment], remainingMinorUnits: newRemaining, status: loanStatus(loan, newRemaining) };
+});
+
+const updatePayment = defineModifier('loans.updatePayment', (loan: Loan, { paymentId, data }: { paymentId: string; data: Omit<LoanPayment, 'id'> }) => {
+  const oldPayment = loan.payments.find((p) => p.id === paymentId);
+  if (!oldPayment) return null;
+  const delta = data.amount - oldPayment.amount;
+  const newRemaining = Math.max(0, Math.min(loan.principalMinorUnits, loan.remainingMinorUnits - delta));
+  return { payments: loan.payments.map((p) => (p.id === paymentId ? { ...p, ...data } : p)), remainingMinorUnits: newRemaining, status: loanStatus(loan, newRemaining) };
+});
+
+const removePayment = defineModifier('loans.removePayment', (loan: Loan, paymentId: string) => {
+  const payment = loan.payments.find((p) => p.id === paymentId);
+  if (!payment) return null;
+  const newRemaining = Math.min(loan.principalMinorUnits, loan.remainingMinorUnits + payment.amount);
+  return { payments: loan.payments.filter((p) => p.id !== paymentId), remainingMinorUnits: newRemaining, status: loanStatus(loan, newRemaining) };
+});
+
 export const useLoanStore = create<LoanState>((set, get) => ({
   loans: [],
   loading: false,
@@ -32,61 +65,46 @@ export const useLoanStore = create<LoanState>((set, get) => ({
     }
   },
 
-  add: async (data) => {
+  add: undoable('Loan added', async (rec, data) => {
     const userId = getCurrentUserId();
     const loan: Loan = { id: newId(), createdAt: now(), updatedAt: now(), payments: [], ...data };
-    await db.loans.forUser(userId).add(loan);
+    await db.loans.forUser(userId, rec).add(loan);
     set((s) => ({ loans: [loan, ...s.loans] }));
     return loan;
-  },
+  }),
 
-  update: async (id, data) => {
+  update: undoable('Loan updated', async (rec, id, data) => {
     const updated = { ...data, updatedAt: now() };
-    await db.loans.forUser(getCurrentUserId()).update(id, updated);
+    const version = get().loans.find((l) => l.id === id)?.updatedAt;
+    await db.loans.forUser(getCurrentUserId(), rec).update(id, updated, version);
     set((s) => ({ loans: s.loans.map((l) => (l.id === id ? { ...l, ...updated } : l)) }));
-  },
+  }),
 
-  remove: async (id) => {
-    await db.loans.forUser(getCurrentUserId()).update(id, { deletedAt: now(), updatedAt: now() });
+  remove: undoable('Loan deleted', async (rec, id) => {
+    await db.loans.forUser(getCurrentUserId(), rec).update(id, { deletedAt: now(), updatedAt: now() });
     set((s) => ({ loans: s.loans.filter((l) => l.id !== id) }));
-  },
+  }),
 
-  addPayment: async (loanId, paymentData) => {
-    const { loans } = get();
-    const loan = loans.find((l) => l.id === loanId);
-    if (!loan) return;
+  addPayment: undoable('Loan payment recorded', async (rec, loanId, paymentData) => {
     const payment: LoanPayment = { id: newId(), ...paymentData };
-    const newRemaining = Math.max(0, loan.remainingMinorUnits - payment.amount);
-    const newStatus = newRemaining === 0 ? 'settled' : newRemaining < loan.principalMinorUnits ? 'partially_paid' : 'active';
-    const updatedLoan: Partial<Loan> = { payments: [...loan.payments, payment], remainingMinorUnits: newRemaining, status: newStatus, updatedAt: now() };
-    await db.loans.forUser(getCurrentUserId()).update(loanId, updatedLoan);
-    set((s) => ({ loans: s.loans.map((l) => (l.id === loanId ? { ...l, ...updatedLoan } : l)) }));
-  },
+    await db.batch(rec)
+      .modify(db.loans.forUser(getCurrentUserId(), rec), loanId, addPayment, payment, replaceLoan)
+      .commit();
+  }),
 
-  updatePayment: async (loanId, paymentId, data) => {
-    const { loans } = get();
-    const loan = loans.find((l) => l.id === loanId);
-    if (!loan) return;
-    const oldPayment = loan.payments.find((p) => p.id === paymentId);
-    if (!oldPayment) return;
-    const delta = data.amount - oldPayment.amount;
-    const newRemaining = Math.max(0, Math.min(loan.principalMinorUnits, loan.remainingMinorUnits - delta));
-    const newStatus: Loan['status'] = newRemaining === 0 ? 'settled' : newRemaining < loan.principalMinorUnits ? 'partially_paid' : 'active';
-    const updatedLoan: Partial<Loan> = { payments: loan.payments.map((p) => (p.id === paymentId ? { ...p, ...data } : p)), remainingMinorUnits: newRemaining, status: newStatus, updatedAt: now() };
-    await db.loans.forUser(getCurrentUserId()).update(loanId, updatedLoan);
-    set((s) => ({ loans: s.loans.map((l) => (l.id === loanId ? { ...l, ...updatedLoan } : l)) }));
-  },
+  updatePayment: undoable('Loan payment updated', async (rec, loanId, paymentId, data) => {
+    await db.batch(rec)
+      .modify(db.loans.forUser(getCurrentUserId(), rec), loanId, updatePayment, { paymentId, data }, replaceLoan)
+      .commit();
+  }),
 
-  removePayment: async (loanId, paymentId) => {
-    const { loans } = get();
-    const loan = loans.find((l) => l.id === loanId);
-    if (!loan) return;
-    const payment = loan.payments.find((p) => p.id === paymentId);
-    if (!payment) return;
-    const newRemaining = Math.min(loan.principalMinorUnits, loan.remainingMinorUnits + payment.amount);
-    const newStatus: Loan['status'] = newRemaining === 0 ? 'settled' : newRemaining < loan.principalMinorUnits ? 'partially_paid' : 'active';
-    const updatedLoan: Partial<Loan> = { payments: loan.payments.filter((p) => p.id !== paymentId), remainingMinorUnits: newRemaining, status: newStatus, updatedAt: now() };
-    await db.loans.forUser(getCurrentUserId()).update(loanId, updatedLoan);
-    set((s) => ({ loans: s.loans.map((l) => (l.id === loanId ? { ...l, ...updatedLoan } : l)) }));
-  },
+  removePayment: undoable('Loan payment removed', async (rec, loanId, paymentId) => {
+    await db.batch(rec)
+      .modify(db.loans.forUser(getCurrentUserId(), rec), loanId, removePayment, paymentId, replaceLoan)
+      .commit();
+  }),
 }));
+
+// Merge writes made in other tabs and on other devices
+onTableChange('loans', (changes) =>
+  useLoanStore.setState((s) => ({ loans: mergeLive(s.loans, changes).sort((a, b) => b.createdAt.localeCompare(a.createdAt)) })));
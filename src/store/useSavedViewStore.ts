@@ -0,0 +1,137 @@
+import { create } from 'zustand';
+import { db } from '../core/db';
+import { onTableChange, mergeLive } from '../core/live';
+import { onRestore, undoable } from '../core/history';
+import type { SavedView } from '../core/types';
+import { newId, now } from '../core/types';
+import { getCurrentUserId } from '../auth/useAuthStore';
+
+export type SavedViewInput = Pick<SavedView, 'name' | 'filters' | 'sort' | 'grouping' | 'pinned'>;
+
+function sortViews(views: SavedView[]): SavedView[] {
+  return views.slice().sort((a, b) => a.position - b.position || a.name.localeCompare(b.name));
+}
+
+/** URL-safe form of a view name, e.g. "Work expenses" → "work-expenses". */
+export function slugify(name: string): string {
+  const slug = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return slug || 'view';
+}
+
+// Numbered when another view already holds the slug: work-expenses-2
+function uniqueSlug(name: string, views: SavedView[], exceptId?: string): string {
+  const taken = new Set(views.filter((v) => v.id !== exceptId).map((v) => v.slug));
+  const base = slugify(name);
+  let slug = base;
+  for (let n = 2; taken.has(slug); n++) slug = `${base}-${n}`;
+  return slug;
+}
+
+function checkName(op: string, name: string, views: SavedView[], exceptId?: string): string {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error(`[DB] saved_views.${op}: a view needs a name`);
+  if (views.some((v) => v.id !== exceptId && v.name.toLowerCase() === trimmed.toLowerCase())) {
+    throw new Error(`[DB] saved_views.${op}: there is already a view named "${trimmed}"`);
+  }
+  return trimmed;
+}
+
+interface SavedViewState {
+  views: SavedView[];
+  loading: boolean;
+  load: () => Promise<void>;
+  add: (data: SavedViewInput) => Promise<SavedView>;
+  /** Renaming also renames the slug, so links to the old one stop working. */
+  update: (id: string, data: Partial<SavedViewInput>) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+  /** Swap a pinned view with its neighbour among the tabs. */
+  move: (id: string, offset: -1 | 1) => Promise<void>;
+}
+
+export const useSavedViewStore = create<SavedViewState>((set, get) => ({
+  views: [],
+  loading: false,
+
+  load: async () => {
+    set({ loading: true });
+    try {
+      const views = await db.savedViews.forUser(getCurrentUserId()).toArray();
+      set({ views: sortViews(views), loading: false });
+    } catch {
+      set({ loading: false });
+    }
+  },
+
+  add: undoable((view) => `View “${view.name}” saved`, async (rec, data) => {
+    const { views } = get();
+    const name = checkName('add', data.name, views);
+    const view: SavedView = {
+      id: newId(),
+      createdAt: now(),
+      updatedAt: now(),
+      ...data,
+      name,
+      slug: uniqueSlug(name, views),
+      position: views.reduce((max, v) => Math.max(max, v.position + 1), 0),
+    };
+    await db.savedViews.forUser(getCurrentUserId(), rec).add(view);
+    set((s) => ({ views: sortViews([...s.views, view]) }));
+    return view;
+  }),
+
+  update: undoable('View updated', async (rec, id, data) => {
+    const { views } = get();
+    const changes: Partial<SavedView> = { ...data, updatedAt: now() };
+    if (data.name !== undefined) {
+      changes.name = checkName('update', data.name, views, id);
+      changes.slug = uniqueSlug(changes.name, views, id);
+    }
+    const version = views.find((v) => v.id === id)?.updatedAt;
+    await db.savedViews.forUser(getCurrentUserId(), rec).update(id, changes, version);
+    set((s) => ({ views: sortViews(s.views.map((v) => (v.id === id ? { ...v, ...changes } : v))) }));
+  }),
+
+  remove: undoable('View deleted', async (rec, id) => {
+    await db.savedViews.forUser(getCurrentUserId(), rec).remove(id);
+    set((s) => ({ views: s.views.filter((v) => v.id !== id) }));
+  }),
+
+  move: undoable('Views reordered', async (rec, id, offset) => {
+    const pinned = get().views.filter((v) => v.pinned);
+    const from = pinned.findIndex((v) => v.id === id);
+    const a = pinned[from];
+    const b = pinned[from + offset];
+    if (!a || !b) return;
+    const table = db.savedViews.forUser(getCurrentUserId(), rec);
+    const stamp = now();
+    // Equal positions would leave the order to the names, so spread them apart
+    const [posA, posB] = a.position === b.position ? [b.position + offset, a.position] : [b.position, a.position];
+    await db.batch(rec)
+      .update(table, a.id, { position: posA, updatedAt: stamp }, a.updatedAt)
+      .update(table, b.id, { position: posB, updatedAt: stamp }, b.updatedAt)
+      .onCommit(() => set((s) => ({
+        views: sortViews(s.views.map((v) =>
+          v.id === a.id ? { ...v, position: posA, updatedAt: stamp }
+            : v.id === b.id ? { ...v, position: posB, updatedAt: stamp } : v)),
+      })))
+      .commit();
+  }),
+}));
+
+// Merge writes made in other tabs and on other devices
+onTableChange('saved_views', (changes) =>
+  useSavedViewStore.setState((s) => ({ views: sortViews(mergeLive(s.views, changes)) })));
+
+// Undo and redo bring back a view's old slug, which another view may have taken since
+onRestore('saved_views', async (row, userId) => {
+  if (row['deleted_at'] || !userId) return row;
+  const views = await db.savedViews.forUser(userId).toArray();
+  const id = row['id'] as string;
+  if (!views.some((v) => v.id !== id && v.slug === row['slug'])) return row;
+  return { ...row, slug: uniqueSlug(row['name'] as string, views, id) };
+});
@@ -0,0 +1,27 @@
+import { create } from 'zustand';
+import { getPendingMigrations, type Migration } from '../core/schema';
+
+interface SchemaState {
+  /** Migrations the database is missing; empty when up to date or not checked. */
+  pending: Migration[];
+  checked: boolean;
+  check: () => Promise<void>;
+}
+
+export const useSchemaStore = create<SchemaState>((set) => ({
+  pending: [],
+  checked: false,
+
+  check: async () => {
+    try {
+      const pending = await getPendingMigrations();
+      set({ pending, checked: true });
+      if (pending.length > 0) {
+        console.warn(`[Schema] Database is missing ${pending.length} migration(s); an admin needs to apply them.`);
+      }
+    } catch (err) {
+      // Offline or Supabase unreachable; try again next start
+      console.warn('[Schema] Could not check the database version:', err);
+    }
+  },
+}));
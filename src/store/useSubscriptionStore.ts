@@ -1,5 +1,7 @@
 import { create } from 'zustand';
 import { db } from '../core/db';
+import { onTableChange, mergeLive } from '../core/live';
+import { undoable } from '../core/history';
 import type { Subscription } from '../core/types';
 import { newId, now } from '../core/types';
 import { getCurrentUserId } from '../auth/useAuthStore';
@@ -13,7 +15,7 @@ interface SubscriptionState {
   remove: (id: string) => Promise<void>;
 }
 
-export const useSubscriptionStore = create<SubscriptionState>((set) => ({
+export const useSubscriptionStore = create<SubscriptionState>((set, get) => ({
   subscriptions: [],
   loading: false,
 
@@ -29,22 +31,27 @@ export const useSubscriptionStore = create<SubscriptionState>((set) => ({
     }
   },
 
-  add: async (data) => {
+  add: undoable('Subscription added', async (rec, data) => {
     const userId = getCurrentUserId();
     const sub: Subscription = { id: newId(), createdAt: now(), updatedAt: now(), ...data };
-    await db.subscriptions.forUser(userId).add(sub);
+    await db.subscriptions.forUser(userId, rec).add(sub);
     set((s) => ({ subscriptions: [...s.subscriptions, sub] }));
     return sub;
-  },
+  }),
 
-  update: async (id, data) => {
+  update: undoable('Subscription updated', async (rec, id, data) => {
     const updated = { ...data, updatedAt: now() };
-    await db.subscriptions.forUser(getCurrentUserId()).update(id, updated);
+    const version = get().subscriptions.find((s) => s.id === id)?.updatedAt;
+    await db.subscriptions.forUser(getCurrentUserId(), rec).update(id, updated, version);
     set((s) => ({ subscriptions: s.subscriptions.map((sub) => (sub.id === id ? { ...sub, ...updated } : sub)) }));
-  },
+  }),
 
-  remove: async (id) => {
-    await db.subscriptions.forUser(getCurrentUserId()).update(id, { deletedAt: now(), updatedAt: now() });
+  remove: undoable('Subscription deleted', async (rec, id) => {
+    await db.subscriptions.forUser(getCurrentUserId(), rec).update(id, { deletedAt: now(), updatedAt: now() });
     set((s) => ({ subscriptions: s.subscriptions.filter((sub) => sub.id !== id) }));
-  },
+  }),
 }));
+
+// Merge writes made in other tabs and on other devices
+onTableChange('subscriptions', (changes) =>
+  useSubscriptionStore.setState((s) => ({ subscriptions: mergeLive(s.subscriptions, changes).sort((a, b) => a.nextBillingDate.localeCompare(b.nextBillingDate)) })));
@@ -0,0 +1,19 @@
+import { create } from 'zustand';
+
+/** `local`: cloud sync is turned off in Settings. */
+export type SyncStatus = 'synced' | 'syncing' | 'offline' | 'error' | 'local';
+
+interface SyncState {
+  status: SyncStatus;
+  /** Writes recorded locally but not yet accepted by Supabase. */
+  pending: number;
+  lastSyncedAt: string | null;
+  lastError: string | null;
+}
+
+export const useSyncStore = create<SyncState>(() => ({
+  status: typeof navigator !== 'undefined' && !navigator.onLine ? 'offline' : 'synced',
+  pending: 0,
+  lastSyncedAt: null,
+  lastError: null,
+}));
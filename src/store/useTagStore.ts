@@ -0,0 +1,141 @@
+import { create } from 'zustand';
+import { db } from '../core/db';
+import { onTableChange, mergeLive } from '../core/live';
+import { undoable, type Recording } from '../core/history';
+import type { SavedView, Tag, Transaction } from '../core/types';
+import { newId, now } from '../core/types';
+import { retag } from '../core/tags';
+import { renameTagTerms } from '../core/search';
+import { getCurrentUserId } from '../auth/useAuthStore';
+import { useTransactionStore } from './useTransactionStore';
+import { useSavedViewStore } from './useSavedViewStore';
+
+export type TagDetails = Partial<Pick<Tag, 'color' | 'description'>>;
+
+function sortTags(tags: Tag[]): Tag[] {
+  return tags.slice().sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Tags are typed as a comma-separated list, so a comma would split the name
+function checkName(op: string, name: string): string {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error(`[DB] tags.${op}: a tag needs a name`);
+  if (trimmed.includes(',')) throw new Error(`[DB] tags.${op}: a tag name can't contain a comma`);
+  return trimmed;
+}
+
+interface TagState {
+  /** Tags that have been given a colour or description. */
+  tags: Tag[];
+  loading: boolean;
+  load: () => Promise<void>;
+  /** Set the colour and description of `name`, whether or not it has any yet. */
+  describe: (name: string, details: TagDetails) => Promise<void>;
+  /**
+   * Rename `from` to `to` on every transaction, trashed ones included, and
+   * in saved views' tag filters and search queries. If `to` is already a
+   * tag the two become one. Resolves to the number of transactions rewritten.
+   */
+  rename: (from: string, to: string) => Promise<number>;
+  /** Fold each of `sources` into `into`, as one undoable change. */
+  merge: (sources: string[], into: string) => Promise<number>;
+}
+
+export const useTagStore = create<TagState>((set, get) => {
+  // One rename, written through `rec` so a merge of several undoes as one change
+  async function renameTag(rec: Recording, from: string, to: string): Promise<number> {
+    const name = checkName('rename', to);
+    if (name === from) return 0;
+    const userId = getCurrentUserId();
+    const txnTable = db.transactions.forUser(userId, rec);
+    const viewTable = db.savedViews.forUser(userId, rec);
+    const tagTable = db.tags.forUser(userId, rec);
+    const stamp = now();
+    const batch = db.batch(rec);
+
+    // Read from storage rather than the stores: trashed rows and views that
+    // haven't been loaded carry the tag too
+    const txns = [...await txnTable.toArray(), ...await txnTable.trashed().toArray()];
+    const retagged = new Map<string, Transaction>();
+    for (const t of txns) {
+      const changes = retag(t, from, name);
+      if (!changes) continue;
+      batch.update(txnTable, t.id, { ...changes, updatedAt: stamp }, t.updatedAt);
+      retagged.set(t.id, { ...t, ...changes, updatedAt: stamp });
+    }
+
+    const views = new Map<string, SavedView>();
+    for (const v of await viewTable.toArray()) {
+      const search = renameTagTerms(v.filters.search, from, name);
+      if (!v.filters.tags.includes(from) && search === v.filters.search) continue;
+      const filters = { ...v.filters, search, tags: [...new Set(v.filters.tags.map((tag) => (tag === from ? name : tag)))] };
+      batch.update(viewTable, v.id, { filters, updatedAt: stamp }, v.updatedAt);
+      views.set(v.id, { ...v, filters, updatedAt: stamp });
+    }
+
+    // The registry keeps one row per name; the target's own colour wins a merge
+    const registry = await tagTable.toArray();
+    const source = registry.find((t) => t.name === from);
+    const target = registry.find((t) => t.name === name);
+    let tags = registry;
+    if (source && target) {
+      const details = { color: target.color ?? source.color, description: target.description ?? source.description, updatedAt: stamp };
+      batch.update(tagTable, target.id, details, target.updatedAt).remove(tagTable, source.id);
+      tags = registry.flatMap((t) => (t.id === source.id ? [] : t.id === target.id ? [{ ...t, ...details }] : [t]));
+    } else if (source) {
+      batch.update(tagTable, source.id, { name, updatedAt: stamp }, source.updatedAt);
+      tags = registry.map((t) => (t.id === source.id ? { ...t, name, updatedAt: stamp } : t));
+    }
+
+    await batch
+      .onCommit(() => {
+        useTransactionStore.setState((s) => ({ transactions: s.transactions.map((t) => retagged.get(t.id) ?? t) }));
+        useSavedViewStore.setState((s) => ({ views: s.views.map((v) => views.get(v.id) ?? v) }));
+        set({ tags: sortTags(tags) });
+      })
+      .commit();
+    return retagged.size;
+  }
+
+  return {
+    tags: [],
+    loading: false,
+
+    load: async () => {
+      set({ loading: true });
+      try {
+        const tags = await db.tags.forUser(getCurrentUserId()).toArray();
+        set({ tags: sortTags(tags), loading: false });
+      } catch {
+        set({ loading: false });
+      }
+    },
+
+    describe: undoable((_, [name]) => `Tag “${name}” updated`, async (rec, name, details) => {
+      const table = db.tags.forUser(getCurrentUserId(), rec);
+      const existing = get().tags.find((t) => t.name === name);
+      const changes = { color: details.color || undefined, description: details.description?.trim() || undefined };
+      if (existing) {
+        const updated = { ...changes, updatedAt: now() };
+        await table.update(existing.id, updated, existing.updatedAt);
+        set((s) => ({ tags: s.tags.map((t) => (t.id === existing.id ? { ...t, ...updated } : t)) }));
+      } else {
+        const tag: Tag = { id: newId(), createdAt: now(), updatedAt: now(), name: checkName('add', name), ...changes };
+        await table.add(tag);
+        set((s) => ({ tags: sortTags([...s.tags, tag]) }));
+      }
+    }),
+
+    rename: undoable((_, [from, to]) => `Tag “${from}” renamed to “${to.trim()}”`, renameTag),
+
+    merge: undoable((_, [sources, into]) => `${sources.length} tags merged into “${into.trim()}”`, async (rec, sources, into) => {
+      let count = 0;
+      for (const from of sources) count += await renameTag(rec, from, into);
+      return count;
+    }),
+  };
+});
+
+// Merge writes made in other tabs and on other devices
+onTableChange('tags', (changes) =>
+  useTagStore.setState((s) => ({ tags: sortTags(mergeLive(s.tags, changes)) })));
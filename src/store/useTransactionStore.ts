@@ -1,8 +1,13 @@
 import { create } from 'zustand';
-import { db } from '../core/db';
+import { db, type WriteBatch } from '../core/db';
+import { onTableChange, mergeLive } from '../core/live';
+import { undoable } from '../core/history';
 import type { Transaction, PartialPayment } from '../core/types';
 import { newId, now, isScheduled } from '../core/types';
+import { droppedAttachments, retireFiles } from '../core/attachments';
 import { getCurrentUserId } from '../auth/useAuthStore';
+import { useGoalStore } from './useGoalStore';
+import { useCreditCardStore } from './useCreditCardStore';
 
 function sortTransactions(txns: Transaction[]): Transaction[] {
   return txns.slice().sort((a, b) => {
@@ -15,16 +20,86 @@ function sortTransactions(txns: Transaction[]): Transaction[] {
   });
 }
 
+// Split lines have to account for the whole amount
+function checkSplits(op: string, t: Pick<Transaction, 'amountMinorUnits' | 'splits'>): void {
+  if (!t.splits?.length) return;
+  const total = t.splits.reduce((sum, line) => sum + line.amountMinorUnits, 0);
+  if (total !== t.amountMinorUnits) {
+    throw new Error(`[DB] transactions.${op}: split lines add up to ${total}, not ${t.amountMinorUnits}`);
+  }
+}
+
+/** Only transfers carry a received amount or fee, and a received amount needs its currency. */
+function checkTransfer(op: string, t: Pick<Transaction, 'type' | 'toAmountMinorUnits' | 'toCurrency' | 'feeMinorUnits'>): void {
+  if (t.type !== 'transfer' && (t.toAmountMinorUnits != null || t.feeMinorUnits)) {
+    throw new Error(`[DB] transactions.${op}: only transfers have a received amount or fee`);
+  }
+  if (t.toAmountMinorUnits != null && !t.toCurrency) {
+    throw new Error(`[DB] transactions.${op}: received amount has no currency`);
+  }
+}
+
+/** Fields that settle a scheduled transaction as of today. */
+function completion(): Partial<Transaction> {
+  return {
+    status: 'completed',
+    paymentTiming: 'instant',
+    date: new Date().toISOString().split('T')[0],
+    completedAt: now(),
+    hasFixedScheduleDate: undefined,
+    updatedAt: now(),
+  };
+}
+
+/**
+ * Apply `changes[i]` to each row in `before` as a versioned update,
+ * atomically with the goal allocations that deleting or restoring
+ * goal-linked rows reverses. A row edited elsewhere since it was loaded
+ * fails the whole batch and goes to conflict resolution.
+ */
+async function updateRows(before: Transaction[], changes: Partial<Transaction>[], batch: WriteBatch): Promise<void> {
+  const goals = useGoalStore.getState();
+  const table = db.transactions.forUser(getCurrentUserId());
+  for (const [i, prev] of before.entries()) {
+    batch.update(table, prev.id, changes[i], prev.updatedAt);
+    const next = { ...prev, ...changes[i] };
+    if (prev.allocationType !== 'goal' || !prev.linkedGoalId || !prev.deletedAt === !next.deletedAt) continue;
+    if (next.deletedAt) await goals.deallocateAmount(prev.linkedGoalId, prev.amountMinorUnits, batch);
+    else await goals.allocateAmount(prev.linkedGoalId, prev.amountMinorUnits, batch);
+  }
+  await batch.commit();
+}
+
 interface TransactionState {
   transactions: Transaction[];
   loading: boolean;
   load: () => Promise<void>;
+  /** Insert a transaction together with its linked goal allocation or card spend, atomically. */
   add: (data: Omit<Transaction, 'id' | 'createdAt' | 'updatedAt'>) => Promise<Transaction>;
   update: (id: string, data: Partial<Transaction>) => Promise<void>;
+  /** Soft-delete a transaction and reverse its goal allocation, atomically. */
   remove: (id: string) => Promise<void>;
   markCompleted: (id: string) => Promise<void>;
+  /**
+   * Apply `change` to each of `ids` in one write; rows it returns null for
+   * are left alone. Resolves to the number of rows changed; `label` names
+   * the edit in the undo history. If any row was edited elsewhere since it
+   * loaded, nothing is written and that row goes to conflict resolution.
+   */
+  bulkUpdate: (ids: string[], change: (t: Transaction) => Partial<Transaction> | null, label: string) => Promise<number>;
+  /** Soft-delete `ids` in one write, reversing their goal allocations. */
+  bulkRemove: (ids: string[]) => Promise<number>;
+  /** Settle every scheduled transaction among `ids` as of today. */
+  bulkMarkCompleted: (ids: string[]) => Promise<number>;
   markFullReceived: (id: string) => Promise<void>;
   addPartialPayment: (id: string, amountMinorUnits: number, notes?: string, paymentMethod?: string, linkedAccountId?: string, recordedAt?: string) => Promise<void>;
+  /**
+   * Fold the duplicate `dropId` into `keepId`: tags, attachments and any
+   * notes or merchant `keepId` lacks move over, then `dropId` is deleted.
+   */
+  mergeDuplicates: (keepId: string, dropId: string) => Promise<void>;
+  /** Record that two transactions flagged as duplicates are separate purchases. */
+  dismissDuplicate: (id: string, otherId: string) => Promise<void>;
 }
 
 export const useTransactionStore = create<TransactionState>((set, get) => ({
@@ -42,50 +117,110 @@ export const useTransactionStore = create<TransactionState>((set, get) => ({
     }
   },
 
-  add: async (data) => {
+  add: undoable('Transaction added', async (rec, data) => {
     const userId = getCurrentUserId();
     const txn: Transaction = { id: newId(), createdAt: now(), updatedAt: now(), ...data };
-    await db.transactions.forUser(userId).add(txn);
-    set((s) => ({
+    checkSplits('add', txn);
+    checkTransfer('add', txn);
+    const batch = db.batch(rec);
+    batch.add(db.transactions.forUser(userId, rec), txn).onCommit(() => set((s) => ({
       transactions: sortTransactions([txn, ...s.transactions]),
-    }));
+    })));
+    if (txn.allocationType === 'goal' && txn.linkedGoalId) {
+      await useGoalStore.getState().allocateAmount(txn.linkedGoalId, txn.amountMinorUnits, batch);
+    }
+    // For card-linked spend, linkedGoalId holds the credit card id
+    if (txn.allocationType === 'credit_card' && txn.linkedGoalId && txn.type === 'expense') {
+      const card = useCreditCardStore.getState().cards.find((c) => c.id === txn.linkedGoalId);
+      if (card) {
+        await useCreditCardStore.getState().addTransaction(card.id, {
+          merchant: txn.notes || txn.category || 'Expense',
+          category: txn.category,
+          amountMinorUnits: txn.amountMinorUnits,
+          currency: card.currency,
+          date: txn.date,
+          notes: txn.notes,
+        }, batch);
+      }
+    }
+    await batch.commit();
     return txn;
-  },
+  }),
 
-  update: async (id, data) => {
+  update: undoable('Transaction updated', async (rec, id, data) => {
     const userId = getCurrentUserId();
     const updated = { ...data, updatedAt: now() };
-    await db.transactions.forUser(userId).update(id, updated);
+    const existing = get().transactions.find((t) => t.id === id);
+    if (existing) {
+      checkSplits('update', { ...existing, ...updated });
+      checkTransfer('update', { ...existing, ...updated });
+    }
+    const version = existing?.updatedAt;
+    await db.transactions.forUser(userId, rec).update(id, updated, version);
     set((s) => ({
       transactions: sortTransactions(s.transactions.map((t) => (t.id === id ? { ...t, ...updated } : t))),
     }));
-  },
+    // Kept until undo can no longer bring them back
+    if (data.attachments) retireFiles(userId, droppedAttachments(existing?.attachments, data.attachments).map((a) => a.path));
+  }),
 
-  remove: async (id) => {
+  remove: undoable('Transaction deleted', async (rec, id) => {
     const userId = getCurrentUserId();
-    await db.transactions.forUser(userId).remove(id);
-    set((s) => ({ transactions: s.transactions.filter((t) => t.id !== id) }));
-  },
+    const txn = get().transactions.find((t) => t.id === id);
+    const batch = db.batch(rec);
+    batch.remove(db.transactions.forUser(userId, rec), id).onCommit(() => set((s) => ({
+      transactions: s.transactions.filter((t) => t.id !== id),
+    })));
+    if (txn?.allocationType === 'goal' && txn.linkedGoalId) {
+      await useGoalStore.getState().deallocateAmount(txn.linkedGoalId, txn.amountMinorUnits, batch);
+    }
+    await batch.commit();
+  }),
 
-  markCompleted: async (id) => {
+  markCompleted: undoable('Transaction completed', async (rec, id) => {
     const userId = getCurrentUserId();
-    const today = new Date().toISOString().split('T')[0];
-    const completedAt = now();
-    const changes = {
-      status: 'completed' as const,
-      paymentTiming: 'instant' as const,
-      date: today,
-      completedAt,
-      hasFixedScheduleDate: undefined,
-      updatedAt: now(),
-    };
-    await db.transactions.forUser(userId).update(id, changes);
+    const changes = completion();
+    await db.transactions.forUser(userId, rec).update(id, changes);
     set((s) => ({
       transactions: sortTransactions(s.transactions.map((t) => (t.id === id ? { ...t, ...changes } : t))),
     }));
-  },
+  }),
+
+  bulkUpdate: undoable((n, [, , label]) => `${label}: ${n} transaction${n === 1 ? '' : 's'}`, async (rec, ids, change) => {
+    const wanted = new Set(ids);
+    const before: Transaction[] = [];
+    const changes: Partial<Transaction>[] = [];
+    const after: Transaction[] = [];
+    for (const t of get().transactions) {
+      if (!wanted.has(t.id)) continue;
+      const changed = change(t);
+      if (!changed) continue;
+      const next = { ...t, ...changed, updatedAt: now() };
+      checkSplits('update', next);
+      checkTransfer('update', next);
+      before.push(t);
+      changes.push({ ...changed, updatedAt: next.updatedAt });
+      after.push(next);
+    }
+    if (after.length === 0) return 0;
+
+    await updateRows(before, changes, db.batch(rec).onCommit(() => set((s) => {
+      const byId = new Map(after.map((t) => [t.id, t]));
+      return {
+        transactions: sortTransactions(s.transactions.flatMap((t) => {
+          const next = byId.get(t.id);
+          return !next ? [t] : next.deletedAt ? [] : [next];
+        })),
+      };
+    })));
+    return after.length;
+  }),
+
+  bulkRemove: (ids) => get().bulkUpdate(ids, () => ({ deletedAt: now() }), 'Delete'),
 
-  markFullReceived: async (id) => {
+  bulkMarkCompleted: (ids) => get().bulkUpdate(ids, (t) => (isScheduled(t) ? completion() : null), 'Mark completed'),
+
+  markFullReceived: undoable('Income received in full', async (rec, id) => {
     const userId = getCurrentUserId();
     const txn = get().transactions.find((t) => t.id === id);
     if (!txn || txn.status === 'completed') return; // already done, no-op
@@ -107,7 +242,7 @@ export const useTransactionStore = create<TransactionState>((set, get) => ({
       transactions: sortTransactions(s.transactions.map((t) => (t.id === id ? { ...t, ...changes } : t))),
     }));
     try {
-      await db.transactions.forUser(userId).update(id, changes);
+      await db.transactions.forUser(userId, rec).update(id, changes);
     } catch (err) {
       // Revert optimistic update on failure
       if (original) {
@@ -117,9 +252,9 @@ export const useTransactionStore = create<TransactionState>((set, get) => ({
       }
       throw err;
     }
-  },
+  }),
 
-  addPartialPayment: async (id, amountMinorUnits, notes, paymentMethod, linkedAccountId, recordedAt) => {
+  addPartialPayment: undoable('Part payment recorded', async (rec, id, amountMinorUnits, notes, paymentMethod, linkedAccountId, recordedAt) => {
     const userId = getCurrentUserId();
     const txn = get().transactions.find((t) => t.id === id);
     if (!txn || txn.status === 'completed') return; // already fully received, no-op
@@ -159,7 +294,7 @@ export const useTransactionStore = create<TransactionState>((set, get) => ({
       transactions: sortTransactions(s.transactions.map((t) => (t.id === id ? { ...t, ...changes } : t))),
     }));
     try {
-      await db.transactions.forUser(userId).update(id, changes);
+      await db.transactions.forUser(userId, rec).update(id, changes);
     } catch (err) {
       // Revert optimistic update on failure
       set((s) => ({
@@ -167,5 +302,44 @@ export const useTransactionStore = create<TransactionState>((set, get) => ({
       }));
       throw err;
     }
-  },
+  }),
+
+  mergeDuplicates: undoable('Duplicates merged', async (rec, keepId, dropId) => {
+    const userId = getCurrentUserId();
+    const keep = get().transactions.find((t) => t.id === keepId);
+    const drop = get().transactions.find((t) => t.id === dropId);
+    if (!keep || !drop) throw new Error('[DB] transactions.merge: transaction not found');
+    const attachments = [...(keep.attachments ?? []), ...droppedAttachments(drop.attachments, keep.attachments)];
+    const changes: Partial<Transaction> = {
+      tags: [...new Set([...keep.tags, ...drop.tags])],
+      merchant: keep.merchant || drop.merchant,
+      notes: keep.notes || drop.notes,
+      attachments,
+      updatedAt: now(),
+    };
+    const table = db.transactions.forUser(userId, rec);
+    const batch = db.batch(rec)
+      .update(table, keepId, changes, keep.updatedAt)
+      // The files now belong to `keepId`; purging the trashed copy mustn't delete them
+      .update(table, dropId, { attachments: [], deletedAt: changes.updatedAt, updatedAt: changes.updatedAt }, drop.updatedAt)
+      .onCommit(() => set((s) => ({
+        transactions: s.transactions.flatMap((t) => (t.id === dropId ? [] : t.id === keepId ? [{ ...t, ...changes }] : [t])),
+      })));
+    if (drop.allocationType === 'goal' && drop.linkedGoalId) {
+      await useGoalStore.getState().deallocateAmount(drop.linkedGoalId, drop.amountMinorUnits, batch);
+    }
+    await batch.commit();
+  }),
+
+  dismissDuplicate: undoable('Marked as not duplicates', async (rec, id, otherId) => {
+    const txn = get().transactions.find((t) => t.id === id);
+    if (!txn) return;
+    const changes = { notDuplicateOf: [...new Set([...(txn.notDuplicateOf ?? []), otherId])], updatedAt: now() };
+    await db.transactions.forUser(getCurrentUserId(), rec).update(id, changes, txn.updatedAt);
+    set((s) => ({ transactions: s.transactions.map((t) => (t.id === id ? { ...t, ...changes } : t)) }));
+  }),
 }));
+
+// Merge writes made in other tabs and on other devices
+onTableChange('transactions', (changes) =>
+  useTransactionStore.setState((s) => ({ transactions: sortTransactions(mergeLive(s.transactions, changes)) })));
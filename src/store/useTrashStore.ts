@@ -0,0 +1,149 @@
+import { create } from 'zustand';
+import { subDays } from 'date-fns';
+import { db, type UserScopedTable } from '../core/db';
+import { notifyChanges } from '../core/live';
+import { undoable } from '../core/history';
+import { toDb } from '../core/supabase';
+import type { Budget, CreditCard, FinancialGoal, Loan, Subscription, Transaction } from '../core/types';
+import { formatCurrency, now } from '../core/types';
+import { retireFiles, sweepRetiredFiles } from '../core/attachments';
+import { getCurrentUserId } from '../auth/useAuthStore';
+import { useGoalStore } from './useGoalStore';
+import { useUIStore } from './useUIStore';
+
+export type TrashTable = 'transactions' | 'loans' | 'credit_cards' | 'goals' | 'budgets' | 'subscriptions';
+
+type TrashEntity = Transaction | Loan | CreditCard | FinancialGoal | Budget | Subscription;
+
+export interface TrashItem {
+  table: TrashTable;
+  id: string;
+  label: string;
+  detail: string;
+  deletedAt: string;
+  entity: TrashEntity;
+}
+
+interface TrashSource {
+  table(): UserScopedTable<TrashEntity>;
+  describe(entity: TrashEntity): { label: string; detail: string };
+}
+
+/** Everything that can sit in the trash, with how to describe it. */
+const SOURCES: Record<TrashTable, TrashSource> = {
+  transactions: {
+    table: () => db.transactions.forUser(getCurrentUserId()),
+    describe: (t: Transaction) => ({
+      label: t.notes || t.merchant || t.category,
+      detail: `${t.type === 'income' ? 'Income' : t.type === 'expense' ? 'Expense' : 'Transfer'} · ${formatCurrency(t.amountMinorUnits, t.currency)}`,
+    }),
+  },
+  loans: {
+    table: () => db.loans.forUser(getCurrentUserId()),
+    describe: (l: Loan) => ({ label: l.counterparty, detail: `Loan · ${formatCurrency(l.principalMinorUnits, l.currency)}` }),
+  },
+  credit_cards: {
+    table: () => db.creditCards.forUser(getCurrentUserId()),
+    describe: (c: CreditCard) => ({ label: c.name, detail: `Credit card · •••• ${c.last4}` }),
+  },
+  goals: {
+    table: () => db.goals.forUser(getCurrentUserId()),
+    describe: (g: FinancialGoal) => ({ label: g.name, detail: `Goal · ${formatCurrency(g.targetMinorUnits, g.currency)}` }),
+  },
+  budgets: {
+    table: () => db.budgets.forUser(getCurrentUserId()),
+    describe: (b: Budget) => ({ label: b.name, detail: `Budget · ${b.category}` }),
+  },
+  subscriptions: {
+    table: () => db.subscriptions.forUser(getCurrentUserId()),
+    describe: (s: Subscription) => ({ label: s.name, detail: `Subscription · ${formatCurrency(s.amountMinorUnits, s.currency)}` }),
+  },
+};
+
+const TRASH_TABLES = Object.keys(SOURCES) as TrashTable[];
+
+/** Delete purged transactions' files unless a merged row or an undo step still uses them. */
+function sweepFiles(paths: string[]): void {
+  const userId = getCurrentUserId();
+  retireFiles(userId, paths);
+  sweepRetiredFiles(userId).catch((err) => console.warn('[Files] Could not delete purged attachments:', err));
+}
+
+async function loadTable(table: TrashTable): Promise<TrashItem[]> {
+  const source = SOURCES[table];
+  const rows = await source.table().trashed().toArray();
+  return rows.map((entity) => ({ table, id: entity.id, deletedAt: entity.deletedAt!, entity, ...source.describe(entity) }));
+}
+
+interface TrashState {
+  items: TrashItem[];
+  loading: boolean;
+  load: () => Promise<void>;
+  /** Undo the delete, reapplying side effects the delete reversed (goal allocations). */
+  restore: (item: TrashItem) => Promise<void>;
+  /** Delete permanently. */
+  purge: (items: TrashItem[]) => Promise<void>;
+}
+
+export const useTrashStore = create<TrashState>((set) => ({
+  items: [],
+  loading: false,
+
+  load: async () => {
+    set({ loading: true });
+    try {
+      const items = (await Promise.all(TRASH_TABLES.map(loadTable))).flat();
+      items.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+      set({ items, loading: false });
+    } catch {
+      set({ loading: false });
+    }
+  },
+
+  restore: undoable((_, [item]) => `“${item.label}” restored`, async (rec, item) => {
+    const restored = { ...item.entity, deletedAt: undefined, updatedAt: now() };
+    const batch = db.batch(rec);
+    batch.update(SOURCES[item.table].table(), item.id, { deletedAt: undefined, updatedAt: restored.updatedAt });
+    if (item.table === 'transactions') {
+      const txn = item.entity as Transaction;
+      if (txn.allocationType === 'goal' && txn.linkedGoalId) {
+        await useGoalStore.getState().allocateAmount(txn.linkedGoalId, txn.amountMinorUnits, batch);
+      }
+    }
+    await batch.commit();
+    set((s) => ({ items: s.items.filter((i) => i !== item) }));
+    // Put the record back into its store as if it had just arrived
+    notifyChanges(item.table, [{ kind: 'upsert', row: toDb(restored), partial: false }]);
+  }),
+
+  purge: async (items) => {
+    const batch = db.batch();
+    for (const table of TRASH_TABLES) {
+      const ids = items.filter((i) => i.table === table).map((i) => i.id);
+      if (ids.length > 0) batch.purge(SOURCES[table].table(), ids);
+    }
+    // Attachment files go with their transactions
+    const files = items.flatMap((i) => (i.table === 'transactions' ? (i.entity as Transaction).attachments ?? [] : []));
+    batch.onCommit(() => sweepFiles(files.map((a) => a.path)));
+    await batch.commit();
+    set((s) => ({ items: s.items.filter((i) => !items.includes(i)) }));
+  },
+}));
+
+/** Permanently delete items that have been in the trash longer than the retention setting. */
+export async function purgeExpiredTrash(): Promise<void> {
+  const days = useUIStore.getState().trashRetentionDays;
+  if (days <= 0) return;
+  const cutoff = subDays(new Date(), days).toISOString();
+  const batch = db.batch();
+  for (const table of TRASH_TABLES) {
+    const source = SOURCES[table].table();
+    const expired = await source.trashed().lt('deletedAt', cutoff).toArray();
+    if (expired.length > 0) batch.purge(source, expired.map((e) => e.id));
+    if (table === 'transactions') {
+      const files = (expired as Transaction[]).flatMap((t) => t.attachments ?? []);
+      batch.onCommit(() => sweepFiles(files.map((a) => a.path)));
+    }
+  }
+  await batch.commit();
+}
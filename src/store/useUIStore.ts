@@ -1,24 +1,45 @@
 import { create } from 'zustand';
+import { useShallow } from 'zustand/react/shallow';
+import type { UserSettings } from '../core/types';
+import { DEFAULT_LOCALE_PREFS, setLocalePrefs, type LocalePrefs } from '../core/locale';
 
 type Theme = 'dark' | 'light' | 'system';
 
-interface UIState {
+interface UIState extends LocalePrefs {
   theme: Theme;
   currency: string;
   defaultAccountId: string | null;
   sidebarOpen: boolean;
   showAccountBreakdown: boolean;
+  /** Days a deleted item stays in the trash before it is purged; 0 keeps it forever. */
+  trashRetentionDays: number;
+  /** Off keeps every record on this device; see core/sync.ts. */
+  cloudEnabled: UserSettings['cloudEnabled'];
+  encryptedSync: UserSettings['encryptedSync'];
   setTheme: (t: Theme) => void;
   setCurrency: (c: string) => void;
   setDefaultAccountId: (id: string | null) => void;
   toggleSidebar: () => void;
   setSidebarOpen: (open: boolean) => void;
   setShowAccountBreakdown: (v: boolean) => void;
+  setTrashRetentionDays: (days: number) => void;
+  setCloudEnabled: (v: boolean) => void;
+  setEncryptedSync: (v: boolean) => void;
+  setLocale: (locale: string) => void;
+  setWeekStartsOn: (day: LocalePrefs['weekStartsOn']) => void;
+  setDateOrder: (order: LocalePrefs['dateOrder']) => void;
+  setNumberGrouping: (grouping: LocalePrefs['numberGrouping']) => void;
 }
 
 const SETTINGS_KEY = 'pl_settings';
 
-function loadSettings(): { theme: Theme; currency: string; defaultAccountId: string | null; showAccountBreakdown: boolean } {
+type Settings = Pick<
+  UIState,
+  'theme' | 'currency' | 'defaultAccountId' | 'showAccountBreakdown' | 'trashRetentionDays' | 'cloudEnabled' | 'encryptedSync'
+  | keyof LocalePrefs
+>;
+
+function loadSettings(): Settings {
   try {
     const raw = localStorage.getItem(SETTINGS_KEY);
     if (raw) {
@@ -27,70 +48,136 @@ function loadSettings(): { theme: Theme; currency: string; defaultAccountId: str
         currency: string;
         defaultAccountId?: string | null;
         showAccountBreakdown?: boolean;
-      };
+        trashRetentionDays?: number;
+        cloudEnabled?: boolean;
+        encryptedSync?: boolean;
+      } & Partial<LocalePrefs>;
       return {
         theme: parsed.theme,
         currency: parsed.currency,
         defaultAccountId: parsed.defaultAccountId ?? null,
         showAccountBreakdown: parsed.showAccountBreakdown ?? false,
+        trashRetentionDays: parsed.trashRetentionDays ?? 30,
+        cloudEnabled: parsed.cloudEnabled ?? true,
+        encryptedSync: parsed.encryptedSync ?? false,
+        locale: parsed.locale ?? DEFAULT_LOCALE_PREFS.locale,
+        weekStartsOn: parsed.weekStartsOn ?? DEFAULT_LOCALE_PREFS.weekStartsOn,
+        dateOrder: parsed.dateOrder ?? DEFAULT_LOCALE_PREFS.dateOrder,
+        numberGrouping: parsed.numberGrouping ?? DEFAULT_LOCALE_PREFS.numberGrouping,
       };
     }
   } catch {
     // ignore
   }
-  return { theme: 'dark', currency: 'GBP', defaultAccountId: null, showAccountBreakdown: false };
+  return {
+    theme: 'dark',
+    currency: 'GBP',
+    defaultAccountId: null,
+    showAccountBreakdown: false,
+    trashRetentionDays: 30,
+    cloudEnabled: true,
+    encryptedSync: false,
+    ...DEFAULT_LOCALE_PREFS,
+  };
 }
 
-function saveSettings(
-  theme: Theme,
-  currency: string,
-  defaultAccountId: string | null,
-  showAccountBreakdown: boolean,
-) {
+function saveSettings({
+  theme, currency, defaultAccountId, showAccountBreakdown, trashRetentionDays, cloudEnabled, encryptedSync,
+  locale, weekStartsOn, dateOrder, numberGrouping,
+}: Settings) {
   localStorage.setItem(
     SETTINGS_KEY,
-    JSON.stringify({ theme, currency, defaultAccountId, showAccountBreakdown }),
+    JSON.stringify({
+      theme, currency, defaultAccountId, showAccountBreakdown, trashRetentionDays, cloudEnabled, encryptedSync,
+      locale, weekStartsOn, dateOrder, numberGrouping,
+    }),
   );
 }
 
+// Formatters read these outside React (see core/locale.ts), so they are
+// handed over before components re-render
+function applyLocale({ locale, weekStartsOn, dateOrder, numberGrouping }: LocalePrefs): void {
+  setLocalePrefs({ locale, weekStartsOn, dateOrder, numberGrouping });
+}
+
 const initial = loadSettings();
+applyLocale(initial);
 
 export const useUIStore = create<UIState>((set, get) => ({
-  theme: initial.theme,
-  currency: initial.currency,
-  defaultAccountId: initial.defaultAccountId,
+  ...initial,
   sidebarOpen: false,
-  showAccountBreakdown: initial.showAccountBreakdown,
 
   setTheme: (theme) => {
     set({ theme });
-    const { currency, defaultAccountId, showAccountBreakdown } = get();
-    saveSettings(theme, currency, defaultAccountId, showAccountBreakdown);
+    saveSettings(get());
     applyTheme(theme);
   },
 
   setCurrency: (currency) => {
     set({ currency });
-    const { theme, defaultAccountId, showAccountBreakdown } = get();
-    saveSettings(theme, currency, defaultAccountId, showAccountBreakdown);
+    saveSettings(get());
   },
 
   setDefaultAccountId: (defaultAccountId) => {
     set({ defaultAccountId });
-    const { theme, currency, showAccountBreakdown } = get();
-    saveSettings(theme, currency, defaultAccountId, showAccountBreakdown);
+    saveSettings(get());
   },
 
   setShowAccountBreakdown: (showAccountBreakdown) => {
     set({ showAccountBreakdown });
-    const { theme, currency, defaultAccountId } = get();
-    saveSettings(theme, currency, defaultAccountId, showAccountBreakdown);
+    saveSettings(get());
+  },
+
+  setTrashRetentionDays: (trashRetentionDays) => {
+    set({ trashRetentionDays });
+    saveSettings(get());
+  },
+
+  setCloudEnabled: (cloudEnabled) => {
+    set({ cloudEnabled });
+    saveSettings(get());
+  },
+
+  setEncryptedSync: (encryptedSync) => {
+    set({ encryptedSync });
+    saveSettings(get());
+  },
+
+  setLocale: (locale) => {
+    applyLocale({ ...get(), locale });
+    set({ locale });
+    saveSettings(get());
+  },
+
+  setWeekStartsOn: (weekStartsOn) => {
+    applyLocale({ ...get(), weekStartsOn });
+    set({ weekStartsOn });
+    saveSettings(get());
+  },
+
+  setDateOrder: (dateOrder) => {
+    applyLocale({ ...get(), dateOrder });
+    set({ dateOrder });
+    saveSettings(get());
+  },
+
+  setNumberGrouping: (numberGrouping) => {
+    applyLocale({ ...get(), numberGrouping });
+    set({ numberGrouping });
+    saveSettings(get());
   },
 
   toggleSidebar: () => set((s) => ({ sidebarOpen: !s.sidebarOpen })),
   setSidebarOpen: (open) => set({ sidebarOpen: open }),
 }));
 
+/** The locale preferences; components re-render when they change. */
+export function useLocalePrefs(): LocalePrefs {
+  return useUIStore(useShallow(({ locale, weekStartsOn, dateOrder, numberGrouping }) => ({
+    locale, weekStartsOn, dateOrder, numberGrouping,
+  })));
+}
+
 export function applyTheme(theme: Theme): void {
   const root = document.documentElement;
   if (theme === 'system') {
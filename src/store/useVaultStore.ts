@@ -0,0 +1,82 @@
+import { create } from 'zustand';
+import {
+  vaultStatus,
+  checkVault,
+  unlockVault,
+  enableVault,
+  rotateVaultKey,
+  disableVault,
+  lockVault,
+  type VaultStatus,
+} from '../core/vault';
+import { cloudMode, flushOutbox } from '../core/sync';
+import { compactChangesets } from '../core/changesets';
+import { accountSettingsShared, fetchAccountSettings } from '../core/accountSettings';
+import { getCurrentUserId } from '../auth/useAuthStore';
+
+interface VaultState {
+  status: VaultStatus;
+  /** True while existing rows are being re-encrypted. */
+  busy: boolean;
+  /** Re-read the status, e.g. after sign-in or when a sealed value could not be opened. */
+  refresh: () => void;
+  /** Look up whether the account has the vault on; retried when the browser comes back online. */
+  check: () => Promise<void>;
+  unlock: (passphrase: string) => Promise<void>;
+  enable: (passphrase: string) => Promise<void>;
+  changePassphrase: (passphrase: string) => Promise<void>;
+  disable: () => Promise<void>;
+  lock: () => void;
+}
+
+export const useVaultStore = create<VaultState>((set, get) => {
+  // Runs a passphrase operation and leaves the status current, even on failure
+  async function run(fn: () => Promise<void>): Promise<void> {
+    set({ busy: true });
+    try {
+      await fn();
+    } finally {
+      set({ busy: false });
+      get().refresh();
+    }
+  }
+
+  return {
+    status: 'checking',
+    busy: false,
+
+    refresh: () => set({ status: vaultStatus() }),
+    check: async () => {
+      try {
+        await checkVault();
+      } catch (err) {
+        console.warn('[Vault] Could not check whether the vault is on:', err);
+        window.addEventListener('online', () => void get().check(), { once: true });
+      }
+      get().refresh();
+    },
+    unlock: (passphrase) => run(() => unlockVault(passphrase)),
+    enable: (passphrase) => run(() => enableVault(passphrase)),
+    changePassphrase: (passphrase) => run(async () => {
+      await rotateVaultKey(passphrase);
+      // Older change-sets are sealed with the old key; replace them with one
+      // under the new key so devices that join later need only the new passphrase
+      if (cloudMode() === 'encrypted') {
+        await flushOutbox();
+        await compactChangesets(getCurrentUserId());
+      }
+    }),
+    disable: () => run(async () => {
+      // The account may have switched on another device that this one hasn't followed yet
+      const encrypted = cloudMode() === 'encrypted'
+        || (accountSettingsShared() && (await fetchAccountSettings(getCurrentUserId()))?.syncMode === 'encrypted');
+      if (encrypted) throw new Error('[Vault] Turn off end-to-end encrypted sync first');
+      await disableVault();
+    }),
+
+    lock: () => {
+      lockVault();
+      get().refresh();
+    },
+  };
+});
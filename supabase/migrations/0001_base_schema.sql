@@ -1,8 +1,33 @@
 -- ============================================================
--- Finance App – Supabase PostgreSQL Schema
--- Run this in the Supabase SQL Editor (Dashboard → SQL Editor)
+-- 0001 – Base schema
+-- Migration tracking plus the core finance tables.
 -- ============================================================
 
+BEGIN;
+
+-- ── Migration tracking ───────────────────────────────────────────────────────
+-- Every migration records itself here; the app compares this table with the
+-- list it was built against (src/core/schema.ts) to spot a database that is
+-- behind.
+CREATE TABLE IF NOT EXISTS schema_migrations (
+  version    INTEGER PRIMARY KEY,
+  name       TEXT NOT NULL,
+  applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE schema_migrations ENABLE ROW LEVEL SECURITY;
+
+-- ── RPC: get_applied_migrations ──────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION get_applied_migrations()
+RETURNS INTEGER[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(version ORDER BY version), '{}') FROM schema_migrations;
+$$;
+
 -- ── Accounts ──────────────────────────────────────────────
 CREATE TABLE IF NOT EXISTS accounts (
   id              TEXT PRIMARY KEY,
@@ -167,6 +192,15 @@ ALTER TABLE goals           ENABLE ROW LEVEL SECURITY;
 ALTER TABLE recurring_rules ENABLE ROW LEVEL SECURITY;
 ALTER TABLE credit_cards    ENABLE ROW LEVEL SECURITY;
 
+DROP POLICY IF EXISTS "anon_all" ON accounts;
+DROP POLICY IF EXISTS "anon_all" ON transactions;
+DROP POLICY IF EXISTS "anon_all" ON loans;
+DROP POLICY IF EXISTS "anon_all" ON subscriptions;
+DROP POLICY IF EXISTS "anon_all" ON budgets;
+DROP POLICY IF EXISTS "anon_all" ON goals;
+DROP POLICY IF EXISTS "anon_all" ON recurring_rules;
+DROP POLICY IF EXISTS "anon_all" ON credit_cards;
+
 CREATE POLICY "anon_all" ON accounts        FOR ALL TO anon USING (true) WITH CHECK (true);
 CREATE POLICY "anon_all" ON transactions    FOR ALL TO anon USING (true) WITH CHECK (true);
 CREATE POLICY "anon_all" ON loans           FOR ALL TO anon USING (true) WITH CHECK (true);
@@ -176,10 +210,7 @@ CREATE POLICY "anon_all" ON goals           FOR ALL TO anon USING (true) WITH CH
 CREATE POLICY "anon_all" ON recurring_rules FOR ALL TO anon USING (true) WITH CHECK (true);
 CREATE POLICY "anon_all" ON credit_cards    FOR ALL TO anon USING (true) WITH CHECK (true);
 
--- ── Migrations (run if upgrading an existing DB) ───────────────────────────
-ALTER TABLE transactions ADD COLUMN IF NOT EXISTS received_at TEXT;
-ALTER TABLE transactions ADD COLUMN IF NOT EXISTS received_amount_minor_units BIGINT;
-ALTER TABLE transactions ADD COLUMN IF NOT EXISTS partial_payments JSONB NOT NULL DEFAULT '[]';
-ALTER TABLE transactions ADD COLUMN IF NOT EXISTS allocation_type TEXT;
-ALTER TABLE transactions ADD COLUMN IF NOT EXISTS linked_goal_id TEXT;
-ALTER TABLE transactions ADD COLUMN IF NOT EXISTS linked_entity_name TEXT;
+INSERT INTO schema_migrations (version, name) VALUES (1, 'base_schema')
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
@@ -0,0 +1,19 @@
+-- ============================================================
+-- 0002 – Transaction settlement columns
+-- Partial receipts and goal / credit card allocation on transactions.
+-- ============================================================
+
+BEGIN;
+
+-- ── Transaction settlement and allocation columns ─────────────────────────
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS received_at TEXT;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS received_amount_minor_units BIGINT;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS partial_payments JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS allocation_type TEXT;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS linked_goal_id TEXT;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS linked_entity_name TEXT;
+
+INSERT INTO schema_migrations (version, name) VALUES (2, 'transaction_settlement_columns')
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
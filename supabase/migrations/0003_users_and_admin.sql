@@ -1,8 +1,10 @@
 -- ============================================================
--- Finance App – Admin Schema
--- Run this in the Supabase SQL Editor AFTER the base schema.
+-- 0003 – Users, sessions and admin RPCs
+-- Username/password login, per-user data and the admin portal.
 -- ============================================================
 
+BEGIN;
+
 -- ── Extensions ────────────────────────────────────────────────────────────────
 CREATE EXTENSION IF NOT EXISTS pgcrypto;
 
@@ -710,3 +712,8 @@ $$;
 --   FALSE
 -- )
 -- ON CONFLICT (username) DO NOTHING;
+
+INSERT INTO schema_migrations (version, name) VALUES (3, 'users_and_admin')
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
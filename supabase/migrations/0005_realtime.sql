@@ -0,0 +1,27 @@
+-- ============================================================
+-- 0005 – Realtime
+-- Live row updates for the app's stores.
+-- ============================================================
+
+BEGIN;
+
+-- ── Realtime ────────────────────────────────────────────────────────────────
+-- Publish row changes so open tabs and other devices update live.
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['accounts', 'transactions', 'loans', 'subscriptions',
+                                 'budgets', 'goals', 'recurring_rules', 'credit_cards'] LOOP
+    IF NOT EXISTS (SELECT 1 FROM pg_publication_tables
+                   WHERE pubname = 'supabase_realtime' AND tablename = v_table) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE %I', v_table);
+    END IF;
+  END LOOP;
+END
+$$;
+
+INSERT INTO schema_migrations (version, name) VALUES (5, 'realtime')
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
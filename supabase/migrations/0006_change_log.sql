@@ -0,0 +1,87 @@
+-- ============================================================
+-- 0006 – Change log
+-- Field-level history of every add / update / remove.
+-- ============================================================
+
+BEGIN;
+
+-- ── Change Log ─────────────────────────────────────────────
+-- One row per add / update / remove made through the app. 'changes' maps
+-- each column that moved to { "from": old, "to": new }.
+CREATE TABLE IF NOT EXISTS change_log (
+  id         TEXT PRIMARY KEY,
+  user_id    TEXT,
+  table_name TEXT NOT NULL,
+  row_id     TEXT NOT NULL,
+  action     TEXT NOT NULL,
+  changes    JSONB NOT NULL DEFAULT '{}',
+  actor_id   TEXT,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS change_log_row_idx ON change_log (table_name, row_id);
+
+ALTER TABLE change_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "anon_all" ON change_log;
+CREATE POLICY "anon_all" ON change_log FOR ALL TO anon USING (true) WITH CHECK (true);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication_tables
+                 WHERE pubname = 'supabase_realtime' AND tablename = 'change_log') THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE change_log;
+  END IF;
+END
+$$;
+
+-- ── RPC: admin_get_user_history ────────────────────────────────────────────────
+-- Field-level change log of one user's data.
+CREATE OR REPLACE FUNCTION admin_get_user_history(
+  p_admin_token TEXT,
+  p_user_id     TEXT,
+  p_limit       INT DEFAULT 200
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_admin users;
+BEGIN
+  v_admin := _resolve_session(p_admin_token);
+
+  IF v_admin IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Invalid or expired session');
+  END IF;
+
+  IF v_admin.role <> 'admin' THEN
+    RETURN json_build_object('success', false, 'error', 'Admin privileges required');
+  END IF;
+
+  RETURN (
+    SELECT COALESCE(json_agg(row_to_json(q)), '[]'::json)
+    FROM (
+      SELECT
+        c.id,
+        c.table_name,
+        c.row_id,
+        c.action,
+        c.changes,
+        c.actor_id,
+        c.created_at,
+        (SELECT username FROM users WHERE id = c.actor_id) AS actor_username
+      FROM change_log c
+      WHERE c.user_id = p_user_id
+      ORDER BY c.created_at DESC
+      LIMIT p_limit
+    ) q
+  );
+END;
+$$;
+
+INSERT INTO schema_migrations (version, name) VALUES (6, 'change_log')
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
@@ -0,0 +1,112 @@
+-- ============================================================
+-- 0007 – Session-enforced row level security
+-- Finance tables only expose the rows of the user whose session
+-- token comes with the request, replacing the open anon policies.
+-- ============================================================
+
+BEGIN;
+
+-- ── Helper: user behind the request's session token ─────────────────────────
+-- The app sends its session token in the x-session-token header on every
+-- request (src/core/supabase.ts); PostgREST makes the headers available as
+-- request.headers. NULL without a live session, so the policies below deny.
+CREATE OR REPLACE FUNCTION _session_user_id()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT u.id
+  FROM user_sessions s
+  JOIN users u ON u.id = s.user_id
+  WHERE s.session_token = NULLIF(current_setting('request.headers', true), '')::JSON->>'x-session-token'
+    AND s.revoked_at IS NULL
+    AND (s.expires_at IS NULL OR s.expires_at > NOW())
+    AND u.status = 'active';
+$$;
+
+-- ── Row Level Security ──────────────────────────────────────────────────────
+-- Rows are readable and writable only by their owner. Rows without a
+-- user_id (from before 0003) are no longer visible to anyone but admins.
+-- The sub-select makes Postgres resolve the session once per statement.
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['accounts', 'transactions', 'loans', 'subscriptions',
+                                 'budgets', 'goals', 'recurring_rules', 'credit_cards',
+                                 'change_log'] LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "anon_all" ON %I', v_table);
+    EXECUTE format('DROP POLICY IF EXISTS "own_rows" ON %I', v_table);
+    EXECUTE format(
+      'CREATE POLICY "own_rows" ON %I FOR ALL TO anon '
+      'USING (user_id = (SELECT _session_user_id())) '
+      'WITH CHECK (user_id = (SELECT _session_user_id()))',
+      v_table
+    );
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I (user_id)', v_table || '_user_idx', v_table);
+  END LOOP;
+END
+$$;
+
+-- ── Realtime ────────────────────────────────────────────────────────────────
+-- Realtime checks row access without the request headers, so under these
+-- policies postgres_changes would deliver nothing. Instead each change is
+-- announced on the owner's broadcast topic as { table, id } only; the app
+-- then fetches the row itself, through the policies above.
+CREATE OR REPLACE FUNCTION _broadcast_row_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id      TEXT;
+  v_user_id TEXT;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_id := OLD.id;
+    v_user_id := OLD.user_id;
+  ELSE
+    v_id := NEW.id;
+    v_user_id := NEW.user_id;
+  END IF;
+
+  IF v_user_id IS NOT NULL THEN
+    PERFORM realtime.send(
+      jsonb_build_object('table', TG_TABLE_NAME, 'id', v_id),
+      'row_changed',
+      'rows:' || v_user_id,
+      false
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['accounts', 'transactions', 'loans', 'subscriptions',
+                                 'budgets', 'goals', 'recurring_rules', 'credit_cards',
+                                 'change_log'] LOOP
+    IF EXISTS (SELECT 1 FROM pg_publication_tables
+               WHERE pubname = 'supabase_realtime' AND tablename = v_table) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime DROP TABLE %I', v_table);
+    END IF;
+    EXECUTE format('DROP TRIGGER IF EXISTS broadcast_row_change ON %I', v_table);
+    EXECUTE format(
+      'CREATE TRIGGER broadcast_row_change AFTER INSERT OR UPDATE OR DELETE ON %I '
+      'FOR EACH ROW EXECUTE FUNCTION _broadcast_row_change()',
+      v_table
+    );
+  END LOOP;
+END
+$$;
+
+INSERT INTO schema_migrations (version, name) VALUES (7, 'session_rls')
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
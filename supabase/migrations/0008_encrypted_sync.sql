@@ -0,0 +1,40 @@
+-- ============================================================
+-- 0008 – End-to-end encrypted sync
+-- Devices with encrypted sync on keep no rows in the finance
+-- tables; they exchange change-sets sealed in the browser with
+-- the private-vault key (src/core/changesets.ts).
+-- ============================================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS sync_changesets (
+  id          TEXT PRIMARY KEY,
+  user_id     TEXT NOT NULL,
+  device_id   TEXT NOT NULL,
+  -- Upload order; devices download everything after the last seq they saw
+  seq         BIGINT GENERATED ALWAYS AS IDENTITY UNIQUE,
+  -- vault:v1:<keyId>:<base64>, opaque to the server
+  payload     TEXT NOT NULL,
+  created_at  TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS sync_changesets_user_seq_idx ON sync_changesets (user_id, seq);
+
+-- ── Row Level Security ──────────────────────────────────────────────────────
+ALTER TABLE sync_changesets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "own_rows" ON sync_changesets;
+CREATE POLICY "own_rows" ON sync_changesets FOR ALL TO anon
+  USING (user_id = (SELECT _session_user_id()))
+  WITH CHECK (user_id = (SELECT _session_user_id()));
+
+-- ── Realtime ────────────────────────────────────────────────────────────────
+-- Announced like the finance tables (0007), so other devices pull at once
+DROP TRIGGER IF EXISTS broadcast_row_change ON sync_changesets;
+CREATE TRIGGER broadcast_row_change AFTER INSERT ON sync_changesets
+  FOR EACH ROW EXECUTE FUNCTION _broadcast_row_change();
+
+INSERT INTO schema_migrations (version, name) VALUES (8, 'encrypted_sync')
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
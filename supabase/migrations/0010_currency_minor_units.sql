@@ -0,0 +1,97 @@
+-- ============================================================
+-- 0010 – Currency minor units
+-- Amounts used to be stored in hundredths whatever the currency.
+-- They now follow each currency's ISO 4217 minor unit (yen have
+-- none, dinars have thousandths), so amounts in those currencies
+-- are rescaled once. Budgets gain a currency; the client fills it
+-- in and rescales their limit, since only it knows the base
+-- currency a budget was entered in.
+--
+-- Apply before deploying the client that expects it: amounts an
+-- older client writes afterwards are read at the new scale.
+-- ============================================================
+
+BEGIN;
+
+ALTER TABLE budgets ADD COLUMN IF NOT EXISTS currency TEXT;
+
+-- ── Rescaling helpers (dropped with the session) ──────────────────────────
+CREATE OR REPLACE FUNCTION pg_temp.exponent(code TEXT) RETURNS INT
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT CASE
+    WHEN code IN ('BIF', 'CLP', 'DJF', 'GNF', 'ISK', 'JPY', 'KMF', 'KRW', 'PYG',
+                  'RWF', 'UGX', 'UYI', 'VND', 'VUV', 'XAF', 'XOF', 'XPF') THEN 0
+    WHEN code IN ('BHD', 'IQD', 'JOD', 'KWD', 'LYD', 'OMR', 'TND') THEN 3
+    WHEN code IN ('CLF', 'UYW') THEN 4
+    ELSE 2
+  END
+$$;
+
+-- A legacy amount (hundredths) in minor units of `code`
+CREATE OR REPLACE FUNCTION pg_temp.rescale(amount NUMERIC, code TEXT) RETURNS BIGINT
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT ROUND(amount * POWER(10::NUMERIC, pg_temp.exponent(code) - 2))::BIGINT
+$$;
+
+-- The same for `field` of each element of a JSON array; elements that
+-- carry their own currency are rescaled in it
+CREATE OR REPLACE FUNCTION pg_temp.rescale_items(items JSONB, field TEXT, code TEXT) RETURNS JSONB
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT COALESCE(jsonb_agg(
+    CASE WHEN jsonb_typeof(item -> field) = 'number'
+      THEN item || jsonb_build_object(field, pg_temp.rescale((item ->> field)::NUMERIC, COALESCE(item ->> 'currency', code)))
+      ELSE item
+    END ORDER BY ord), '[]'::JSONB)
+  FROM jsonb_array_elements(items) WITH ORDINALITY AS elements(item, ord)
+$$;
+
+-- ── Rescale, once even if this file is run again ──────────────────────────
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM schema_migrations WHERE version = 10) THEN
+    RETURN;
+  END IF;
+
+  UPDATE transactions SET
+    amount_minor_units          = pg_temp.rescale(amount_minor_units, currency),
+    received_amount_minor_units = pg_temp.rescale(received_amount_minor_units, currency),
+    partial_payments            = pg_temp.rescale_items(partial_payments, 'amountMinorUnits', currency)
+  WHERE pg_temp.exponent(currency) <> 2;
+
+  UPDATE loans SET
+    principal_minor_units = pg_temp.rescale(principal_minor_units, currency),
+    remaining_minor_units = pg_temp.rescale(remaining_minor_units, currency),
+    payments              = pg_temp.rescale_items(payments, 'amount', currency)
+  WHERE pg_temp.exponent(currency) <> 2;
+
+  UPDATE subscriptions SET
+    amount_minor_units = pg_temp.rescale(amount_minor_units, currency)
+  WHERE pg_temp.exponent(currency) <> 2;
+
+  UPDATE goals SET
+    target_minor_units  = pg_temp.rescale(target_minor_units, currency),
+    current_minor_units = pg_temp.rescale(current_minor_units, currency)
+  WHERE pg_temp.exponent(currency) <> 2;
+
+  UPDATE recurring_rules SET
+    template_amount_minor_units = pg_temp.rescale(template_amount_minor_units, template_currency)
+  WHERE pg_temp.exponent(template_currency) <> 2;
+
+  UPDATE credit_cards SET
+    limit_minor_units       = pg_temp.rescale(limit_minor_units, currency),
+    balance_minor_units     = pg_temp.rescale(balance_minor_units, currency),
+    min_payment_minor_units = pg_temp.rescale(min_payment_minor_units, currency),
+    cashback_minor_units    = pg_temp.rescale(cashback_minor_units, currency),
+    transactions            = pg_temp.rescale_items(transactions, 'amountMinorUnits', currency)
+  WHERE pg_temp.exponent(currency) <> 2
+     OR EXISTS (
+       SELECT 1 FROM jsonb_array_elements(transactions) AS spend(item)
+       WHERE pg_temp.exponent(COALESCE(item ->> 'currency', currency)) <> 2
+     );
+END
+$$;
+
+INSERT INTO schema_migrations (version, name) VALUES (10, 'currency_minor_units')
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
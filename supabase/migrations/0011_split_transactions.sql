@@ -0,0 +1,15 @@
+-- ============================================================
+-- 0011 – Split transactions
+-- Split lines divide a transaction's amount across categories, each
+-- with its own tags and notes. Reports count the lines rather than
+-- the parent's category.
+-- ============================================================
+
+BEGIN;
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS splits JSONB NOT NULL DEFAULT '[]';
+
+INSERT INTO schema_migrations (version, name) VALUES (11, 'split_transactions')
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
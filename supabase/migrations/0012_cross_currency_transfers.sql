@@ -0,0 +1,18 @@
+-- ============================================================
+-- 0012 – Cross-currency transfers
+-- A transfer records what left the source account and what reached
+-- the destination, each in its own account's currency, plus an
+-- optional fee charged to the source. Rows without the new columns
+-- are same-currency transfers.
+-- ============================================================
+
+BEGIN;
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS to_amount_minor_units BIGINT;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS to_currency TEXT;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS fee_minor_units BIGINT;
+
+INSERT INTO schema_migrations (version, name) VALUES (12, 'cross_currency_transfers')
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
@@ -0,0 +1,127 @@
+-- ============================================================
+-- 0013 – Saved views
+-- Named filter, sort and grouping presets for the transactions
+-- page, optionally pinned as tabs and opened by slug from a URL.
+-- ============================================================
+
+BEGIN;
+
+-- ── Saved Views ────────────────────────────────────────────
+-- `filters` holds the page's filter state as JSON; `slug` is the
+-- ?view= key and is unique among a user's live views.
+CREATE TABLE IF NOT EXISTS saved_views (
+  id          TEXT PRIMARY KEY,
+  user_id     TEXT NOT NULL,
+  name        TEXT NOT NULL,
+  slug        TEXT NOT NULL,
+  filters     JSONB NOT NULL DEFAULT '{}'::jsonb,
+  sort        TEXT NOT NULL DEFAULT 'date_desc'
+                CHECK (sort IN ('date_desc', 'date_asc', 'amount_desc', 'amount_asc')),
+  grouping    TEXT NOT NULL DEFAULT 'day'
+                CHECK (grouping IN ('day', 'month', 'category', 'none')),
+  pinned      BOOLEAN NOT NULL DEFAULT FALSE,
+  position    INTEGER NOT NULL DEFAULT 0,
+  created_at  TEXT NOT NULL,
+  updated_at  TEXT NOT NULL,
+  deleted_at  TEXT
+);
+
+CREATE INDEX IF NOT EXISTS saved_views_user_idx ON saved_views (user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS saved_views_slug_idx ON saved_views (user_id, slug)
+  WHERE deleted_at IS NULL;
+
+ALTER TABLE saved_views ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "own_rows" ON saved_views;
+CREATE POLICY "own_rows" ON saved_views FOR ALL TO anon
+  USING (user_id = (SELECT _session_user_id()))
+  WITH CHECK (user_id = (SELECT _session_user_id()));
+
+DROP TRIGGER IF EXISTS broadcast_row_change ON saved_views;
+CREATE TRIGGER broadcast_row_change AFTER INSERT OR UPDATE OR DELETE ON saved_views
+  FOR EACH ROW EXECUTE FUNCTION _broadcast_row_change();
+
+-- ── RPC: apply_write_batch ──────────────────────────────────────────────────
+-- As in 0009, with saved_views added to the tables a batch may write.
+CREATE OR REPLACE FUNCTION apply_write_batch(p_ops JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_op    JSONB;
+  v_row   JSONB;
+  v_table TEXT;
+  v_cols  TEXT;
+  v_sets  TEXT;
+  v_count INTEGER;
+BEGIN
+  FOR v_op IN SELECT * FROM jsonb_array_elements(p_ops) LOOP
+    v_table := v_op->>'table';
+    IF v_table NOT IN ('accounts', 'transactions', 'loans', 'subscriptions',
+                       'budgets', 'goals', 'recurring_rules', 'credit_cards',
+                       'fx_rates', 'saved_views', 'change_log') THEN
+      RAISE EXCEPTION 'apply_write_batch: unknown table %', v_table;
+    END IF;
+
+    CASE v_op->>'kind'
+      WHEN 'insert', 'upsert' THEN
+        FOR v_row IN SELECT * FROM jsonb_array_elements(v_op->'rows') LOOP
+          SELECT string_agg(quote_ident(k), ', '),
+                 string_agg(format('%1$I = EXCLUDED.%1$I', k), ', ')
+            INTO v_cols, v_sets
+            FROM jsonb_object_keys(v_row) AS k;
+          EXECUTE format(
+            'INSERT INTO %I (%s) SELECT %s FROM jsonb_populate_record(NULL::%I, $1)',
+            v_table, v_cols, v_cols, v_table
+          ) || CASE WHEN v_op->>'kind' = 'upsert'
+                    THEN format(' ON CONFLICT (id) DO UPDATE SET %s', v_sets)
+                    ELSE '' END
+          USING v_row;
+        END LOOP;
+
+      WHEN 'update' THEN
+        SELECT string_agg(format('%1$I = r.%1$I', k), ', ')
+          INTO v_sets
+          FROM jsonb_object_keys(v_op->'changes') AS k;
+        IF v_sets IS NOT NULL THEN
+          EXECUTE format(
+            'UPDATE %I t SET %s FROM jsonb_populate_record(NULL::%I, $1) r
+              WHERE t.id = $2 AND ($3::TEXT IS NULL OR t.user_id = $3)
+                AND ($4::TEXT IS NULL OR t.updated_at = $4)',
+            v_table, v_sets, v_table
+          ) USING v_op->'changes', v_op->>'id', v_op->>'user_id', v_op->>'if_version';
+          GET DIAGNOSTICS v_count = ROW_COUNT;
+          -- A versioned update that matched nothing either lost a race or
+          -- targets a missing row; only the former aborts the batch.
+          IF v_count = 0 AND v_op->>'if_version' IS NOT NULL THEN
+            EXECUTE format('SELECT count(*) FROM %I WHERE id = $1', v_table)
+              INTO v_count USING v_op->>'id';
+            IF v_count > 0 THEN
+              RAISE EXCEPTION 'version_conflict %/%', v_table, v_op->>'id'
+                USING ERRCODE = 'serialization_failure';
+            END IF;
+          END IF;
+        END IF;
+
+      WHEN 'purge' THEN
+        EXECUTE format(
+          'DELETE FROM %I WHERE id IN (SELECT jsonb_array_elements_text($1))
+             AND ($2::TEXT IS NULL OR user_id = $2)',
+          v_table
+        ) USING v_op->'ids', v_op->>'user_id';
+
+      WHEN 'clear' THEN
+        EXECUTE format('DELETE FROM %I WHERE id <> %L', v_table, '');
+
+      ELSE
+        RAISE EXCEPTION 'apply_write_batch: unknown op %', v_op->>'kind';
+    END CASE;
+  END LOOP;
+END;
+$$;
+
+INSERT INTO schema_migrations (version, name) VALUES (13, 'saved_views')
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
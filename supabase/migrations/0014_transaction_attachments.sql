@@ -0,0 +1,31 @@
+-- ============================================================
+-- 0014 – Transaction attachments
+-- Receipts, invoices and other documents kept against a
+-- transaction. The row lists them in `attachments`; the files go
+-- to the private `attachments` storage bucket under
+-- <user_id>/<file_id>.
+-- ============================================================
+
+BEGIN;
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS attachments JSONB NOT NULL DEFAULT '[]';
+
+-- ── Storage bucket ──────────────────────────────────────────────────────────
+-- Images and PDFs up to 10 MB, matching the checks in the app.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('attachments', 'attachments', FALSE, 10485760,
+        ARRAY['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/heic', 'image/heif', 'application/pdf'])
+ON CONFLICT (id) DO NOTHING;
+
+-- Storage runs these policies with the request headers set, as PostgREST
+-- does, so the session token identifies the owner here too (see 0007).
+-- A file is its owner's when the first path segment is their user id.
+DROP POLICY IF EXISTS "attachments_own_files" ON storage.objects;
+CREATE POLICY "attachments_own_files" ON storage.objects FOR ALL TO anon
+  USING (bucket_id = 'attachments' AND (storage.foldername(name))[1] = (SELECT public._session_user_id()))
+  WITH CHECK (bucket_id = 'attachments' AND (storage.foldername(name))[1] = (SELECT public._session_user_id()));
+
+INSERT INTO schema_migrations (version, name) VALUES (14, 'transaction_attachments')
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
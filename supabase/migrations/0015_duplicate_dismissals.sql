@@ -0,0 +1,16 @@
+-- ============================================================
+-- 0015 – Duplicate dismissals
+-- Transactions that look like the same purchase recorded twice are
+-- flagged for review. When the user says a pair is genuinely two
+-- purchases, one side lists the other's id in `not_duplicate_of`
+-- so the pair isn't flagged again.
+-- ============================================================
+
+BEGIN;
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS not_duplicate_of JSONB NOT NULL DEFAULT '[]';
+
+INSERT INTO schema_migrations (version, name) VALUES (15, 'duplicate_dismissals')
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
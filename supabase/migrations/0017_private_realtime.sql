@@ -0,0 +1,101 @@
+-- ============================================================
+-- 0017 – Private realtime topics
+-- Row changes were announced on a public topic named after the
+-- owner's user id, which anyone with the anon key could join. They
+-- now go out on private topics, one per live session, that realtime
+-- only lets that session's holder join.
+-- ============================================================
+
+BEGIN;
+
+-- ── Helper: a session's topic ───────────────────────────────────────────────
+-- Named after a hash of the session token, so only its holder can work it
+-- out and the token itself never appears in topic names or realtime logs.
+-- The app computes the same name (src/core/live.ts).
+CREATE OR REPLACE FUNCTION _session_topic(p_session_token TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, extensions
+AS $$
+  SELECT 'rows:' || encode(digest(p_session_token, 'sha256'), 'hex');
+$$;
+
+-- ── Helper: whether a topic belongs to a live session ───────────────────────
+-- Realtime checks private topics against the policy below without the
+-- request headers, and anon can't read user_sessions itself.
+CREATE OR REPLACE FUNCTION _is_live_session_topic(p_topic TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM user_sessions s
+    JOIN users u ON u.id = s.user_id
+    WHERE _session_topic(s.session_token) = p_topic
+      AND s.revoked_at IS NULL
+      AND (s.expires_at IS NULL OR s.expires_at > NOW())
+      AND u.status = 'active'
+  );
+$$;
+
+-- ── Realtime ────────────────────────────────────────────────────────────────
+-- Same { table, id } announcement as in 0007, sent privately to each of
+-- the owner's live sessions. A revoked or expired session stops hearing
+-- about changes, as it already can't read the rows.
+CREATE OR REPLACE FUNCTION _broadcast_row_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_id      TEXT;
+  v_user_id TEXT;
+  v_topic   TEXT;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_id := OLD.id;
+    v_user_id := OLD.user_id;
+  ELSE
+    v_id := NEW.id;
+    v_user_id := NEW.user_id;
+  END IF;
+
+  IF v_user_id IS NOT NULL THEN
+    FOR v_topic IN
+      SELECT _session_topic(s.session_token)
+      FROM user_sessions s
+      WHERE s.user_id = v_user_id
+        AND s.revoked_at IS NULL
+        AND (s.expires_at IS NULL OR s.expires_at > NOW())
+    LOOP
+      PERFORM realtime.send(
+        jsonb_build_object('table', TG_TABLE_NAME, 'id', v_id),
+        'row_changed',
+        v_topic,
+        true
+      );
+    END LOOP;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+-- Joining a private topic needs SELECT on its realtime.messages rows
+ALTER TABLE realtime.messages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "own_session_topic" ON realtime.messages;
+CREATE POLICY "own_session_topic" ON realtime.messages FOR SELECT TO anon
+  USING (
+    realtime.messages.extension = 'broadcast'
+    AND _is_live_session_topic(realtime.topic())
+  );
+
+INSERT INTO schema_migrations (version, name) VALUES (17, 'private_realtime')
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
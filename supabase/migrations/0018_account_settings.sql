@@ -0,0 +1,30 @@
+-- ============================================================
+-- 0018 – Account settings
+-- Settings that hold for the whole account rather than one device.
+-- The private vault's key id and passphrase check move here from each
+-- device's local storage, so a device can tell the vault is on before
+-- it writes anything, not only once it meets a sealed value.
+-- ============================================================
+
+BEGIN;
+
+-- `vault_key_id` and `vault_check` are both NULL while the vault is off;
+-- `vault_check` is a fixed text sealed with that key, never the key.
+CREATE TABLE IF NOT EXISTS account_settings (
+  user_id       TEXT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  vault_key_id  TEXT,
+  vault_check   TEXT,
+  updated_at    TEXT NOT NULL
+);
+
+ALTER TABLE account_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "own_rows" ON account_settings;
+CREATE POLICY "own_rows" ON account_settings FOR ALL TO anon
+  USING (user_id = (SELECT _session_user_id()))
+  WITH CHECK (user_id = (SELECT _session_user_id()));
+
+INSERT INTO schema_migrations (version, name) VALUES (18, 'account_settings')
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
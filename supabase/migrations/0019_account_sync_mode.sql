@@ -0,0 +1,19 @@
+-- ============================================================
+-- 0019 – Account sync mode
+-- Whether the account syncs rows or only sealed change-sets was a
+-- setting on each device, so a device left on row sync kept sending
+-- rows in the clear after another one had switched to encrypted sync.
+-- The mode now lives with the account; each device reads it before it
+-- sends or fetches anything and stops while its own mode differs.
+-- ============================================================
+
+BEGIN;
+
+-- NULL until a device first syncs; it then records its own mode
+ALTER TABLE account_settings
+  ADD COLUMN IF NOT EXISTS sync_mode TEXT CHECK (sync_mode IN ('rows', 'encrypted'));
+
+INSERT INTO schema_migrations (version, name) VALUES (19, 'account_sync_mode')
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;